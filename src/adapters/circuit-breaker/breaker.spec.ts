@@ -0,0 +1,171 @@
+/**
+ * @file Tests for provider circuit breakers
+ */
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import { chatCompletion, chatStream, fakeChatClient } from "../../test-utils/fake-chat-client";
+import { withFakeUpstream } from "../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../test-utils/fake-upstream";
+import { createProviderRateLimiter, withRateLimit } from "../rate-limit";
+import { buildRouterClient } from "../router";
+import { circuitOutcomeOf, createCircuitBreaker, getCircuitBreaker } from "./breaker";
+import { CircuitOpenError } from "./errors";
+import { withCircuitBreaker } from "./with-circuit-breaker";
+
+function clock(start = 1_000) {
+  const state = { now: start };
+  return { now: () => state.now, advance: (ms: number) => (state.now += ms) };
+}
+
+const options = { windowMs: 10_000, minimumRequests: 4, failureRateThreshold: 0.5, openMs: 5_000 };
+
+describe("createCircuitBreaker", () => {
+  it("opens once the failure rate in the window reaches the threshold", () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("https://api.example.com", options, time.now);
+    breaker.acquire().release("failure");
+    breaker.acquire().release("failure");
+    breaker.acquire().release("ignored");
+    breaker.acquire().release("success");
+    expect(breaker.status()).toMatchObject({ state: "closed", requests: 3, failures: 2 });
+    breaker.acquire().release("success");
+    expect(breaker.status().state).toBe("open");
+    time.advance(1_000);
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    const error = (() => {
+      try {
+        breaker.acquire();
+        return undefined;
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toMatchObject({ status: 503, code: "circuit_open", retryAfterMs: 4_000, retryAfter: 4 });
+    expect(breaker.status()).toMatchObject({ state: "open", openedAt: 1_000, retryAt: 6_000 });
+  });
+
+  it("forgets failures that left the window", () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("t", options, time.now);
+    breaker.acquire().release("failure");
+    breaker.acquire().release("failure");
+    time.advance(10_000);
+    breaker.acquire().release("failure");
+    breaker.acquire().release("success");
+    expect(breaker.status()).toMatchObject({ state: "closed", requests: 2, failures: 1 });
+  });
+
+  it("lets limited probes through when half-open and closes or reopens on their outcome", () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("t", { ...options, minimumRequests: 1 }, time.now);
+    breaker.acquire().release("failure");
+    time.advance(5_000);
+    const probe = breaker.acquire();
+    expect(breaker.status()).toMatchObject({ state: "half-open", probesInFlight: 1 });
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    probe.release("failure");
+    expect(breaker.status()).toMatchObject({ state: "open", openedAt: 6_000 });
+    time.advance(5_000);
+    breaker.acquire().release("success");
+    expect(breaker.status()).toMatchObject({ state: "closed", requests: 0 });
+  });
+  it("gives the slot of a probe that never reports to another call after probeTimeoutMs", () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("t", { ...options, minimumRequests: 1, probeTimeoutMs: 10_000 }, time.now);
+    breaker.acquire().release("failure");
+    time.advance(5_000);
+    breaker.acquire();
+    time.advance(4_000);
+    expect(() => breaker.acquire()).toThrow(expect.objectContaining({ retryAfterMs: 6_000 }));
+    time.advance(6_000);
+    expect(breaker.status()).toMatchObject({ state: "half-open", probesInFlight: 0 });
+    breaker.acquire().release("success");
+    expect(breaker.status().state).toBe("closed");
+  });
+
+  it("rejects a half-open probe count below one", () => {
+    expect(() => createCircuitBreaker("t", { halfOpenProbes: 0 })).toThrow(/halfOpenProbes/);
+    expect(() => createCircuitBreaker("t", { halfOpenProbes: 1.5 })).toThrow(/halfOpenProbes/);
+  });
+});
+
+describe("circuitOutcomeOf", () => {
+  it("counts outages against the provider and ignores local failures", () => {
+    expect(circuitOutcomeOf(new HttpError(503, "down"))).toBe("failure");
+    expect(circuitOutcomeOf(new TypeError("fetch failed"))).toBe("failure");
+    expect(circuitOutcomeOf(new HttpError(400, "bad request"))).toBe("success");
+    expect(circuitOutcomeOf(new HttpError(429, "slow down"))).toBe("success");
+    expect(circuitOutcomeOf(new DOMException("aborted", "AbortError"))).toBe("ignored");
+    expect(circuitOutcomeOf(new Error("converter bug"))).toBe("ignored");
+  });
+});
+
+describe("withCircuitBreaker", () => {
+  it("takes a probe only once the rate limiter admits the call and frees it when the stream is dropped", async () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("t", { ...options, minimumRequests: 1 }, time.now);
+    breaker.acquire().release("failure");
+    time.advance(5_000);
+    const limiter = createProviderRateLimiter({ maxConcurrentStreams: 1 });
+    const client = withRateLimit(
+      withCircuitBreaker(
+        fakeChatClient(async (params) => (params.stream ? chatStream(["ok"]) : chatCompletion())),
+        breaker,
+      ),
+      limiter,
+    );
+    const stream = (): Promise<AsyncIterable<ChatCompletionChunk>> =>
+      client.chat.completions.create({ model: "m", messages: [{ role: "user", content: "hi" }], stream: true });
+
+    const slot = await limiter.limiterFor("m").acquire({ tokens: () => 0, stream: true });
+    const queued = stream();
+    await Promise.resolve();
+    expect(breaker.status()).toMatchObject({ state: "open", probesInFlight: 0 });
+    slot.release();
+    const unread = await queued;
+    expect(breaker.status()).toMatchObject({ state: "half-open", probesInFlight: 1 });
+    await unread[Symbol.asyncIterator]().return?.();
+    expect(breaker.status()).toMatchObject({ state: "half-open", probesInFlight: 0 });
+    expect(limiter.metrics()["*"]).toMatchObject({ inFlightStreams: 0 });
+    await client.chat.completions.create({ model: "m", messages: [{ role: "user", content: "hi" }] });
+    expect(breaker.status().state).toBe("closed");
+  });
+
+  it("stops calling a failing provider and lets the router fall back at once", async () => {
+    const hits = { down: 0, up: 0 };
+    const upstream: UpstreamHandler = (request) => {
+      if (request.path.startsWith("/down")) {
+        hits.down += 1;
+        return { status: 502, body: { error: { message: "bad gateway" } } };
+      }
+      hits.up += 1;
+      return {
+        body: {
+          id: "c1",
+          object: "chat.completion",
+          created: 0,
+          model: "m",
+          choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+        },
+      };
+    };
+    await withFakeUpstream(upstream, async ({ origin }) => {
+      const primary = {
+        type: "local",
+        baseURL: `${origin}/down/v1`,
+        apiKey: "k",
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { minimumRequests: 2, openMs: 60_000 },
+      };
+      const client = buildRouterClient({
+        providers: [primary, { type: "local", baseURL: `${origin}/up/v1`, apiKey: "k" }],
+      });
+      for (const content of ["a", "b", "c", "d"]) {
+        const result = await client.chat.completions.create({ model: "m", messages: [{ role: "user", content }] });
+        expect(result.choices[0]?.message.content).toBe("ok");
+      }
+      expect(hits).toEqual({ down: 2, up: 4 });
+      expect(getCircuitBreaker(primary)?.status()).toMatchObject({ state: "open", target: `${origin}/down/v1` });
+    });
+  });
+});
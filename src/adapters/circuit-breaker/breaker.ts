@@ -0,0 +1,269 @@
+/**
+ * @file Circuit breaker: stops calling a provider while its recent calls mostly fail, then probes it.
+ * State lives per `CircuitBreakerOptions` object and base URL, so every client built from one
+ * provider configuration sees the same circuit. The breaker guards the client, before an
+ * endpoint pool picks an endpoint, so a pooled provider has one circuit for all its endpoints.
+ */
+import type { CircuitBreakerOptions, Provider } from "../../config/types";
+import { classifyFailure } from "../router/failover";
+import type { FailureClass } from "../router/failover";
+import { CircuitOpenError } from "./errors";
+
+/**
+ * - `closed`: calls go through and their outcomes are counted
+ * - `open`: calls fail with {@link CircuitOpenError} without reaching the provider
+ * - `half-open`: a limited number of probe calls decide whether to close or open again
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * How a call ended: `failure` counts toward opening, `success` against it, and `ignored`
+ * (cancelled, or failed locally) says nothing about the provider.
+ */
+export type CircuitOutcome = "success" | "failure" | "ignored";
+
+export type CircuitPermit = {
+  /** Report the outcome. Only the first call counts. */
+  release(outcome: CircuitOutcome): void;
+};
+
+export type CircuitBreakerStatus = {
+  target: string;
+  state: CircuitState;
+  /** Counted calls in the current window (reset when the circuit closes) */
+  requests: number;
+  failures: number;
+  failureRate: number;
+  probesInFlight: number;
+  /** Epoch ms the circuit opened, while open or half-open */
+  openedAt?: number;
+  /** Epoch ms the circuit starts probing, while open */
+  retryAt?: number;
+};
+
+export type CircuitBreaker = {
+  /** Admit a call, or throw {@link CircuitOpenError} while the circuit is open */
+  acquire(): CircuitPermit;
+  status(): CircuitBreakerStatus;
+  /** Close the circuit and forget the recorded outcomes */
+  reset(): void;
+};
+
+type Sample = { at: number; failed: boolean };
+type Probe = { startedAt: number };
+
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_MINIMUM_REQUESTS = 10;
+const DEFAULT_FAILURE_RATE_THRESHOLD = 0.5;
+const DEFAULT_OPEN_MS = 30_000;
+const DEFAULT_HALF_OPEN_PROBES = 1;
+const DEFAULT_PROBE_TIMEOUT_MS = 60_000;
+
+// Failures that point at the provider being down rather than at the request
+const OUTAGE_FAILURES = new Set<FailureClass>(["network", "timeout", "server", "overloaded"]);
+const IGNORED_FAILURES = new Set<FailureClass>(["aborted", "circuit_open", "unknown"]);
+
+/**
+ * Outcome of a call that threw. Connection failures, timeouts and 5xx count as failures; other
+ * HTTP errors show the provider is answering and count as successes.
+ *
+ * @param error - Thrown value
+ * @returns Outcome to report to the breaker
+ */
+export function circuitOutcomeOf(error: unknown): CircuitOutcome {
+  const failure = classifyFailure(error);
+  if (OUTAGE_FAILURES.has(failure)) {
+    return "failure";
+  }
+  return IGNORED_FAILURES.has(failure) ? "ignored" : "success";
+}
+
+/**
+ * Create a breaker for one target.
+ *
+ * @param target - Base URL (or provider type) the breaker guards; used in errors and status
+ * @param options - Window and thresholds
+ * @param now - Clock, for tests
+ * @returns Breaker admitting or rejecting calls
+ * @throws Error when `halfOpenProbes` is not a whole number of at least 1
+ */
+export function createCircuitBreaker(
+  target: string,
+  options: CircuitBreakerOptions = {},
+  now: () => number = Date.now,
+): CircuitBreaker {
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  const minimumRequests = options.minimumRequests ?? DEFAULT_MINIMUM_REQUESTS;
+  const threshold = options.failureRateThreshold ?? DEFAULT_FAILURE_RATE_THRESHOLD;
+  const openMs = options.openMs ?? DEFAULT_OPEN_MS;
+  const halfOpenProbes = options.halfOpenProbes ?? DEFAULT_HALF_OPEN_PROBES;
+  const probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  if (!Number.isInteger(halfOpenProbes) || halfOpenProbes < 1) {
+    throw new Error(`circuitBreaker.halfOpenProbes must be a whole number of at least 1, got ${halfOpenProbes}`);
+  }
+  const state: { current: CircuitState; samples: Sample[]; openedAt: number; probes: Set<Probe> } = {
+    current: "closed",
+    samples: [],
+    openedAt: 0,
+    probes: new Set(),
+  };
+
+  function prune(): void {
+    const since = now() - windowMs;
+    state.samples = state.samples.filter((sample) => sample.at > since);
+  }
+
+  function failuresIn(samples: Sample[]): number {
+    return samples.filter((sample) => sample.failed).length;
+  }
+
+  function open(): void {
+    state.current = "open";
+    state.openedAt = now();
+    state.probes.clear();
+  }
+
+  function close(): void {
+    state.current = "closed";
+    state.samples = [];
+    state.probes.clear();
+  }
+
+  function recordClosed(outcome: CircuitOutcome): void {
+    if (state.current !== "closed") {
+      // Late results of calls admitted before the circuit opened do not decide anything
+      return;
+    }
+    state.samples.push({ at: now(), failed: outcome === "failure" });
+    prune();
+    const requests = state.samples.length;
+    if (requests >= minimumRequests && failuresIn(state.samples) / requests >= threshold) {
+      open();
+    }
+  }
+
+  function recordProbe(probe: Probe, outcome: CircuitOutcome): void {
+    // Probes that timed out, or started before the circuit last changed, no longer decide anything
+    if (state.current !== "half-open" || !state.probes.delete(probe)) {
+      return;
+    }
+    if (outcome === "success") {
+      close();
+      return;
+    }
+    if (outcome === "failure") {
+      open();
+    }
+  }
+
+  /** Give up on probes running longer than `probeTimeoutMs`; returns ms until the next one times out */
+  function expireProbes(): number {
+    const at = now();
+    for (const probe of state.probes) {
+      if (at - probe.startedAt >= probeTimeoutMs) {
+        state.probes.delete(probe);
+      }
+    }
+    const oldest = Math.min(...[...state.probes].map((probe) => probe.startedAt));
+    return oldest + probeTimeoutMs - at;
+  }
+
+  function permit(probe: Probe | undefined): CircuitPermit {
+    const lease = { released: false };
+    return {
+      release(outcome) {
+        if (lease.released) {
+          return;
+        }
+        lease.released = true;
+        if (probe) {
+          recordProbe(probe, outcome);
+          return;
+        }
+        if (outcome !== "ignored") {
+          recordClosed(outcome);
+        }
+      },
+    };
+  }
+
+  return {
+    acquire() {
+      if (state.current === "open") {
+        const remaining = state.openedAt + openMs - now();
+        if (remaining > 0) {
+          throw new CircuitOpenError(target, remaining);
+        }
+        state.current = "half-open";
+      }
+      if (state.current === "half-open") {
+        const untilProbeTimeout = expireProbes();
+        if (state.probes.size >= halfOpenProbes) {
+          throw new CircuitOpenError(target, untilProbeTimeout);
+        }
+        const probe = { startedAt: now() };
+        state.probes.add(probe);
+        return permit(probe);
+      }
+      return permit(undefined);
+    },
+    status() {
+      prune();
+      if (state.current === "half-open") {
+        expireProbes();
+      }
+      const requests = state.samples.length;
+      const failures = failuresIn(state.samples);
+      const status: CircuitBreakerStatus = {
+        target,
+        state: state.current,
+        requests,
+        failures,
+        failureRate: requests === 0 ? 0 : failures / requests,
+        probesInFlight: state.probes.size,
+      };
+      if (state.current !== "closed") {
+        status.openedAt = state.openedAt;
+      }
+      if (state.current === "open") {
+        status.retryAt = state.openedAt + openMs;
+      }
+      return status;
+    },
+    reset() {
+      close();
+    },
+  };
+}
+
+const breakers = new WeakMap<CircuitBreakerOptions, Map<string, CircuitBreaker>>();
+
+/**
+ * What a provider's breaker guards: its base URL, or its type when it uses the vendor default.
+ * Endpoints of a `pool` are not told apart; the pool rests failing endpoints itself.
+ */
+function targetOf(provider: Provider): string {
+  return provider.baseURL ?? provider.type;
+}
+
+/**
+ * Shared breaker of a provider's base URL, created on first use.
+ *
+ * @param provider - Provider configuration
+ * @returns The breaker, or undefined when the provider has no `circuitBreaker`
+ */
+export function getCircuitBreaker(provider: Provider): CircuitBreaker | undefined {
+  if (!provider.circuitBreaker) {
+    return undefined;
+  }
+  const byTarget = breakers.get(provider.circuitBreaker) ?? new Map<string, CircuitBreaker>();
+  breakers.set(provider.circuitBreaker, byTarget);
+  const target = targetOf(provider);
+  const existing = byTarget.get(target);
+  if (existing) {
+    return existing;
+  }
+  const breaker = createCircuitBreaker(target, provider.circuitBreaker);
+  byTarget.set(target, breaker);
+  return breaker;
+}
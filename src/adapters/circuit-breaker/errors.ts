@@ -0,0 +1,26 @@
+/**
+ * @file Error thrown instead of calling a provider whose circuit is open
+ */
+import { HttpError } from "../../providers/gemini/errors/http-error";
+
+/**
+ * The breaker rejected the call without contacting the provider. Surfaces as a 503 with
+ * `retry-after` set to the time left until the breaker probes again.
+ */
+// eslint-disable-next-line no-restricted-syntax -- typed error so callers and the router can tell it apart
+export class CircuitOpenError extends HttpError {
+  /** Base URL (or provider type) the breaker guards */
+  target: string;
+  /** Milliseconds until calls are let through again, when known */
+  retryAfterMs?: number;
+
+  constructor(target: string, retryAfterMs?: number) {
+    const retryAfter = retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000);
+    super(503, `Circuit open for ${target}; upstream calls are paused`, "circuit_open", retryAfter);
+    this.name = "CircuitOpenError";
+    this.target = target;
+    if (retryAfterMs !== undefined) {
+      this.retryAfterMs = retryAfterMs;
+    }
+  }
+}
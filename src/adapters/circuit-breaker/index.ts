@@ -0,0 +1,8 @@
+/**
+ * @file Public entry for provider circuit breakers.
+ */
+
+export { withCircuitBreaker } from "./with-circuit-breaker";
+export { circuitOutcomeOf, createCircuitBreaker, getCircuitBreaker } from "./breaker";
+export type { CircuitBreaker, CircuitBreakerStatus, CircuitOutcome, CircuitPermit, CircuitState } from "./breaker";
+export { CircuitOpenError } from "./errors";
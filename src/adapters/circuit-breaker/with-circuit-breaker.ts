@@ -0,0 +1,102 @@
+/**
+ * @file Guarding OpenAI-compatible client calls with a provider's circuit breaker
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { observeIteration } from "../../utils/observe-iteration";
+import { circuitOutcomeOf } from "./breaker";
+import type { CircuitBreaker, CircuitPermit } from "./breaker";
+
+type RequestOptions = { signal?: AbortSignal };
+
+/** Report a stream as healthy once it yields an event; errors before that count against the provider */
+function reporting<T>(stream: AsyncIterable<T>, permit: CircuitPermit): AsyncIterable<T> {
+  return observeIteration(stream, {
+    onEvent: () => permit.release("success"),
+    onEnd: (end) => {
+      if (end.reason === "error") {
+        permit.release(circuitOutcomeOf(end.error));
+        return;
+      }
+      // Cancelled before the first event (read or not) says nothing about the provider
+      permit.release(end.reason === "done" ? "success" : "ignored");
+    },
+  });
+}
+
+/** Run `call` if the breaker admits it and report how it ended */
+async function guarded<R>(breaker: CircuitBreaker, stream: boolean, call: () => Promise<R>): Promise<R> {
+  const permit = breaker.acquire();
+  try {
+    const result = await call();
+    if (!stream) {
+      permit.release("success");
+      return result;
+    }
+    return reporting(result as AsyncIterable<unknown>, permit) as R;
+  } catch (error) {
+    permit.release(circuitOutcomeOf(error));
+    throw error;
+  }
+}
+
+/**
+ * Put a circuit breaker in front of every call of a client: Chat Completions, Responses, legacy
+ * completions, embeddings and model listing. While the circuit is open, calls throw
+ * `CircuitOpenError` without reaching the provider.
+ *
+ * @param client - Client whose calls go upstream
+ * @param breaker - Provider breaker; the client is returned unchanged when undefined
+ * @returns Client whose calls are guarded
+ */
+export function withCircuitBreaker(
+  client: OpenAICompatibleClient,
+  breaker: CircuitBreaker | undefined,
+): OpenAICompatibleClient {
+  if (!breaker) {
+    return client;
+  }
+  const { chat, responses, completions, embeddings, models } = client;
+
+  const guardedClient: OpenAICompatibleClient = {
+    ...client,
+    chat: {
+      ...chat,
+      completions: {
+        ...chat.completions,
+        create: defineChatCompletionsCreate((params, options?: RequestOptions) =>
+          guarded(breaker, params.stream === true, () => chat.completions.create(params, options)),
+        ),
+      },
+    },
+    responses: {
+      ...responses,
+      create: defineResponsesCreate((params, options?: RequestOptions) =>
+        guarded(breaker, params.stream === true, () => responses.create(params, options)),
+      ),
+    },
+    models: {
+      ...models,
+      list: () => guarded(breaker, false, () => models.list()),
+    },
+  };
+  if (responses.stream) {
+    const stream = responses.stream;
+    guardedClient.responses.stream = (params, options) => guarded(breaker, true, () => stream(params, options));
+  }
+  if (completions) {
+    guardedClient.completions = {
+      ...completions,
+      create: defineCompletionsCreate((params, options?: RequestOptions) =>
+        guarded(breaker, params.stream === true, () => completions.create(params, options)),
+      ),
+    };
+  }
+  if (embeddings) {
+    guardedClient.embeddings = {
+      ...embeddings,
+      create: (params, options) => guarded(breaker, false, () => embeddings.create(params, options)),
+    };
+  }
+  return guardedClient;
+}
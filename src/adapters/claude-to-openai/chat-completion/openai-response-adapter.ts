@@ -11,6 +11,8 @@ import type {
   ResponseOutputMessage,
   ResponseOutputText,
   ResponseFunctionToolCall,
+  ResponseReasoningItem,
+  ResponseUsage,
   Tool,
 } from "openai/resources/responses/responses";
 import type { Message as ClaudeMessage, MessageStreamEvent } from "@anthropic-ai/sdk/resources/messages";
@@ -29,19 +31,26 @@ import {
   isClaudeTextBlock,
   isClaudeToolUseBlock,
   isClaudeTextDelta,
+  isClaudeThinkingBlock,
+  isClaudeRedactedThinkingBlock,
+  isClaudeThinkingDelta,
+  isClaudeSignatureDelta,
+  isClaudeMessageStart,
+  isClaudeMessageDelta,
   claudeHasUsage,
   claudeHasContentArray,
   isResponseOutputText,
   isResponseOutputMessage,
 } from "../../../providers/claude/guards";
 import { toOpenAICallIdFromClaude } from "../../conversation/id-conversion";
+import { estimateReasoningTokens, thinkingBlockToReasoningItem } from "../thinking";
 
 /**
  * Claude -> OpenAI Responses (non-stream)
  */
 export function claudeToOpenAIResponse(claude: ClaudeMessage, requestModel: string): OpenAIResponse {
-  const { text, items } = extractItemsFromClaude(claude);
-  return buildResponse(items, requestModel, claude, text);
+  const { text, items, thinkingChars } = extractItemsFromClaude(claude);
+  return buildResponse(items, requestModel, claude, text, thinkingChars);
 }
 
 /**
@@ -232,6 +241,13 @@ function extractChatContentFromClaude(msg: ClaudeMessage): {
   return { text: textParts.join(""), toolCalls };
 }
 
+type ReasoningInProgress = {
+  item: ResponseReasoningItem;
+  outputIndex: number;
+  text: string;
+  redacted: boolean;
+};
+
 type StreamProcessorState = {
   createdEmitted: boolean;
   sawText: boolean;
@@ -240,6 +256,10 @@ type StreamProcessorState = {
   accumulatedText: string;
   outputItems: ResponseOutputItem[];
   toolsMap: Map<number, { id: string; name: string; args: string }>;
+  reasoningMap: Map<number, ReasoningInProgress>;
+  thinkingChars: number;
+  inputTokens: number;
+  outputTokens: number;
 };
 
 function createInitialStreamState(): StreamProcessorState {
@@ -251,6 +271,10 @@ function createInitialStreamState(): StreamProcessorState {
     accumulatedText: "",
     outputItems: [],
     toolsMap: new Map(),
+    reasoningMap: new Map(),
+    thinkingChars: 0,
+    inputTokens: 0,
+    outputTokens: 0,
   };
 }
 
@@ -337,6 +361,74 @@ function updateStateForToolStop(
   };
 }
 
+function updateStateForReasoningStart(
+  state: StreamProcessorState,
+  index: number,
+  item: ResponseReasoningItem,
+  redacted: boolean,
+): StreamProcessorState {
+  const newReasoningMap = new Map(state.reasoningMap);
+  newReasoningMap.set(index, { item, outputIndex: state.outputItems.length, text: "", redacted });
+
+  return {
+    ...state,
+    reasoningMap: newReasoningMap,
+    outputItems: [...state.outputItems, item],
+    sequence: state.sequence + 1,
+  };
+}
+
+function updateStateForReasoningDelta(
+  state: StreamProcessorState,
+  index: number,
+  delta: { thinking?: string; signature?: string },
+): StreamProcessorState {
+  const reasoning = state.reasoningMap.get(index);
+  if (!reasoning) {
+    return state;
+  }
+
+  const newReasoningMap = new Map(state.reasoningMap);
+  const thinking = delta.thinking ?? "";
+  const item = appendSignature(reasoning.item, delta.signature);
+  newReasoningMap.set(index, { ...reasoning, item, text: reasoning.text + thinking });
+
+  return {
+    ...state,
+    reasoningMap: newReasoningMap,
+    thinkingChars: state.thinkingChars + thinking.length,
+    sequence: thinking ? state.sequence + 1 : state.sequence,
+  };
+}
+
+function appendSignature(item: ResponseReasoningItem, signature: string | undefined): ResponseReasoningItem {
+  if (!signature) {
+    return item;
+  }
+  return { ...item, encrypted_content: (item.encrypted_content ?? "") + signature };
+}
+
+function updateStateForReasoningStop(state: StreamProcessorState, item: ResponseReasoningItem): StreamProcessorState {
+  const newOutputItems = state.outputItems.map((i) => (i.type === "reasoning" && i.id === item.id ? item : i));
+
+  return {
+    ...state,
+    outputItems: newOutputItems,
+    sequence: state.sequence + 1,
+  };
+}
+
+function updateStateForUsage(
+  state: StreamProcessorState,
+  usage: { input_tokens?: number | null; output_tokens?: number | null },
+): StreamProcessorState {
+  return {
+    ...state,
+    inputTokens: usage.input_tokens ?? state.inputTokens,
+    outputTokens: usage.output_tokens ?? state.outputTokens,
+  };
+}
+
 function updateStateForMessageStop(state: StreamProcessorState): StreamProcessorState {
   if (!state.sawText || !state.textItemId) {
     return { ...state, sequence: state.sequence + 1 };
@@ -365,6 +457,85 @@ function updateStateForMessageStop(state: StreamProcessorState): StreamProcessor
   };
 }
 
+function* startReasoningItem(
+  state: StreamProcessorState,
+  index: number,
+  block: Parameters<typeof thinkingBlockToReasoningItem>[0],
+): Generator<ResponseStreamEvent, void, unknown> {
+  const redacted = isClaudeRedactedThinkingBlock(block);
+  // Thinking text and signature arrive as deltas; redacted blocks are complete at start
+  const item = thinkingBlockToReasoningItem(block, genId("rs"));
+  Object.assign(state, updateStateForReasoningStart(state, index, item, redacted));
+  const outputIndex = state.outputItems.length - 1;
+
+  const added: ResponseStreamEvent = {
+    type: "response.output_item.added",
+    item,
+    output_index: outputIndex,
+    sequence_number: state.sequence,
+  } as const;
+  yield added;
+
+  if (!redacted) {
+    Object.assign(state, { sequence: state.sequence + 1 });
+    const partAdded: ResponseStreamEvent = {
+      type: "response.reasoning_summary_part.added",
+      item_id: item.id,
+      output_index: outputIndex,
+      summary_index: 0,
+      part: { type: "summary_text", text: "" },
+      sequence_number: state.sequence,
+    } as const;
+    yield partAdded;
+  }
+}
+
+function* finishReasoningItem(
+  state: StreamProcessorState,
+  reasoning: ReasoningInProgress,
+): Generator<ResponseStreamEvent, void, unknown> {
+  const { outputIndex, text } = reasoning;
+  const item: ResponseReasoningItem = (() => {
+    if (reasoning.redacted || !text) {
+      return reasoning.item;
+    }
+    return { ...reasoning.item, summary: [{ type: "summary_text", text }] };
+  })();
+
+  if (!reasoning.redacted) {
+    Object.assign(state, { sequence: state.sequence + 1 });
+    const textDone: ResponseStreamEvent = {
+      type: "response.reasoning_summary_text.done",
+      item_id: item.id,
+      output_index: outputIndex,
+      summary_index: 0,
+      text,
+      sequence_number: state.sequence,
+    } as const;
+    yield textDone;
+
+    Object.assign(state, { sequence: state.sequence + 1 });
+    const partDone: ResponseStreamEvent = {
+      type: "response.reasoning_summary_part.done",
+      item_id: item.id,
+      output_index: outputIndex,
+      summary_index: 0,
+      part: { type: "summary_text", text },
+      sequence_number: state.sequence,
+    } as const;
+    yield partDone;
+  }
+
+  Object.assign(state, updateStateForReasoningStop(state, item));
+  const done: ResponseStreamEvent = {
+    type: "response.output_item.done",
+    item,
+    output_index: outputIndex,
+    sequence_number: state.sequence,
+  } as const;
+  yield done;
+}
+
 /**
  * Claude SSE -> OpenAI Responses stream
  */
@@ -389,9 +560,23 @@ export async function* claudeToOpenAIStream(
       yield created;
     }
 
+    if (isClaudeMessageStart(ev)) {
+      Object.assign(state, updateStateForUsage(state, ev.message.usage));
+      continue;
+    }
+
+    if (isClaudeMessageDelta(ev)) {
+      // message_delta carries cumulative output usage
+      Object.assign(state, updateStateForUsage(state, ev.usage));
+    }
+
     if (isClaudeContentStart(ev)) {
       const index = ev.index ?? 0;
       const block = ev.content_block;
+      if (isClaudeThinkingBlock(block) || isClaudeRedactedThinkingBlock(block)) {
+        yield* startReasoningItem(state, index, block);
+        continue;
+      }
       if (isClaudeToolUseBlock(block)) {
         const openaiId = toOpenAICallIdFromClaude(block.id);
         const item: ResponseOutputItem = buildFunctionCallItem(openaiId, block.name, undefined);
@@ -411,6 +596,26 @@ export async function* claudeToOpenAIStream(
     if (isClaudeContentDelta(ev)) {
       const index = ev.index ?? 0;
       const d = ev.delta;
+      if (isClaudeThinkingDelta(d)) {
+        Object.assign(state, updateStateForReasoningDelta(state, index, { thinking: d.thinking }));
+        const reasoning = state.reasoningMap.get(index);
+        if (reasoning && d.thinking) {
+          const deltaEv: ResponseStreamEvent = {
+            type: "response.reasoning_summary_text.delta",
+            item_id: reasoning.item.id,
+            output_index: reasoning.outputIndex,
+            summary_index: 0,
+            delta: d.thinking,
+            sequence_number: state.sequence,
+          } as const;
+          yield deltaEv;
+        }
+        continue;
+      }
+      if (isClaudeSignatureDelta(d)) {
+        Object.assign(state, updateStateForReasoningDelta(state, index, { signature: d.signature }));
+        continue;
+      }
       if (isClaudeTextDelta(d)) {
         if (d.text) {
           const currentTextItemId = state.textItemId !== undefined ? state.textItemId : genId("msg");
@@ -464,6 +669,11 @@ export async function* claudeToOpenAIStream(
 
     if (isClaudeContentStop(ev)) {
       const index = ev.index ?? 0;
+      const reasoning = state.reasoningMap.get(index);
+      if (reasoning) {
+        yield* finishReasoningItem(state, reasoning);
+        continue;
+      }
       const t = state.toolsMap.get(index);
       if (t) {
         const item = buildFunctionCallItem(t.id, t.name, t.args !== null && t.args !== undefined ? t.args : "");
@@ -508,20 +718,35 @@ export async function* claudeToOpenAIStream(
   if (!completedEmitted) {
     const completed: ResponseStreamEvent = {
       type: "response.completed",
-      response: buildCompletedResponse(id, requestModel, state.outputItems, requestTools),
+      response: {
+        ...buildCompletedResponse(id, requestModel, state.outputItems, requestTools),
+        usage: buildUsage(state.inputTokens, state.outputTokens, state.thinkingChars),
+      },
       sequence_number: state.sequence + 1,
     } as const;
     yield completed;
   }
 }
 
-function extractItemsFromClaude(msg: ClaudeMessage): { text: string; items: ResponseOutputItem[] } {
+function extractItemsFromClaude(msg: ClaudeMessage): {
+  text: string;
+  items: ResponseOutputItem[];
+  thinkingChars: number;
+} {
+  const reasoningItems: ResponseOutputItem[] = [];
   const items: ResponseOutputItem[] = [];
   const textParts: string[] = [];
+  const thinking = { chars: 0 };
   if (!claudeHasContentArray(msg)) {
-    return { text: "", items };
+    return { text: "", items, thinkingChars: 0 };
   }
   for (const block of msg.content) {
+    if (isClaudeThinkingBlock(block) || isClaudeRedactedThinkingBlock(block)) {
+      reasoningItems.push(thinkingBlockToReasoningItem(block, genId("rs")));
+      thinking.chars += isClaudeThinkingBlock(block) ? block.thinking.length : 0;
+      continue;
+    }
+
     if (isClaudeTextBlock(block)) {
       textParts.push(block.text);
       continue;
@@ -536,7 +761,8 @@ function extractItemsFromClaude(msg: ClaudeMessage): { text: string; items: Resp
   if (textParts.length) {
     items.unshift(buildMessageItem(textParts.join("")));
   }
-  return { text: textParts.join(""), items };
+  // Reasoning precedes the answer, matching the order OpenAI reasoning models emit
+  return { text: textParts.join(""), items: [...reasoningItems, ...items], thinkingChars: thinking.chars };
 }
 
 function buildResponse(
@@ -544,6 +770,7 @@ function buildResponse(
   model: string,
   msg: ClaudeMessage | undefined,
   text: string,
+  thinkingChars: number,
 ): OpenAIResponse {
   const created = Math.floor(Date.now() / 1000);
   const usage = msg && claudeHasUsage(msg) ? msg.usage : { input_tokens: 0, output_tokens: 0 };
@@ -564,17 +791,21 @@ function buildResponse(
     tool_choice: "auto",
     tools: [],
     top_p: null,
-    usage: {
-      input_tokens: usage.input_tokens ?? 0,
-      output_tokens: usage.output_tokens ?? 0,
-      total_tokens: (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
-      input_tokens_details: { cached_tokens: 0 },
-      output_tokens_details: { reasoning_tokens: 0 },
-    },
+    usage: buildUsage(usage.input_tokens ?? 0, usage.output_tokens ?? 0, thinkingChars),
   };
   return res;
 }
 
+function buildUsage(inputTokens: number, outputTokens: number, thinkingChars: number): ResponseUsage {
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens_details: { reasoning_tokens: estimateReasoningTokens(thinkingChars, outputTokens) },
+  };
+}
+
 function buildMessageItem(text: string): ResponseOutputMessage {
   const textPart: ResponseOutputText = { type: "output_text", text, annotations: [] };
   return {
@@ -0,0 +1,125 @@
+/**
+ * @file Tests for multimodal OpenAI Chat → Claude request conversion
+ */
+import { convertOpenAIFileToClaude } from "../input-converters/document-converter";
+import { chatCompletionToClaudeLocal } from "./request-converter";
+
+describe("chatCompletionToClaudeLocal multimodal content", () => {
+  it("maps image and PDF parts to Claude image and document blocks", () => {
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Compare these." },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBOR" } },
+            { type: "image_url", image_url: { url: "https://example.com/cat.jpg" } },
+            { type: "file", file: { filename: "report.pdf", file_data: "data:application/pdf;base64,JVBER" } },
+          ],
+        },
+      ],
+    });
+
+    expect(req.messages[0]?.content).toEqual([
+      { type: "text", text: "Compare these." },
+      { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBOR" } },
+      { type: "image", source: { type: "url", url: "https://example.com/cat.jpg" } },
+      {
+        type: "document",
+        source: { type: "base64", media_type: "application/pdf", data: "JVBER" },
+        title: "report.pdf",
+      },
+    ]);
+  });
+
+  it("keeps text-only user content as a string", () => {
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Hello " },
+            { type: "text", text: "there" },
+          ],
+        },
+      ],
+    });
+
+    expect(req.messages[0]?.content).toBe("Hello there");
+  });
+
+  it("forwards images inside tool results", () => {
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      messages: [
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "screenshot", arguments: "{}" } }],
+        },
+        {
+          role: "tool",
+          tool_call_id: "call_1",
+          content: [
+            { type: "text", text: "Captured." },
+            // Tool messages are typed as text-only; image parts still arrive at runtime
+            { type: "image_url", image_url: { url: "data:image/jpeg;base64,/9j/" } } as never,
+          ],
+        },
+      ],
+    });
+
+    expect(req.messages[1]?.content).toEqual([
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: [
+          { type: "text", text: "Captured." },
+          { type: "image", source: { type: "base64", media_type: "image/jpeg", data: "/9j/" } },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("convertOpenAIFileToClaude", () => {
+  it("decodes plain text files and passes PDF URLs through", () => {
+    expect(convertOpenAIFileToClaude({ file_data: "data:text/plain;base64,aGVsbG8=" })).toEqual({
+      type: "document",
+      source: { type: "text", media_type: "text/plain", data: "hello" },
+    });
+    expect(convertOpenAIFileToClaude({ file_url: "https://example.com/a.pdf" })).toEqual({
+      type: "document",
+      source: { type: "url", url: "https://example.com/a.pdf" },
+    });
+    expect(convertOpenAIFileToClaude({ file_id: "file_123" })).toBeUndefined();
+  });
+});
+
+describe("chatCompletionToClaudeLocal sampling", () => {
+  it("forwards temperature, top_p and top_k, clamping temperature to Claude's range", () => {
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      messages: [{ role: "user", content: "hi" }],
+      temperature: 1.4,
+      top_p: 0.8,
+      top_k: 40,
+    });
+
+    expect(req).toMatchObject({ temperature: 1, top_p: 0.8, top_k: 40 });
+  });
+
+  it("leaves sampling to Claude when extended thinking is enabled", () => {
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      messages: [{ role: "user", content: "hi" }],
+      temperature: 0.2,
+      reasoning_effort: "low",
+    });
+
+    expect(req.temperature).toBeUndefined();
+    expect(req.thinking).toBeDefined();
+  });
+});
@@ -5,18 +5,32 @@
  * and parameter mapping to enable Claude provider compatibility.
  */
 import type {
+  ChatCompletionContentPart,
   ChatCompletionCreateParams,
   ChatCompletionMessageParam,
   ChatCompletionTool,
 } from "openai/resources/chat/completions";
 import type {
+  ContentBlockParam,
+  DocumentBlockParam,
+  ImageBlockParam,
   MessageCreateParams as ClaudeMessageCreateParams,
+  TextBlockParam,
   Tool as ClaudeTool,
 } from "@anthropic-ai/sdk/resources/messages";
-import { isOpenAIChatFunctionTool, isOpenAIChatTextPart } from "../../../providers/openai/chat-guards";
+import {
+  isChatFilePart,
+  isChatImagePart,
+  isOpenAIChatFunctionTool,
+  isOpenAIChatTextPart,
+} from "../../../providers/openai/chat-guards";
+import { convertOpenAIFileToClaude } from "../input-converters/document-converter";
+import { convertOpenAIImageToClaude } from "../input-converters/image-converter";
 // Model mapping is handled by higher-level resolver; use provided model as-is here.
 import { normalizeJSONSchemaForOpenAI } from "../schema-normalizer";
 import { toClaudeToolUseIdFromOpenAI } from "../../conversation/id-conversion";
+import { getThinkingBlocks, reasoningEffortToThinking } from "../thinking";
+import type { SamplingExtensions } from "../../../model/sampling";
 
 const mapModel = (model: string): string => model;
 
@@ -79,7 +93,10 @@ function convertToolChoice(
   if (toolChoice === "none") {
     return { type: "none" };
   }
-  if (toolChoice === "required" || toolChoice === "auto") {
+  if (toolChoice === "auto") {
+    return { type: "auto" };
+  }
+  if (toolChoice === "required") {
     return { type: "any" };
   }
   if (typeof toolChoice === "object" && toolChoice.type === "function") {
@@ -101,6 +118,45 @@ function openAIChatContentToPlainText(content: ChatCompletionMessageParam["conte
   return "";
 }
 
+/** Blocks accepted both in user turns and inside tool_result content */
+type ClaudeMediaBlock = TextBlockParam | ImageBlockParam | DocumentBlockParam;
+
+function convertContentParts(parts: ChatCompletionContentPart[]): ClaudeMediaBlock[] {
+  const blocks: ClaudeMediaBlock[] = [];
+  for (const part of parts) {
+    if (isOpenAIChatTextPart(part)) {
+      if (part.text) {
+        blocks.push({ type: "text", text: part.text });
+      }
+      continue;
+    }
+    if (isChatImagePart(part)) {
+      blocks.push(convertOpenAIImageToClaude(part.image_url.url));
+      continue;
+    }
+    if (isChatFilePart(part)) {
+      const document = convertOpenAIFileToClaude(part.file);
+      if (document) {
+        blocks.push(document);
+      }
+    }
+    // input_audio has no Claude counterpart and is dropped
+  }
+  return blocks;
+}
+
+/** Keep the plain-string form for text-only content; switch to blocks once media is present. */
+function convertMediaContent(content: string | ChatCompletionContentPart[]): string | ClaudeMediaBlock[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  const blocks = convertContentParts(content);
+  if (blocks.every((b) => b.type === "text")) {
+    return openAIChatContentToPlainText(content);
+  }
+  return blocks;
+}
+
 function convertMessages(msgs: ChatCompletionMessageParam[]): ClaudeMessageCreateParams["messages"] {
   const out: ClaudeMessageCreateParams["messages"] = [];
   for (const m of msgs) {
@@ -109,43 +165,37 @@ function convertMessages(msgs: ChatCompletionMessageParam[]): ClaudeMessageCreat
       continue;
     }
     if (m.role === "user") {
-      const contentText = openAIChatContentToPlainText(m.content);
-      out.push({ role: m.role, content: contentText });
+      out.push({ role: m.role, content: convertMediaContent(m.content) });
     } else if (m.role === "assistant") {
       const contentText = openAIChatContentToPlainText(m.content);
-      // Handle assistant messages with tool calls
-      if ("tool_calls" in m && m.tool_calls) {
-        if (m.tool_calls.length > 0) {
-          const content: Array<
-            { type: "text"; text: string } | { type: "tool_use"; id: string; name: string; input: unknown }
-          > = [];
-
-          // Add text content if present
-          if (contentText) {
-            content.push({ type: "text", text: contentText });
-          }
-
-          // Convert tool calls to Claude format
-          for (const toolCall of m.tool_calls) {
-            if (toolCall.type === "function") {
-              const claudeToolUseId = toClaudeToolUseIdFromOpenAI(toolCall.id);
-              content.push({
-                type: "tool_use",
-                id: claudeToolUseId,
-                name: toolCall.function.name,
-                input: JSON.parse(toolCall.function.arguments ? toolCall.function.arguments : "{}"),
-              });
-            }
-          }
-
-          out.push({ role: "assistant", content });
-        } else {
-          out.push({ role: "assistant", content: contentText });
-        }
-      } else {
+      const thinkingBlocks = getThinkingBlocks(m);
+      const toolCalls = "tool_calls" in m && m.tool_calls ? m.tool_calls : [];
+      if (thinkingBlocks.length === 0 && toolCalls.length === 0) {
         // Regular assistant message without tool calls
         out.push({ role: "assistant", content: contentText });
+        continue;
+      }
+
+      // Thinking blocks must precede text and tool_use blocks in the replayed turn
+      const content: ContentBlockParam[] = [...thinkingBlocks];
+      if (contentText) {
+        content.push({ type: "text", text: contentText });
       }
+
+      // Convert tool calls to Claude format
+      for (const toolCall of toolCalls) {
+        if (toolCall.type === "function") {
+          const claudeToolUseId = toClaudeToolUseIdFromOpenAI(toolCall.id);
+          content.push({
+            type: "tool_use",
+            id: claudeToolUseId,
+            name: toolCall.function.name,
+            input: JSON.parse(toolCall.function.arguments ? toolCall.function.arguments : "{}"),
+          });
+        }
+      }
+
+      out.push({ role: "assistant", content });
     } else if (m.role === "tool") {
       // Convert OpenAI tool result to Claude tool_result format
       const toolCallId = toClaudeToolUseIdFromOpenAI(m.tool_call_id);
@@ -155,7 +205,8 @@ function convertMessages(msgs: ChatCompletionMessageParam[]): ClaudeMessageCreat
           {
             type: "tool_result",
             tool_use_id: toolCallId,
-            content: m.content ? String(m.content) : "",
+            // Tool messages are typed as text-only, but image and file parts are forwarded when present
+            content: m.content ? convertMediaContent(m.content as string | ChatCompletionContentPart[]) : "",
           },
         ],
       });
@@ -165,6 +216,31 @@ function convertMessages(msgs: ChatCompletionMessageParam[]): ClaudeMessageCreat
   return out;
 }
 
+/** Claude rejects extended thinking combined with a forced tool, so the forced tool call wins */
+function thinkingFor(
+  request: ChatCompletionCreateParams,
+  choice: ClaudeMessageCreateParams["tool_choice"] | undefined,
+): ReturnType<typeof reasoningEffortToThinking> {
+  if (choice?.type === "any" || choice?.type === "tool") {
+    return undefined;
+  }
+  const maxTokens = typeof request.max_tokens === "number" ? request.max_tokens : undefined;
+  return reasoningEffortToThinking(request.reasoning_effort, maxTokens);
+}
+
+function applySampling(claudeReq: ClaudeMessageCreateParams, request: ChatCompletionCreateParams & SamplingExtensions) {
+  if (typeof request.temperature === "number") {
+    // OpenAI accepts 0–2, Claude 0–1
+    claudeReq.temperature = Math.min(request.temperature, 1);
+  }
+  if (typeof request.top_p === "number") {
+    claudeReq.top_p = request.top_p;
+  }
+  if (typeof request.top_k === "number") {
+    claudeReq.top_k = request.top_k;
+  }
+}
+
 /**
  * Transforms OpenAI Chat Completion requests into Claude-compatible message creation parameters.
  * Bridges the API gap between OpenAI's chat completion format and Anthropic Claude's message format,
@@ -175,7 +251,9 @@ function convertMessages(msgs: ChatCompletionMessageParam[]): ClaudeMessageCreat
  * @param request - OpenAI Chat Completion request containing messages, model, and optional tools
  * @returns Claude MessageCreateParams with converted messages, tools, and provider-specific settings
  */
-export function chatCompletionToClaudeLocal(request: ChatCompletionCreateParams): ClaudeMessageCreateParams {
+export function chatCompletionToClaudeLocal(
+  request: ChatCompletionCreateParams & SamplingExtensions,
+): ClaudeMessageCreateParams {
   const model = mapModel(typeof request.model === "string" ? request.model : String(request.model));
   const messages = convertMessages(request.messages);
   const systemTexts = (request.messages ? request.messages : [])
@@ -201,9 +279,14 @@ export function chatCompletionToClaudeLocal(request: ChatCompletionCreateParams)
   if (choice) {
     claudeReq.tool_choice = choice;
   }
-  // Temperature and top_p disabled for all models
-  // if (request.temperature != null) claudeReq.temperature = request.temperature ?? undefined;
-  // if (request.top_p != null) claudeReq.top_p = request.top_p ?? undefined;
+  const thinking = thinkingFor(request, choice);
+  if (thinking) {
+    Object.assign(claudeReq, thinking);
+  }
+  // Extended thinking rejects custom temperature/top_k and narrows top_p, so sampling is left to Claude
+  if (!thinking) {
+    applySampling(claudeReq, request);
+  }
   if (request.stop) {
     const stop = request.stop;
     claudeReq.stop_sequences = Array.isArray(stop) ? stop : [String(stop)];
@@ -0,0 +1,19 @@
+/**
+ * @file Data URL parsing for OpenAI → Claude content conversion
+ */
+
+/** Media type and base64 payload of a `data:` URL */
+export type ParsedDataUrl = { mediaType: string; data: string };
+
+/**
+ * Splits a base64 `data:` URL into its media type and payload.
+ * @param url - Candidate data URL
+ * @returns Parsed parts, or undefined when the value is not a base64 data URL
+ */
+export function parseDataUrl(url: string): ParsedDataUrl | undefined {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  return { mediaType: match[1] ? match[1] : "application/octet-stream", data: match[2] };
+}
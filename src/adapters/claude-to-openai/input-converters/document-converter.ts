@@ -0,0 +1,60 @@
+/**
+ * @file Document conversion utilities for OpenAI to Claude transformation
+ * Maps OpenAI file inputs (`file` chat parts and `input_file` Responses parts) onto Claude
+ * document blocks: PDFs as base64 or URL sources, plain text as text sources.
+ */
+import type { DocumentBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import { parseDataUrl } from "./data-url";
+
+/** File reference as carried by OpenAI chat `file` parts and Responses `input_file` parts */
+export type OpenAIFileInput = {
+  file_data?: string;
+  file_url?: string;
+  filename?: string;
+  file_id?: string | null;
+};
+
+function isPdf(mediaType: string | undefined, filename: string | undefined): boolean {
+  if (mediaType === "application/pdf") {
+    return true;
+  }
+  return filename ? filename.toLowerCase().endsWith(".pdf") : false;
+}
+
+function withTitle(block: DocumentBlockParam, filename: string | undefined): DocumentBlockParam {
+  return filename ? { ...block, title: filename } : block;
+}
+
+/**
+ * Transforms an OpenAI file input into a Claude document block.
+ * `file_data` may be a data URL or bare base64 (typed by the filename extension); `file_url`
+ * must point at a PDF. Uploaded file ids have no Claude equivalent and yield undefined.
+ *
+ * @param file - OpenAI file reference
+ * @returns Claude document block, or undefined when the file cannot be represented
+ */
+export function convertOpenAIFileToClaude(file: OpenAIFileInput): DocumentBlockParam | undefined {
+  if (file.file_url) {
+    return withTitle({ type: "document", source: { type: "url", url: file.file_url } }, file.filename);
+  }
+  if (!file.file_data) {
+    return undefined;
+  }
+  const parsed = parseDataUrl(file.file_data);
+  const mediaType = parsed ? parsed.mediaType : undefined;
+  const data = parsed ? parsed.data : file.file_data;
+  if (isPdf(mediaType, file.filename)) {
+    return withTitle(
+      { type: "document", source: { type: "base64", media_type: "application/pdf", data } },
+      file.filename,
+    );
+  }
+  if (mediaType === "text/plain") {
+    const text = new TextDecoder().decode(Uint8Array.from(atob(data), (c) => c.charCodeAt(0)));
+    return withTitle(
+      { type: "document", source: { type: "text", media_type: "text/plain", data: text } },
+      file.filename,
+    );
+  }
+  return undefined;
+}
@@ -1,9 +1,23 @@
 /**
- * @file Image conversion utilities for Claude to OpenAI Response API transformation
- * Handles conversion of Claude image blocks (base64 and URL sources) to OpenAI input image format
+ * @file Image conversion utilities between Claude and OpenAI
+ * Handles conversion of Claude image blocks (base64 and URL sources) to OpenAI input image format,
+ * and of OpenAI image URLs (data URLs and remote URLs) back to Claude image blocks
  */
-import type { ImageBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import type { Base64ImageSource, ImageBlockParam } from "@anthropic-ai/sdk/resources/messages";
 import { isClaudeBase64Source, isClaudeURLSource } from "../../../providers/claude/guards";
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { parseDataUrl } from "./data-url";
+
+const CLAUDE_IMAGE_MEDIA_TYPES: ReadonlyArray<Base64ImageSource["media_type"]> = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+
+function isClaudeImageMediaType(mediaType: string): mediaType is Base64ImageSource["media_type"] {
+  return CLAUDE_IMAGE_MEDIA_TYPES.includes(mediaType as Base64ImageSource["media_type"]);
+}
 
 /**
  * Transforms Claude image block parameters into OpenAI-compatible image input format.
@@ -28,3 +42,26 @@ export function convertClaudeImageToOpenAI(img: ImageBlockParam): {
   }
   throw new Error("Unsupported image source");
 }
+
+/**
+ * Transforms an OpenAI image URL (as used by `image_url` and `input_image` parts) into a Claude
+ * image block. Base64 data URLs become inline sources; anything else is passed as a URL source.
+ *
+ * @param url - Data URL or remote image URL
+ * @returns Claude image block parameter
+ * @throws HttpError 400 when a data URL carries a media type Claude does not accept
+ */
+export function convertOpenAIImageToClaude(url: string): ImageBlockParam {
+  const parsed = parseDataUrl(url);
+  if (!parsed) {
+    return { type: "image", source: { type: "url", url } };
+  }
+  if (!isClaudeImageMediaType(parsed.mediaType)) {
+    throw new HttpError(
+      400,
+      `Unsupported image media type: ${parsed.mediaType} (Claude accepts ${CLAUDE_IMAGE_MEDIA_TYPES.join(", ")})`,
+      "bad_request",
+    );
+  }
+  return { type: "image", source: { type: "base64", media_type: parsed.mediaType, data: parsed.data } };
+}
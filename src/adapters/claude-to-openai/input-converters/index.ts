@@ -3,6 +3,7 @@
  * Centralizes access to all conversion utilities for transforming Claude message
  * structures to OpenAI Response API format
  */
-export { convertClaudeImageToOpenAI } from "./image-converter";
+export { convertClaudeImageToOpenAI, convertOpenAIImageToClaude } from "./image-converter";
+export { convertOpenAIFileToClaude } from "./document-converter";
 export { convertToolResult } from "./tool-result-converter";
 export { convertClaudeMessage } from "./message-converter";
@@ -110,6 +110,47 @@ describe("Claude to OpenAI Response API input converters", () => {
       ]);
     });
 
+    test("convertClaudeMessage assistant thinking becomes reasoning items", () => {
+      const msg: MessageParam = {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Use the calculator.", signature: "sig_1" },
+          { type: "redacted_thinking", data: "opaque" },
+          { type: "tool_use", id: "tool_b", name: "calc", input: {} },
+        ],
+      };
+      const res = convertClaudeMessage(msg);
+      expect(res).toEqual([
+        {
+          id: expect.stringMatching(/^rs_/),
+          type: "reasoning",
+          summary: [{ type: "summary_text", text: "Use the calculator." }],
+          encrypted_content: "sig_1",
+        },
+        {
+          id: expect.stringMatching(/^rs_/),
+          type: "reasoning",
+          summary: [],
+          encrypted_content: "redacted_thinking:opaque",
+        },
+        { type: "function_call", call_id: "call_b", name: "calc", arguments: "{}" },
+      ]);
+    });
+
+    test("convertClaudeMessage keeps reasoning item ids stable across turns", () => {
+      const msg: MessageParam = {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Use the calculator.", signature: "sig_1" },
+          { type: "thinking", thinking: "Then answer.", signature: "sig_2" },
+        ],
+      };
+      const first = convertClaudeMessage(msg).map((item) => ("id" in item ? item.id : undefined));
+      const second = convertClaudeMessage(msg).map((item) => ("id" in item ? item.id : undefined));
+      expect(second).toEqual(first);
+      expect(first[0]).not.toBe(first[1]);
+    });
+
     test("convertClaudeMessage user text/image/tool_result", () => {
       const msg: MessageParam = {
         role: "user",
@@ -8,6 +8,7 @@ import { toOpenAICallIdFromClaude } from "../../conversation/id-conversion";
 import { isClaudeImageBlockParam, isClaudeToolResultBlockParam } from "../../../providers/claude/guards";
 import { convertClaudeImageToOpenAI } from "./image-converter";
 import { convertToolResult } from "./tool-result-converter";
+import { reasoningItemIdFor, thinkingBlockToReasoningItem } from "../thinking";
 
 function convertAssistantMessage(blocks: ContentBlockParam[]): ResponseInputItem[] {
   const result: ResponseInputItem[] = [];
@@ -25,6 +26,13 @@ function convertAssistantMessage(blocks: ContentBlockParam[]): ResponseInputItem
       continue;
     }
 
+    if (block.type === "thinking" || block.type === "redacted_thinking") {
+      flushText(textParts);
+      textParts.length = 0; // Clear the array
+      result.push(thinkingBlockToReasoningItem(block, reasoningItemIdFor(block)));
+      continue;
+    }
+
     if (block.type === "tool_use") {
       if ("id" in block && "name" in block) {
         flushText(textParts);
@@ -0,0 +1,93 @@
+/**
+ * @file Tests for the Responses API on the Claude backend, against a local Anthropic stand-in
+ */
+import type { ResponseInput } from "openai/resources/responses/responses";
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { withFakeUpstream } from "../../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../../test-utils/fake-upstream";
+import { buildOpenAICompatibleClientForClaude } from "./openai-compatible";
+
+const MODEL = "claude-sonnet-4-5";
+
+/** Anthropic stand-in listing {@link MODEL} and answering every message with "ok" */
+const claudeUpstream: UpstreamHandler = (request) => {
+  if (request.path.startsWith("/v1/models")) {
+    return { body: { data: [{ id: MODEL, type: "model", created_at: "2025-01-01T00:00:00Z" }] } };
+  }
+  return {
+    body: {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: MODEL,
+      content: [{ type: "text", text: "ok" }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    },
+  };
+};
+
+/** Run `fn` with a client whose Anthropic calls go to a local server; returns the captured /v1/messages bodies */
+async function withClaudeServer(
+  fn: (client: ReturnType<typeof buildOpenAICompatibleClientForClaude>) => Promise<void>,
+): Promise<unknown[]> {
+  const bodies: unknown[] = [];
+  await withFakeUpstream(claudeUpstream, async ({ origin, requests }) => {
+    await fn(buildOpenAICompatibleClientForClaude({ type: "claude", apiKey: "k", baseURL: origin, model: MODEL }));
+    bodies.push(...requests.filter((r) => r.path === "/v1/messages").map((r) => r.body));
+  });
+  return bodies;
+}
+
+describe("buildOpenAICompatibleClientForClaude responses", () => {
+  it("turns array tool outputs into tool_result content blocks", async () => {
+    const input = [
+      { type: "function_call", call_id: "call_1", name: "screenshot", arguments: "{}" },
+      {
+        type: "function_call_output",
+        call_id: "call_1",
+        output: [
+          { type: "input_text", text: "Captured" },
+          { type: "input_image", image_url: "data:image/png;base64,iVBOR", detail: "auto" },
+          { type: "input_file", file_data: "data:application/pdf;base64,JVBER", filename: "page.pdf" },
+        ],
+      },
+    ] as ResponseInput;
+    const bodies = await withClaudeServer(async (client) => {
+      await client.responses.create({ model: MODEL, input });
+    });
+    const messages = (bodies[0] as { messages: Array<{ role: string; content: unknown }> }).messages;
+    expect(messages[1]).toEqual({
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: [
+            { type: "text", text: "Captured" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBOR" } },
+            expect.objectContaining({
+              type: "document",
+              source: { type: "base64", media_type: "application/pdf", data: "JVBER" },
+            }),
+          ],
+        },
+      ],
+    });
+  });
+
+  it("rejects image types Claude cannot read with a 400", async () => {
+    const input = [
+      {
+        role: "user",
+        content: [{ type: "input_image", image_url: "data:image/bmp;base64,Qk0", detail: "auto" }],
+      },
+    ] as ResponseInput;
+    await withClaudeServer(async (client) => {
+      const error = await client.responses.create({ model: MODEL, input }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ status: 400, code: "bad_request" });
+    });
+  });
+});
@@ -16,16 +16,26 @@ import type { Provider } from "../../../config/types";
 import Anthropic from "@anthropic-ai/sdk";
 import type { OpenAICompatibleClient } from "../../openai-client-types";
 import { selectApiKey } from "../../../config/select-api-key";
+import { pooledFetchFor } from "../../../config/pooled-fetch";
 import type { ResponseFunctionToolCallOutputItem } from "openai/resources/responses/responses";
-import { isOpenAIResponsesFunctionTool } from "../../../providers/openai/responses-guards";
+import {
+  isInputFile,
+  isInputImage,
+  isInputText,
+  isOpenAIResponsesFunctionTool,
+  isResponseOutputText,
+} from "../../../providers/openai/responses-guards";
 import type {
+  ChatCompletionContentPart,
   ChatCompletionCreateParams,
   ChatCompletionCreateParamsNonStreaming,
   ChatCompletionCreateParamsStreaming,
   ChatCompletion,
   ChatCompletionChunk,
+  ChatCompletionMessageToolCall,
   ChatCompletionTool,
   ChatCompletionToolChoiceOption,
+  ChatCompletionToolMessageParam,
 } from "openai/resources/chat/completions";
 import type { FunctionDefinition, FunctionParameters } from "openai/resources/shared";
 import {
@@ -37,7 +47,61 @@ import {
 import { chatCompletionToClaudeLocal } from "../chat-completion/request-converter";
 // Conversation state updates are handled by the HTTP response processor
 import { resolveModelForProvider } from "../../../model/mapper";
+import { filterSamplingParams, resolveSamplingSupport } from "../../../model/sampling";
 import { convertOpenAIChatToolToResponsesTool } from "../../shared/openai-tool-converters";
+import { getThinkingBlocks, reasoningItemToThinkingBlock } from "../thinking";
+import type { AssistantMessageWithThinking } from "../thinking";
+import { sdkMaxRetries } from "../../retry";
+
+/**
+ * Convert Responses message content to chat content. Text-only content collapses to a string;
+ * images and files are kept as chat parts for user turns so they reach Claude as media blocks.
+ */
+function convertMessageContent(content: unknown, keepMedia: boolean): string | ChatCompletionContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  const parts: ChatCompletionContentPart[] = [];
+  for (const part of content) {
+    if (isInputText(part) || isResponseOutputText(part)) {
+      parts.push({ type: "text", text: part.text });
+      continue;
+    }
+    if (!keepMedia) {
+      continue;
+    }
+    if (isInputImage(part) && part.image_url) {
+      parts.push({ type: "image_url", image_url: { url: part.image_url, detail: part.detail } });
+      continue;
+    }
+    if (isInputFile(part)) {
+      const file: ChatCompletionContentPart.File["file"] = {};
+      if (part.file_data) {
+        file.file_data = part.file_data;
+      }
+      if (part.filename) {
+        file.filename = part.filename;
+      }
+      if (part.file_id) {
+        file.file_id = part.file_id;
+      }
+      // Chat file parts have no URL field; carry it through for the Claude document converter
+      parts.push({ type: "file", file: part.file_url ? Object.assign(file, { file_url: part.file_url }) : file });
+    }
+  }
+  if (parts.every((p) => p.type === "text")) {
+    return parts.map((p) => (p.type === "text" ? p.text : "")).join("");
+  }
+  return parts;
+}
+
+function contentText(content: unknown): string {
+  const converted = convertMessageContent(content, false);
+  return typeof converted === "string" ? converted : "";
+}
 
 function addInputMessages(
   messages: ChatCompletionCreateParams["messages"],
@@ -62,38 +126,83 @@ function addInputMessages(
       // Convert function_call_output to tool message
       if (item.type === "function_call_output") {
         const toolOutput = item as ResponseFunctionToolCallOutputItem;
+        // Array outputs keep their images and files; the Claude converter turns them into tool_result blocks
+        const content = convertMessageContent(toolOutput.output, true);
         messages.push({
           role: "tool",
           tool_call_id: toolOutput.call_id,
-          content: toolOutput.output,
+          content: content as ChatCompletionToolMessageParam["content"],
         });
         continue;
       }
 
+      // Reasoning items replay Claude thinking blocks; they open the assistant turn that follows
+      if (item.type === "reasoning") {
+        const block = reasoningItemToThinkingBlock(item);
+        if (!block) {
+          continue;
+        }
+        const pending = pendingThinkingTurn(messages);
+        if (pending) {
+          pending.thinking_blocks = [...(pending.thinking_blocks ?? []), block];
+        } else {
+          const turn: AssistantMessageWithThinking = { role: "assistant", content: "", thinking_blocks: [block] };
+          messages.push(turn);
+        }
+        continue;
+      }
+
+      // Replay prior function calls as assistant tool_calls, merged into the preceding assistant turn
+      if (item.type === "function_call") {
+        const toolCall: ChatCompletionMessageToolCall = {
+          id: item.call_id,
+          type: "function",
+          function: { name: item.name, arguments: item.arguments },
+        };
+        const last = messages[messages.length - 1];
+        if (last && last.role === "assistant") {
+          last.tool_calls = [...(last.tool_calls ?? []), toolCall];
+        } else {
+          messages.push({ role: "assistant", content: "", tool_calls: [toolCall] });
+        }
+        continue;
+      }
+
       // Convert message-like objects with role and content
       if ("role" in item && "content" in item) {
         const role = item.role as "user" | "assistant" | "system";
         const content = item.content;
 
+        const pending = role === "assistant" ? pendingThinkingTurn(messages) : undefined;
+        if (pending) {
+          pending.content = contentText(content);
+          continue;
+        }
+
+        if (role === "user") {
+          messages.push({ role, content: convertMessageContent(content, true) });
+          continue;
+        }
+
         // For assistant messages with tool_calls, preserve them
         if (role === "assistant" && "tool_calls" in item) {
           if (item.tool_calls) {
             messages.push({
               role: "assistant",
-              content: typeof content === "string" ? content : "",
+              content: contentText(content),
               tool_calls: item.tool_calls,
             } as ChatCompletionCreateParams["messages"][0]);
           } else {
             messages.push({
               role,
-              content: typeof content === "string" ? content : "",
+              content: contentText(content),
             });
           }
         } else {
           // Regular message without tool calls
           messages.push({
             role,
-            content: typeof content === "string" ? content : "",
+            content: contentText(content),
           });
         }
         continue;
@@ -102,6 +211,24 @@ function addInputMessages(
   }
 }
 
+/**
+ * Return the trailing assistant message when it only holds thinking blocks so far,
+ * i.e. the reasoning that precedes a not-yet-converted text or tool call.
+ */
+function pendingThinkingTurn(messages: ChatCompletionCreateParams["messages"]): AssistantMessageWithThinking | undefined {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "assistant") {
+    return undefined;
+  }
+  if (getThinkingBlocks(last).length === 0) {
+    return undefined;
+  }
+  if (last.content) {
+    return undefined;
+  }
+  return last.tool_calls ? undefined : last;
+}
+
 function convertToolsForChat(tools: Tool[] | undefined): ChatCompletionTool[] | undefined {
   if (!Array.isArray(tools) || tools.length === 0) {
     return undefined;
@@ -162,9 +289,15 @@ function buildChatParams(params: ResponseCreateParams): ChatCompletionCreatePara
   if (params.max_output_tokens != null) {
     chatParams.max_tokens = params.max_output_tokens;
   }
-  // Temperature and top_p disabled for all models
-  // if (params.temperature != null) chatParams.temperature = params.temperature;
-  // if (params.top_p != null) chatParams.top_p = params.top_p;
+  if (params.reasoning?.effort) {
+    chatParams.reasoning_effort = params.reasoning.effort;
+  }
+  if (params.temperature != null) {
+    chatParams.temperature = params.temperature;
+  }
+  if (params.top_p != null) {
+    chatParams.top_p = params.top_p;
+  }
   if (params.tools) {
     const mapped = convertToolsForChat(params.tools);
     if (mapped) {
@@ -197,7 +330,12 @@ export function buildOpenAICompatibleClientForClaude(provider: Provider, modelHi
   if (!apiKey) {
     throw new Error("Missing Anthropic API key (configure provider.apiKey or api.keyByModelPrefix)");
   }
-  const anthropic = new Anthropic({ apiKey, baseURL: provider.baseURL });
+  const anthropic = new Anthropic({
+    apiKey,
+    baseURL: provider.baseURL,
+    maxRetries: sdkMaxRetries(provider),
+    fetch: pooledFetchFor(provider, provider.baseURL ?? "https://api.anthropic.com"),
+  });
 
   // No longer using per-conversation ID manager; conversions are deterministic
 
@@ -224,7 +362,8 @@ export function buildOpenAICompatibleClientForClaude(provider: Provider, modelHi
       sourceModel: params.model,
       modelHint,
     });
-    const claudeReq = chatCompletionToClaudeLocal({ ...params, model: resolvedModel });
+    const sampling = resolveSamplingSupport(resolvedModel, provider);
+    const claudeReq = chatCompletionToClaudeLocal(filterSamplingParams({ ...params, model: resolvedModel }, sampling));
 
     if (params.stream) {
       const streamAny = await anthropic.messages.create(
@@ -265,7 +404,9 @@ export function buildOpenAICompatibleClientForClaude(provider: Provider, modelHi
       sourceModel: chatParams.model,
       modelHint,
     });
-    const claudeReq = chatCompletionToClaudeLocal(chatParams);
+    const claudeReq = chatCompletionToClaudeLocal(
+      filterSamplingParams(chatParams, resolveSamplingSupport(chatParams.model, provider)),
+    );
 
     if (chatParams.stream) {
       const streamAny = await anthropic.messages.create(
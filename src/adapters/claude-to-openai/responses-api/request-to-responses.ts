@@ -22,6 +22,8 @@ import type { ResponsesModel as OpenAIResponseModel } from "openai/resources/sha
 import { convertClaudeMessage } from "../input-converters";
 import { normalizeJSONSchemaForOpenAI, type JSONSchemaProperty } from "../schema-normalizer";
 import { isClaudeCustomTool } from "../../../providers/claude/guards";
+import { thinkingToReasoning } from "../thinking";
+import { supportsReasoning } from "../../../model/reasoning";
 
 /**
  * Converts Claude message creation parameters into OpenAI Response API request format.
@@ -67,9 +69,20 @@ export function claudeToResponsesLocal(
   if (typeof req.max_tokens === "number") {
     body.max_output_tokens = req.max_tokens;
   }
-  // Temperature and top_p disabled for all models
-  // if (typeof req.temperature === 'number') body.temperature = req.temperature;
-  // if (typeof req.top_p === 'number') body.top_p = req.top_p;
+  const reasoning = thinkingToReasoning(req.thinking);
+  // Models without reasoning answer 400 to these fields, so thinking is dropped for them
+  if (reasoning && supportsReasoning(model)) {
+    body.reasoning = reasoning;
+    // Encrypted reasoning comes back as thinking signatures so the turn can be replayed
+    body.include = ["reasoning.encrypted_content"];
+  }
+  // top_k has no Responses equivalent; the backend client strips what its model rejects
+  if (typeof req.temperature === "number") {
+    body.temperature = req.temperature;
+  }
+  if (typeof req.top_p === "number") {
+    body.top_p = req.top_p;
+  }
   return body;
 }
 
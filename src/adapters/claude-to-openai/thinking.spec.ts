@@ -0,0 +1,180 @@
+/**
+ * @file Tests for Claude extended thinking <-> OpenAI reasoning round-trip
+ */
+import type { Message as ClaudeMessage, MessageStreamEvent } from "@anthropic-ai/sdk/resources/messages";
+import type { ResponseReasoningItem, ResponseStreamEvent } from "openai/resources/responses/responses";
+import { claudeToOpenAIResponse, claudeToOpenAIStream } from "./chat-completion/openai-response-adapter";
+import { chatCompletionToClaudeLocal } from "./chat-completion/request-converter";
+import { claudeToResponsesLocal } from "./responses-api/request-to-responses";
+import { reasoningEffortToThinking, reasoningItemToThinkingBlock, thinkingToReasoning } from "./thinking";
+import type { AssistantMessageWithThinking } from "./thinking";
+
+const claudeMessage: ClaudeMessage = {
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  model: "claude-sonnet-4",
+  content: [
+    { type: "thinking", thinking: "Let me think about this carefully.", signature: "sig-abc" },
+    { type: "redacted_thinking", data: "opaque" },
+    { type: "text", text: "The answer is 4.", citations: null },
+  ],
+  stop_reason: "end_turn",
+  stop_sequence: null,
+  usage: {
+    input_tokens: 10,
+    output_tokens: 40,
+    cache_creation: null,
+    cache_creation_input_tokens: null,
+    cache_read_input_tokens: null,
+    server_tool_use: null,
+    service_tier: null,
+  },
+};
+
+async function* claudeEvents(): AsyncGenerator<MessageStreamEvent> {
+  yield {
+    type: "message_start",
+    message: { ...claudeMessage, content: [], usage: { ...claudeMessage.usage, output_tokens: 1 } },
+  };
+  yield { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } };
+  yield { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "2 plus 2 " } };
+  yield { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "is 4." } };
+  yield { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-xyz" } };
+  yield { type: "content_block_stop", index: 0 };
+  yield { type: "content_block_start", index: 1, content_block: { type: "text", text: "", citations: null } };
+  yield { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "4" } };
+  yield { type: "content_block_stop", index: 1 };
+  yield {
+    type: "message_delta",
+    delta: { stop_reason: "end_turn", stop_sequence: null },
+    usage: {
+      input_tokens: null,
+      output_tokens: 20,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      server_tool_use: null,
+    },
+  };
+  yield { type: "message_stop" };
+}
+
+describe("Claude thinking -> OpenAI reasoning", () => {
+  it("maps thinking blocks to reasoning items ahead of the message", () => {
+    const res = claudeToOpenAIResponse(claudeMessage, "claude-sonnet-4");
+
+    expect(res.output.map((item) => item.type)).toEqual(["reasoning", "reasoning", "message"]);
+    const [thinking, redacted] = res.output as ResponseReasoningItem[];
+    expect(thinking?.summary).toEqual([{ type: "summary_text", text: "Let me think about this carefully." }]);
+    expect(thinking?.encrypted_content).toBe("sig-abc");
+    expect(reasoningItemToThinkingBlock(redacted!)).toEqual({ type: "redacted_thinking", data: "opaque" });
+    expect(res.usage?.output_tokens_details.reasoning_tokens).toBe(9);
+  });
+
+  it("streams reasoning summary deltas and keeps the signature", async () => {
+    const events: ResponseStreamEvent[] = [];
+    for await (const ev of claudeToOpenAIStream(claudeEvents(), "claude-sonnet-4")) {
+      events.push(ev);
+    }
+
+    const deltas = events.filter((ev) => ev.type === "response.reasoning_summary_text.delta");
+    expect(deltas.map((ev) => ev.delta)).toEqual(["2 plus 2 ", "is 4."]);
+
+    const completed = events.find((ev) => ev.type === "response.completed");
+    const reasoning = completed?.response.output[0] as ResponseReasoningItem;
+    expect(reasoning.summary[0]?.text).toBe("2 plus 2 is 4.");
+    expect(reasoning.encrypted_content).toBe("sig-xyz");
+    expect(completed?.response.usage).toMatchObject({ input_tokens: 10, output_tokens: 20 });
+    expect(completed?.response.usage?.output_tokens_details.reasoning_tokens).toBe(4);
+  });
+});
+
+describe("OpenAI reasoning -> Claude thinking", () => {
+  it("maps reasoning effort to a thinking budget within max tokens", () => {
+    expect(reasoningEffortToThinking("medium", undefined)).toEqual({
+      thinking: { type: "enabled", budget_tokens: 8192 },
+      max_tokens: 12288,
+    });
+    expect(reasoningEffortToThinking("high", 4000)).toEqual({
+      thinking: { type: "enabled", budget_tokens: 3999 },
+      max_tokens: 4000,
+    });
+    expect(reasoningEffortToThinking("low", 512)).toBeUndefined();
+    expect(reasoningEffortToThinking(null, undefined)).toBeUndefined();
+  });
+
+  it("replays thinking blocks before tool_use in the assistant turn", () => {
+    const assistant: AssistantMessageWithThinking = {
+      role: "assistant",
+      content: "",
+      thinking_blocks: [{ type: "thinking", thinking: "need weather", signature: "sig-1" }],
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } }],
+    };
+    const req = chatCompletionToClaudeLocal({
+      model: "claude-sonnet-4",
+      reasoning_effort: "low",
+      messages: [{ role: "user", content: "weather?" }, assistant],
+    });
+
+    expect(req.thinking).toEqual({ type: "enabled", budget_tokens: 2048 });
+    const content = req.messages[1]?.content;
+    expect(Array.isArray(content) ? content.map((b) => b.type) : content).toEqual(["thinking", "tool_use"]);
+  });
+
+  it("leaves thinking off when the tool choice forces a tool", () => {
+    const tools = [{ type: "function" as const, function: { name: "get_weather", parameters: { type: "object" } } }];
+    const base = { model: "claude-sonnet-4", reasoning_effort: "low" as const, tools };
+    const messages = [{ role: "user" as const, content: "weather?" }];
+    const required = chatCompletionToClaudeLocal({ ...base, messages, tool_choice: "required" });
+    const named = chatCompletionToClaudeLocal({
+      ...base,
+      messages,
+      tool_choice: { type: "function", function: { name: "get_weather" } },
+    });
+
+    expect(required).toMatchObject({ tool_choice: { type: "any" } });
+    expect(required.thinking).toBeUndefined();
+    expect(named).toMatchObject({ tool_choice: { type: "tool", name: "get_weather" } });
+    expect(named.thinking).toBeUndefined();
+    expect(chatCompletionToClaudeLocal({ ...base, messages, tool_choice: "auto" }).thinking).toBeDefined();
+  });
+});
+
+describe("Claude thinking params -> OpenAI reasoning", () => {
+  it("picks the smallest effort covering the thinking budget", () => {
+    expect(thinkingToReasoning({ type: "enabled", budget_tokens: 1024 })).toEqual({ effort: "low", summary: "auto" });
+    expect(thinkingToReasoning({ type: "enabled", budget_tokens: 8192 })?.effort).toBe("medium");
+    expect(thinkingToReasoning({ type: "enabled", budget_tokens: 64000 })?.effort).toBe("high");
+    expect(thinkingToReasoning({ type: "disabled" })).toBeUndefined();
+  });
+
+  it("requests reasoning summaries and encrypted content from the Responses API", () => {
+    const body = claudeToResponsesLocal(
+      {
+        model: "claude-sonnet-4",
+        max_tokens: 16000,
+        thinking: { type: "enabled", budget_tokens: 4000 },
+        messages: [{ role: "user", content: "2+2?" }],
+      },
+      "o4-mini",
+    );
+
+    expect(body.reasoning).toEqual({ effort: "medium", summary: "auto" });
+    expect(body.include).toEqual(["reasoning.encrypted_content"]);
+  });
+
+  it("leaves reasoning out for models that reject it", () => {
+    const body = claudeToResponsesLocal(
+      {
+        model: "claude-sonnet-4",
+        max_tokens: 16000,
+        thinking: { type: "enabled", budget_tokens: 4000 },
+        messages: [{ role: "user", content: "2+2?" }],
+      },
+      "gpt-4o",
+    );
+
+    expect(body.reasoning).toBeUndefined();
+    expect(body.include).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @file Mapping between Claude extended thinking and OpenAI reasoning.
+ *
+ * Thinking blocks surface as `reasoning` output items whose summary carries the thinking text.
+ * The block signature (or the opaque data of a redacted block) is kept in `encrypted_content`
+ * so the item can be replayed verbatim on the next turn, as Claude requires for tool use.
+ */
+import type {
+  MessageCreateParams as ClaudeMessageCreateParams,
+  RedactedThinkingBlock,
+  RedactedThinkingBlockParam,
+  ThinkingBlock,
+  ThinkingBlockParam,
+  ThinkingConfigParam,
+} from "@anthropic-ai/sdk/resources/messages";
+import type { ChatCompletionAssistantMessageParam } from "openai/resources/chat/completions";
+import type { ResponseReasoningItem } from "openai/resources/responses/responses";
+import type { Reasoning, ReasoningEffort } from "openai/resources/shared";
+import { isClaudeRedactedThinkingBlock } from "../../providers/claude/guards";
+import { idFromText } from "../../utils/idemaker";
+
+/** Thinking budget used for each OpenAI reasoning effort. */
+export const THINKING_BUDGET_BY_EFFORT: Record<NonNullable<ReasoningEffort>, number> = {
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+/** Smallest budget accepted by the Anthropic API. */
+const MIN_THINKING_BUDGET = 1024;
+
+/** Output room added on top of the budget when the caller did not cap max tokens. */
+const DEFAULT_ANSWER_TOKENS = 4096;
+
+const REDACTED_PREFIX = "redacted_thinking:";
+
+export type ClaudeThinkingBlockParam = ThinkingBlockParam | RedactedThinkingBlockParam;
+
+/**
+ * Translate an OpenAI reasoning effort into Claude `thinking` + `max_tokens`.
+ * OpenAI counts reasoning inside the output cap, so an explicit cap bounds the budget;
+ * returns undefined when no usable budget fits.
+ */
+export function reasoningEffortToThinking(
+  effort: ReasoningEffort | undefined,
+  maxTokens: number | undefined,
+): Pick<ClaudeMessageCreateParams, "thinking" | "max_tokens"> | undefined {
+  if (!effort) {
+    return undefined;
+  }
+  const budget = THINKING_BUDGET_BY_EFFORT[effort];
+  if (maxTokens === undefined) {
+    return { thinking: { type: "enabled", budget_tokens: budget }, max_tokens: budget + DEFAULT_ANSWER_TOKENS };
+  }
+  const capped = Math.min(budget, maxTokens - 1);
+  if (capped < MIN_THINKING_BUDGET) {
+    return undefined;
+  }
+  return { thinking: { type: "enabled", budget_tokens: capped }, max_tokens: maxTokens };
+}
+
+/**
+ * Translate a Claude `thinking` request param into OpenAI `reasoning`.
+ * Picks the smallest effort whose budget covers the requested one; summaries are requested
+ * so the thinking can be surfaced back as Claude thinking blocks.
+ */
+export function thinkingToReasoning(thinking: ThinkingConfigParam | undefined): Reasoning | undefined {
+  if (!thinking || thinking.type !== "enabled") {
+    return undefined;
+  }
+  const efforts = ["low", "medium", "high"] as const;
+  const effort = efforts.find((e) => THINKING_BUDGET_BY_EFFORT[e] >= thinking.budget_tokens) ?? "high";
+  return { effort, summary: "auto" };
+}
+
+/**
+ * Stable id of the reasoning item replaying a thinking block, derived from its signature (or
+ * redacted data), so the same block keeps its id on every turn.
+ */
+export function reasoningItemIdFor(block: ClaudeThinkingBlockParam): string {
+  const key = isClaudeRedactedThinkingBlock(block) ? block.data : block.signature;
+  return `rs_${idFromText(key, "sha256")}`;
+}
+
+/** Convert a Claude thinking (or redacted thinking) block into an OpenAI reasoning item. */
+export function thinkingBlockToReasoningItem(
+  block: ThinkingBlock | RedactedThinkingBlock | ClaudeThinkingBlockParam,
+  id: string,
+): ResponseReasoningItem {
+  if (isClaudeRedactedThinkingBlock(block)) {
+    return { id, type: "reasoning", summary: [], encrypted_content: `${REDACTED_PREFIX}${block.data}` };
+  }
+  return {
+    id,
+    type: "reasoning",
+    summary: block.thinking ? [{ type: "summary_text", text: block.thinking }] : [],
+    encrypted_content: block.signature,
+  };
+}
+
+/**
+ * Rebuild the Claude block for a reasoning item produced by {@link thinkingBlockToReasoningItem}.
+ * Items without a signature cannot be replayed to Claude and yield undefined.
+ */
+export function reasoningItemToThinkingBlock(item: ResponseReasoningItem): ClaudeThinkingBlockParam | undefined {
+  const encrypted = item.encrypted_content;
+  if (!encrypted) {
+    return undefined;
+  }
+  if (encrypted.startsWith(REDACTED_PREFIX)) {
+    return { type: "redacted_thinking", data: encrypted.slice(REDACTED_PREFIX.length) };
+  }
+  const thinking = item.summary.map((s) => s.text).join("");
+  return { type: "thinking", thinking, signature: encrypted };
+}
+
+/**
+ * Claude does not report thinking tokens separately; approximate them from the thinking text
+ * (~4 characters per token), never exceeding the reported output tokens.
+ */
+export function estimateReasoningTokens(thinkingChars: number, outputTokens: number): number {
+  return Math.min(Math.ceil(thinkingChars / 4), outputTokens);
+}
+
+/**
+ * Assistant chat message carrying Claude thinking blocks to replay.
+ * Chat Completions has no reasoning field, so the blocks ride along in `thinking_blocks`.
+ */
+export type AssistantMessageWithThinking = ChatCompletionAssistantMessageParam & {
+  thinking_blocks?: ClaudeThinkingBlockParam[];
+};
+
+/** Read the thinking blocks attached to an assistant chat message, if any. */
+export function getThinkingBlocks(message: ChatCompletionAssistantMessageParam): ClaudeThinkingBlockParam[] {
+  const blocks = (message as AssistantMessageWithThinking).thinking_blocks;
+  return Array.isArray(blocks) ? blocks : [];
+}
@@ -4,7 +4,8 @@
 import { promises as fsp } from "node:fs";
 // child_process imported indirectly via shared exec helper
 import { execFileString } from "../../../utils/proc/exec";
-import type { AgentSessionPaths, CodingAgentDriver } from "./types";
+import type { AgentSessionPaths, CodingAgentDriver, DriverStartOptions } from "./types";
+import { startRun, stopRun } from "./run";
 import { assertNoLoginPromptOrThrow, extractErrorText } from "./login-detect";
 import { stripCodeFence } from "../core/text";
 
@@ -28,39 +29,42 @@ function parseResultJSON(stdout: string): { text: string; usage?: { prompt_token
  */
 export function createClaudeCodeDriver(binPath: string, args?: string[], produces?: "json" | "text"): CodingAgentDriver {
   return {
-    async start(prompt: string, session: AgentSessionPaths) {
-      await fsp.writeFile(session.inputPath, prompt);
-      const argv = Array.isArray(args) ? [...args] : [];
-      if (produces === "json" && !argv.includes("--output-format")) {
-        argv.push("--output-format", "json");
-      }
-      const stdout = await execFileString(
-        binPath,
-        argv,
-        {
-          encoding: "utf8" as BufferEncoding,
-          timeout: 5 * 60 * 1000,
-          maxBuffer: 8 * 1024 * 1024,
-          cwd: session.rootDir,
-        },
-        prompt,
-      ).catch((err) => {
-        const text = extractErrorText(err);
-        assertNoLoginPromptOrThrow("", text);
-        throw err;
-      });
-      assertNoLoginPromptOrThrow(stdout);
-      if (produces === "json") {
-        const parsed = parseResultJSON(stdout);
-        await fsp.writeFile(session.outputPath, parsed.text);
-        if (session.resultPath) {
-          await fsp.writeFile(session.resultPath, stdout);
+    async start(prompt: string, session: AgentSessionPaths, options?: DriverStartOptions) {
+      return startRun(async (signal) => {
+        await fsp.writeFile(session.inputPath, prompt);
+        const argv = Array.isArray(args) ? [...args] : [];
+        if (produces === "json" && !argv.includes("--output-format")) {
+          argv.push("--output-format", "json");
         }
-      } else {
-        await fsp.writeFile(session.outputPath, stdout);
-      }
-      return {};
+        const stdout = await execFileString(
+          binPath,
+          argv,
+          {
+            encoding: "utf8" as BufferEncoding,
+            timeout: 5 * 60 * 1000,
+            maxBuffer: 8 * 1024 * 1024,
+            cwd: session.rootDir,
+            signal,
+          },
+          prompt,
+        ).catch((err) => {
+          const text = extractErrorText(err);
+          assertNoLoginPromptOrThrow("", text);
+          throw err;
+        });
+        assertNoLoginPromptOrThrow(stdout);
+        if (produces === "json") {
+          const parsed = parseResultJSON(stdout);
+          await fsp.writeFile(session.outputPath, parsed.text);
+          if (session.resultPath) {
+            await fsp.writeFile(session.resultPath, stdout);
+          }
+        } else {
+          await fsp.writeFile(session.outputPath, stdout);
+        }
+      }, options?.signal);
     },
+    stop: stopRun,
     parseResult(stdoutOrFile: string) {
       return parseResultJSON(stdoutOrFile);
     },
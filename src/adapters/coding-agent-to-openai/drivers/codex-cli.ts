@@ -3,7 +3,8 @@
  */
 import { createWriteStream } from "node:fs";
 import { promises as fsp } from "node:fs";
-import type { AgentSessionPaths, CodingAgentDriver } from "./types";
+import type { AgentSessionPaths, CodingAgentDriver, DriverStartOptions } from "./types";
+import { startRun, stopRun } from "./run";
 import { assertNoLoginPromptOrThrow } from "./login-detect";
 import { assertNoCliErrorOutput } from "./error-detect";
 import { readFileSafe } from "../../../utils/fs";
@@ -15,37 +16,40 @@ import { spawnStream } from "../../../utils/proc/spawn";
  */
 export function createCodexDriver(binPath: string, args?: string[]): CodingAgentDriver {
   return {
-    async start(prompt: string, session: AgentSessionPaths) {
-      await fsp.writeFile(session.inputPath, prompt);
-      const base = Array.isArray(args) ? [...args] : [];
-      // Place root-level flags BEFORE the subcommand to satisfy Codex CLI parsing
-      const argv = [
-        ...base,
-        "-C",
-        session.rootDir,
-        "-s",
-        "read-only",
-        "-a",
-        "never",
-        "exec",
-        "--skip-git-repo-check",
-        prompt,
-      ];
-      const out = createWriteStream(session.outputPath, { encoding: "utf8" as BufferEncoding });
-      await spawnStream({
-        cmd: binPath,
-        args: argv,
-        cwd: session.rootDir,
-        mode: "text",
-        writable: out,
-        onValidateClose: async (stderr: string) => {
-          assertNoLoginPromptOrThrow("", stderr);
-          const snapshot = await readFileSafe(session.outputPath);
-          assertNoCliErrorOutput(snapshot, stderr);
-        },
-      });
-      return {};
+    async start(prompt: string, session: AgentSessionPaths, options?: DriverStartOptions) {
+      return startRun(async (signal) => {
+        await fsp.writeFile(session.inputPath, prompt);
+        const base = Array.isArray(args) ? [...args] : [];
+        // Place root-level flags BEFORE the subcommand to satisfy Codex CLI parsing
+        const argv = [
+          ...base,
+          "-C",
+          session.rootDir,
+          "-s",
+          "read-only",
+          "-a",
+          "never",
+          "exec",
+          "--skip-git-repo-check",
+          prompt,
+        ];
+        const out = createWriteStream(session.outputPath, { encoding: "utf8" as BufferEncoding });
+        await spawnStream({
+          cmd: binPath,
+          args: argv,
+          cwd: session.rootDir,
+          signal,
+          mode: "text",
+          writable: out,
+          onValidateClose: async (stderr: string) => {
+            assertNoLoginPromptOrThrow("", stderr);
+            const snapshot = await readFileSafe(session.outputPath);
+            assertNoCliErrorOutput(snapshot, stderr);
+          },
+        });
+      }, options?.signal);
     },
+    stop: stopRun,
     parseResult(stdoutOrFile: string) {
       return { text: stdoutOrFile };
     },
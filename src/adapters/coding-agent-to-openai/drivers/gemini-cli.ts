@@ -5,7 +5,8 @@ import { promises as fsp } from "node:fs";
 // child_process imported indirectly via shared exec helper
 import { execFileString } from "../../../utils/proc/exec";
 import { assertNoCliErrorOutput } from "./error-detect";
-import type { AgentSessionPaths, CodingAgentDriver } from "./types";
+import type { AgentSessionPaths, CodingAgentDriver, DriverStartOptions } from "./types";
+import { startRun, stopRun } from "./run";
 import { assertNoLoginPromptOrThrow, extractErrorText } from "./login-detect";
 
 /**
@@ -15,36 +16,39 @@ import { assertNoLoginPromptOrThrow, extractErrorText } from "./login-detect";
  */
 export function createGeminiCLIDriver(binPath: string, args?: string[]): CodingAgentDriver {
   return {
-    async start(prompt: string, session: AgentSessionPaths) {
-      await fsp.writeFile(session.inputPath, prompt);
-      const argv = Array.isArray(args) ? [...args] : [];
-      // Ensure non-interactive execution with a one-shot prompt
-      argv.push("--prompt", prompt);
-      // Ask CLI to write a session summary if available
-      if (session.resultPath) {
-        argv.push("--session-summary", session.resultPath);
-      }
+    async start(prompt: string, session: AgentSessionPaths, options?: DriverStartOptions) {
+      return startRun(async (signal) => {
+        await fsp.writeFile(session.inputPath, prompt);
+        const argv = Array.isArray(args) ? [...args] : [];
+        // Ensure non-interactive execution with a one-shot prompt
+        argv.push("--prompt", prompt);
+        // Ask CLI to write a session summary if available
+        if (session.resultPath) {
+          argv.push("--session-summary", session.resultPath);
+        }
 
-      const stdout = await execFileString(
-        binPath,
-        argv,
-        {
-          encoding: "utf8" as BufferEncoding,
-          timeout: 5 * 60 * 1000,
-          maxBuffer: 8 * 1024 * 1024,
-          cwd: session.rootDir,
-        },
-      ).catch((err) => {
-        const text = extractErrorText(err);
-        assertNoLoginPromptOrThrow("", text);
-        throw err;
-      });
-      assertNoLoginPromptOrThrow(stdout);
-      assertNoCliErrorOutput(stdout);
-      // Gemini CLI prints markdown to stdout; write to output.log
-      await fsp.writeFile(session.outputPath, stdout);
-      return {};
+        const stdout = await execFileString(
+          binPath,
+          argv,
+          {
+            encoding: "utf8" as BufferEncoding,
+            timeout: 5 * 60 * 1000,
+            maxBuffer: 8 * 1024 * 1024,
+            cwd: session.rootDir,
+            signal,
+          },
+        ).catch((err) => {
+          const text = extractErrorText(err);
+          assertNoLoginPromptOrThrow("", text);
+          throw err;
+        });
+        assertNoLoginPromptOrThrow(stdout);
+        assertNoCliErrorOutput(stdout);
+        // Gemini CLI prints markdown to stdout; write to output.log
+        await fsp.writeFile(session.outputPath, stdout);
+      }, options?.signal);
     },
+    stop: stopRun,
     parseResult(stdoutOrFile: string) {
       // No special JSON format guaranteed; treat as plain text
       return { text: stdoutOrFile };
@@ -0,0 +1,49 @@
+/**
+ * @file Tests for the generic CLI driver (vitest globals)
+ */
+import { promises as fsp } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createGenericCLIDriver } from "./generic-cli";
+
+// Agent stand-in: records its pid, then runs until killed
+const hangScript = "require('fs').writeFileSync(process.argv[1], String(process.pid)); setInterval(() => {}, 1000)";
+
+async function waitForPid(pidFile: string): Promise<number> {
+  for (let i = 0; i < 200; i += 1) {
+    const text = await fsp.readFile(pidFile, "utf8").catch(() => "");
+    if (text) {
+      return Number(text);
+    }
+    await new Promise((r) => setTimeout(r, 25));
+  }
+  throw new Error("agent did not start");
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("createGenericCLIDriver", () => {
+  for (const produces of ["text", "jsonl"] as const) {
+    it(`kills a streaming (${produces}) run when the request signal aborts`, async () => {
+      const rootDir = await fsp.mkdtemp(join(tmpdir(), "generic-cli-abort-"));
+      const pidFile = join(rootDir, "pid");
+      const driver = createGenericCLIDriver(process.execPath, ["-e", hangScript, pidFile], produces);
+      const controller = new AbortController();
+      const session = { rootDir, inputPath: join(rootDir, "input.md"), outputPath: join(rootDir, "output.log") };
+      const handle = await driver.start("hi", session, { signal: controller.signal });
+      const pid = await waitForPid(pidFile);
+      controller.abort();
+      await expect(handle.done).rejects.toThrow();
+      expect(isAlive(pid)).toBe(false);
+      // stop() returns once the process is gone instead of waiting for the CLI to exit on its own
+      await driver.stop?.(handle);
+    });
+  }
+});
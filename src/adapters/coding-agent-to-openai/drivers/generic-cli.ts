@@ -7,7 +7,8 @@ import { execFileString } from "../../../utils/proc/exec";
 import { spawnStream } from "../../../utils/proc/spawn";
 import { assertNoLoginPromptOrThrow, extractErrorText } from "./login-detect";
 import { assertNoCliErrorOutput } from "./error-detect";
-import type { AgentSessionPaths, CodingAgentDriver } from "./types";
+import type { AgentSessionPaths, CodingAgentDriver, DriverStartOptions } from "./types";
+import { startRun, stopRun } from "./run";
 import { readFileSafe } from "../../../utils/fs";
 import { stripCodeFence } from "../core/text";
 
@@ -31,48 +32,52 @@ export function createGenericCLIDriver(
   produces?: "json" | "jsonl" | "text",
 ): CodingAgentDriver {
   return {
-    async start(prompt: string, session: AgentSessionPaths) {
-      await fsp.writeFile(session.inputPath, prompt);
-      const argv = Array.isArray(args) ? [...args] : [];
-      if (produces === "text" || produces === "jsonl") {
-        const out = createWriteStream(session.outputPath, { encoding: "utf8" as BufferEncoding });
-        await spawnStream({
-          cmd: binPath,
-          args: argv,
-          cwd: session.rootDir,
-          mode: produces === "jsonl" ? "jsonl" : "text",
-          writable: out,
-          onValidateClose: async (stderr: string) => {
-            assertNoLoginPromptOrThrow("", stderr);
-            const snapshot = await readFileSafe(session.outputPath);
-            assertNoCliErrorOutput(snapshot, stderr);
-          },
-        });
-      } else {
-        const stdout = await execFileString(
-          binPath,
-          argv,
-          {
-            encoding: "utf8" as BufferEncoding,
-            timeout: 5 * 60 * 1000,
-            maxBuffer: 8 * 1024 * 1024,
+    async start(prompt: string, session: AgentSessionPaths, options?: DriverStartOptions) {
+      return startRun(async (signal) => {
+        await fsp.writeFile(session.inputPath, prompt);
+        const argv = Array.isArray(args) ? [...args] : [];
+        if (produces === "text" || produces === "jsonl") {
+          const out = createWriteStream(session.outputPath, { encoding: "utf8" as BufferEncoding });
+          await spawnStream({
+            cmd: binPath,
+            args: argv,
             cwd: session.rootDir,
-          },
-          prompt,
-        ).catch((err) => {
-          const text = extractErrorText(err);
-          assertNoLoginPromptOrThrow("", text);
-          throw err;
-        });
-        assertNoLoginPromptOrThrow(stdout);
-        assertNoCliErrorOutput(stdout);
-        if (session.resultPath) {
-          await fsp.writeFile(session.resultPath, stdout);
+            mode: produces === "jsonl" ? "jsonl" : "text",
+            writable: out,
+            signal,
+            onValidateClose: async (stderr: string) => {
+              assertNoLoginPromptOrThrow("", stderr);
+              const snapshot = await readFileSafe(session.outputPath);
+              assertNoCliErrorOutput(snapshot, stderr);
+            },
+          });
+        } else {
+          const stdout = await execFileString(
+            binPath,
+            argv,
+            {
+              encoding: "utf8" as BufferEncoding,
+              timeout: 5 * 60 * 1000,
+              maxBuffer: 8 * 1024 * 1024,
+              cwd: session.rootDir,
+              signal,
+            },
+            prompt,
+          ).catch((err) => {
+            const text = extractErrorText(err);
+            assertNoLoginPromptOrThrow("", text);
+            throw err;
+          });
+          assertNoLoginPromptOrThrow(stdout);
+          assertNoCliErrorOutput(stdout);
+          if (session.resultPath) {
+            await fsp.writeFile(session.resultPath, stdout);
+          }
+          await fsp.writeFile(session.outputPath, parseJsonResult(stdout).text);
         }
-        await fsp.writeFile(session.outputPath, parseJsonResult(stdout).text);
-      }
-      return {};
+      }, options?.signal);
     },
+    stop: stopRun,
     parseResult(stdoutOrFile: string) {
       if (produces === "json") {
         return parseJsonResult(stdoutOrFile);
@@ -0,0 +1,30 @@
+/**
+ * @file Background runs for coding-agent drivers
+ * Drivers start the CLI and return immediately, so callers can tail output while the agent works
+ * and stop it when the client goes away.
+ */
+import type { ProcessHandle } from "./types";
+
+/**
+ * Run a driver task in the background.
+ * The task receives a signal that aborts when the caller's `signal` fires or the handle is stopped.
+ */
+export function startRun(task: (signal: AbortSignal) => Promise<void>, signal?: AbortSignal): ProcessHandle {
+  const controller = new AbortController();
+  const forward = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    forward();
+  } else {
+    signal?.addEventListener("abort", forward, { once: true });
+  }
+  const done = task(controller.signal).finally(() => signal?.removeEventListener("abort", forward));
+  // Rejections surface through `done`; keep an unobserved failure from becoming unhandled
+  done.catch(() => undefined);
+  return { done, abort: () => controller.abort() };
+}
+
+/** Stop a run started with {@link startRun} and wait for the process to exit. */
+export async function stopRun(handle: ProcessHandle): Promise<void> {
+  handle.abort?.();
+  await handle.done?.catch(() => undefined);
+}
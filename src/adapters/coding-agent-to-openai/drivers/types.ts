@@ -14,13 +14,23 @@ export type AgentSessionPaths = {
 export type ProcessHandle = {
   /** Optional metadata or process id */
   pid?: number;
+  /** Settles when the run finishes; absent when start() only returns after completion. */
+  done?: Promise<void>;
+  /** Aborts a run still in progress; used by stop(). */
+  abort?: () => void;
+};
+
+export type DriverStartOptions = {
+  /** Aborting kills the agent process. */
+  signal?: AbortSignal;
 };
 
 export type CodingAgentDriver = {
   /**
    * Start execution by writing prompt to session.inputPath, and producing outputs to session.outputPath.
+   * Drivers may return while the agent is still running; await `handle.done` for completion.
    */
-  start(prompt: string, session: AgentSessionPaths): Promise<ProcessHandle>;
+  start(prompt: string, session: AgentSessionPaths, options?: DriverStartOptions): Promise<ProcessHandle>;
   /**
    * Stop the execution if supported (best-effort).
    */
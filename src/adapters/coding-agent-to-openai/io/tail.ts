@@ -4,12 +4,18 @@
  */
 import { promises as fsp } from "node:fs";
 
-export type TailOptions = { pollMs?: number; idleMs?: number };
+export type TailOptions = {
+  pollMs?: number;
+  idleMs?: number;
+  /** Writer completion; when given, tailing ends once it settles instead of after idleMs. */
+  until?: Promise<unknown>;
+};
 
 /**
  * Stream chunks appended to a file, polling until idle.
  * - Starts reading from the current end (does not emit existing content).
  * - Yields new slices as they are written; completes after idleMs of no growth once any data has been seen.
+ * - With `until`, completes after the promise settles and the remaining content is drained; a rejection is rethrown.
  */
 export async function* tailFile(
   path: string,
@@ -17,12 +23,27 @@ export async function* tailFile(
 ): AsyncGenerator<string, void, unknown> {
   const pollMs = opts.pollMs ?? 80;
   const idleMs = opts.idleMs ?? 500;
-  const state = { off: 0, lastGrowAt: Date.now(), seenAny: false } as {
+  const state = { off: 0, lastGrowAt: Date.now(), seenAny: false, settled: false } as {
     off: number;
     lastGrowAt: number;
     seenAny: boolean;
+    settled: boolean;
+    error?: unknown;
   };
+  if (opts.until) {
+    opts.until.then(
+      () => {
+        state.settled = true;
+      },
+      (err: unknown) => {
+        state.settled = true;
+        state.error = err;
+      },
+    );
+  }
   for (;;) {
+    // Sample before reading so bytes written right before settling are still drained
+    const settled = state.settled;
     const size = await safeSize(path);
     if (size > state.off) {
       const content = await readFileStrict(path, pollMs);
@@ -35,7 +56,14 @@ export async function* tailFile(
         continue;
       }
     }
-    if (state.seenAny && Date.now() - state.lastGrowAt >= idleMs) {
+    if (opts.until) {
+      if (settled) {
+        if (state.error !== undefined) {
+          throw state.error;
+        }
+        return;
+      }
+    } else if (state.seenAny && Date.now() - state.lastGrowAt >= idleMs) {
       return;
     }
     await new Promise((r) => setTimeout(r, pollMs));
@@ -2,6 +2,9 @@
  * @file Unit tests for coding-agent OpenAI-compatible adapter (uses vitest globals)
  */
 
+import { promises as fsp } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { buildOpenAICompatibleClientForCodingAgent } from "./openai-compatible";
 import type { Provider } from "../../config/types";
 
@@ -73,4 +76,79 @@ describe("coding-agent openai-compatible", () => {
       client.chat.completions.create({ model: "m", messages: [{ role: "user", content: "hi" }], stream: false }),
     ).rejects.toThrow();
   });
+
+  describe("cancellation", () => {
+    // Agent stand-in: records its pid, then runs until killed
+    const hangScript = "require('fs').writeFileSync(process.argv[1], String(process.pid)); setInterval(() => {}, 1000)";
+
+    async function hangingProvider(): Promise<{ provider: Provider; pidFile: string }> {
+      const dir = await fsp.mkdtemp(join(tmpdir(), "coding-agent-abort-"));
+      const pidFile = join(dir, "pid");
+      const provider = {
+        type: "coding-agent",
+        model: "test-model",
+        codingAgent: { kind: "claude-code", binPath: process.execPath, args: ["-e", hangScript, pidFile] },
+      } as Provider;
+      return { provider, pidFile };
+    }
+
+    async function waitForPid(pidFile: string): Promise<number> {
+      for (let i = 0; i < 200; i += 1) {
+        const text = await fsp.readFile(pidFile, "utf8").catch(() => "");
+        if (text) {
+          return Number(text);
+        }
+        await new Promise((r) => setTimeout(r, 25));
+      }
+      throw new Error("agent did not start");
+    }
+
+    function isAlive(pid: number): boolean {
+      try {
+        process.kill(pid, 0);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    async function waitForExit(pid: number): Promise<boolean> {
+      for (let i = 0; i < 80; i += 1) {
+        if (!isAlive(pid)) {
+          return true;
+        }
+        await new Promise((r) => setTimeout(r, 25));
+      }
+      return false;
+    }
+
+    it("kills the agent process when the request signal aborts", async () => {
+      const { provider, pidFile } = await hangingProvider();
+      const client = buildOpenAICompatibleClientForCodingAgent(provider);
+      const controller = new AbortController();
+      const pending = client.chat.completions.create(
+        { model: "m", messages: [{ role: "user", content: "hi" }], stream: false },
+        { signal: controller.signal },
+      );
+      const pid = await waitForPid(pidFile);
+      controller.abort();
+      await expect(pending).rejects.toThrow();
+      expect(await waitForExit(pid)).toBe(true);
+    });
+
+    it("stops the agent when a stream consumer goes away", async () => {
+      const { provider, pidFile } = await hangingProvider();
+      const client = buildOpenAICompatibleClientForCodingAgent(provider);
+      const stream = await client.chat.completions.create({
+        model: "m",
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+      });
+      const iterator = stream[Symbol.asyncIterator]();
+      await iterator.next();
+      const pid = await waitForPid(pidFile);
+      await iterator.return?.();
+      expect(isAlive(pid)).toBe(false);
+    });
+  });
 });
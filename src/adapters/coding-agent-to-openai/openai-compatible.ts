@@ -20,7 +20,7 @@ import { formatMessagesForClaudeCode, toClaudeCodeMessages } from "./core/messag
 import { streamTextToChatChunks } from "./markdown/stream";
 import { createSession } from "./io/session";
 import { tailFile } from "./io/tail";
-import type { CodingAgentDriver } from "./drivers/types";
+import type { CodingAgentDriver, ProcessHandle } from "./drivers/types";
 import { createClaudeCodeDriver } from "./drivers/claude-code";
 import { createCodexDriver } from "./drivers/codex-cli";
 import { createGeminiCLIDriver } from "./drivers/gemini-cli";
@@ -46,7 +46,10 @@ export function buildOpenAICompatibleClientForCodingAgent(
   modelHint?: string,
 ): OpenAICompatibleClient {
   const chatCompletionsCreate = defineChatCompletionsCreate(
-    async (params: ChatCompletionCreateParams): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> => {
+    async (
+      params: ChatCompletionCreateParams,
+      options?: { signal?: AbortSignal },
+    ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> => {
       const model = await resolveModelForProvider({ provider, sourceModel: params.model, modelHint });
       const messages = params.messages ?? [];
       const plainMessages = toClaudeCodeMessages(messages as ChatCompletionMessageParam[]);
@@ -54,12 +57,14 @@ export function buildOpenAICompatibleClientForCodingAgent(
 
       const driver = selectDriver(provider);
       const session = await createSession();
-      await driver.start(prompt, session.paths);
+      const handle = await driver.start(prompt, session.paths, { signal: options?.signal });
 
       if (params.stream) {
-        // True incremental streaming from file tail
-        return streamTextToChatChunks(model, tailFile(session.paths.outputPath, { idleMs: 400 }));
+        // True incremental streaming from file tail; stops the agent when the consumer goes away
+        const source = tailFile(session.paths.outputPath, { idleMs: 400, until: handle.done });
+        return stopAgentOnExit(driver, handle, streamTextToChatChunks(model, source));
       }
+      await handle.done;
       const output = await readFileSafe(session.paths.outputPath);
       if (provider.codingAgent?.produces === "json" && driver.parseResult) {
         const parsed = driver.parseResult(await readFileSafe(session.paths.resultPath));
@@ -73,6 +78,7 @@ export function buildOpenAICompatibleClientForCodingAgent(
   const responsesCreate = defineResponsesCreate(
     async (
       params: ResponseCreateParams,
+      options?: { signal?: AbortSignal },
     ): Promise<OpenAIResponse | AsyncIterable<ResponseStreamEvent>> => {
       // Map Responses params to ChatCompletionCreateParams
       const messages: ChatCompletionMessageParam[] = [];
@@ -97,7 +103,7 @@ export function buildOpenAICompatibleClientForCodingAgent(
           ...chatParams,
           stream: true,
         };
-        const stream = await chatCompletionsCreate(streamParams);
+        const stream = await chatCompletionsCreate(streamParams, options);
         // Convert ChatCompletion stream to Responses stream
         const state = createStreamHandlerState();
         return handleStream(state, stream);
@@ -107,7 +113,7 @@ export function buildOpenAICompatibleClientForCodingAgent(
         ...chatParams,
         stream: false,
       };
-      const completion = await chatCompletionsCreate(nonStreamParams);
+      const completion = await chatCompletionsCreate(nonStreamParams, options);
       return convertChatCompletionToResponse(completion);
     },
   );
@@ -134,6 +140,19 @@ export function buildOpenAICompatibleClientForCodingAgent(
   };
 }
 
+async function* stopAgentOnExit<T>(
+  driver: CodingAgentDriver,
+  handle: ProcessHandle,
+  source: AsyncIterable<T>,
+): AsyncGenerator<T, void, unknown> {
+  try {
+    yield* source;
+  } finally {
+    // No-op when the run already finished; kills the CLI when the stream was cancelled early
+    await driver.stop?.(handle);
+  }
+}
+
 function finalizeTextCompletion(model: string, text: string): ChatCompletion {
   return {
     id: `chatcmpl_${Math.random().toString(36).slice(2)}`,
@@ -0,0 +1,110 @@
+/** @file Unit tests for legacy Completions emulated on Chat Completions */
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+  ChatCompletionTokenLogprob,
+} from "openai/resources/chat/completions";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { chatChunk, chatCompletion } from "../../test-utils/fake-chat-client";
+import { createCompletion, streamCompletion } from "./completions";
+import { toPromptTexts } from "./request";
+
+const tokenLogprobs: ChatCompletionTokenLogprob[] = [
+  { token: " wor", logprob: -0.1, bytes: null, top_logprobs: [{ token: " wor", logprob: -0.1, bytes: null }] },
+  { token: "ld", logprob: -0.2, bytes: null, top_logprobs: [{ token: "ld", logprob: -0.2, bytes: null }] },
+];
+
+function completion(content: string): ChatCompletion {
+  return chatCompletion(content, {
+    choice: { finish_reason: "length", logprobs: { content: tokenLogprobs, refusal: null } },
+    usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+  });
+}
+
+function makeClient(calls: ChatCompletionCreateParams[]): Pick<OpenAICompatibleClient, "chat"> {
+  async function* stream(): AsyncIterable<ChatCompletionChunk> {
+    yield chatChunk({ role: "assistant", content: "" });
+    yield chatChunk(" world");
+    yield chatChunk({}, "stop");
+    yield { ...chatChunk({}), choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } };
+  }
+  const create = async (params: ChatCompletionCreateParams) => {
+    calls.push(params);
+    const prompt = params.messages[1]?.content;
+    return params.stream ? stream() : completion(` after ${String(prompt)}`);
+  };
+  return { chat: { completions: { create: create as OpenAICompatibleClient["chat"]["completions"]["create"] } } };
+}
+
+describe("completions emulator", () => {
+  it("answers every prompt n times, numbering choices like OpenAI", async () => {
+    const calls: ChatCompletionCreateParams[] = [];
+    const res = await createCompletion(makeClient(calls), {
+      model: "m",
+      prompt: ["a", "b"],
+      n: 2,
+      stop: ["\n"],
+      temperature: 0.5,
+    });
+    expect(res.object).toBe("text_completion");
+    expect(res.id).toMatch(/^cmpl_/);
+    expect(res.choices.map((c) => [c.index, c.text])).toEqual([
+      [0, " after a"],
+      [1, " after a"],
+      [2, " after b"],
+      [3, " after b"],
+    ]);
+    expect(res.choices[0]).toMatchObject({ finish_reason: "length", logprobs: null });
+    expect(res.usage).toEqual({ prompt_tokens: 6, completion_tokens: 8, total_tokens: 14 });
+    expect(calls[0]).toMatchObject({ model: "m", max_tokens: 16, stop: ["\n"], temperature: 0.5 });
+    expect(calls[0]?.messages[1]).toEqual({ role: "user", content: "a" });
+  });
+
+  it("echoes the prompt, carries the suffix and maps logprobs", async () => {
+    const calls: ChatCompletionCreateParams[] = [];
+    const res = await createCompletion(makeClient(calls), {
+      model: "m",
+      prompt: "hello",
+      echo: true,
+      suffix: "!",
+      logprobs: 1,
+      max_tokens: null,
+    });
+    expect(res.choices[0]?.text).toBe("hello after hello");
+    expect(res.choices[0]?.logprobs).toEqual({
+      tokens: [" wor", "ld"],
+      token_logprobs: [-0.1, -0.2],
+      top_logprobs: [{ " wor": -0.1 }, { ld: -0.2 }],
+      text_offset: [5, 9],
+    });
+    expect(calls[0]).toMatchObject({ logprobs: true, top_logprobs: 1 });
+    expect(calls[0]).not.toHaveProperty("max_tokens");
+    expect(String(calls[0]?.messages[0]?.content).endsWith("\n\n!")).toBe(true);
+  });
+
+  it("streams text_completion chunks with the echo first and usage last", async () => {
+    const calls: ChatCompletionCreateParams[] = [];
+    const chunks = [];
+    const stream = streamCompletion(makeClient(calls), {
+      model: "m",
+      prompt: "hello",
+      echo: true,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    for await (const c of stream) {
+      chunks.push(c);
+    }
+    expect(chunks.map((c) => c.choices[0]?.text)).toEqual(["hello", " world", "", undefined]);
+    expect(chunks[2]?.choices[0]?.finish_reason).toBe("stop");
+    expect(chunks.at(-1)?.usage).toEqual({ prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 });
+    expect(new Set(chunks.map((c) => c.id)).size).toBe(1);
+    expect(calls[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it("rejects token-array prompts", () => {
+    expect(() => toPromptTexts([1, 2, 3])).toThrow(/Token-array prompts/);
+    expect(toPromptTexts(null)).toEqual([""]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @file Legacy Completions (`/v1/completions`) emulated on Chat Completions
+ *
+ * Every prompt × `n` becomes its own chat turn so backends without `n` support still
+ * return the requested number of choices.
+ */
+import type {
+  Completion,
+  CompletionChoice,
+  CompletionCreateParamsNonStreaming,
+  CompletionCreateParamsStreaming,
+  CompletionUsage,
+} from "openai/resources/completions";
+import type { ChatCompletionCreateParamsStreaming } from "openai/resources/chat/completions";
+import type { CompletionChunk, OpenAICompatibleClient } from "../openai-client-types";
+import { generateId } from "../conversation/id-conversion";
+import { planTurns, toChatParams } from "./request";
+import { addUsage, toCompletionLogprobs, toFinishReason } from "./response";
+
+type ChatClient = Pick<OpenAICompatibleClient, "chat">;
+
+function emptyUsage(): CompletionUsage {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+}
+
+/** Answer all turns concurrently and assemble one `text_completion` */
+export async function createCompletion(
+  client: ChatClient,
+  params: CompletionCreateParamsNonStreaming,
+  options?: { signal?: AbortSignal },
+): Promise<Completion> {
+  const answered = await Promise.all(
+    planTurns(params).map(async (turn) => ({
+      turn,
+      completion: await client.chat.completions.create(toChatParams(params, turn.prompt), options),
+    })),
+  );
+  const usage = emptyUsage();
+  const choices = answered.map(({ turn, completion }): CompletionChoice => {
+    addUsage(usage, completion.usage, turn.index % Math.max(1, params.n ?? 1) === 0);
+    const choice = completion.choices[0];
+    const prefix = params.echo ? turn.prompt : "";
+    const logprobs = toCompletionLogprobs(choice?.logprobs?.content, prefix.length);
+    return {
+      index: turn.index,
+      text: prefix + (choice?.message.content ?? ""),
+      logprobs: typeof params.logprobs === "number" ? logprobs : null,
+      finish_reason: toFinishReason(choice?.finish_reason),
+    };
+  });
+  return {
+    id: generateId("cmpl"),
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model: params.model,
+    choices,
+    usage,
+  };
+}
+
+/**
+ * Stream the turns one after another as `text_completion` chunks.
+ * The echoed prompt arrives as the first chunk of its choice; usage comes last when
+ * `stream_options.include_usage` is set, as on the native endpoint.
+ */
+export async function* streamCompletion(
+  client: ChatClient,
+  params: CompletionCreateParamsStreaming,
+  options?: { signal?: AbortSignal },
+): AsyncGenerator<CompletionChunk, void, unknown> {
+  const base = { id: generateId("cmpl"), object: "text_completion" as const, created: Math.floor(Date.now() / 1000) };
+  const includeUsage = params.stream_options?.include_usage === true;
+  const wantsLogprobs = typeof params.logprobs === "number";
+  const usage = emptyUsage();
+  const n = Math.max(1, params.n ?? 1);
+
+  for (const turn of planTurns(params)) {
+    const frame = (choice: CompletionChunk["choices"][number]): CompletionChunk => ({
+      ...base,
+      model: params.model,
+      choices: [choice],
+    });
+    const state = { offset: 0 };
+    if (params.echo && turn.prompt) {
+      state.offset = turn.prompt.length;
+      yield frame({ index: turn.index, text: turn.prompt, logprobs: null, finish_reason: null });
+    }
+    const chatParams: ChatCompletionCreateParamsStreaming = { ...toChatParams(params, turn.prompt), stream: true };
+    if (includeUsage) {
+      chatParams.stream_options = { include_usage: true };
+    }
+    const stream = await client.chat.completions.create(chatParams, options);
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        addUsage(usage, chunk.usage, turn.index % n === 0);
+      }
+      const choice = chunk.choices[0];
+      if (!choice) {
+        continue;
+      }
+      const text = choice.delta.content ?? "";
+      if (!text && !choice.finish_reason) {
+        continue;
+      }
+      const logprobs = wantsLogprobs ? toCompletionLogprobs(choice.logprobs?.content, state.offset) : null;
+      state.offset += text.length;
+      const finishReason = choice.finish_reason ? toFinishReason(choice.finish_reason) : null;
+      yield frame({ index: turn.index, text, logprobs, finish_reason: finishReason });
+    }
+  }
+
+  if (includeUsage) {
+    yield { ...base, model: params.model, choices: [], usage };
+  }
+}
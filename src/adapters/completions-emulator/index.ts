@@ -0,0 +1,40 @@
+/**
+ * @file Public entry for the legacy Completions emulator.
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineCompletionsCreate } from "../openai-client-types";
+import { createCompletion, streamCompletion } from "./completions";
+
+export { createCompletion, streamCompletion } from "./completions";
+
+/**
+ * Build `completions` for a client from its Chat Completions API.
+ *
+ * @param client - Client whose chat completions answer the emulated requests
+ * @returns Completions namespace covering sync and streaming requests
+ */
+export function createCompletionsWithChat(
+  client: Pick<OpenAICompatibleClient, "chat">,
+): NonNullable<OpenAICompatibleClient["completions"]> {
+  return {
+    create: defineCompletionsCreate(async (params, options) => {
+      if (params.stream) {
+        return streamCompletion(client, params, options);
+      }
+      return createCompletion(client, params, options);
+    }),
+  };
+}
+
+/**
+ * Add emulated legacy completions to a client that has none. Native implementations are kept.
+ *
+ * @param client - Backend client
+ * @returns Client with `completions` available
+ */
+export function withEmulatedCompletions(client: OpenAICompatibleClient): OpenAICompatibleClient {
+  if (client.completions) {
+    return client;
+  }
+  return { ...client, completions: createCompletionsWithChat(client) };
+}
@@ -0,0 +1,97 @@
+/**
+ * @file Legacy Completions request → Chat Completions request mapping
+ */
+import type { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import type { CompletionCreateParams } from "openai/resources/completions";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+
+/** One emulated choice: a single prompt answered once, placed at `index` in the response */
+export type CompletionTurn = { index: number; promptIndex: number; prompt: string };
+
+/** Default of the legacy endpoint; chat backends would otherwise answer at full length */
+const DEFAULT_MAX_TOKENS = 16;
+
+const CONTINUE_INSTRUCTION =
+  "Continue the text given by the user. Reply with the continuation only: do not repeat the text, answer it as a question, or add commentary.";
+
+/**
+ * Normalize the `prompt` field to a list of texts.
+ * Token-id prompts cannot be decoded without the model's tokenizer and are rejected.
+ */
+export function toPromptTexts(prompt: CompletionCreateParams["prompt"]): string[] {
+  if (prompt === null || prompt === undefined) {
+    return [""];
+  }
+  if (typeof prompt === "string") {
+    return [prompt];
+  }
+  const texts = prompt.filter((entry): entry is string => typeof entry === "string");
+  if (texts.length !== prompt.length) {
+    throw new HttpError(400, "Token-array prompts are not supported by the completions emulator", "bad_request");
+  }
+  if (texts.length === 0) {
+    return [""];
+  }
+  return texts;
+}
+
+/** Expand prompts × `n` into turns, ordered the way OpenAI numbers legacy choices */
+export function planTurns(params: CompletionCreateParams): CompletionTurn[] {
+  const n = Math.max(1, params.n ?? 1);
+  return toPromptTexts(params.prompt).flatMap((prompt, promptIndex) =>
+    Array.from({ length: n }, (_, i) => ({ index: promptIndex * n + i, promptIndex, prompt })),
+  );
+}
+
+function systemInstruction(suffix: string | null | undefined): string {
+  if (!suffix) {
+    return CONTINUE_INSTRUCTION;
+  }
+  return `${CONTINUE_INSTRUCTION} The continuation is inserted before the text below, so it must lead into it without repeating it:\n\n${suffix}`;
+}
+
+/**
+ * Build the chat request that continues one prompt.
+ * `suffix` becomes part of the instruction; `logprobs: k` asks for the top k alternatives per token.
+ */
+export function toChatParams(params: CompletionCreateParams, prompt: string): ChatCompletionCreateParamsNonStreaming {
+  const chat: ChatCompletionCreateParamsNonStreaming = {
+    model: params.model,
+    messages: [
+      { role: "system", content: systemInstruction(params.suffix) },
+      { role: "user", content: prompt },
+    ],
+  };
+  if (params.max_tokens !== null) {
+    chat.max_tokens = params.max_tokens ?? DEFAULT_MAX_TOKENS;
+  }
+  if (params.temperature !== undefined) {
+    chat.temperature = params.temperature;
+  }
+  if (params.top_p !== undefined) {
+    chat.top_p = params.top_p;
+  }
+  if (params.stop !== undefined) {
+    chat.stop = params.stop;
+  }
+  if (params.presence_penalty !== undefined) {
+    chat.presence_penalty = params.presence_penalty;
+  }
+  if (params.frequency_penalty !== undefined) {
+    chat.frequency_penalty = params.frequency_penalty;
+  }
+  if (params.seed !== undefined) {
+    chat.seed = params.seed;
+  }
+  if (params.logit_bias !== undefined) {
+    chat.logit_bias = params.logit_bias;
+  }
+  if (params.user !== undefined) {
+    chat.user = params.user;
+  }
+  if (typeof params.logprobs === "number") {
+    chat.logprobs = true;
+    chat.top_logprobs = params.logprobs;
+  }
+  return chat;
+}
@@ -0,0 +1,53 @@
+/**
+ * @file Chat Completions results → legacy Completions choices
+ */
+import type { ChatCompletion, ChatCompletionTokenLogprob } from "openai/resources/chat/completions";
+import type { CompletionChoice, CompletionUsage } from "openai/resources/completions";
+
+/** Tool and function calls have no legacy equivalent; the text simply ended */
+export function toFinishReason(
+  reason: ChatCompletion.Choice["finish_reason"] | null | undefined,
+): CompletionChoice["finish_reason"] {
+  if (reason === "length" || reason === "content_filter") {
+    return reason;
+  }
+  return "stop";
+}
+
+/**
+ * Convert chat token logprobs to the legacy column layout.
+ * `offset` is where the first token starts in the returned text (after any echoed prompt).
+ *
+ * @returns Legacy logprobs, or null when the backend returned none
+ */
+export function toCompletionLogprobs(
+  content: ChatCompletionTokenLogprob[] | null | undefined,
+  offset: number,
+): CompletionChoice.Logprobs | null {
+  if (!content) {
+    return null;
+  }
+  const textOffset: number[] = [];
+  const state = { position: offset };
+  for (const entry of content) {
+    textOffset.push(state.position);
+    state.position += entry.token.length;
+  }
+  return {
+    tokens: content.map((entry) => entry.token),
+    token_logprobs: content.map((entry) => entry.logprob),
+    top_logprobs: content.map((entry) => Object.fromEntries(entry.top_logprobs.map((top) => [top.token, top.logprob]))),
+    text_offset: textOffset,
+  };
+}
+
+/** Sum usage across turns; the prompt of a turn repeated for `n` is counted once */
+export function addUsage(total: CompletionUsage, usage: CompletionUsage | undefined, countPrompt: boolean): void {
+  if (!usage) {
+    return;
+  }
+  const promptTokens = countPrompt ? usage.prompt_tokens : 0;
+  total.prompt_tokens += promptTokens;
+  total.completion_tokens += usage.completion_tokens;
+  total.total_tokens += promptTokens + usage.completion_tokens;
+}
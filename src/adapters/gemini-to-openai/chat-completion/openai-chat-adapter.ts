@@ -1,201 +1,172 @@
 /**
- * @file Mock Chat Completion adapter for Gemini provider
- * Provides placeholder implementations of OpenAI Chat Completion API for Gemini provider,
- * generating mock responses and streaming chunks with basic echo functionality and tool call
- * simulation to support development and testing scenarios.
+ * @file Converts Gemini responses to OpenAI Chat Completion format
+ * Maps generateContent candidates onto chat completion choices (text, tool calls, finish reasons)
+ * and streamGenerateContent chunks onto chat completion chunks, reporting usage from Gemini's
+ * usageMetadata in the final chunk.
  */
 import type {
   ChatCompletion,
   ChatCompletionChunk,
-  ChatCompletionMessageParam,
-  ChatCompletionCreateParams,
+  ChatCompletionMessageFunctionToolCall,
 } from "openai/resources/chat/completions";
-import type { ChatCompletionMessage, ChatCompletionMessageToolCall } from "openai/resources/chat/completions";
-import { isFunctionToolChoice } from "../../../providers/openai/chat-guards";
-import { generateId } from "../../conversation/id-conversion";
+import type { CompletionUsage } from "openai/resources/completions";
+import type { GeminiPart, GenerateContentResponse } from "../../../providers/gemini/client/fetch-client";
+import { isGeminiFunctionCallPart, isGeminiTextPart } from "../../../providers/gemini/guards";
+import { generateId, generateOpenAICallId } from "../../conversation/id-conversion";
 
-function buildAssistantText(messages: ChatCompletionMessageParam[]): string {
-  const lastUser = [...messages].reverse().find((m) => m.role === "user");
-  const txt = typeof lastUser?.content === "string" ? lastUser.content : "";
-  return txt ? `Echo: ${txt}` : "Echo: (no input)";
+type FinishReason = ChatCompletion["choices"][number]["finish_reason"];
+type Candidate = NonNullable<GenerateContentResponse["candidates"]>[number];
+
+const CONTENT_FILTER_REASONS = new Set(["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII"]);
+
+function mapFinishReason(reason: string | undefined, hasToolCalls: boolean): FinishReason {
+  if (hasToolCalls) {
+    return "tool_calls";
+  }
+  if (reason === "MAX_TOKENS") {
+    return "length";
+  }
+  if (reason && CONTENT_FILTER_REASONS.has(reason)) {
+    return "content_filter";
+  }
+  return "stop";
+}
+
+function toUsage(meta: GenerateContentResponse["usageMetadata"]): CompletionUsage {
+  const prompt = meta?.promptTokenCount ?? 0;
+  const completion = meta?.candidatesTokenCount ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: meta?.totalTokenCount ?? prompt + completion,
+  };
+}
+
+function candidateParts(candidate: Candidate): GeminiPart[] {
+  const parts = candidate.content?.parts;
+  return Array.isArray(parts) ? parts : [];
+}
+
+function toToolCall(part: Extract<GeminiPart, { functionCall: unknown }>): ChatCompletionMessageFunctionToolCall {
+  return {
+    id: generateOpenAICallId(),
+    type: "function",
+    function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+  };
+}
+
+function candidateIndex(candidate: Candidate, position: number): number {
+  return typeof candidate.index === "number" ? candidate.index : position;
 }
 
 /**
- * Generates mock OpenAI Chat Completion responses for Gemini provider development.
- * Provides placeholder functionality when Gemini's actual chat completion implementation
- * is unavailable, enabling continued development and testing of integration workflows.
- * Simulates tool calls and text responses based on OpenAI Chat Completion patterns.
+ * Converts a Gemini generateContent response into an OpenAI Chat Completion.
+ * Each candidate becomes a choice; function calls become tool calls with generated call ids.
  *
- * @param params - OpenAI Chat Completion parameters for mock response generation
- * @returns Mock ChatCompletion response with simulated content and metadata
+ * @param resp - Gemini GenerateContent response
+ * @param model - Model identifier reported on the completion
+ * @returns OpenAI-compatible ChatCompletion
  */
-export function geminiToChatCompletion(params: ChatCompletionCreateParams): ChatCompletion {
-  const id = generateId("chatcmpl");
-  const text = buildAssistantText(params.messages);
-  const created = Math.floor(Date.now() / 1000);
-
-  const toolChoiceInfo = (() => {
-    const toolChoice = params.tool_choice;
-    if (isFunctionToolChoice(toolChoice)) {
-      return {
-        toolForced: true,
-        toolName: toolChoice.function?.name ? toolChoice.function.name : "",
-      };
-    }
+export function geminiToChatCompletion(resp: GenerateContentResponse, model: string): ChatCompletion {
+  const choices = (resp.candidates ?? []).map((candidate, position): ChatCompletion["choices"][number] => {
+    const parts = candidateParts(candidate);
+    const text = parts
+      .filter(isGeminiTextPart)
+      .map((p) => p.text)
+      .join("");
+    const toolCalls = parts.filter(isGeminiFunctionCallPart).map(toToolCall);
     return {
-      toolForced: false,
-      toolName: "",
-    };
-  })();
-
-  const createMessage = (): ChatCompletionMessage => {
-    if (toolChoiceInfo.toolForced) {
-      return {
+      index: candidateIndex(candidate, position),
+      message: {
         role: "assistant",
-        content: null,
+        content: text.length > 0 ? text : null,
         refusal: null,
-        tool_calls: [
-          {
-            id: generateId("call"),
-            type: "function",
-            function: { name: toolChoiceInfo.toolName, arguments: JSON.stringify({ input: "test" }) },
-          } as ChatCompletionMessageToolCall,
-        ],
-      };
-    }
-    return {
-      role: "assistant",
-      content: text,
-      refusal: null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: mapFinishReason(candidate.finishReason, toolCalls.length > 0),
+      logprobs: null,
     };
-  };
-  const message = createMessage();
+  });
 
   return {
-    id,
+    id: resp.responseId ? `chatcmpl-${resp.responseId}` : generateId("chatcmpl"),
     object: "chat.completion",
-    created,
-    model: params.model,
-    choices: [
-      {
-        index: 0,
-        message,
-        finish_reason: "stop",
-      },
-    ],
-    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
-  } as ChatCompletion;
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices,
+    usage: toUsage(resp.usageMetadata),
+  };
 }
 
+type CandidateStreamState = { started: boolean; toolCalls: number; finishReason?: string };
+
 /**
- * Generates mock streaming Chat Completion chunks for Gemini provider testing.
- * Simulates real-time response streaming behavior when Gemini's actual streaming
- * implementation is not available, enabling development of streaming UI components
- * and testing of streaming response handling logic.
+ * Converts a Gemini streamGenerateContent stream into OpenAI Chat Completion chunks.
+ * Gemini delivers each function call whole, so a tool call is emitted as a single delta carrying
+ * its id, name and complete arguments. Finish reasons are held until the stream ends; the last
+ * chunk carries the usage reported by Gemini.
  *
- * @param params - OpenAI Chat Completion parameters for mock stream generation
- * @yields Mock ChatCompletionChunk objects simulating progressive response generation
+ * @param stream - Gemini streaming responses
+ * @param model - Model identifier reported on every chunk
+ * @yields ChatCompletionChunk objects
  */
 export async function* geminiToChatCompletionStream(
-  params: ChatCompletionCreateParams,
+  stream: AsyncIterable<GenerateContentResponse>,
+  model: string,
 ): AsyncGenerator<ChatCompletionChunk, void, unknown> {
   const id = generateId("chatcmpl");
   const created = Math.floor(Date.now() / 1000);
-  const toolChoiceInfo = (() => {
-    const toolChoice = params.tool_choice;
-    if (isFunctionToolChoice(toolChoice)) {
-      return {
-        toolForced: true,
-        toolName: toolChoice.function?.name ? toolChoice.function.name : "",
-      };
-    }
-    return {
-      toolForced: false,
-      toolName: "",
-    };
-  })();
+  const candidates = new Map<number, CandidateStreamState>();
+  // eslint-disable-next-line no-restricted-syntax -- Usage is cumulative and only the latest report matters
+  let usageMetadata: GenerateContentResponse["usageMetadata"];
 
-  if (toolChoiceInfo.toolForced) {
-    // Emit tool_call deltas
-    const callId = generateId("call");
-    const firstDelta: ChatCompletionChunk = {
-      id,
-      object: "chat.completion.chunk",
-      created,
-      model: params.model,
-      choices: [
-        {
-          index: 0,
-          delta: {
-            role: "assistant",
-            content: null,
-            tool_calls: [
-              { index: 0, id: callId, type: "function", function: { name: toolChoiceInfo.toolName, arguments: "" } },
-            ],
-          },
-          finish_reason: null,
-        },
-      ],
-    };
-    yield firstDelta;
-    const secondDelta: ChatCompletionChunk = {
-      id,
-      object: "chat.completion.chunk",
-      created,
-      model: params.model,
-      choices: [
-        {
-          index: 0,
-          delta: {
-            tool_calls: [
-              { index: 0, id: callId, type: "function", function: { arguments: JSON.stringify({ input: "test" }) } },
-            ],
-          },
-          finish_reason: null,
-        },
-      ],
-    };
-    yield secondDelta;
-    const finalDelta: ChatCompletionChunk = {
-      id,
-      object: "chat.completion.chunk",
-      created,
-      model: params.model,
-      choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
-    };
-    yield finalDelta;
-    return;
-  }
-
-  const text = buildAssistantText(params.messages);
-  const chunks = [text.slice(0, Math.ceil(text.length / 2)), text.slice(Math.ceil(text.length / 2))];
-  // First chunk with role
-  const first: ChatCompletionChunk = {
+  const chunk = (choice: ChatCompletionChunk["choices"][number]): ChatCompletionChunk => ({
     id,
     object: "chat.completion.chunk",
     created,
-    model: params.model,
-    choices: [{ index: 0, delta: { role: "assistant", content: chunks[0] }, finish_reason: null }],
-  };
-  yield first;
-  // Second chunk
-  if (chunks[1]) {
-    const second: ChatCompletionChunk = {
-      id,
-      object: "chat.completion.chunk",
-      created,
-      model: params.model,
-      choices: [{ index: 0, delta: { content: chunks[1] }, finish_reason: null }],
-    };
-    yield second;
+    model,
+    choices: [choice],
+  });
+
+  for await (const resp of stream) {
+    if (resp.usageMetadata) {
+      usageMetadata = resp.usageMetadata;
+    }
+    for (const [position, candidate] of (resp.candidates ?? []).entries()) {
+      const index = candidateIndex(candidate, position);
+      const state = candidates.get(index) ?? { started: false, toolCalls: 0 };
+      candidates.set(index, state);
+
+      for (const part of candidateParts(candidate)) {
+        const role = state.started ? {} : { role: "assistant" as const };
+        if (isGeminiTextPart(part) && part.text) {
+          state.started = true;
+          yield chunk({ index, delta: { ...role, content: part.text }, finish_reason: null });
+          continue;
+        }
+        if (isGeminiFunctionCallPart(part)) {
+          state.started = true;
+          const call = toToolCall(part);
+          const toolCall = { index: state.toolCalls, ...call };
+          state.toolCalls += 1;
+          yield chunk({ index, delta: { ...role, tool_calls: [toolCall] }, finish_reason: null });
+        }
+      }
+      if (candidate.finishReason) {
+        state.finishReason = candidate.finishReason;
+      }
+    }
+  }
+
+  if (candidates.size === 0) {
+    candidates.set(0, { started: false, toolCalls: 0 });
+  }
+  const entries = [...candidates.entries()];
+  for (const [position, [index, state]] of entries.entries()) {
+    const final = chunk({ index, delta: {}, finish_reason: mapFinishReason(state.finishReason, state.toolCalls > 0) });
+    if (position === entries.length - 1) {
+      final.usage = toUsage(usageMetadata);
+    }
+    yield final;
   }
-  // Done
-  const done: ChatCompletionChunk = {
-    id,
-    object: "chat.completion.chunk",
-    created,
-    model: params.model,
-    choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
-  };
-  yield done;
 }
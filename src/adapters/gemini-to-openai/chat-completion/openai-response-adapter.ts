@@ -17,6 +17,9 @@ import type {
   ResponseOutputText,
   ResponseUsage,
 } from "openai/resources/responses/responses";
+import type { ToolCallNameRegistry } from "../../openai-to-gemini-v1beta/request-converter/tool-names";
+
+type ToolCallRecorder = ToolCallNameRegistry["record"];
 
 function extractText(resp: GenerateContentResponse): string {
   return getCandidateParts(resp)
@@ -45,11 +48,19 @@ function extractFunctionCalls(resp: GenerateContentResponse): Array<{ id: string
  *
  * @param resp - Gemini GenerateContent response containing candidates and usage metadata
  * @param model - Model identifier to include in the converted response (default: "gemini")
+ * @param recordToolCall - Optional sink told about each generated call id and its function name
  * @returns OpenAI-compatible response with converted output items and usage statistics
  */
-export function geminiToOpenAIResponse(resp: GenerateContentResponse, model = "gemini"): Response {
+export function geminiToOpenAIResponse(
+  resp: GenerateContentResponse,
+  model = "gemini",
+  recordToolCall?: ToolCallRecorder,
+): Response {
   const text = extractText(resp);
   const calls = extractFunctionCalls(resp);
+  for (const c of calls) {
+    recordToolCall?.(c.id, c.name);
+  }
   const usage = createResponseUsage(resp.usageMetadata);
   const out: Response = {
     id: generateOpenAIResponseId(),
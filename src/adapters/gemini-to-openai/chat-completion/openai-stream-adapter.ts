@@ -8,6 +8,7 @@ import type { ResponseStreamEvent as OpenAIResponseStreamEvent } from "openai/re
 import { GenerateContentResponse } from "../../../providers/gemini/client/fetch-client";
 import { getCandidateParts, isGeminiFunctionCallPart, isGeminiTextPart } from "../../../providers/gemini/guards";
 import { generateOpenAICallId, generateId } from "../../conversation/id-conversion";
+import type { ToolCallNameRegistry } from "../../openai-to-gemini-v1beta/request-converter/tool-names";
 
 function extractText(resp: GenerateContentResponse): string {
   return getCandidateParts(resp)
@@ -110,9 +111,12 @@ function updateStateForFunctionCall(
 
 /**
  * Converts Gemini streaming responses to OpenAI Response API stream format
+ * @param src - Gemini streaming responses
+ * @param recordToolCall - Optional sink told about each generated call id and its function name
  */
 export async function* geminiToOpenAIStream(
   src: AsyncIterable<GenerateContentResponse>,
+  recordToolCall?: ToolCallNameRegistry["record"],
 ): AsyncGenerator<OpenAIResponseStreamEvent, void, unknown> {
   const id = generateId("resp");
   yield {
@@ -146,6 +150,7 @@ export async function* geminiToOpenAIStream(
       if (!shouldProcess) {
         continue;
       }
+      recordToolCall?.(callId, c.name);
 
       yield {
         type: "response.output_item.added",
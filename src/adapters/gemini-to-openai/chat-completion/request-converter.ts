@@ -0,0 +1,269 @@
+/**
+ * @file Converts OpenAI Chat Completion requests to Gemini GenerateContent requests
+ * Maps chat messages (including images, tool calls and tool results), function tools, tool_choice,
+ * response_format and sampling parameters onto Gemini's contents/tools/generationConfig structure.
+ */
+import type {
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import type { GeminiContent, GeminiPart, GenerateContentRequest } from "../../../providers/gemini/client/fetch-client";
+import {
+  isChatImagePart,
+  isChatInputAudioPart,
+  isFunctionToolCall,
+  isOpenAIChatFunctionTool,
+  isOpenAIChatFunctionToolChoice,
+  isOpenAIChatTextPart,
+} from "../../../providers/openai/chat-guards";
+import type { SamplingExtensions } from "../../../model/sampling";
+import { isObject } from "../../../utils/type-guards";
+import { GEMINI_THINKING_BUDGET_BY_EFFORT } from "../../openai-to-gemini-v1beta/request-converter";
+import { toGeminiSchema } from "../../openai-to-gemini-v1beta/request-converter/schema";
+import {
+  toFunctionDeclaration,
+  toGeminiToolConfig,
+  toGeminiTools,
+} from "../../openai-to-gemini-v1beta/request-converter/tools";
+import {
+  dataUrlToInlineData,
+  fnCall,
+  parseArgs,
+  toFunctionResponse,
+} from "../../openai-to-gemini-v1beta/request-converter/utils";
+
+function contentText(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .filter(isOpenAIChatTextPart)
+    .map((p) => p.text)
+    .join("");
+}
+
+function imagePart(url: string): GeminiPart {
+  const inline = dataUrlToInlineData(url);
+  if (inline) {
+    return { inlineData: inline };
+  }
+  return { fileData: { fileUri: url } };
+}
+
+function convertUserContent(content: string | ChatCompletionContentPart[]): GeminiPart[] {
+  if (typeof content === "string") {
+    return content.length > 0 ? [{ text: content }] : [];
+  }
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    if (isOpenAIChatTextPart(part)) {
+      parts.push({ text: part.text });
+      continue;
+    }
+    if (isChatImagePart(part)) {
+      parts.push(imagePart(part.image_url.url));
+      continue;
+    }
+    if (isChatInputAudioPart(part)) {
+      parts.push({ inlineData: { mimeType: `audio/${part.input_audio.format}`, data: part.input_audio.data } });
+    }
+  }
+  return parts;
+}
+
+function convertAssistantMessage(message: ChatCompletionAssistantMessageParam): GeminiPart[] {
+  const parts: GeminiPart[] = [];
+  const text = contentText(message.content);
+  if (text) {
+    parts.push({ text });
+  }
+  for (const call of message.tool_calls ?? []) {
+    if (isFunctionToolCall(call)) {
+      parts.push(fnCall(call.function.name, parseArgs(call.function.arguments)));
+    }
+  }
+  return parts;
+}
+
+/** Map tool_call ids to function names from the assistant turns of this request. */
+function collectToolNames(messages: ChatCompletionMessageParam[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const m of messages) {
+    if (m.role !== "assistant") {
+      continue;
+    }
+    for (const call of m.tool_calls ?? []) {
+      if (isFunctionToolCall(call)) {
+        names.set(call.id, call.function.name);
+      }
+    }
+  }
+  return names;
+}
+
+/** Append parts, merging into the previous turn when the role repeats (e.g. parallel tool results). */
+function pushContent(contents: GeminiContent[], role: NonNullable<GeminiContent["role"]>, parts: GeminiPart[]): void {
+  if (parts.length === 0) {
+    return;
+  }
+  const last = contents[contents.length - 1];
+  if (last && last.role === role) {
+    last.parts.push(...parts);
+    return;
+  }
+  contents.push({ role, parts });
+}
+
+function convertMessages(messages: ChatCompletionMessageParam[]): {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
+} {
+  const contents: GeminiContent[] = [];
+  const system: string[] = [];
+  const toolNames = collectToolNames(messages);
+
+  for (const m of messages) {
+    switch (m.role) {
+      case "system":
+      case "developer": {
+        const text = contentText(m.content);
+        if (text) {
+          system.push(text);
+        }
+        break;
+      }
+      case "user":
+        pushContent(contents, "user", convertUserContent(m.content));
+        break;
+      case "assistant":
+        pushContent(contents, "model", convertAssistantMessage(m));
+        break;
+      case "tool": {
+        const name = toolNames.get(m.tool_call_id) ?? m.tool_call_id;
+        const response = toFunctionResponse(contentText(m.content));
+        pushContent(contents, "function", [{ functionResponse: { name, response } }]);
+        break;
+      }
+      case "function":
+        pushContent(contents, "function", [
+          { functionResponse: { name: m.name, response: toFunctionResponse(m.content ?? "") } },
+        ]);
+        break;
+    }
+  }
+
+  if (system.length === 0) {
+    return { contents };
+  }
+  return { contents, systemInstruction: { parts: [{ text: system.join("\n\n") }] } };
+}
+
+function convertTools(tools: ChatCompletionTool[] | undefined): GenerateContentRequest["tools"] {
+  const declarations = (tools ?? [])
+    .filter(isOpenAIChatFunctionTool)
+    .map((t) => toFunctionDeclaration(t.function.name, t.function.description, t.function.parameters));
+  return toGeminiTools(declarations);
+}
+
+function convertToolChoice(
+  toolChoice: ChatCompletionCreateParams["tool_choice"],
+): GenerateContentRequest["toolConfig"] {
+  if (toolChoice === "none") {
+    return toGeminiToolConfig("NONE");
+  }
+  if (toolChoice === "required") {
+    return toGeminiToolConfig("ANY");
+  }
+  if (isOpenAIChatFunctionToolChoice(toolChoice)) {
+    return toGeminiToolConfig("ANY", [toolChoice.function.name]);
+  }
+  if (toolChoice === "auto") {
+    return toGeminiToolConfig("AUTO");
+  }
+  return undefined;
+}
+
+function buildGenerationConfig(
+  params: ChatCompletionCreateParams & SamplingExtensions,
+): GenerateContentRequest["generationConfig"] {
+  const gen: NonNullable<GenerateContentRequest["generationConfig"]> = {};
+  const maxTokens = params.max_completion_tokens ?? params.max_tokens;
+  if (typeof maxTokens === "number") {
+    gen.maxOutputTokens = maxTokens;
+  }
+  if (typeof params.temperature === "number") {
+    gen.temperature = params.temperature;
+  }
+  if (typeof params.top_p === "number") {
+    gen.topP = params.top_p;
+  }
+  if (typeof params.top_k === "number") {
+    gen.topK = params.top_k;
+  }
+  if (typeof params.seed === "number") {
+    gen.seed = params.seed;
+  }
+  if (typeof params.presence_penalty === "number") {
+    gen.presencePenalty = params.presence_penalty;
+  }
+  if (typeof params.frequency_penalty === "number") {
+    gen.frequencyPenalty = params.frequency_penalty;
+  }
+  if (typeof params.n === "number") {
+    gen.candidateCount = params.n;
+  }
+  const stop = typeof params.stop === "string" ? [params.stop] : params.stop;
+  if (Array.isArray(stop) && stop.length > 0) {
+    gen.stopSequences = stop;
+  }
+
+  const format = params.response_format;
+  if (format?.type === "json_object") {
+    gen.responseMimeType = "application/json";
+  }
+  if (format?.type === "json_schema") {
+    gen.responseMimeType = "application/json";
+    if (isObject(format.json_schema.schema)) {
+      gen.responseSchema = toGeminiSchema(format.json_schema.schema);
+    }
+  }
+
+  if (params.reasoning_effort) {
+    gen.thinkingConfig = { thinkingBudget: GEMINI_THINKING_BUDGET_BY_EFFORT[params.reasoning_effort] };
+  }
+  return Object.keys(gen).length > 0 ? gen : undefined;
+}
+
+/**
+ * Converts OpenAI Chat Completion parameters into a Gemini GenerateContent request body.
+ * System and developer messages become `systemInstruction`; tool results are matched to their
+ * function names through the assistant tool calls in the same request.
+ */
+export function chatCompletionToGeminiRequest(
+  params: ChatCompletionCreateParams & SamplingExtensions,
+): GenerateContentRequest {
+  const { contents, systemInstruction } = convertMessages(params.messages);
+  const body: GenerateContentRequest = { contents };
+  if (systemInstruction) {
+    body.systemInstruction = systemInstruction;
+  }
+  const tools = convertTools(params.tools);
+  if (tools) {
+    body.tools = tools;
+  }
+  const toolConfig = convertToolChoice(params.tool_choice);
+  if (toolConfig) {
+    body.toolConfig = toolConfig;
+  }
+  const gen = buildGenerationConfig(params);
+  if (gen) {
+    body.generationConfig = gen;
+  }
+  return body;
+}
@@ -0,0 +1,87 @@
+/**
+ * @file Tests for OpenAI embeddings on top of Gemini batchEmbedContents
+ */
+import { GeminiFetchClient } from "../../providers/gemini/client/fetch-client";
+import type { BatchEmbedContentsRequest } from "../../providers/gemini/client/fetch-client";
+import { withFakeUpstream } from "../../test-utils/fake-upstream";
+import type { UpstreamHandler, UpstreamRequest } from "../../test-utils/fake-upstream";
+import { buildGeminiEmbeddingsCreate, encodeEmbeddingBase64 } from "./embeddings";
+
+/** Gemini upstream answering each embed request with [index within batch, text length]. */
+const geminiUpstream: UpstreamHandler = (request) => {
+  const embeddings = (request.body as BatchEmbedContentsRequest).requests.map((r, i) => {
+    const part = r.content.parts[0] as { text: string };
+    return { values: [i, part.text.length] };
+  });
+  return { body: { embeddings } };
+};
+
+/** Batches the client sent, in order */
+function batchesOf(requests: UpstreamRequest[]): BatchEmbedContentsRequest[] {
+  return requests.map((r) => r.body as BatchEmbedContentsRequest);
+}
+
+function decodeFloat32(base64: string): number[] {
+  const bytes = Buffer.from(base64, "base64");
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4));
+}
+
+describe("buildGeminiEmbeddingsCreate", () => {
+  it("embeds a single string with the resolved embedding model", async () => {
+    await withFakeUpstream(geminiUpstream, async ({ origin, requests }) => {
+      const create = buildGeminiEmbeddingsCreate(new GeminiFetchClient({ apiKey: "test-key", baseURL: origin }), {
+        type: "gemini",
+        embeddingModel: "text-embedding-004",
+      });
+      const res = await create({ model: "text-embedding-3-small", input: "hello" });
+      expect(requests[0]?.url).toBe("/v1beta/models/text-embedding-004:batchEmbedContents?key=test-key");
+      expect(batchesOf(requests)[0]?.requests[0]?.model).toBe("models/text-embedding-004");
+      expect(res).toEqual({
+        object: "list",
+        data: [{ object: "embedding", index: 0, embedding: [0, 5] }],
+        model: "text-embedding-004",
+        usage: { prompt_tokens: 0, total_tokens: 0 },
+      });
+    });
+  });
+
+  it("splits large inputs into batches of 100 and keeps the order", async () => {
+    await withFakeUpstream(geminiUpstream, async ({ origin, requests }) => {
+      const create = buildGeminiEmbeddingsCreate(new GeminiFetchClient({ apiKey: "test-key", baseURL: origin }), {
+        type: "gemini",
+      });
+      const input = Array.from({ length: 150 }, (_, i) => "x".repeat(i + 1));
+      const res = await create({ model: "models/text-embedding-004", input, dimensions: 256 });
+      expect(batchesOf(requests).map((batch) => batch.requests.length)).toEqual([100, 50]);
+      expect(batchesOf(requests)[0]?.requests[0]?.outputDimensionality).toBe(256);
+      expect(res.data).toHaveLength(150);
+      expect(res.data[120]).toEqual({ object: "embedding", index: 120, embedding: [20, 121] });
+      expect(res.model).toBe("text-embedding-004");
+    });
+  });
+
+  it("returns base64 float32 data when asked", async () => {
+    await withFakeUpstream(geminiUpstream, async ({ origin }) => {
+      const create = buildGeminiEmbeddingsCreate(new GeminiFetchClient({ apiKey: "test-key", baseURL: origin }), {
+        type: "gemini",
+      });
+      const res = await create({ model: "text-embedding-004", input: ["abc"], encoding_format: "base64" });
+      const embedding = res.data[0]?.embedding;
+      if (typeof embedding !== "string") {
+        throw new Error("expected a base64 embedding");
+      }
+      expect(decodeFloat32(embedding)).toEqual([0, 3]);
+    });
+  });
+
+  it("rejects token-array input", async () => {
+    const create = buildGeminiEmbeddingsCreate(new GeminiFetchClient({ apiKey: "test-key" }), { type: "gemini" });
+    await expect(create({ model: "text-embedding-004", input: [1, 2, 3] })).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("encodeEmbeddingBase64", () => {
+  it("round-trips float32 values", () => {
+    expect(decodeFloat32(encodeEmbeddingBase64([0.5, -1.25, 3]))).toEqual([0.5, -1.25, 3]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @file OpenAI embeddings on top of Gemini batchEmbedContents.
+ * Inputs are sent in batches of at most 100 texts; `dimensions` maps to `outputDimensionality` and
+ * `encoding_format: "base64"` returns little-endian float32 data the way the OpenAI API does.
+ */
+import type { EmbeddingCreateParams } from "openai/resources/embeddings";
+import type { Provider } from "../../config/types";
+import type { EmbedContentRequest, GeminiFetchClient } from "../../providers/gemini/client/fetch-client";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import { resolveEmbeddingModel } from "../../model/mapper";
+import type { EmbeddingsCreateFn, EmbeddingsResponse } from "../openai-client-types";
+
+// batchEmbedContents rejects more than 100 requests per call
+const GEMINI_EMBED_BATCH_LIMIT = 100;
+// String.fromCharCode spreads its arguments; keep each call well under engine argument limits
+const BASE64_CHUNK_BYTES = 0x8000;
+
+function toTexts(input: EmbeddingCreateParams["input"]): string[] {
+  if (typeof input === "string") {
+    return [input];
+  }
+  if (input.length === 0) {
+    throw new HttpError(400, "'input' must not be empty", "bad_request");
+  }
+  if (input.every((item): item is string => typeof item === "string")) {
+    return input;
+  }
+  throw new HttpError(400, "Gemini embeddings accept text input only; token arrays are not supported", "bad_request");
+}
+
+function toBatches<T>(items: T[], size: number): T[][] {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+}
+
+/**
+ * Encodes an embedding as base64 float32 (little-endian), matching OpenAI `encoding_format: "base64"`.
+ *
+ * @param values - Embedding vector
+ * @returns Base64 string of the raw float32 bytes
+ */
+export function encodeEmbeddingBase64(values: number[]): string {
+  // Float32Array uses platform byte order, which is little-endian on every supported runtime
+  const bytes = new Uint8Array(new Float32Array(values).buffer);
+  const chunks = Array.from({ length: Math.ceil(bytes.length / BASE64_CHUNK_BYTES) }, (_, i) =>
+    String.fromCharCode(...bytes.subarray(i * BASE64_CHUNK_BYTES, (i + 1) * BASE64_CHUNK_BYTES)),
+  );
+  return btoa(chunks.join(""));
+}
+
+/**
+ * Builds `embeddings.create` for a Gemini-backed OpenAI-compatible client.
+ *
+ * @param client - Gemini HTTP client
+ * @param provider - Gemini provider (model aliases and `embeddingModel`)
+ * @returns OpenAI-shaped embeddings function
+ */
+export function buildGeminiEmbeddingsCreate(client: GeminiFetchClient, provider: Provider): EmbeddingsCreateFn {
+  return async (params, options): Promise<EmbeddingsResponse> => {
+    const model = resolveEmbeddingModel(provider, params.model);
+    const texts = toTexts(params.input);
+    const vectors: number[][] = [];
+    for (const batch of toBatches(texts, GEMINI_EMBED_BATCH_LIMIT)) {
+      const requests = batch.map((text): EmbedContentRequest => {
+        const request: EmbedContentRequest = { model: `models/${model}`, content: { parts: [{ text }] } };
+        if (params.dimensions) {
+          request.outputDimensionality = params.dimensions;
+        }
+        return request;
+      });
+      const res = await client.batchEmbedContents(model, { requests }, options?.signal);
+      for (const embedding of res.embeddings ?? []) {
+        vectors.push(embedding.values ?? []);
+      }
+    }
+    const base64 = params.encoding_format === "base64";
+    const data = vectors.map((values, index) => ({
+      object: "embedding" as const,
+      index,
+      embedding: base64 ? encodeEmbeddingBase64(values) : values,
+    }));
+    // Gemini does not report token usage for embeddings
+    return { object: "list", data, model, usage: { prompt_tokens: 0, total_tokens: 0 } };
+  };
+}
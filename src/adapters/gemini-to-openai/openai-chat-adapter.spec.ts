@@ -0,0 +1,138 @@
+/**
+ * @file Tests for Gemini-backed Chat Completions conversion.
+ */
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import type { GenerateContentResponse } from "../../providers/gemini/client/fetch-client";
+import { geminiToChatCompletion, geminiToChatCompletionStream } from "./chat-completion/openai-chat-adapter";
+import { chatCompletionToGeminiRequest } from "./chat-completion/request-converter";
+
+describe("chatCompletionToGeminiRequest", () => {
+  it("maps messages, images and tool results to Gemini contents", () => {
+    const body = chatCompletionToGeminiRequest({
+      model: "gemini-2.5-flash",
+      messages: [
+        { role: "system", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this image?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: '{"q":"cat"}' } }],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "a cat" },
+      ],
+    });
+
+    expect(body.systemInstruction).toEqual({ parts: [{ text: "Be brief." }] });
+    expect(body.contents).toEqual([
+      {
+        role: "user",
+        parts: [{ text: "What is in this image?" }, { inlineData: { mimeType: "image/png", data: "AAAA" } }],
+      },
+      { role: "model", parts: [{ functionCall: { name: "lookup", args: { q: "cat" } } }] },
+      { role: "function", parts: [{ functionResponse: { name: "lookup", response: { content: "a cat" } } }] },
+    ]);
+  });
+
+  it("maps tools, tool_choice and response_format", () => {
+    const body = chatCompletionToGeminiRequest({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "hi" }],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "lookup",
+            description: "Look something up",
+            parameters: { type: "object", properties: { q: { type: "string" } }, additionalProperties: false },
+          },
+        },
+      ],
+      tool_choice: { type: "function", function: { name: "lookup" } },
+      response_format: { type: "json_object" },
+      max_completion_tokens: 100,
+    });
+
+    expect(body.tools).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: "lookup",
+            description: "Look something up",
+            parameters: { type: "object", properties: { q: { type: "string" } }, propertyOrdering: ["q"] },
+          },
+        ],
+      },
+    ]);
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["lookup"] } });
+    expect(body.generationConfig).toEqual({ maxOutputTokens: 100, responseMimeType: "application/json" });
+  });
+});
+
+describe("geminiToChatCompletion", () => {
+  it("maps candidates to choices with tool calls and usage", () => {
+    const completion = geminiToChatCompletion(
+      {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts: [{ text: "Looking up." }, { functionCall: { name: "lookup", args: {} } }],
+            },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 7, totalTokenCount: 12 },
+      },
+      "gemini-2.5-flash",
+    );
+
+    const choice = completion.choices[0];
+    expect(choice?.message.content).toBe("Looking up.");
+    expect(choice?.message.tool_calls?.[0]).toMatchObject({
+      type: "function",
+      function: { name: "lookup", arguments: "{}" },
+    });
+    expect(choice?.finish_reason).toBe("tool_calls");
+    expect(completion.usage).toEqual({ prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 });
+  });
+});
+
+describe("geminiToChatCompletionStream", () => {
+  async function* geminiChunks(): AsyncGenerator<GenerateContentResponse> {
+    yield { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] };
+    yield { candidates: [{ content: { role: "model", parts: [{ text: "lo" }] } }] };
+    yield {
+      candidates: [
+        {
+          content: { role: "model", parts: [{ functionCall: { name: "lookup", args: { q: "x" } } }] },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 4, totalTokenCount: 7 },
+    };
+  }
+
+  it("streams text and tool-call deltas, ending with finish reason and usage", async () => {
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of geminiToChatCompletionStream(geminiChunks(), "gemini-2.5-flash")) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((c) => c.choices[0]?.delta.content).filter(Boolean)).toEqual(["Hel", "lo"]);
+    expect(chunks[0]?.choices[0]?.delta.role).toBe("assistant");
+    expect(chunks[2]?.choices[0]?.delta.tool_calls?.[0]).toMatchObject({
+      index: 0,
+      type: "function",
+      function: { name: "lookup", arguments: '{"q":"x"}' },
+    });
+    const last = chunks[chunks.length - 1];
+    expect(last?.choices[0]?.finish_reason).toBe("tool_calls");
+    expect(last?.usage).toEqual({ prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 });
+  });
+});
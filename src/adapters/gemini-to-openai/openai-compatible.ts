@@ -16,16 +16,22 @@ import type {
 } from "openai/resources/responses/responses";
 import type { Provider } from "../../config/types";
 import type { GenerateContentRequest } from "../../providers/gemini/client/fetch-client";
-import { GeminiFetchClient } from "../../providers/gemini/client/fetch-client";
+import { GEMINI_DEFAULT_BASE_URL, GeminiFetchClient } from "../../providers/gemini/client/fetch-client";
 import { ensureGeminiStream, isGeminiResponse } from "../../providers/gemini/guards";
 import type { OpenAICompatibleClient } from "../openai-client-types";
 import { defineChatCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
 import { selectApiKey } from "../../config/select-api-key";
+import { pooledFetchFor } from "../../config/pooled-fetch";
 import { responsesToGeminiRequest } from "../openai-to-gemini-v1beta/request-converter";
+import { createToolCallNameRegistry } from "../openai-to-gemini-v1beta/request-converter/tool-names";
 import { resolveModelForProvider } from "../../model/mapper";
+import { filterSamplingParams, resolveSamplingSupport } from "../../model/sampling";
 import { geminiToChatCompletion, geminiToChatCompletionStream } from "./chat-completion/openai-chat-adapter";
+import { chatCompletionToGeminiRequest } from "./chat-completion/request-converter";
 import { geminiToOpenAIResponse } from "./chat-completion/openai-response-adapter";
 import { geminiToOpenAIStream } from "./chat-completion/openai-stream-adapter";
+import { keepFirstFunctionCall, keepFirstFunctionCallStream } from "./single-tool-call";
+import { buildGeminiEmbeddingsCreate } from "./embeddings";
 
 // Narrowing helpers
 function isChatStreaming(p: ChatCompletionCreateParams): boolean {
@@ -51,21 +57,39 @@ function isResponseStreaming(p: ResponseCreateParams): boolean {
 export function buildOpenAICompatibleClientForGemini(provider: Provider, modelHint?: string): OpenAICompatibleClient {
   const resolvedKey = selectApiKey(provider);
   // Allow constructing client even without a key (tests and 401 handled upstream if needed)
-  const client = new GeminiFetchClient({ apiKey: resolvedKey ? resolvedKey : "", baseURL: provider.baseURL });
+  const client = new GeminiFetchClient({
+    apiKey: resolvedKey ? resolvedKey : "",
+    baseURL: provider.baseURL,
+    fetchImpl: pooledFetchFor(provider, provider.baseURL ?? GEMINI_DEFAULT_BASE_URL),
+  });
   // eslint-disable-next-line no-restricted-syntax -- State maintained across function calls for performance
   let resolveToolName: ((callId: string) => string | undefined) | undefined;
+  // Remembers calls Gemini made so later tool outputs can be named without caller wiring
+  const toolCalls = createToolCallNameRegistry();
 
   const chatCompletionsCreate = defineChatCompletionsCreate(
-    async (params: ChatCompletionCreateParams): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> => {
+    async (
+      params: ChatCompletionCreateParams,
+      options?: { signal?: AbortSignal },
+    ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> => {
       const model = await resolveModelForProvider({
         provider,
         sourceModel: params.model ? params.model : modelHint,
         modelHint,
       });
+      const body = chatCompletionToGeminiRequest(filterSamplingParams(params, resolveSamplingSupport(model, provider)));
+      const serialToolCalls = params.parallel_tool_calls === false;
       if (isChatStreaming(params)) {
-        return geminiToChatCompletionStream({ ...params, model });
+        const stream = ensureGeminiStream(
+          client.streamGenerateContent(model, body, options?.signal) as AsyncIterable<unknown>,
+        );
+        return geminiToChatCompletionStream(serialToolCalls ? keepFirstFunctionCallStream(stream) : stream, model);
+      }
+      const raw = await client.generateContent(model, body, options?.signal);
+      if (!isGeminiResponse(raw)) {
+        throw new Error("Unexpected Gemini response shape");
       }
-      return geminiToChatCompletion({ ...params, model });
+      return geminiToChatCompletion(serialToolCalls ? keepFirstFunctionCall(raw) : raw, model);
     },
   );
 
@@ -79,24 +103,45 @@ export function buildOpenAICompatibleClientForGemini(provider: Provider, modelHi
         sourceModel: (params as { model?: string }).model ? (params as { model?: string }).model : modelHint,
         modelHint,
       });
-      const body = responsesToGeminiRequest(params, resolveToolName);
+      const sampling = resolveSamplingSupport(model, provider);
+      const body = responsesToGeminiRequest(
+        filterSamplingParams(params, sampling),
+        (callId) => resolveToolName?.(callId) ?? toolCalls.resolve(callId),
+      );
+      // Gemini has no parallel-calling switch; enforce the opt-out on its output instead
+      const serialToolCalls = params.parallel_tool_calls === false;
       if (isResponseStreaming(params)) {
-        const stream = client.streamGenerateContent(model, body as GenerateContentRequest, options?.signal);
+        const stream = ensureGeminiStream(
+          client.streamGenerateContent(
+            model,
+            body as GenerateContentRequest,
+            options?.signal,
+          ) as AsyncIterable<unknown>,
+        );
         return geminiToOpenAIStream(
-          ensureGeminiStream(stream as AsyncIterable<unknown>),
+          serialToolCalls ? keepFirstFunctionCallStream(stream) : stream,
+          toolCalls.record,
         ) as AsyncIterable<ResponseStreamEvent>;
       }
       const raw = await client.generateContent(model, body as GenerateContentRequest, options?.signal);
       if (!isGeminiResponse(raw)) {
         throw new Error("Unexpected Gemini response shape");
       }
-      return geminiToOpenAIResponse(raw, model) as OpenAIResponse;
+      const response = geminiToOpenAIResponse(
+        serialToolCalls ? keepFirstFunctionCall(raw) : raw,
+        model,
+        toolCalls.record,
+      );
+      return { ...response, parallel_tool_calls: !serialToolCalls } as OpenAIResponse;
     },
   );
 
   return {
     chat: { completions: { create: chatCompletionsCreate } },
     responses: { create: responsesCreate },
+    embeddings: {
+      create: buildGeminiEmbeddingsCreate(client, provider),
+    },
     models: {
       async list() {
         const res = await client.listModels();
@@ -0,0 +1,47 @@
+/**
+ * @file Tests for enforcing parallel_tool_calls: false on Gemini output.
+ */
+import type { GenerateContentResponse } from "../../providers/gemini/client/fetch-client";
+import { keepFirstFunctionCall, keepFirstFunctionCallStream } from "./single-tool-call";
+
+describe("keepFirstFunctionCall", () => {
+  it("drops every function call after the first in each candidate", () => {
+    const resp = keepFirstFunctionCall({
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { text: "Checking." },
+              { functionCall: { name: "a", args: {} } },
+              { functionCall: { name: "b", args: {} } },
+            ],
+          },
+        },
+        { content: { role: "model", parts: [{ functionCall: { name: "c", args: {} } }] } },
+      ],
+    });
+
+    expect(resp.candidates?.map((c) => c.content?.parts)).toEqual([
+      [{ text: "Checking." }, { functionCall: { name: "a", args: {} } }],
+      [{ functionCall: { name: "c", args: {} } }],
+    ]);
+  });
+});
+
+describe("keepFirstFunctionCallStream", () => {
+  async function* chunks(): AsyncGenerator<GenerateContentResponse> {
+    yield { candidates: [{ content: { role: "model", parts: [{ functionCall: { name: "a", args: {} } }] } }] };
+    yield { candidates: [{ content: { role: "model", parts: [{ functionCall: { name: "b", args: {} } }] } }] };
+    yield { candidates: [{ content: { role: "model", parts: [{ text: "done" }] }, finishReason: "STOP" }] };
+  }
+
+  it("drops function calls in later chunks once one has been emitted", async () => {
+    const parts: unknown[] = [];
+    for await (const resp of keepFirstFunctionCallStream(chunks())) {
+      parts.push(...(resp.candidates?.[0]?.content?.parts ?? []));
+    }
+
+    expect(parts).toEqual([{ functionCall: { name: "a", args: {} } }, { text: "done" }]);
+  });
+});
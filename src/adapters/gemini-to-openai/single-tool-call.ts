@@ -0,0 +1,64 @@
+/**
+ * @file Enforce `parallel_tool_calls: false` on Gemini output
+ * Gemini has no switch for parallel function calling, so when a caller disables it the extra
+ * functionCall parts are dropped here, keeping only the first call of each candidate.
+ */
+import type { GeminiPart, GenerateContentResponse } from "../../providers/gemini/client/fetch-client";
+import { isGeminiFunctionCallPart } from "../../providers/gemini/guards";
+
+type Candidate = NonNullable<GenerateContentResponse["candidates"]>[number];
+
+function candidateKey(candidate: Candidate, position: number): number {
+  return typeof candidate.index === "number" ? candidate.index : position;
+}
+
+function limitCandidates(resp: GenerateContentResponse, called: Set<number>): GenerateContentResponse {
+  if (!resp.candidates) {
+    return resp;
+  }
+  const candidates = resp.candidates.map((candidate, position): Candidate => {
+    const parts = candidate.content?.parts;
+    if (!Array.isArray(parts)) {
+      return candidate;
+    }
+    const key = candidateKey(candidate, position);
+    const kept: GeminiPart[] = [];
+    for (const part of parts) {
+      if (isGeminiFunctionCallPart(part)) {
+        if (called.has(key)) {
+          continue;
+        }
+        called.add(key);
+      }
+      kept.push(part);
+    }
+    return { ...candidate, content: { ...candidate.content, parts: kept } };
+  });
+  return { ...resp, candidates };
+}
+
+/**
+ * Keep only the first functionCall part of each candidate in a generateContent response.
+ *
+ * @param resp - Gemini GenerateContent response
+ * @returns Response with any additional function calls removed
+ */
+export function keepFirstFunctionCall(resp: GenerateContentResponse): GenerateContentResponse {
+  return limitCandidates(resp, new Set<number>());
+}
+
+/**
+ * Streaming counterpart of {@link keepFirstFunctionCall}: once a candidate has produced a
+ * function call, later calls for that candidate are dropped from subsequent chunks.
+ *
+ * @param stream - Gemini streaming responses
+ * @yields Chunks with any additional function calls removed
+ */
+export async function* keepFirstFunctionCallStream(
+  stream: AsyncIterable<GenerateContentResponse>,
+): AsyncGenerator<GenerateContentResponse, void, unknown> {
+  const called = new Set<number>();
+  for await (const resp of stream) {
+    yield limitCandidates(resp, called);
+  }
+}
@@ -8,6 +8,7 @@ import type {
   ResponseCreateParamsStreaming,
   ResponseStreamEvent,
 } from "openai/resources/responses/responses";
+import type { InputItemListParams, ResponseItemList } from "openai/resources/responses/input-items";
 import type {
   ChatCompletion,
   ChatCompletionChunk,
@@ -15,6 +16,14 @@ import type {
   ChatCompletionCreateParamsNonStreaming,
   ChatCompletionCreateParamsStreaming,
 } from "openai/resources/chat/completions";
+import type { CreateEmbeddingResponse, Embedding, EmbeddingCreateParams } from "openai/resources/embeddings";
+import type {
+  Completion,
+  CompletionChoice,
+  CompletionCreateParams,
+  CompletionCreateParamsNonStreaming,
+  CompletionCreateParamsStreaming,
+} from "openai/resources/completions";
 
 // Shared helper
 type RequestOptions = {
@@ -45,6 +54,34 @@ export type ResponsesStreamFn = (
   options?: RequestOptions,
 ) => Promise<AsyncIterable<ResponseStreamEvent>>;
 
+/** Responses kept by the backend itself, addressed by the id it assigned */
+export type StoredResponsesApi = {
+  retrieve(id: string, options?: RequestOptions): Promise<OpenAIResponse>;
+  delete(id: string, options?: RequestOptions): Promise<void>;
+  listInputItems(id: string, query: InputItemListParams, options?: RequestOptions): Promise<ResponseItemList>;
+};
+
+/** Embeddings result; `embedding` is a base64 float32 string when `encoding_format: "base64"` was requested. */
+export type EmbeddingsResponse = Omit<CreateEmbeddingResponse, "data"> & {
+  data: Array<Omit<Embedding, "embedding"> & { embedding: number[] | string }>;
+};
+
+export type EmbeddingsCreateFn = (
+  params: EmbeddingCreateParams,
+  options?: RequestOptions,
+) => Promise<EmbeddingsResponse>;
+
+/** Streamed text completion; `finish_reason` stays null until a choice ends. */
+export type CompletionChunk = Omit<Completion, "choices"> & {
+  choices: Array<Omit<CompletionChoice, "finish_reason"> & { finish_reason: CompletionChoice["finish_reason"] | null }>;
+};
+
+export type CompletionsCreateFn = {
+  (params: CompletionCreateParamsNonStreaming, options?: RequestOptions): Promise<Completion>;
+  (params: CompletionCreateParamsStreaming, options?: RequestOptions): Promise<AsyncIterable<CompletionChunk>>;
+  (params: CompletionCreateParams, options?: RequestOptions): Promise<Completion | AsyncIterable<CompletionChunk>>;
+};
+
 // Factory helpers (centralize type assertions for overload support)
 
 /**
@@ -155,6 +192,33 @@ export function defineResponsesCreate(
   return create;
 }
 
+/**
+ * Creates type-safe legacy Completions function implementations with proper overload support.
+ *
+ * @param impl - Implementation function handling text completion requests
+ * @returns Type-safe Completions function with proper overloads
+ */
+export function defineCompletionsCreate(
+  impl: (params: CompletionCreateParams, options?: RequestOptions) => Promise<Completion | AsyncIterable<CompletionChunk>>,
+): CompletionsCreateFn {
+  function create(params: CompletionCreateParamsNonStreaming, options?: RequestOptions): Promise<Completion>;
+  function create(
+    params: CompletionCreateParamsStreaming,
+    options?: RequestOptions,
+  ): Promise<AsyncIterable<CompletionChunk>>;
+  function create(
+    params: CompletionCreateParams,
+    options?: RequestOptions,
+  ): Promise<Completion | AsyncIterable<CompletionChunk>>;
+  async function create(
+    params: CompletionCreateParams,
+    options?: RequestOptions,
+  ): Promise<Completion | AsyncIterable<CompletionChunk>> {
+    return impl(params, options);
+  }
+  return create;
+}
+
 export type OpenAICompatibleClient = {
   chat: {
     completions: {
@@ -164,10 +228,23 @@ export type OpenAICompatibleClient = {
   responses: {
     create: ResponsesCreateFn;
     stream?: ResponsesStreamFn;
+    /** Present when the backend stores responses upstream (native OpenAI) instead of a local response store */
+    stored?: StoredResponsesApi;
   };
   models: {
     list(): Promise<{ data: Array<{ id: string; created: number; object: string; owned_by: string }> }>;
   };
+  /**
+   * Legacy text completions (`/v1/completions`). Native on OpenAI and OpenAI-compatible vendors;
+   * `buildOpenAICompatibleClient` emulates it on Chat Completions for every other backend.
+   */
+  completions?: {
+    create: CompletionsCreateFn;
+  };
+  /** Present when the backend can embed (OpenAI, OpenAI-compatible vendors, Gemini). */
+  embeddings?: {
+    create: EmbeddingsCreateFn;
+  };
   setToolNameResolver?(resolver: (callId: string) => string | undefined): void;
 };
 
@@ -182,4 +259,10 @@ export type {
   ChatCompletionCreateParams,
   ChatCompletionCreateParamsNonStreaming,
   ChatCompletionCreateParamsStreaming,
+  CreateEmbeddingResponse,
+  EmbeddingCreateParams,
+  Completion,
+  CompletionCreateParams,
+  CompletionCreateParamsNonStreaming,
+  CompletionCreateParamsStreaming,
 };
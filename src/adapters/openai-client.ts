@@ -1,13 +1,27 @@
 /**
  * @file Factory for creating OpenAI-compatible clients for different providers
  */
-import type { Provider } from "../config/types";
+import type { Provider, RetryPolicy } from "../config/types";
 import { buildOpenAICompatibleClientForClaude } from "../adapters/claude-to-openai/responses-api/openai-compatible";
 import { buildOpenAICompatibleClientForGemini } from "../adapters/gemini-to-openai/openai-compatible";
 import { buildOpenAICompatibleClientForCodingAgent } from "../adapters/coding-agent-to-openai/openai-compatible";
 import { buildOpenAIPassthroughAdapter } from "../adapters/openai-compatible/openai-passthrough";
 import { buildOpenAIGenericAdapter } from "../adapters/openai-compatible";
 import type { OpenAICompatibleClient } from "./openai-client-types";
+import { withEmulatedCompletions } from "./completions-emulator";
+import { createInMemoryResponseStore, withResponseStore } from "./response-store";
+import type { ResponseStore } from "./response-store";
+import { withRetry } from "./retry";
+import { getRateLimiter, withRateLimit } from "./rate-limit";
+import { getCircuitBreaker, withCircuitBreaker } from "./circuit-breaker";
+
+export type BuildOpenAICompatibleClientOptions = {
+  /**
+   * Store used to honor `previous_response_id`/`store` on backends without server-side state.
+   * Defaults to a per-client in-memory store. Native OpenAI keeps state upstream and ignores it.
+   */
+  responseStore?: ResponseStore;
+};
 
 /**
  * Creates unified OpenAI-compatible clients for diverse LLM providers.
@@ -17,9 +31,43 @@ import type { OpenAICompatibleClient } from "./openai-client-types";
  *
  * @param provider - Provider configuration specifying target LLM service and credentials
  * @param modelHint - Optional model identifier for optimizing client initialization
+ * @param options - Optional shared state such as the Responses API store
  * @returns OpenAI-compatible client instance ready for chat completions and model operations
  */
-export function buildOpenAICompatibleClient(provider: Provider, modelHint?: string): OpenAICompatibleClient {
+export function buildOpenAICompatibleClient(
+  provider: Provider,
+  modelHint?: string,
+  options: BuildOpenAICompatibleClientOptions = {},
+): OpenAICompatibleClient {
+  // OpenAI keeps conversation state server-side; everything else is made stateful locally
+  if (provider.type === "openai") {
+    return guardUpstreamCalls(buildOpenAIPassthroughAdapter(provider, modelHint), provider);
+  }
+  const store = options.responseStore ?? createInMemoryResponseStore();
+  // Retries wrap the upstream calls only, so emulated completions and stored turns are not repeated
+  const client = guardUpstreamCalls(buildStatelessClient(provider, modelHint), provider);
+  // Backends without legacy text completions answer them through Chat Completions
+  return withResponseStore(withEmulatedCompletions(client), store);
+}
+
+/**
+ * Every attempt of a retried call waits for its own rate limit permit and then goes through the
+ * circuit breaker, so a half-open probe is only taken by a call that is about to run.
+ */
+function guardUpstreamCalls(client: OpenAICompatibleClient, provider: Provider): OpenAICompatibleClient {
+  const guarded = withCircuitBreaker(client, getCircuitBreaker(provider));
+  return withRetry(withRateLimit(guarded, getRateLimiter(provider)), retryPolicyOf(provider));
+}
+
+/** A pooled retry goes to another endpoint, so the failed endpoint's `retry-after` is not waited for by default */
+function retryPolicyOf(provider: Provider): RetryPolicy | undefined {
+  if (!provider.retry || !provider.pool) {
+    return provider.retry;
+  }
+  return { respectRetryAfter: false, ...provider.retry };
+}
+
+function buildStatelessClient(provider: Provider, modelHint?: string): OpenAICompatibleClient {
   if (provider.type === "gemini") {
     return buildOpenAICompatibleClientForGemini(provider, modelHint);
   }
@@ -38,11 +86,6 @@ export function buildOpenAICompatibleClient(provider: Provider, modelHint?: stri
     return buildOpenAICompatibleClientForCodingAgent(provider, modelHint);
   }
 
-  // Use specific adapter for OpenAI, generic adapter for others
-  if (provider.type === "openai") {
-    return buildOpenAIPassthroughAdapter(provider, modelHint);
-  }
-
   // Generic OpenAI-compatible providers
   {
     const genericProvider: Provider = {
@@ -14,7 +14,7 @@ import type {
   ResponsesCreateFn,
   ResponsesStreamFn,
 } from "../openai-client-types";
-import { defineChatCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
 import type {
   Response as OpenAIResponse,
   ResponseCreateParams,
@@ -24,48 +24,14 @@ import type {
 } from "openai/resources/responses/responses";
 import type { ChatCompletionCreateParams, ChatCompletionChunk } from "openai/resources/chat/completions";
 import { selectApiKey } from "../../config/select-api-key";
+import { pooledFetchFor } from "../../config/pooled-fetch";
 import { ResponsesAPI } from "./responses-emulator/responses-adapter/responses-api";
 import { isResponseEventStream, isResponseParamsStreaming } from "../../providers/openai/responses-guards";
 // (no chat → responses auto conversion for chat endpoint)
+import { createCompletionsWithChat } from "../completions-emulator";
 import { runComposedAttempts } from "../../utils/composed-attempts";
-
-/**
- * Check if a model is an O1-series model
- */
-function isO1Model(model: string): boolean {
-  if (model.startsWith("o1")) {
-    return true;
-  }
-  if (model.startsWith("o3")) {
-    return true;
-  }
-  if (model.startsWith("o4")) {
-    return true;
-  }
-  return false;
-}
-
-/**
- * Filter chat parameters for model compatibility
- */
-function filterChatParams(params: ChatCompletionCreateParams): ChatCompletionCreateParams {
-  // Always remove temperature and top_p for all models
-  const { temperature: _temperature, top_p: _top_p, ...filteredParams } = params;
-  void _temperature;
-  void _top_p; // Intentionally unused - filtering them out
-  return filteredParams;
-}
-
-/**
- * Filter response parameters for model compatibility
- */
-function filterResponseParams(params: ResponseCreateParams): ResponseCreateParams {
-  // Always remove temperature and top_p for all models
-  const { temperature: _temperature, top_p: _top_p, ...filteredParams } = params;
-  void _temperature;
-  void _top_p; // Intentionally unused - filtering them out
-  return filteredParams;
-}
+import { filterSamplingParams, resolveSamplingSupport } from "../../model/sampling";
+import { sdkMaxRetries } from "../retry";
 
 /**
  * Build an OpenAI-compatible client with fallback logic between APIs
@@ -83,6 +49,8 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
   const client = new OpenAI({
     apiKey,
     baseURL,
+    maxRetries: sdkMaxRetries(provider),
+    fetch: pooledFetchFor(provider, baseURL),
     defaultHeaders: provider.defaultHeaders,
   });
   // Resolve OpenAI-compat meta options with sensible defaults
@@ -108,6 +76,7 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
       return isResponseParamsStreaming(base);
     }
     const streaming = computeStreaming(enforceStream, baseParams);
+    const support = resolveSamplingSupport(String(baseParams.model), provider);
 
     // Prepare params for each mode
     const paramsStreaming: ResponseCreateParamsStreaming = {
@@ -121,7 +90,7 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
 
     // Define attempt functions
     const nativeAttempt = async () => {
-      const filtered = filterResponseParams(streaming ? paramsStreaming : paramsNonStreaming);
+      const filtered = filterSamplingParams(streaming ? paramsStreaming : paramsNonStreaming, support);
       if (streaming) {
         const stream = await client.responses.create(filtered as ResponseCreateParamsStreaming, options);
         if (!isResponseEventStream(stream)) {
@@ -133,9 +102,9 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
     };
     const emulatorAttempt = async () => {
       if (streaming) {
-        return shim.create(paramsStreaming);
+        return shim.create(filterSamplingParams(paramsStreaming, support), options);
       }
-      return shim.create(paramsNonStreaming);
+      return shim.create(filterSamplingParams(paramsNonStreaming, support), options);
     };
 
     // Compose attempt order
@@ -165,7 +134,7 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
 
   const chatCreate: ChatCompletionsCreateFn = defineChatCompletionsCreate(
     async (params: ChatCompletionCreateParams, options?: { signal?: AbortSignal }) => {
-      const filteredParams = isO1Model(params.model) ? filterChatParams(params) : params;
+      const filteredParams = filterSamplingParams(params, resolveSamplingSupport(params.model, provider));
       const result = await client.chat.completions.create(filteredParams, options);
       if ((params as { stream?: boolean }).stream) {
         if (!isAsyncIterableGeneric(result)) {
@@ -214,7 +183,18 @@ export function buildOpenAIGenericAdapter(provider: Provider, modelHint?: string
         };
       },
     },
+    completions: {
+      create: defineCompletionsCreate(async (params, options) => client.completions.create(params, options)),
+    },
+    embeddings: {
+      async create(params, options) {
+        return client.embeddings.create(params, options);
+      },
+    },
   };
 
+  if (compat.emulateCompletionsWithChat === true) {
+    return { ...openAIClient, completions: createCompletionsWithChat(openAIClient) };
+  }
   return openAIClient;
 }
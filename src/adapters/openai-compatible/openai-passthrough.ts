@@ -6,41 +6,19 @@
 import OpenAI from "openai";
 import type { Provider } from "../../config/types";
 import type { OpenAICompatibleClient, ChatCompletionsCreateFn, ResponsesCreateFn } from "../openai-client-types";
+import { defineCompletionsCreate } from "../openai-client-types";
 import { selectApiKey } from "../../config/select-api-key";
+import { pooledFetchFor } from "../../config/pooled-fetch";
 import type { ChatCompletionCreateParams } from "openai/resources/chat/completions";
 import type { ResponseCreateParams } from "openai/resources/responses/responses";
-
-function isO1Model(model: string): boolean {
-  if (model.startsWith("o1")) {
-    return true;
-  }
-  if (model.startsWith("o3")) {
-    return true;
-  }
-  if (model.startsWith("o4")) {
-    return true;
-  }
-  return false;
-}
-
-function filterChatParams(params: ChatCompletionCreateParams): ChatCompletionCreateParams {
-  // Always remove temperature and top_p for all models
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- destructuring to exclude temperature and top_p
-  const { temperature, top_p, ...filteredParams } = params;
-  return filteredParams;
-}
-
-function filterResponseParams(params: ResponseCreateParams): ResponseCreateParams {
-  // Always remove temperature and top_p for all models
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- destructuring to exclude temperature and top_p
-  const { temperature, top_p, ...filteredParams } = params;
-  return filteredParams;
-}
+import { filterSamplingParams, resolveSamplingSupport } from "../../model/sampling";
+import { sdkMaxRetries } from "../retry";
 
 /**
  * Creates a client adapter for the native OpenAI API.
- * Handles parameter filtering for specific models (e.g., o1 series) and provides
- * both chat completions and responses endpoints.
+ * Strips sampling parameters the target model rejects (e.g., o-series reasoning models)
+ * and provides both chat completions and responses endpoints. Stored responses are read and
+ * deleted upstream, where OpenAI keeps them.
  * @param provider - Provider configuration containing API credentials
  * @param modelHint - Optional model hint for API key selection
  * @returns OpenAI-compatible client interface
@@ -53,6 +31,8 @@ export function buildOpenAIPassthroughAdapter(provider: Provider, modelHint?: st
   const client = new OpenAI({
     apiKey: resolvedKey,
     baseURL: provider.baseURL,
+    maxRetries: sdkMaxRetries(provider),
+    fetch: pooledFetchFor(provider, provider.baseURL ?? "https://api.openai.com/v1"),
     defaultHeaders: { "OpenAI-Beta": "responses-2025-06-21", ...provider.defaultHeaders },
   });
 
@@ -60,8 +40,7 @@ export function buildOpenAIPassthroughAdapter(provider: Provider, modelHint?: st
     chat: {
       completions: {
         create: (async (params: ChatCompletionCreateParams, options?: { signal?: AbortSignal }) => {
-          // Filter parameters for o1 models before calling native API
-          const filteredParams = isO1Model(params.model) ? filterChatParams(params) : params;
+          const filteredParams = filterSamplingParams(params, resolveSamplingSupport(params.model, provider));
 
           // Try native Chat Completions API first
           return await client.chat.completions.create(filteredParams, options);
@@ -70,11 +49,28 @@ export function buildOpenAIPassthroughAdapter(provider: Provider, modelHint?: st
     },
     responses: {
       create: (async (params: ResponseCreateParams, options?: { signal?: AbortSignal }) => {
-        // Filter parameters for o1 models before calling native API
-        const filteredParams = filterResponseParams(params);
+        const filteredParams = filterSamplingParams(params, resolveSamplingSupport(String(params.model), provider));
 
         return await client.responses.create(filteredParams, options);
       }) as ResponsesCreateFn,
+      stored: {
+        async retrieve(id, options) {
+          return client.responses.retrieve(id, undefined, options);
+        },
+        async delete(id, options) {
+          await client.responses.delete(id, options);
+        },
+        async listInputItems(id, query, options) {
+          const page = await client.responses.inputItems.list(id, query, options);
+          return {
+            object: "list",
+            data: page.data,
+            first_id: page.data[0]?.id ?? "",
+            last_id: page.data[page.data.length - 1]?.id ?? "",
+            has_more: page.has_more,
+          };
+        },
+      },
     },
     models: {
       async list() {
@@ -89,6 +85,14 @@ export function buildOpenAIPassthroughAdapter(provider: Provider, modelHint?: st
         };
       },
     },
+    completions: {
+      create: defineCompletionsCreate(async (params, options) => client.completions.create(params, options)),
+    },
+    embeddings: {
+      async create(params, options) {
+        return client.embeddings.create(params, options);
+      },
+    },
   };
 
   return openAIClient;
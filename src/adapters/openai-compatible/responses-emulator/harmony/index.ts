@@ -17,6 +17,7 @@ export {
   tokenizeHarmony,
   decodeHarmony,
   tokenizeMessageContent,
+  countO200kTokens,
   processMessagesWithTokens,
   cleanupEncoder,
   HARMONY_SPECIAL_TOKENS,
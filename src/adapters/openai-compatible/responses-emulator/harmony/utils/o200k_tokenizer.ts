@@ -59,6 +59,17 @@ export function tokenizeHarmony(text: string): Uint32Array {
   return enc.encode(text);
 }
 
+/**
+ * Count o200k tokens in plain text.
+ * Special-token markers are counted as ordinary text, so arbitrary user input never throws.
+ * @param text - The text to measure
+ * @returns Number of tokens
+ */
+export function countO200kTokens(text: string): number {
+  const enc = getEncoder();
+  return enc.encode(text, [], []).length;
+}
+
 /**
  * Decode token IDs back to string
  * @param tokens - Array of token IDs
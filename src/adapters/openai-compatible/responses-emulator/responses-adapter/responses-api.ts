@@ -19,6 +19,8 @@ import {
   createHarmonyToResponsesStream,
 } from "../harmony/to-responses-response";
 
+type RequestOptions = { signal?: AbortSignal };
+
 /**
  * ResponsesAPI class that converts between Responses API and Chat Completions API
  */
@@ -31,11 +33,18 @@ export class ResponsesAPI {
 
   /**
    * Creates a response using OpenAI's chat completions API
-   * while mimicking the Responses API interface
+   * while mimicking the Responses API interface.
+   * `options.signal` is forwarded to the underlying chat completions call.
    */
-  async create(params: ResponseCreateParamsNonStreaming): Promise<OpenAIResponse>;
-  async create(params: ResponseCreateParamsStreaming): Promise<AsyncIterable<ResponseStreamEvent>>;
-  async create(params: ResponseCreateParams): Promise<OpenAIResponse | AsyncIterable<ResponseStreamEvent>> {
+  async create(params: ResponseCreateParamsNonStreaming, options?: RequestOptions): Promise<OpenAIResponse>;
+  async create(
+    params: ResponseCreateParamsStreaming,
+    options?: RequestOptions,
+  ): Promise<AsyncIterable<ResponseStreamEvent>>;
+  async create(
+    params: ResponseCreateParams,
+    options?: RequestOptions,
+  ): Promise<OpenAIResponse | AsyncIterable<ResponseStreamEvent>> {
     // Convert ResponseInput to chat messages
     const messages = this.convertInputToMessages(params);
 
@@ -43,10 +52,10 @@ export class ResponsesAPI {
     const chatParams = this.buildChatParams(params, messages);
 
     if (params.stream) {
-      return this.handleStreamingResponse(chatParams);
+      return this.handleStreamingResponse(chatParams, options);
     }
 
-    return this.handleNonStreamingResponse(chatParams);
+    return this.handleNonStreamingResponse(chatParams, options);
   }
 
   private convertInputToMessages(params: ResponseCreateParams): OpenAI.Chat.ChatCompletionMessageParam[] {
@@ -99,14 +108,14 @@ export class ResponsesAPI {
       chatParams.max_tokens = params.max_output_tokens;
     }
 
-    // Temperature and top_p are disabled for all models
-    // if (params.temperature !== undefined && params.temperature !== null) {
-    //   chatParams.temperature = params.temperature;
-    // }
+    // Unsupported sampling params are stripped by the caller's sampling policy before this point
+    if (params.temperature !== undefined && params.temperature !== null) {
+      chatParams.temperature = params.temperature;
+    }
 
-    // if (params.top_p !== undefined && params.top_p !== null) {
-    //   chatParams.top_p = params.top_p;
-    // }
+    if (params.top_p !== undefined && params.top_p !== null) {
+      chatParams.top_p = params.top_p;
+    }
 
     if (params.tools) {
       chatParams.tools = convertToolsForChat(params.tools);
@@ -142,11 +151,15 @@ export class ResponsesAPI {
 
   private async handleNonStreamingResponse(
     chatParams: OpenAI.Chat.ChatCompletionCreateParams,
+    options?: RequestOptions,
   ): Promise<OpenAIResponse> {
-    const completion = await this.openai.chat.completions.create({
-      ...chatParams,
-      stream: false,
-    });
+    const completion = await this.openai.chat.completions.create(
+      {
+        ...chatParams,
+        stream: false,
+      },
+      options,
+    );
 
     if (this.options.useHarmony) {
       // Convert Harmony-styled output to a final Responses object via events
@@ -172,11 +185,15 @@ export class ResponsesAPI {
 
   private async handleStreamingResponse(
     chatParams: OpenAI.Chat.ChatCompletionCreateParams,
+    options?: RequestOptions,
   ): Promise<AsyncIterable<ResponseStreamEvent>> {
-    const stream = await this.openai.chat.completions.create({
-      ...chatParams,
-      stream: true,
-    });
+    const stream = await this.openai.chat.completions.create(
+      {
+        ...chatParams,
+        stream: true,
+      },
+      options,
+    );
 
     if (this.options.useHarmony) {
       // Map ChatCompletionChunk -> harmony text chunks, then convert to Response events
@@ -473,6 +473,65 @@ describe("Event Reducer", () => {
       });
     });
 
+    describe("Reasoning processing", () => {
+      const reasoningItem = { id: "rs_1", type: "reasoning", summary: [] };
+
+      it("should stream reasoning summaries as a thinking block", () => {
+        const stream = [
+          createTestEvent({ type: "response.output_item.added", output_index: 0, item: reasoningItem }),
+          createTestEvent({ type: "response.reasoning_summary_part.added", item_id: "rs_1", summary_index: 0 }),
+          createTestEvent({ type: "response.reasoning_summary_text.delta", item_id: "rs_1", delta: "First" }),
+          createTestEvent({ type: "response.reasoning_summary_part.added", item_id: "rs_1", summary_index: 1 }),
+          createTestEvent({ type: "response.reasoning_summary_text.delta", item_id: "rs_1", delta: "Second" }),
+          createTestEvent({ type: "response.reasoning_summary_text.done", item_id: "rs_1", text: "Second" }),
+          createTestEvent({
+            type: "response.output_item.done",
+            output_index: 0,
+            item: { ...reasoningItem, encrypted_content: "enc_1" },
+          }),
+        ];
+
+        const result = stream.reduce(
+          (acc, event) => {
+            const next = processOpenAIEvent(acc.state, event);
+            return { state: next.state, events: [...acc.events, ...next.events] };
+          },
+          { state: initialState, events: [] as ReturnType<typeof processOpenAIEvent>["events"] },
+        );
+
+        expect(result.events).toEqual([
+          { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "First" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "\n\n" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Second" } },
+          { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "enc_1" } },
+          { type: "content_block_stop", index: 0 },
+        ]);
+        expect(result.state.contentBlocks.get("rs_1")).toMatchObject({ type: "thinking", completed: true });
+      });
+
+      it("should emit the full thinking text when only the done item arrives", () => {
+        const event = createTestEvent({
+          type: "response.output_item.done",
+          output_index: 0,
+          item: { ...reasoningItem, summary: [{ type: "summary_text", text: "All at once" }] },
+        });
+
+        const result = processOpenAIEvent(initialState, event);
+
+        expect(result.events.map((e) => e.type)).toEqual([
+          "content_block_start",
+          "content_block_delta",
+          "content_block_stop",
+        ]);
+        expect(result.events[1]).toEqual({
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "thinking_delta", thinking: "All at once" },
+        });
+      });
+    });
+
     describe("Response completion", () => {
       it("should handle response completed with usage", () => {
         const event: ResponseCompletedEvent = {
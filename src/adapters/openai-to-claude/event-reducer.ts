@@ -1,7 +1,7 @@
 /**
  * @file Event processing reducer for OpenAI-to-Claude streaming conversion.
  * Transforms OpenAI streaming events into Claude-compatible events while maintaining state.
- * Handles tool calls, content blocks, and completion events across different formats.
+ * Handles tool calls, reasoning, content blocks, and completion events across different formats.
  */
 
 import type {
@@ -18,6 +18,7 @@ import type {
   ResponseFunctionCallArgumentsDeltaEvent,
   ResponseOutputItemAddedEvent,
   ResponseOutputItemDoneEvent,
+  ResponseReasoningItem,
   ResponseTextDeltaEvent,
 } from "openai/resources/responses/responses";
 import {
@@ -33,15 +34,102 @@ import {
   isImageGenerationGeneratingEvent,
   isImageGenerationInProgressEvent,
   isImageGenerationPartialImageEvent,
+  isResponseReasoningItem,
   isWebSearchCallItem,
   isWebSearchCompletedEvent,
   isWebSearchInProgressEvent,
   isWebSearchSearchingEvent,
 } from "../../providers/openai/responses-guards";
 import { toClaudeToolUseIdFromOpenAI } from "../conversation/id-conversion";
+import { reasoningItemToClaudeThinking, SUMMARY_PART_SEPARATOR } from "./reasoning";
 import { conversionReducer } from "./state-reducer";
 import type { ConversionState, ProcessEventResult } from "./types";
 
+// Reasoning helpers
+
+const EMPTY_THINKING_BLOCK = { type: "thinking", thinking: "", signature: "" } as const;
+
+function startThinking(state: ConversionState, itemId: string, events: ClaudeStreamEvent[]): ConversionState {
+  const newState = conversionReducer(state, { type: "ADD_THINKING_BLOCK", id: itemId });
+  const block = newState.contentBlocks.get(itemId)!;
+  events.push({
+    type: "content_block_start",
+    index: block.index,
+    content_block: EMPTY_THINKING_BLOCK,
+  } as ContentBlockStartEvent);
+  return conversionReducer(newState, { type: "MARK_STARTED", id: itemId });
+}
+
+/** Stream thinking text, opening the block on the first non-empty delta. */
+function appendThinking(
+  state: ConversionState,
+  itemId: string,
+  delta: string,
+  events: ClaudeStreamEvent[],
+): ConversionState {
+  if (!delta) {
+    return state;
+  }
+  const currentState = state.contentBlocks.has(itemId) ? state : startThinking(state, itemId, events);
+  const block = currentState.contentBlocks.get(itemId)!;
+  if (block.type !== "thinking" || block.completed) {
+    return currentState;
+  }
+  events.push({
+    type: "content_block_delta",
+    index: block.index,
+    delta: { type: "thinking_delta", thinking: delta },
+  } as ContentBlockDeltaEvent);
+  return conversionReducer(currentState, { type: "UPDATE_THINKING", id: itemId, delta });
+}
+
+/**
+ * Close the thinking block of a finished reasoning item.
+ * Items that never streamed emit their full text here, `encrypted_content` is forwarded as the
+ * block signature, and reasoning with neither text nor signature produces no block at all.
+ */
+function finishThinking(
+  state: ConversionState,
+  item: ResponseReasoningItem,
+  events: ClaudeStreamEvent[],
+): ConversionState {
+  const existing = state.contentBlocks.get(item.id);
+  if (existing?.completed) {
+    return state;
+  }
+  const converted = reasoningItemToClaudeThinking(item);
+  if (!existing && converted.type === "redacted_thinking") {
+    const newState = conversionReducer(state, { type: "ADD_THINKING_BLOCK", id: item.id });
+    const index = newState.contentBlocks.get(item.id)!.index;
+    events.push({ type: "content_block_start", index, content_block: converted } as ContentBlockStartEvent);
+    events.push({ type: "content_block_stop", index } as ContentBlockStopEvent);
+    return conversionReducer(newState, { type: "MARK_COMPLETED", id: item.id });
+  }
+  const signature = converted.type === "thinking" ? converted.signature : (item.encrypted_content ?? "");
+  // eslint-disable-next-line no-restricted-syntax -- Reducer state threaded through block creation and completion
+  let currentState = state;
+  if (!existing && converted.type === "thinking") {
+    currentState = appendThinking(currentState, item.id, converted.thinking, events);
+  }
+  if (!currentState.contentBlocks.has(item.id)) {
+    if (!signature) {
+      return currentState;
+    }
+    currentState = startThinking(currentState, item.id, events);
+  }
+  const block = currentState.contentBlocks.get(item.id)!;
+  if (signature) {
+    // A redacted item that already streamed as thinking keeps its opaque payload as the signature
+    events.push({
+      type: "content_block_delta",
+      index: block.index,
+      delta: { type: "signature_delta", signature },
+    } as ContentBlockDeltaEvent);
+  }
+  events.push({ type: "content_block_stop", index: block.index } as ContentBlockStopEvent);
+  return conversionReducer(currentState, { type: "MARK_COMPLETED", id: item.id });
+}
+
 // Event processing reducer
 
 /**
@@ -115,6 +203,10 @@ export function processOpenAIEvent(state: ConversionState, event: OpenAIResponse
 
     case "response.output_item.added": {
       const addedEvent = event as ResponseOutputItemAddedEvent;
+      if (isResponseReasoningItem(addedEvent.item)) {
+        // The thinking block opens with the first reasoning delta so empty reasoning leaves no trace
+        break;
+      }
       if (isFunctionCallItem(addedEvent.item)) {
         const item = addedEvent.item;
         const claudeToolUseId = toClaudeToolUseIdFromOpenAI(item.call_id);
@@ -221,8 +313,36 @@ export function processOpenAIEvent(state: ConversionState, event: OpenAIResponse
       break;
     }
 
+    case "response.reasoning_summary_part.added": {
+      // Separate consecutive summary parts inside the single thinking block
+      const block = currentState.contentBlocks.get(event.item_id);
+      if (event.summary_index === 0 || !block) {
+        break;
+      }
+      if (block.content.length > 0) {
+        currentState = appendThinking(currentState, event.item_id, SUMMARY_PART_SEPARATOR, events);
+      }
+      break;
+    }
+
+    case "response.reasoning_summary_text.delta":
+    case "response.reasoning_text.delta": {
+      currentState = appendThinking(currentState, event.item_id, event.delta, events);
+      break;
+    }
+
+    case "response.reasoning_summary_part.done":
+    case "response.reasoning_summary_text.done":
+    case "response.reasoning_text.done":
+      // The accumulated text was already streamed as thinking deltas; the block closes on output_item.done
+      break;
+
     case "response.output_item.done": {
       const doneEvent = event as ResponseOutputItemDoneEvent;
+      if (isResponseReasoningItem(doneEvent.item)) {
+        currentState = finishThinking(currentState, doneEvent.item, events);
+        break;
+      }
       if (isFunctionCallItem(doneEvent.item)) {
         const block = currentState.contentBlocks.get(doneEvent.item.id);
         if (block !== null && block !== undefined && !block.completed) {
@@ -510,5 +510,48 @@ describe("from-nonstream", () => {
       });
       expect(result.stop_reason).toBe("tool_use");
     });
+    it("should convert reasoning items to thinking blocks ahead of text", () => {
+      const openAIResponse = {
+        id: "resp_140",
+        object: "response",
+        created_at: 1234567890,
+        model: "o4-mini",
+        output: [
+          {
+            id: "rs_140",
+            type: "reasoning",
+            summary: [
+              { type: "summary_text", text: "Check the units." },
+              { type: "summary_text", text: "Then add." },
+            ],
+            encrypted_content: "enc_140",
+          },
+          {
+            id: "rs_141",
+            type: "reasoning",
+            summary: [],
+            encrypted_content: "redacted_thinking:opaque",
+          },
+          {
+            id: "msg_140",
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text: "4", annotations: [] }],
+            status: "completed",
+          },
+        ],
+        output_text: "4",
+        status: "completed",
+      } as OpenAIResponse;
+
+      const result = openAINonStreamToClaudeMessage(openAIResponse, "msg_140", "claude-3");
+
+      expect(result.content).toEqual([
+        { type: "thinking", thinking: "Check the units.\n\nThen add.", signature: "enc_140" },
+        { type: "redacted_thinking", data: "opaque" },
+        { type: "text", text: "4", citations: null },
+      ]);
+      expect(result.stop_reason).toBe("end_turn");
+    });
   });
 });
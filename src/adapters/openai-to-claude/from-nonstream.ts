@@ -1,12 +1,17 @@
 /**
  * @file Converts OpenAI non-streaming responses to Claude message format.
- * Handles synchronous response transformation including tool calls and content blocks.
+ * Handles synchronous response transformation including tool calls, reasoning and content blocks.
  */
 
 import type { Response as OpenAIResponse, ResponseOutputText } from "openai/resources/responses/responses";
 import type { Message as ClaudeMessage, ContentBlock } from "@anthropic-ai/sdk/resources/messages";
 import { isResponseOutputText } from "../../providers/claude/guards";
-import { isResponseFunctionToolCall, isResponseOutputMessage } from "../../providers/openai/responses-guards";
+import {
+  isResponseFunctionToolCall,
+  isResponseOutputMessage,
+  isResponseReasoningItem,
+} from "../../providers/openai/responses-guards";
+import { reasoningItemToClaudeThinking } from "./reasoning";
 
 function convertResponseToClaudeContent(resp: OpenAIResponse): ContentBlock[] {
   const content: ContentBlock[] = [];
@@ -30,6 +35,8 @@ function convertResponseToClaudeContent(resp: OpenAIResponse): ContentBlock[] {
           });
         }
       }
+    } else if (isResponseReasoningItem(item)) {
+      content.push(reasoningItemToClaudeThinking(item));
     } else if (isResponseFunctionToolCall(item)) {
       // Convert function calls to Claude tool_use blocks
       const input = parseToolUseInput(item.arguments);
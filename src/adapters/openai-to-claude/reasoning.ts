@@ -0,0 +1,32 @@
+/**
+ * @file Mapping from OpenAI reasoning items to Claude thinking blocks.
+ * Summary text (or raw reasoning text when no summary is present) becomes the thinking text,
+ * and `encrypted_content` is carried as the block signature so the turn can be replayed.
+ */
+import type { RedactedThinkingBlock, ThinkingBlock } from "@anthropic-ai/sdk/resources/messages";
+import type { ResponseReasoningItem } from "openai/resources/responses/responses";
+import { reasoningItemToThinkingBlock } from "../claude-to-openai/thinking";
+
+/** Separator placed between consecutive reasoning summary parts. */
+export const SUMMARY_PART_SEPARATOR = "\n\n";
+
+/** Plain text of a reasoning item, preferring its summary over raw reasoning content. */
+export function reasoningItemText(item: ResponseReasoningItem): string {
+  if (item.summary.length > 0) {
+    return item.summary.map((s) => s.text).join(SUMMARY_PART_SEPARATOR);
+  }
+  return (item.content ?? []).map((c) => c.text).join("");
+}
+
+/**
+ * Convert a reasoning item into a Claude thinking block.
+ * Items that originated from Claude (see `thinkingBlockToReasoningItem`) round-trip exactly,
+ * including redacted thinking; other items get an empty signature when none is available.
+ */
+export function reasoningItemToClaudeThinking(item: ResponseReasoningItem): ThinkingBlock | RedactedThinkingBlock {
+  const replayed = reasoningItemToThinkingBlock(item);
+  if (replayed?.type === "redacted_thinking") {
+    return replayed;
+  }
+  return { type: "thinking", thinking: reasoningItemText(item), signature: item.encrypted_content ?? "" };
+}
@@ -51,6 +51,20 @@ export function conversionReducer(state: ConversionState, action: ConversionActi
       return newState;
     }
 
+    case "ADD_THINKING_BLOCK": {
+      const newState = { ...state };
+      newState.contentBlocks.set(action.id, {
+        index: state.currentIndex,
+        type: "thinking",
+        id: action.id,
+        content: "",
+        started: false,
+        completed: false,
+      });
+      newState.currentIndex++;
+      return newState;
+    }
+
     case "UPDATE_TEXT": {
       const block = state.contentBlocks.get(action.id);
       if (block && block.type === "text") {
@@ -67,6 +81,14 @@ export function conversionReducer(state: ConversionState, action: ConversionActi
       return state;
     }
 
+    case "UPDATE_THINKING": {
+      const block = state.contentBlocks.get(action.id);
+      if (block && block.type === "thinking") {
+        block.content += action.delta;
+      }
+      return state;
+    }
+
     case "MARK_STARTED": {
       const block = state.contentBlocks.get(action.id);
       if (block) {
@@ -20,7 +20,7 @@ export type ConversionState = {
 
 export type ContentBlockState = {
   index: number;
-  type: "text" | "tool_use";
+  type: "text" | "tool_use" | "thinking";
   id: string;
   name?: string;
   content: string;
@@ -32,8 +32,10 @@ export type ContentBlockState = {
 export type ConversionAction =
   | { type: "ADD_TEXT_BLOCK"; id: string }
   | { type: "ADD_TOOL_BLOCK"; id: string; claudeId: string; name: string }
+  | { type: "ADD_THINKING_BLOCK"; id: string }
   | { type: "UPDATE_TEXT"; id: string; delta: string }
   | { type: "UPDATE_TOOL_ARGS"; id: string; delta: string }
+  | { type: "UPDATE_THINKING"; id: string; delta: string }
   | { type: "MARK_STARTED"; id: string }
   | { type: "MARK_COMPLETED"; id: string }
   | { type: "SET_CURRENT_TEXT_BLOCK"; id?: string }
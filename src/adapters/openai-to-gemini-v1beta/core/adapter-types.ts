@@ -2,7 +2,14 @@
  * @file Types for OpenAI → Gemini v1beta adapter
  */
 import type { OpenAICompatibleClient } from "../../openai-client-types";
-import type { GeminiRequest, GeminiResponse } from "./gemini-types";
+import type {
+  GeminiBatchEmbedContentsRequest,
+  GeminiBatchEmbedContentsResponse,
+  GeminiEmbedContentRequest,
+  GeminiEmbedContentResponse,
+  GeminiRequest,
+  GeminiResponse,
+} from "./gemini-types";
 
 export type AdapterOptions = { client: OpenAICompatibleClient };
 
@@ -28,3 +35,15 @@ export type ListModelsFn = () => Promise<{
     supportedGenerationMethods: string[];
   }>;
 }>;
+
+export type EmbedContentFn = (
+  model: string,
+  body: GeminiEmbedContentRequest,
+  options?: { signal?: AbortSignal },
+) => Promise<GeminiEmbedContentResponse>;
+
+export type BatchEmbedContentsFn = (
+  model: string,
+  body: GeminiBatchEmbedContentsRequest,
+  options?: { signal?: AbortSignal },
+) => Promise<GeminiBatchEmbedContentsResponse>;
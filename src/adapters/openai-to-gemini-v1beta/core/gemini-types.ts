@@ -56,3 +56,27 @@ export type GeminiStreamChunk = {
     index: number;
   }>;
 };
+
+// Request for models/{model}:embedContent (also an entry of batchEmbedContents)
+export type GeminiEmbedContentRequest = {
+  model?: string;
+  content: GeminiContent;
+  taskType?: string;
+  title?: string;
+  outputDimensionality?: number;
+};
+
+// Response from models/{model}:embedContent
+export type GeminiEmbedContentResponse = {
+  embedding: { values: number[] };
+};
+
+// Request for models/{model}:batchEmbedContents
+export type GeminiBatchEmbedContentsRequest = {
+  requests: GeminiEmbedContentRequest[];
+};
+
+// Response from models/{model}:batchEmbedContents
+export type GeminiBatchEmbedContentsResponse = {
+  embeddings: Array<{ values: number[] }>;
+};
@@ -0,0 +1,77 @@
+/** @file Unit tests for embedContent / batchEmbedContents */
+import type { EmbeddingCreateParams } from "openai/resources/embeddings";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { batchEmbedContents, embedContent } from "./embed-content";
+
+function makeClient(calls: EmbeddingCreateParams[]): OpenAICompatibleClient {
+  return {
+    models: { list: async () => ({ data: [] }) },
+    responses: {
+      create: async () => {
+        throw new Error("not used");
+      },
+    },
+    chat: {
+      completions: {
+        create: async () => {
+          throw new Error("not used");
+        },
+      },
+    },
+    embeddings: {
+      create: async (params) => {
+        calls.push(params);
+        const input = Array.isArray(params.input) ? (params.input as string[]) : [params.input as string];
+        // Answer out of order to check that results are re-sorted by index
+        const data = input
+          .map((text, index) => ({
+            object: "embedding" as const,
+            index,
+            embedding: [text.length, params.dimensions ?? 0],
+          }))
+          .reverse();
+        return { object: "list", data, model: params.model, usage: { prompt_tokens: 1, total_tokens: 1 } };
+      },
+    },
+  };
+}
+
+describe("openai-to-gemini-v1beta embeddings", () => {
+  it("maps embedContent to a float embeddings call", async () => {
+    const calls: EmbeddingCreateParams[] = [];
+    const res = await embedContent(makeClient(calls), "text-embedding-3-small", {
+      content: { parts: [{ text: "ab" }, { text: "cd" }] },
+      outputDimensionality: 8,
+    });
+    expect(calls).toEqual([
+      { model: "text-embedding-3-small", input: ["ab\ncd"], dimensions: 8, encoding_format: "float" },
+    ]);
+    expect(res).toEqual({ embedding: { values: [5, 8] } });
+  });
+
+  it("groups batch requests by outputDimensionality and keeps request order", async () => {
+    const calls: EmbeddingCreateParams[] = [];
+    const res = await batchEmbedContents(makeClient(calls), "text-embedding-3-small", {
+      requests: [
+        { content: { parts: [{ text: "a" }] } },
+        { content: { parts: [{ text: "bb" }] }, outputDimensionality: 4 },
+        { content: { parts: [{ text: "ccc" }] } },
+      ],
+    });
+    expect(calls.map((c) => c.input)).toEqual([["a", "ccc"], ["bb"]]);
+    expect(res.embeddings).toEqual([{ values: [1, 0] }, { values: [2, 4] }, { values: [3, 0] }]);
+  });
+
+  it("rejects non-text parts", async () => {
+    await expect(
+      embedContent(makeClient([]), "m", { content: { parts: [{ inlineData: { mimeType: "image/png", data: "" } }] } }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("reports backends without embeddings as not implemented", async () => {
+    const client: OpenAICompatibleClient = { ...makeClient([]), embeddings: undefined };
+    await expect(embedContent(client, "m", { content: { parts: [{ text: "a" }] } })).rejects.toMatchObject({
+      status: 501,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @file embedContent / batchEmbedContents implementation for OpenAI → Gemini v1beta adapter
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import { embeddingValues } from "../shared/embedding-values";
+import type {
+  GeminiBatchEmbedContentsRequest,
+  GeminiBatchEmbedContentsResponse,
+  GeminiContent,
+  GeminiEmbedContentRequest,
+  GeminiEmbedContentResponse,
+} from "./core/gemini-types";
+
+function contentToText(content: GeminiContent): string {
+  const texts = content.parts.map((part) => {
+    if ("text" in part) {
+      return part.text;
+    }
+    throw new HttpError(400, "Only text parts can be embedded through an OpenAI-compatible backend", "bad_request");
+  });
+  return texts.join("\n");
+}
+
+async function embedTexts(
+  client: OpenAICompatibleClient,
+  model: string,
+  texts: string[],
+  dimensions: number | undefined,
+  options?: { signal?: AbortSignal },
+): Promise<number[][]> {
+  if (!client.embeddings) {
+    throw new HttpError(501, "Embeddings are not supported by this backend", "not_implemented");
+  }
+  const params = dimensions ? { model, input: texts, dimensions } : { model, input: texts };
+  // Ask for floats explicitly; the OpenAI SDK would otherwise request base64 and decode it itself
+  const res = await client.embeddings.create({ ...params, encoding_format: "float" }, options);
+  return [...res.data].sort((a, b) => a.index - b.index).map((d) => embeddingValues(d.embedding));
+}
+
+/**
+ * Emulate v1beta embedContent using the OpenAI embeddings API.
+ * Text parts are joined with newlines; `outputDimensionality` maps to `dimensions`.
+ */
+export async function embedContent(
+  client: OpenAICompatibleClient,
+  model: string,
+  body: GeminiEmbedContentRequest,
+  options?: { signal?: AbortSignal },
+): Promise<GeminiEmbedContentResponse> {
+  const [values] = await embedTexts(client, model, [contentToText(body.content)], body.outputDimensionality, options);
+  return { embedding: { values: values ?? [] } };
+}
+
+/**
+ * Emulate v1beta batchEmbedContents using the OpenAI embeddings API.
+ * Requests sharing an `outputDimensionality` go upstream as one call; results keep request order.
+ */
+export async function batchEmbedContents(
+  client: OpenAICompatibleClient,
+  model: string,
+  body: GeminiBatchEmbedContentsRequest,
+  options?: { signal?: AbortSignal },
+): Promise<GeminiBatchEmbedContentsResponse> {
+  const groups = new Map<number | undefined, number[]>();
+  body.requests.forEach((request, i) => {
+    const indices = groups.get(request.outputDimensionality) ?? [];
+    indices.push(i);
+    groups.set(request.outputDimensionality, indices);
+  });
+  const embeddings: Array<{ values: number[] }> = body.requests.map(() => ({ values: [] }));
+  for (const [dimensions, indices] of groups) {
+    const texts = indices.map((i) => contentToText(body.requests[i]!.content));
+    const vectors = await embedTexts(client, model, texts, dimensions, options);
+    indices.forEach((requestIndex, i) => {
+      embeddings[requestIndex] = { values: vectors[i] ?? [] };
+    });
+  }
+  return { embeddings };
+}
@@ -1,19 +1,44 @@
 /**
  * @file OpenAI → Gemini v1beta adapter (standalone)
  *
- * Recreates Gemini's v1beta surface (generateContent, streamGenerateContent, listModels)
+ * Recreates Gemini's v1beta surface (generateContent, streamGenerateContent, listModels,
+ * embedContent, batchEmbedContents)
  * on top of an OpenAI-compatible client.
  */
 export { generateContent } from "./generate-content";
 export { streamGenerateContent } from "./stream-generate-content";
 export { listModels } from "./list-models";
-export type { GeminiRequest, GeminiResponse, GeminiStreamChunk } from "./core/gemini-types";
-export type { AdapterOptions, GenerateContentFn, StreamGenerateContentFn, ListModelsFn } from "./core/adapter-types";
+export { embedContent, batchEmbedContents } from "./embed-content";
+export type {
+  GeminiRequest,
+  GeminiResponse,
+  GeminiStreamChunk,
+  GeminiEmbedContentRequest,
+  GeminiEmbedContentResponse,
+  GeminiBatchEmbedContentsRequest,
+  GeminiBatchEmbedContentsResponse,
+} from "./core/gemini-types";
+export type {
+  AdapterOptions,
+  GenerateContentFn,
+  StreamGenerateContentFn,
+  ListModelsFn,
+  EmbedContentFn,
+  BatchEmbedContentsFn,
+} from "./core/adapter-types";
 import type { OpenAICompatibleClient } from "../openai-client-types";
-import type { AdapterOptions, GenerateContentFn, StreamGenerateContentFn, ListModelsFn } from "./core/adapter-types";
+import type {
+  AdapterOptions,
+  GenerateContentFn,
+  StreamGenerateContentFn,
+  ListModelsFn,
+  EmbedContentFn,
+  BatchEmbedContentsFn,
+} from "./core/adapter-types";
 import { generateContent as generateContentImpl } from "./generate-content";
 import { streamGenerateContent as streamGenerateContentImpl } from "./stream-generate-content";
 import { listModels as listModelsImpl } from "./list-models";
+import { embedContent as embedContentImpl, batchEmbedContents as batchEmbedContentsImpl } from "./embed-content";
 
 // Adapter factory: return functions pre-bound with client using a tiny binder
 function bindClient<A extends unknown[], R>(
@@ -28,11 +53,15 @@ export function buildOpenAItoGeminiV1BetaAdapter(opts: AdapterOptions): {
   generateContent: GenerateContentFn;
   streamGenerateContent: StreamGenerateContentFn;
   listModels: ListModelsFn;
+  embedContent: EmbedContentFn;
+  batchEmbedContents: BatchEmbedContentsFn;
 } {
   const client: OpenAICompatibleClient = opts.client;
   return {
     generateContent: bindClient(generateContentImpl, client),
     streamGenerateContent: bindClient(streamGenerateContentImpl, client),
     listModels: () => listModelsImpl(client),
+    embedContent: bindClient(embedContentImpl, client),
+    batchEmbedContents: bindClient(batchEmbedContentsImpl, client),
   };
 }
@@ -0,0 +1,210 @@
+/**
+ * @file Tests for OpenAI Responses params → Gemini GenerateContent request conversion
+ */
+import { responsesToGeminiRequest } from "./request-converter";
+import { toGeminiSchema } from "./request-converter/schema";
+import { createToolCallNameRegistry } from "./request-converter/tool-names";
+
+describe("responsesToGeminiRequest", () => {
+  it("sends instructions as systemInstruction instead of a user turn", () => {
+    const body = responsesToGeminiRequest({ model: "gemini-2.5-flash", instructions: "Be terse.", input: "hi" });
+
+    expect(body.systemInstruction).toEqual({ parts: [{ text: "Be terse." }] });
+    expect(body.contents).toEqual([{ role: "user", parts: [{ text: "hi" }] }]);
+  });
+
+  it("maps generation settings, stop sequences and candidate count", () => {
+    const body = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: "hi",
+      max_output_tokens: 256,
+      temperature: 0.2,
+      top_p: 0.9,
+      stop: "END",
+      n: 2,
+      reasoning: { effort: "low" },
+    });
+
+    expect(body.generationConfig).toEqual({
+      maxOutputTokens: 256,
+      temperature: 0.2,
+      topP: 0.9,
+      stopSequences: ["END"],
+      candidateCount: 2,
+      thinkingConfig: { thinkingBudget: 1024 },
+    });
+  });
+
+  it("maps json_schema text format to responseSchema", () => {
+    const body = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: "weather?",
+      text: {
+        format: {
+          type: "json_schema",
+          name: "weather",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: { city: { type: "string" }, temp: { type: "number" } },
+            required: ["city", "temp"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+
+    expect(body.generationConfig?.responseMimeType).toBe("application/json");
+    expect(body.generationConfig?.responseSchema).toEqual({
+      type: "object",
+      properties: { city: { type: "string" }, temp: { type: "number" } },
+      propertyOrdering: ["city", "temp"],
+      required: ["city", "temp"],
+    });
+  });
+
+  const lookupTool = {
+    type: "function" as const,
+    name: "lookup",
+    description: "Look something up",
+    strict: true,
+    parameters: {
+      type: "object",
+      properties: { q: { type: "string" } },
+      required: ["q"],
+      additionalProperties: false,
+    },
+  };
+  const clockTool = { type: "function" as const, name: "clock", strict: false, parameters: null };
+
+  it("forwards function tools as functionDeclarations with sanitized schemas", () => {
+    const body = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: "hi",
+      tools: [lookupTool, clockTool, { type: "web_search_preview" }],
+    });
+
+    expect(body.tools).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: "lookup",
+            description: "Look something up",
+            parameters: {
+              type: "object",
+              properties: { q: { type: "string" } },
+              propertyOrdering: ["q"],
+              required: ["q"],
+            },
+          },
+          { name: "clock" },
+        ],
+      },
+    ]);
+    expect(body.toolConfig).toBeUndefined();
+  });
+
+  it("maps tool_choice to functionCallingConfig modes", () => {
+    const configFor = (tool_choice: Parameters<typeof responsesToGeminiRequest>[0]["tool_choice"]) =>
+      responsesToGeminiRequest({ model: "gemini-2.5-flash", input: "hi", tools: [lookupTool], tool_choice }).toolConfig;
+
+    expect(configFor("none")).toEqual({ functionCallingConfig: { mode: "NONE" } });
+    expect(configFor("auto")).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+    expect(configFor("required")).toEqual({ functionCallingConfig: { mode: "ANY" } });
+    expect(configFor({ type: "function", name: "lookup" })).toEqual({
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["lookup"] },
+    });
+  });
+
+  it("restricts declarations or allowed names for allowed_tools", () => {
+    const allowed = [{ type: "function", name: "clock" }];
+    const required = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: "hi",
+      tools: [lookupTool, clockTool],
+      tool_choice: { type: "allowed_tools", mode: "required", tools: allowed },
+    });
+    expect(required.toolConfig).toEqual({ functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["clock"] } });
+
+    const auto = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: "hi",
+      tools: [lookupTool, clockTool],
+      tool_choice: { type: "allowed_tools", mode: "auto", tools: allowed },
+    });
+    expect(auto.tools).toEqual([{ functionDeclarations: [{ name: "clock" }] }]);
+    expect(auto.toolConfig).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+  });
+
+  it("names tool outputs after the function_call in the same input", () => {
+    const body = responsesToGeminiRequest({
+      model: "gemini-2.5-flash",
+      input: [
+        { type: "function_call", call_id: "call_1", name: "lookup", arguments: '{"q":"cat"}' },
+        { type: "function_call_output", call_id: "call_1", output: '{"found":true}' },
+        { type: "function_call", call_id: "call_2", name: "lookup", arguments: '{"q":"dog"}' },
+        { type: "function_call_output", call_id: "call_2", output: "not found" },
+      ],
+    });
+
+    // Gemini takes a Struct: JSON objects are parsed, plain text is wrapped
+    expect(body.contents).toEqual([
+      { role: "model", parts: [{ functionCall: { name: "lookup", args: { q: "cat" } } }] },
+      { role: "function", parts: [{ functionResponse: { name: "lookup", response: { found: true } } }] },
+      { role: "model", parts: [{ functionCall: { name: "lookup", args: { q: "dog" } } }] },
+      { role: "function", parts: [{ functionResponse: { name: "lookup", response: { content: "not found" } } }] },
+    ]);
+  });
+
+  it("falls back to the resolver for calls made in earlier responses", () => {
+    const registry = createToolCallNameRegistry();
+    registry.record("call_prev", "clock");
+
+    const body = responsesToGeminiRequest(
+      { model: "gemini-2.5-flash", input: [{ type: "function_call_output", call_id: "call_prev", output: "{}" }] },
+      registry.resolve,
+    );
+
+    expect(body.contents).toEqual([
+      { role: "function", parts: [{ functionResponse: { name: "clock", response: {} } }] },
+    ]);
+  });
+});
+
+describe("toGeminiSchema", () => {
+  it("resolves refs, folds null unions and converts const", () => {
+    const schema = toGeminiSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        unit: { const: "celsius" },
+        note: { type: ["string", "null"], pattern: "^[a-z]+$" },
+        place: { anyOf: [{ $ref: "#/$defs/place" }, { type: "null" }] },
+      },
+      $defs: { place: { type: "object", properties: { name: { type: "string", format: "uri" } } } },
+    });
+
+    expect(schema.properties).toEqual({
+      unit: { type: "string", enum: ["celsius"] },
+      note: { type: "string", nullable: true },
+      place: {
+        type: "object",
+        nullable: true,
+        properties: { name: { type: "string" } },
+        propertyOrdering: ["name"],
+      },
+    });
+  });
+});
+
+describe("createToolCallNameRegistry", () => {
+  it("evicts the oldest call ids past its capacity", () => {
+    const registry = createToolCallNameRegistry(2);
+    registry.record("a", "one");
+    registry.record("b", "two");
+    registry.record("c", "three");
+
+    expect(registry.resolve("a")).toBeUndefined();
+    expect(registry.resolve("c")).toBe("three");
+  });
+});
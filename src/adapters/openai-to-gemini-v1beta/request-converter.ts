@@ -6,34 +6,56 @@ import type {
   ResponseInput,
   ResponseInputItem,
 } from "openai/resources/responses/responses";
+import type { ReasoningEffort } from "openai/resources/shared";
 import type {
   GenerateContentRequest,
   GeminiContent as ClientGeminiContent,
 } from "../../providers/gemini/client/fetch-client";
-import { isResponseInputMessage } from "../../providers/openai/responses-guards";
+import { isResponseInputMessage, isResponseInputReasoningItem } from "../../providers/openai/responses-guards";
+import type { SamplingExtensions } from "../../model/sampling";
 import { isObject } from "../../utils/type-guards";
 import { convertMessageContentToGeminiParts } from "./request-converter/message-content";
 import { convertItemToGeminiContent, ToolNameResolver } from "./request-converter/handlers";
+import { toGeminiSchema } from "./request-converter/schema";
+import { responsesToolsToGemini } from "./request-converter/tools";
+import { createRequestToolNameResolver } from "./request-converter/tool-names";
+
+/**
+ * Responses params plus Chat Completions carry-overs that have no Responses equivalent
+ * but map directly onto Gemini generation settings.
+ */
+export type GeminiRequestParams = ResponseCreateParams &
+  SamplingExtensions & {
+    stop?: string | string[] | null;
+    n?: number | null;
+  };
+
+/** Thinking budget used for each OpenAI reasoning effort (512 is valid on every 2.5 model). */
+export const GEMINI_THINKING_BUDGET_BY_EFFORT: Record<NonNullable<ReasoningEffort>, number> = {
+  minimal: 512,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
 
 /** Type guard to filter out undefined entries */
 function isDefined<T>(v: T | undefined): v is T {
   return v !== undefined;
 }
 
-/** Convert OpenAI Responses params into a Gemini GenerateContent request body. */
+/**
+ * Convert OpenAI Responses params into a Gemini GenerateContent request body.
+ * Tool outputs are named after the matching `function_call` in the same input; `fallbackToolName`
+ * is only consulted for calls that are not part of the request.
+ */
 export function responsesToGeminiRequest(
-  params: ResponseCreateParams,
-  resolveToolName?: ToolNameResolver,
+  params: GeminiRequestParams,
+  fallbackToolName?: ToolNameResolver,
 ): GenerateContentRequest {
   const contents: ClientGeminiContent[] = [];
 
-  // instructions -> user text (Gemini v1beta has systemInstruction, but we keep it simple/user)
-  const sys = (params as { instructions?: string }).instructions;
-  if (typeof sys === "string" && sys.length > 0) {
-    contents.push({ role: "user", parts: [{ text: sys }] });
-  }
-
   const input = (params as { input?: unknown }).input as ResponseInput | string | undefined;
+  const resolveToolName = createRequestToolNameResolver(input, fallbackToolName);
   if (typeof input === "string") {
     contents.push({ role: "user", parts: [{ text: input }] } as ClientGeminiContent);
     return buildRequest(contents, params);
@@ -51,6 +73,10 @@ export function responsesToGeminiRequest(
           }
           return undefined;
         }
+        // Reasoning from other providers is opaque to Gemini
+        if (isResponseInputReasoningItem(item)) {
+          return undefined;
+        }
         const converted = convertItemToGeminiContent(item, resolveToolName);
         if (converted) {
           return converted;
@@ -92,13 +118,39 @@ export function responsesToGeminiRequest(
   return buildRequest(contents, params);
 }
 
-function buildRequest(contents: ClientGeminiContent[], params: ResponseCreateParams): GenerateContentRequest {
-  const body: GenerateContentRequest = { contents };
+function buildGenerationConfig(params: GeminiRequestParams): GenerateContentRequest["generationConfig"] {
   const gen: NonNullable<GenerateContentRequest["generationConfig"]> = {};
-  const p = params as { max_output_tokens?: number; temperature?: number; top_p?: number };
-  if (typeof p.max_output_tokens === "number") { gen.maxOutputTokens = p.max_output_tokens; }
-  if (typeof p.temperature === "number") { gen.temperature = p.temperature; }
-  if (typeof p.top_p === "number") { gen.topP = p.top_p; }
-  if (Object.keys(gen).length > 0) { body.generationConfig = gen; }
+  if (typeof params.max_output_tokens === "number") { gen.maxOutputTokens = params.max_output_tokens; }
+  if (typeof params.temperature === "number") { gen.temperature = params.temperature; }
+  if (typeof params.top_p === "number") { gen.topP = params.top_p; }
+  if (typeof params.top_k === "number") { gen.topK = params.top_k; }
+  if (typeof params.n === "number") { gen.candidateCount = params.n; }
+
+  const stop = typeof params.stop === "string" ? [params.stop] : params.stop;
+  if (Array.isArray(stop) && stop.length > 0) { gen.stopSequences = stop; }
+
+  const format = params.text?.format;
+  if (format?.type === "json_schema") {
+    gen.responseMimeType = "application/json";
+    gen.responseSchema = toGeminiSchema(format.schema);
+  }
+  if (format?.type === "json_object") { gen.responseMimeType = "application/json"; }
+
+  const effort = params.reasoning?.effort;
+  if (effort) { gen.thinkingConfig = { thinkingBudget: GEMINI_THINKING_BUDGET_BY_EFFORT[effort] }; }
+
+  return Object.keys(gen).length > 0 ? gen : undefined;
+}
+
+function buildRequest(contents: ClientGeminiContent[], params: GeminiRequestParams): GenerateContentRequest {
+  const body: GenerateContentRequest = { contents };
+  if (typeof params.instructions === "string" && params.instructions.length > 0) {
+    body.systemInstruction = { parts: [{ text: params.instructions }] };
+  }
+  const { tools, toolConfig } = responsesToolsToGemini(params);
+  if (tools) { body.tools = tools; }
+  if (toolConfig) { body.toolConfig = toolConfig; }
+  const gen = buildGenerationConfig(params);
+  if (gen) { body.generationConfig = gen; }
   return body;
 }
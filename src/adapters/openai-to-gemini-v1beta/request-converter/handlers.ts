@@ -26,7 +26,7 @@ import {
   isResponseInputFunctionCallOutput,
 } from "../../../providers/openai/responses-guards";
 import { isObject } from "../../../utils/type-guards";
-import { fnCall, parseArgs } from "./utils";
+import { fnCall, parseArgs, toFunctionResponse } from "./utils";
 
 /** Resolver for mapping tool call IDs to function names */
 export type ToolNameResolver = (callId: string) => string | undefined;
@@ -40,9 +40,10 @@ export function convertItemToGeminiContent(
   resolveToolName?: ToolNameResolver,
 ): ClientGeminiContent | undefined {
   if (isResponseInputFunctionCallOutput(item)) {
+    // Without a name Gemini cannot pair the response with its call, so the item is left to the caller
     const name = resolveToolName ? resolveToolName(item.call_id) : undefined;
     if (name) {
-      return { role: "function", parts: [{ functionResponse: { name, response: item.output } }] } as ClientGeminiContent;
+      return { role: "function", parts: [{ functionResponse: { name, response: toFunctionResponse(item.output) } }] } as ClientGeminiContent;
     }
     return undefined;
   }
@@ -52,7 +53,8 @@ export function convertItemToGeminiContent(
     const providedName = (item as { name?: unknown }).name;
     const fnName = typeof providedName === "string" ? providedName : "function";
     const part = fnCall(fnName, args);
-    return { role: "user", parts: [part] } as ClientGeminiContent;
+    // Function calls were issued by the model; Gemini expects them on the model turn
+    return { role: "model", parts: [part] } as ClientGeminiContent;
   }
 
   if (isResponseInputCustomToolCall(item)) {
@@ -65,7 +67,7 @@ export function convertItemToGeminiContent(
   if (isResponseInputCustomToolCallOutput(item)) {
     const providedName = (item as { name?: unknown }).name;
     const name = typeof providedName === "string" ? providedName : "custom_tool";
-    return { role: "function", parts: [{ functionResponse: { name, response: (item as { output?: unknown }).output } }] } as ClientGeminiContent;
+    return { role: "function", parts: [{ functionResponse: { name, response: toFunctionResponse((item as { output?: unknown }).output) } }] } as ClientGeminiContent;
   }
 
   if (isResponseInputFileSearchToolCall(item)) {
@@ -99,7 +101,7 @@ export function convertItemToGeminiContent(
   }
 
   if (isResponseInputLocalShellCallOutput(item)) {
-    return { role: "function", parts: [{ functionResponse: { name: "local_shell", response: (item as { output?: unknown }).output } }] } as ClientGeminiContent;
+    return { role: "function", parts: [{ functionResponse: { name: "local_shell", response: toFunctionResponse((item as { output?: unknown }).output) } }] } as ClientGeminiContent;
   }
 
   if (isResponseInputMcpCall(item)) {
@@ -9,6 +9,9 @@ import { dataUrlToInlineData } from "./utils";
 
 /** Convert OpenAI message content parts to Gemini parts */
 export function convertMessageContentToGeminiParts(content: unknown): ClientGeminiPart[] {
+  if (typeof content === "string") {
+    return content.length > 0 ? [{ text: content } as ClientGeminiPart] : [];
+  }
   if (!Array.isArray(content)) {
     return [];
   }
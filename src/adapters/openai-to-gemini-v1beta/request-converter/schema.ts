@@ -0,0 +1,148 @@
+/**
+ * @file Down-convert JSON Schema into the OpenAPI 3.0 subset Gemini accepts for `responseSchema`.
+ * Resolves local `$ref`s, folds `null` unions into `nullable`, turns `const` into a single-value enum
+ * and drops keywords Gemini rejects (e.g. `additionalProperties`, `$schema`, `pattern`).
+ */
+import type { GeminiSchema } from "../../../providers/gemini/client/fetch-client";
+import { isObject } from "../../../utils/type-guards";
+
+type SchemaType = NonNullable<GeminiSchema["type"]>;
+
+const SCHEMA_TYPES: readonly SchemaType[] = ["string", "number", "integer", "boolean", "array", "object"];
+
+/** Formats Gemini understands; anything else is dropped rather than rejected upstream. */
+const SUPPORTED_FORMATS = new Set(["enum", "date-time", "int32", "int64", "float", "double"]);
+
+/** Recursive `$ref`s are cut off past this depth. */
+const MAX_REF_DEPTH = 8;
+
+type Definitions = Record<string, unknown>;
+
+function isSchemaType(v: unknown): v is SchemaType {
+  return SCHEMA_TYPES.includes(v as SchemaType);
+}
+
+function isNullSchema(v: unknown): boolean {
+  return isObject(v) ? v.type === "null" : false;
+}
+
+function resolveRef(ref: string, defs: Definitions): Record<string, unknown> {
+  const match = /^#\/(?:\$defs|definitions)\/(.+)$/.exec(ref);
+  const target = match ? defs[match[1]] : undefined;
+  return isObject(target) ? target : {};
+}
+
+function applyVariants(out: GeminiSchema, variants: unknown[], defs: Definitions, depth: number): void {
+  const concrete = variants.filter((v) => !isNullSchema(v));
+  if (concrete.length < variants.length) {
+    out.nullable = true;
+  }
+  if (concrete.length === 1) {
+    Object.assign(out, convert(concrete[0], defs, depth), out.nullable ? { nullable: true } : {});
+    return;
+  }
+  if (concrete.length > 1) {
+    out.anyOf = concrete.map((v) => convert(v, defs, depth));
+  }
+}
+
+function applyProperties(out: GeminiSchema, node: Record<string, unknown>, defs: Definitions, depth: number): void {
+  if (!isObject(node.properties)) {
+    return;
+  }
+  const properties: Record<string, GeminiSchema> = {};
+  for (const [key, value] of Object.entries(node.properties)) {
+    properties[key] = convert(value, defs, depth);
+  }
+  out.properties = properties;
+  // Gemini orders properties alphabetically unless told otherwise
+  out.propertyOrdering = Object.keys(properties);
+  if (Array.isArray(node.required)) {
+    const required = node.required.filter((k): k is string => (typeof k === "string" ? k in properties : false));
+    if (required.length > 0) {
+      out.required = required;
+    }
+  }
+}
+
+function applyScalars(out: GeminiSchema, node: Record<string, unknown>): void {
+  if (typeof node.title === "string") {
+    out.title = node.title;
+  }
+  if (typeof node.description === "string") {
+    out.description = node.description;
+  }
+  if (typeof node.format === "string" && SUPPORTED_FORMATS.has(node.format)) {
+    out.format = node.format;
+  }
+  for (const key of ["minItems", "maxItems", "minimum", "maximum"] as const) {
+    const value = node[key];
+    if (typeof value === "number") {
+      out[key] = value;
+    }
+  }
+}
+
+function applyEnum(out: GeminiSchema, node: Record<string, unknown>): void {
+  const values = node.const !== undefined ? [node.const] : node.enum;
+  if (!Array.isArray(values)) {
+    return;
+  }
+  if (values.includes(null)) {
+    out.nullable = true;
+  }
+  // Gemini only supports string enums
+  out.type = "string";
+  out.enum = values.filter((v) => v !== null).map((v) => String(v));
+}
+
+function convert(node: unknown, defs: Definitions, depth: number): GeminiSchema {
+  if (!isObject(node)) {
+    return {};
+  }
+  if (typeof node.$ref === "string") {
+    if (depth >= MAX_REF_DEPTH) {
+      return { type: "object" };
+    }
+    const { $ref, ...rest } = node;
+    return convert({ ...resolveRef($ref, defs), ...rest }, defs, depth + 1);
+  }
+
+  const out: GeminiSchema = {};
+  const types: unknown[] = Array.isArray(node.type) ? node.type : [node.type];
+  const concreteType = types.find(isSchemaType);
+  if (concreteType) {
+    out.type = concreteType;
+  }
+  if (types.includes("null") || node.nullable === true) {
+    out.nullable = true;
+  }
+
+  const variants = Array.isArray(node.anyOf) ? node.anyOf : node.oneOf;
+  if (Array.isArray(variants)) {
+    applyVariants(out, variants, defs, depth);
+  }
+  if (Array.isArray(node.allOf)) {
+    for (const part of node.allOf) {
+      Object.assign(out, convert(part, defs, depth));
+    }
+  }
+
+  applyScalars(out, node);
+  applyEnum(out, node);
+  applyProperties(out, node, defs, depth);
+
+  if (isObject(node.items)) {
+    out.items = convert(node.items, defs, depth);
+  }
+  return out;
+}
+
+/** Convert a JSON Schema (as sent in `text.format.schema`) into a Gemini `responseSchema`. */
+export function toGeminiSchema(schema: Record<string, unknown>): GeminiSchema {
+  const defs: Definitions = {
+    ...(isObject(schema.definitions) ? schema.definitions : {}),
+    ...(isObject(schema.$defs) ? schema.$defs : {}),
+  };
+  return convert(schema, defs, 0);
+}
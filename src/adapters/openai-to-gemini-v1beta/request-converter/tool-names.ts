@@ -0,0 +1,83 @@
+/**
+ * @file Resolve function names for `function_call_output` items sent to Gemini.
+ * Gemini matches a `functionResponse` to its call by name rather than id, so every tool output
+ * needs the name of the call it answers. Names come from the `function_call` items of the same
+ * request first, then from calls Gemini itself produced earlier (recorded in a registry).
+ */
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+import { isResponseInputFunctionToolCall } from "../../../providers/openai/responses-guards";
+import { isObject } from "../../../utils/type-guards";
+import type { ToolNameResolver } from "./handlers";
+
+/** Oldest entries are evicted past this size so long-lived clients do not grow without bound. */
+const MAX_REGISTRY_ENTRIES = 1000;
+
+/** Call-id → function-name memory shared between Gemini output converters and the request converter. */
+export type ToolCallNameRegistry = {
+  record: (callId: string, name: string) => void;
+  resolve: ToolNameResolver;
+};
+
+/** Create an empty registry that remembers the most recent call ids. */
+export function createToolCallNameRegistry(maxEntries = MAX_REGISTRY_ENTRIES): ToolCallNameRegistry {
+  const names = new Map<string, string>();
+  return {
+    record(callId, name) {
+      names.delete(callId);
+      names.set(callId, name);
+      if (names.size > maxEntries) {
+        const oldest = names.keys().next();
+        if (!oldest.done) {
+          names.delete(oldest.value);
+        }
+      }
+    },
+    resolve(callId) {
+      return names.get(callId);
+    },
+  };
+}
+
+/** Map call ids to names from the `function_call` items present in a request's input. */
+export function collectFunctionCallNames(input: unknown): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!Array.isArray(input)) {
+    return names;
+  }
+  for (const item of input as ResponseInputItem[]) {
+    if (!isObject(item)) {
+      continue;
+    }
+    if (isResponseInputFunctionToolCall(item)) {
+      names.set(item.call_id, item.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Build a resolver that checks the request's own function calls before any fallbacks.
+ *
+ * @param input - The Responses `input` being converted
+ * @param fallbacks - Further resolvers, consulted in order when the request has no match
+ * @returns Resolver returning the first name found
+ */
+export function createRequestToolNameResolver(
+  input: unknown,
+  ...fallbacks: Array<ToolNameResolver | undefined>
+): ToolNameResolver {
+  const fromInput = collectFunctionCallNames(input);
+  return (callId) => {
+    const local = fromInput.get(callId);
+    if (local) {
+      return local;
+    }
+    for (const resolve of fallbacks) {
+      const name = resolve?.(callId);
+      if (name) {
+        return name;
+      }
+    }
+    return undefined;
+  };
+}
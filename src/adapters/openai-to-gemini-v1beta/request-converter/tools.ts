@@ -0,0 +1,100 @@
+/**
+ * @file Map OpenAI function tools and tool_choice onto Gemini `tools` / `toolConfig`.
+ * Function parameters go through the same schema down-conversion as `responseSchema`, since
+ * Gemini applies the OpenAPI subset to function declarations as well.
+ */
+import type { ResponseCreateParams } from "openai/resources/responses/responses";
+import type {
+  GeminiFunctionDeclaration,
+  GeminiTool,
+  GeminiToolConfig,
+} from "../../../providers/gemini/client/fetch-client";
+import {
+  isOpenAIResponsesFunctionTool,
+  isToolChoiceAllowed,
+  isToolChoiceFunction,
+} from "../../../providers/openai/responses-guards";
+import { isObject } from "../../../utils/type-guards";
+import { toGeminiSchema } from "./schema";
+
+type FunctionCallingMode = NonNullable<NonNullable<GeminiToolConfig["functionCallingConfig"]>["mode"]>;
+
+/** Build a Gemini function declaration from an OpenAI function definition. */
+export function toFunctionDeclaration(
+  name: string,
+  description: string | null | undefined,
+  parameters: Record<string, unknown> | null | undefined,
+): GeminiFunctionDeclaration {
+  const decl: GeminiFunctionDeclaration = { name };
+  if (description) {
+    decl.description = description;
+  }
+  if (parameters) {
+    decl.parameters = toGeminiSchema(parameters);
+  }
+  return decl;
+}
+
+/** Wrap declarations in Gemini's `tools` array, or nothing when there are none. */
+export function toGeminiTools(declarations: GeminiFunctionDeclaration[]): GeminiTool[] | undefined {
+  return declarations.length > 0 ? [{ functionDeclarations: declarations }] : undefined;
+}
+
+/** Build a `toolConfig` for a calling mode, optionally restricted to named functions. */
+export function toGeminiToolConfig(mode: FunctionCallingMode, allowedFunctionNames?: string[]): GeminiToolConfig {
+  if (allowedFunctionNames && allowedFunctionNames.length > 0) {
+    return { functionCallingConfig: { mode, allowedFunctionNames } };
+  }
+  return { functionCallingConfig: { mode } };
+}
+
+function allowedToolNames(tools: Array<Record<string, unknown>>): string[] {
+  const names: string[] = [];
+  for (const tool of tools) {
+    if (!isObject(tool) || tool.type !== "function") {
+      continue;
+    }
+    if (typeof tool.name === "string") {
+      names.push(tool.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Convert Responses `tools` and `tool_choice` into Gemini `tools` and `toolConfig`.
+ * Only function tools are forwarded; hosted tools have no Gemini function equivalent.
+ * `allowed_tools` in `required` mode maps to ANY with `allowedFunctionNames`; in `auto` mode the
+ * declarations themselves are narrowed, because Gemini only honours the name list under ANY.
+ */
+export function responsesToolsToGemini(params: Pick<ResponseCreateParams, "tools" | "tool_choice">): {
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
+} {
+  const declarations = (params.tools ?? [])
+    .filter(isOpenAIResponsesFunctionTool)
+    .map((t) => toFunctionDeclaration(t.name, t.description, t.parameters));
+  const choice = params.tool_choice;
+
+  if (choice === "none") {
+    return { tools: toGeminiTools(declarations), toolConfig: toGeminiToolConfig("NONE") };
+  }
+  if (choice === "auto") {
+    return { tools: toGeminiTools(declarations), toolConfig: toGeminiToolConfig("AUTO") };
+  }
+  if (choice === "required") {
+    return { tools: toGeminiTools(declarations), toolConfig: toGeminiToolConfig("ANY") };
+  }
+  if (isToolChoiceFunction(choice)) {
+    return { tools: toGeminiTools(declarations), toolConfig: toGeminiToolConfig("ANY", [choice.name]) };
+  }
+  if (isToolChoiceAllowed(choice)) {
+    const names = allowedToolNames(choice.tools);
+    if (choice.mode === "required") {
+      return { tools: toGeminiTools(declarations), toolConfig: toGeminiToolConfig("ANY", names) };
+    }
+    const allowed = declarations.filter((d) => names.includes(d.name));
+    return { tools: toGeminiTools(allowed), toolConfig: toGeminiToolConfig("AUTO") };
+  }
+  return { tools: toGeminiTools(declarations) };
+}
@@ -40,6 +40,15 @@ export function parseArgs(value: unknown): Record<string, unknown> | undefined {
   return undefined;
 }
 
+/**
+ * Gemini requires a Struct for functionResponse.response: JSON objects are passed as parsed,
+ * anything else (plain text, arrays, numbers) is wrapped as `{ content: output }`.
+ */
+export function toFunctionResponse(output: unknown): Record<string, unknown> {
+  const parsed = parseArgs(output);
+  return parsed ? parsed : { content: output };
+}
+
 /** Build a Gemini functionCall part */
 export function fnCall(name: string, args?: Record<string, unknown>): ClientGeminiPart {
   if (args && Object.keys(args).length > 0) {
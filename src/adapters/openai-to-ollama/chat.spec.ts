@@ -0,0 +1,147 @@
+/** @file Unit tests for the Ollama chat/generate emulation */
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+} from "openai/resources/chat/completions";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { chat } from "./chat";
+import { generate } from "./generate";
+import type { OllamaChatResponse, OllamaGenerateResponse } from "./core/ollama-types";
+
+function chunk(
+  delta: ChatCompletionChunk.Choice["delta"],
+  finishReason: ChatCompletionChunk.Choice["finish_reason"] = null,
+) {
+  return {
+    id: "c1",
+    object: "chat.completion.chunk" as const,
+    created: 0,
+    model: "gpt-4o-mini",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+const streamChunks: ChatCompletionChunk[] = [
+  chunk({ role: "assistant", content: "" }),
+  chunk({ content: "Hel" }),
+  chunk({ content: "lo" }),
+  chunk({
+    tool_calls: [{ index: 0, id: "call_a", type: "function", function: { name: "lookup", arguments: '{"q"' } }],
+  }),
+  chunk({ tool_calls: [{ index: 0, function: { arguments: ':"x"}' } }] }, "tool_calls"),
+  { ...chunk({}), choices: [], usage: { prompt_tokens: 11, completion_tokens: 4, total_tokens: 15 } },
+];
+
+const completion: ChatCompletion = {
+  id: "c1",
+  object: "chat.completion",
+  created: 0,
+  model: "gpt-4o-mini",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hello", refusal: null },
+      finish_reason: "length",
+      logprobs: null,
+    },
+  ],
+  usage: { prompt_tokens: 11, completion_tokens: 4, total_tokens: 15 },
+};
+
+function makeClient(calls: ChatCompletionCreateParams[]): OpenAICompatibleClient {
+  async function* stream() {
+    for (const c of streamChunks) {
+      yield c;
+    }
+  }
+  const create = async (params: ChatCompletionCreateParams) => {
+    calls.push(params);
+    return params.stream ? stream() : completion;
+  };
+  return {
+    models: { list: async () => ({ data: [] }) },
+    responses: {
+      create: async () => {
+        throw new Error("not used");
+      },
+    },
+    chat: { completions: { create: create as OpenAICompatibleClient["chat"]["completions"]["create"] } },
+  };
+}
+
+async function collect<T>(result: T | AsyncIterable<T>): Promise<T[]> {
+  if (typeof result !== "object" || result === null || !(Symbol.asyncIterator in result)) {
+    return [result];
+  }
+  const out: T[] = [];
+  for await (const item of result) {
+    out.push(item);
+  }
+  return out;
+}
+
+describe("openai-to-ollama chat", () => {
+  it("streams content, then complete tool calls, then a final chunk with counts", async () => {
+    const calls: ChatCompletionCreateParams[] = [];
+    const chunks = await collect<OllamaChatResponse>(
+      await chat(makeClient(calls), { model: "gpt-4o-mini:latest", messages: [{ role: "user", content: "hi" }] }),
+    );
+    expect(calls[0]).toMatchObject({ model: "gpt-4o-mini", stream: true, stream_options: { include_usage: true } });
+    expect(chunks.map((c) => c.message.content)).toEqual(["Hel", "lo", "", ""]);
+    expect(chunks[2]?.message.tool_calls).toEqual([{ function: { name: "lookup", arguments: { q: "x" } } }]);
+    const last = chunks.at(-1);
+    expect(last).toMatchObject({ model: "gpt-4o-mini:latest", done: true, done_reason: "stop" });
+    expect(last?.prompt_eval_count).toBe(11);
+    expect(last?.eval_count).toBe(4);
+    expect(typeof last?.total_duration).toBe("number");
+    expect(chunks.slice(0, -1).every((c) => !c.done)).toBe(true);
+  });
+
+  it("returns one message when stream is false", async () => {
+    const res = await chat(makeClient([]), {
+      model: "gpt-4o-mini",
+      messages: [{ role: "user", content: "hi" }],
+      stream: false,
+    });
+    expect(res).toMatchObject({
+      model: "gpt-4o-mini",
+      message: { role: "assistant", content: "Hello" },
+      done: true,
+      done_reason: "length",
+      prompt_eval_count: 11,
+      eval_count: 4,
+    });
+  });
+
+  it("only loads the model when there are no messages", async () => {
+    const calls: ChatCompletionCreateParams[] = [];
+    const res = await chat(makeClient(calls), { model: "gpt-4o-mini", messages: [] });
+    expect(res).toMatchObject({ done: true, done_reason: "load" });
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe("openai-to-ollama generate", () => {
+  it("streams the response text", async () => {
+    const chunks = await collect<OllamaGenerateResponse>(
+      await generate(makeClient([]), { model: "gpt-4o-mini", prompt: "hi" }),
+    );
+    expect(chunks.map((c) => c.response)).toEqual(["Hel", "lo", ""]);
+    expect(chunks.at(-1)).toMatchObject({ done: true, done_reason: "stop", eval_count: 4 });
+    expect(chunks.every((c) => !("message" in c))).toBe(true);
+  });
+
+  it("returns a single response when stream is false", async () => {
+    const res = await generate(makeClient([]), { model: "gpt-4o-mini", prompt: "hi", stream: false });
+    expect(res).toMatchObject({ response: "Hello", done: true, done_reason: "length" });
+  });
+
+  it("answers an empty prompt with a load response", async () => {
+    expect(await generate(makeClient([]), { model: "gpt-4o-mini" })).toMatchObject({
+      response: "",
+      done: true,
+      done_reason: "load",
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @file /api/chat implementation for OpenAI → Ollama adapter
+ */
+import type { ChatCompletion, ChatCompletionChunk } from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { isObject } from "../../utils/type-guards";
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaDoneReason,
+  OllamaMetrics,
+  OllamaToolCall,
+} from "./core/ollama-types";
+import { chatRequestToChatParams } from "./core/request-mapper";
+
+type Timing = { startedAt: number; firstTokenAt?: number };
+
+const NS_PER_MS = 1_000_000;
+
+function toDoneReason(finishReason: string | null | undefined): OllamaDoneReason {
+  return finishReason === "length" ? "length" : "stop";
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isObject(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Durations are wall-clock; everything before the first token counts as prompt evaluation */
+function toMetrics(timing: Timing, usage: CompletionUsage | undefined): OllamaMetrics {
+  const end = Date.now();
+  const firstTokenAt = timing.firstTokenAt ?? timing.startedAt;
+  const metrics: OllamaMetrics = {
+    total_duration: (end - timing.startedAt) * NS_PER_MS,
+    load_duration: 0,
+    prompt_eval_duration: (firstTokenAt - timing.startedAt) * NS_PER_MS,
+    eval_duration: (end - firstTokenAt) * NS_PER_MS,
+  };
+  if (usage) {
+    metrics.prompt_eval_count = usage.prompt_tokens;
+    metrics.eval_count = usage.completion_tokens;
+  }
+  return metrics;
+}
+
+/** Final message Ollama sends when a request only loads the model (no messages) */
+export function loadResponse(model: string): OllamaChatResponse {
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: { role: "assistant", content: "" },
+    done: true,
+    done_reason: "load",
+  };
+}
+
+function fromChatCompletion(model: string, completion: ChatCompletion, timing: Timing): OllamaChatResponse {
+  const choice = completion.choices[0];
+  const toolCalls = (choice?.message.tool_calls ?? []).flatMap((call): OllamaToolCall[] => {
+    if (call.type !== "function") {
+      return [];
+    }
+    return [{ function: { name: call.function.name, arguments: parseArguments(call.function.arguments) } }];
+  });
+  const message: OllamaChatResponse["message"] = { role: "assistant", content: choice?.message.content ?? "" };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message,
+    done: true,
+    done_reason: toDoneReason(choice?.finish_reason),
+    ...toMetrics(timing, completion.usage),
+  };
+}
+
+/**
+ * Map Chat Completions chunks to Ollama chat chunks. Tool calls stream as argument fragments
+ * upstream but arrive whole in Ollama, so they are sent once complete, before the final chunk.
+ */
+async function* toOllamaChunks(
+  model: string,
+  stream: AsyncIterable<ChatCompletionChunk>,
+  timing: Timing,
+): AsyncIterable<OllamaChatResponse> {
+  const toolCalls = new Map<number, { name: string; arguments: string }>();
+  const state: { finishReason?: string | null; usage?: CompletionUsage } = {};
+  for await (const chunk of stream) {
+    if (chunk.usage) {
+      state.usage = chunk.usage;
+    }
+    const choice = chunk.choices[0];
+    if (!choice) {
+      continue;
+    }
+    if (choice.finish_reason) {
+      state.finishReason = choice.finish_reason;
+    }
+    for (const call of choice.delta.tool_calls ?? []) {
+      const entry = toolCalls.get(call.index) ?? { name: "", arguments: "" };
+      entry.name += call.function?.name ?? "";
+      entry.arguments += call.function?.arguments ?? "";
+      toolCalls.set(call.index, entry);
+    }
+    const content = choice.delta.content;
+    if (content) {
+      timing.firstTokenAt ??= Date.now();
+      yield { model, created_at: new Date().toISOString(), message: { role: "assistant", content }, done: false };
+    }
+  }
+  if (toolCalls.size > 0) {
+    yield {
+      model,
+      created_at: new Date().toISOString(),
+      message: {
+        role: "assistant",
+        content: "",
+        tool_calls: [...toolCalls.values()].map((call) => ({
+          function: { name: call.name, arguments: parseArguments(call.arguments) },
+        })),
+      },
+      done: false,
+    };
+  }
+  yield {
+    model,
+    created_at: new Date().toISOString(),
+    message: { role: "assistant", content: "" },
+    done: true,
+    done_reason: toDoneReason(state.finishReason),
+    ...toMetrics(timing, state.usage),
+  };
+}
+
+/**
+ * Emulate Ollama /api/chat using the Chat Completions API.
+ * Streams by default like Ollama; `stream: false` returns a single final message.
+ */
+export async function chat(
+  client: OpenAICompatibleClient,
+  body: OllamaChatRequest,
+  options?: { signal?: AbortSignal },
+): Promise<OllamaChatResponse | AsyncIterable<OllamaChatResponse>> {
+  if (!body.messages?.length) {
+    return loadResponse(body.model);
+  }
+  const params = chatRequestToChatParams(body);
+  const timing: Timing = { startedAt: Date.now() };
+  if (body.stream === false) {
+    const completion = await client.chat.completions.create(params, options);
+    return fromChatCompletion(body.model, completion, timing);
+  }
+  const stream = await client.chat.completions.create(
+    { ...params, stream: true, stream_options: { include_usage: true } },
+    options,
+  );
+  return toOllamaChunks(body.model, stream, timing);
+}
@@ -0,0 +1,152 @@
+/**
+ * @file Ollama API types used by the adapter
+ *
+ * These types mirror the public Ollama HTTP API (`/api/chat`, `/api/generate`, `/api/embed`,
+ * `/api/show`, `/api/tags`). Fields the adapter cannot honor are accepted and ignored.
+ */
+
+/** Runtime options (`options`); only the sampling subset maps onto OpenAI parameters. */
+export type OllamaOptions = {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  seed?: number;
+  stop?: string | string[];
+  num_predict?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  [key: string]: unknown;
+};
+
+export type OllamaToolCall = {
+  function: { name: string; arguments: Record<string, unknown> };
+};
+
+export type OllamaMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Base64-encoded images without a data URL prefix */
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  /** Name of the tool a `tool` message answers */
+  tool_name?: string;
+};
+
+export type OllamaTool = {
+  type: "function";
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+};
+
+/** `"json"` or a JSON schema */
+export type OllamaFormat = "json" | Record<string, unknown>;
+
+// Request for POST /api/chat
+export type OllamaChatRequest = {
+  model: string;
+  messages?: OllamaMessage[];
+  tools?: OllamaTool[];
+  format?: OllamaFormat;
+  options?: OllamaOptions;
+  /** Defaults to true */
+  stream?: boolean;
+  keep_alive?: string | number;
+};
+
+// Request for POST /api/generate
+export type OllamaGenerateRequest = {
+  model: string;
+  prompt?: string;
+  system?: string;
+  images?: string[];
+  format?: OllamaFormat;
+  options?: OllamaOptions;
+  /** Defaults to true */
+  stream?: boolean;
+  raw?: boolean;
+  keep_alive?: string | number;
+};
+
+/** Timing (nanoseconds) and token counts reported on the final message */
+export type OllamaMetrics = {
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+};
+
+export type OllamaDoneReason = "stop" | "length" | "load";
+
+// Response (and stream chunk) of /api/chat
+export type OllamaChatResponse = OllamaMetrics & {
+  model: string;
+  created_at: string;
+  message: OllamaMessage;
+  done: boolean;
+  done_reason?: OllamaDoneReason;
+};
+
+// Response (and stream chunk) of /api/generate
+export type OllamaGenerateResponse = OllamaMetrics & {
+  model: string;
+  created_at: string;
+  response: string;
+  done: boolean;
+  done_reason?: OllamaDoneReason;
+};
+
+// Request for POST /api/embed
+export type OllamaEmbedRequest = {
+  model: string;
+  input: string | string[];
+  truncate?: boolean;
+  dimensions?: number;
+  options?: OllamaOptions;
+  keep_alive?: string | number;
+};
+
+// Response from /api/embed
+export type OllamaEmbedResponse = {
+  model: string;
+  embeddings: number[][];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+};
+
+export type OllamaModelDetails = {
+  parent_model: string;
+  format: string;
+  family: string;
+  families: string[];
+  parameter_size: string;
+  quantization_level: string;
+};
+
+// Entry of /api/tags
+export type OllamaModel = {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details: OllamaModelDetails;
+};
+
+// Response from GET /api/tags
+export type OllamaTagsResponse = { models: OllamaModel[] };
+
+// Request for POST /api/show (`name` is the pre-0.5 spelling of `model`)
+export type OllamaShowRequest = { model?: string; name?: string; verbose?: boolean };
+
+// Response from /api/show
+export type OllamaShowResponse = {
+  modelfile: string;
+  parameters: string;
+  template: string;
+  details: OllamaModelDetails;
+  model_info: Record<string, unknown>;
+  capabilities: string[];
+  modified_at: string;
+};
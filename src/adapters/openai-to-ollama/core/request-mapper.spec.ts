@@ -0,0 +1,95 @@
+/** @file Unit tests for Ollama → Chat Completions request mapping */
+import { chatRequestToChatParams, generateRequestToChatRequest, toUpstreamModel } from "./request-mapper";
+
+describe("openai-to-ollama request mapping", () => {
+  it("strips the default tag from model names", () => {
+    expect(toUpstreamModel("gpt-4o:latest")).toBe("gpt-4o");
+    expect(toUpstreamModel("qwen3:8b")).toBe("qwen3:8b");
+  });
+
+  it("maps messages, images, format and options", () => {
+    const params = chatRequestToChatParams({
+      model: "claude-sonnet-4:latest",
+      messages: [
+        { role: "system", content: "Be terse." },
+        { role: "user", content: "What is this?", images: ["iVBORw0KGgoAAAA", "/9j/4AAQ"] },
+      ],
+      format: { type: "object", properties: { answer: { type: "string" } } },
+      options: { temperature: 0.2, top_p: 0.9, seed: 7, stop: ["\n"], num_predict: 64, top_k: 40 },
+    });
+    expect(params).toEqual({
+      model: "claude-sonnet-4",
+      stream: false,
+      messages: [
+        { role: "system", content: "Be terse." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgoAAAA" } },
+            { type: "image_url", image_url: { url: "data:image/jpeg;base64,/9j/4AAQ" } },
+          ],
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "response", schema: { type: "object", properties: { answer: { type: "string" } } } },
+      },
+      temperature: 0.2,
+      top_p: 0.9,
+      seed: 7,
+      stop: ["\n"],
+      max_tokens: 64,
+    });
+  });
+
+  it("pairs tool results with the calls they answer", () => {
+    const params = chatRequestToChatParams({
+      model: "m",
+      messages: [
+        { role: "user", content: "Weather in Paris and time in Tokyo?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [
+            { function: { name: "get_weather", arguments: { city: "Paris" } } },
+            { function: { name: "get_time", arguments: { city: "Tokyo" } } },
+          ],
+        },
+        { role: "tool", content: "09:00", tool_name: "get_time" },
+        { role: "tool", content: "sunny" },
+      ],
+      format: "json",
+    });
+    expect(params.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_1_0", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+          { id: "call_1_1", type: "function", function: { name: "get_time", arguments: '{"city":"Tokyo"}' } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1_1", content: "09:00" },
+      { role: "tool", tool_call_id: "call_1_0", content: "sunny" },
+    ]);
+    expect(params.response_format).toEqual({ type: "json_object" });
+  });
+
+  it("turns generate requests into a single chat turn", () => {
+    expect(generateRequestToChatRequest({ model: "m", system: "sys", prompt: "hi", stream: false })).toEqual({
+      model: "m",
+      messages: [
+        { role: "system", content: "sys" },
+        { role: "user", content: "hi", images: undefined },
+      ],
+      format: undefined,
+      options: undefined,
+      stream: false,
+      keep_alive: undefined,
+    });
+    expect(generateRequestToChatRequest({ model: "m", system: "sys", prompt: "hi", raw: true }).messages).toEqual([
+      { role: "user", content: "hi", images: undefined },
+    ]);
+  });
+});
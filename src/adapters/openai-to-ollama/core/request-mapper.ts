@@ -0,0 +1,154 @@
+/**
+ * @file Build OpenAI Chat Completions params from Ollama chat/generate requests
+ */
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import type { ChatCompletionCreateParamsNonStreaming } from "../../openai-client-types";
+import type {
+  OllamaChatRequest,
+  OllamaFormat,
+  OllamaGenerateRequest,
+  OllamaMessage,
+  OllamaOptions,
+} from "./ollama-types";
+
+// Ollama sends raw base64; sniff the container from its leading bytes
+const IMAGE_SIGNATURES: Array<[prefix: string, mimeType: string]> = [
+  ["iVBORw0KGgo", "image/png"],
+  ["/9j/", "image/jpeg"],
+  ["R0lGOD", "image/gif"],
+  ["UklGR", "image/webp"],
+];
+
+/** Ollama tags every name (`llama3:latest`); the default tag is not part of the upstream id */
+export function toUpstreamModel(name: string): string {
+  return name.endsWith(":latest") ? name.slice(0, -":latest".length) : name;
+}
+
+function toImageUrl(image: string): string {
+  if (image.startsWith("data:")) {
+    return image;
+  }
+  const match = IMAGE_SIGNATURES.find(([prefix]) => image.startsWith(prefix));
+  return `data:${match ? match[1] : "image/png"};base64,${image}`;
+}
+
+function userContent(message: OllamaMessage): string | ChatCompletionContentPart[] {
+  if (!message.images?.length) {
+    return message.content;
+  }
+  const images = message.images.map(
+    (image): ChatCompletionContentPart => ({ type: "image_url", image_url: { url: toImageUrl(image) } }),
+  );
+  return message.content ? [{ type: "text", text: message.content }, ...images] : images;
+}
+
+/**
+ * Ollama tool calls and tool results carry no ids. Assign one per call and pair each `tool`
+ * message with the oldest unanswered call of the same name (or the oldest one left).
+ */
+function toChatMessages(messages: OllamaMessage[]): ChatCompletionMessageParam[] {
+  const pending: Array<{ id: string; name: string }> = [];
+  return messages.map((message, messageIndex): ChatCompletionMessageParam => {
+    if (message.role === "system") {
+      return { role: "system", content: message.content };
+    }
+    if (message.role === "assistant") {
+      if (!message.tool_calls?.length) {
+        return { role: "assistant", content: message.content };
+      }
+      const toolCalls = message.tool_calls.map((call, i): ChatCompletionMessageToolCall => {
+        const id = `call_${messageIndex}_${i}`;
+        pending.push({ id, name: call.function.name });
+        return {
+          id,
+          type: "function",
+          function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments ?? {}) },
+        };
+      });
+      return { role: "assistant", content: message.content ? message.content : null, tool_calls: toolCalls };
+    }
+    if (message.role === "tool") {
+      const byName = pending.findIndex((p) => p.name === message.tool_name);
+      const [answered] = pending.splice(byName >= 0 ? byName : 0, 1);
+      return { role: "tool", tool_call_id: answered ? answered.id : `call_${messageIndex}`, content: message.content };
+    }
+    return { role: "user", content: userContent(message) };
+  });
+}
+
+function applyFormat(params: ChatCompletionCreateParamsNonStreaming, format: OllamaFormat | undefined): void {
+  if (format === "json") {
+    params.response_format = { type: "json_object" };
+    return;
+  }
+  if (format && typeof format === "object") {
+    params.response_format = { type: "json_schema", json_schema: { name: "response", schema: format } };
+  }
+}
+
+function applyOptions(params: ChatCompletionCreateParamsNonStreaming, options: OllamaOptions | undefined): void {
+  if (!options) {
+    return;
+  }
+  if (typeof options.temperature === "number") {
+    params.temperature = options.temperature;
+  }
+  if (typeof options.top_p === "number") {
+    params.top_p = options.top_p;
+  }
+  if (typeof options.seed === "number") {
+    params.seed = options.seed;
+  }
+  if (typeof options.frequency_penalty === "number") {
+    params.frequency_penalty = options.frequency_penalty;
+  }
+  if (typeof options.presence_penalty === "number") {
+    params.presence_penalty = options.presence_penalty;
+  }
+  if (options.stop !== undefined) {
+    params.stop = options.stop;
+  }
+  // num_predict -1 (infinite) and -2 (fill context) have no OpenAI equivalent
+  if (typeof options.num_predict === "number" && options.num_predict > 0) {
+    params.max_tokens = options.num_predict;
+  }
+}
+
+/** Build non-streaming Chat Completions params from an Ollama chat request */
+export function chatRequestToChatParams(body: OllamaChatRequest): ChatCompletionCreateParamsNonStreaming {
+  const params: ChatCompletionCreateParamsNonStreaming = {
+    model: toUpstreamModel(body.model),
+    messages: toChatMessages(body.messages ?? []),
+    stream: false,
+  };
+  if (body.tools?.length) {
+    params.tools = body.tools;
+  }
+  applyFormat(params, body.format);
+  applyOptions(params, body.options);
+  return params;
+}
+
+/** Turn an Ollama generate request into the equivalent single-turn chat request */
+export function generateRequestToChatRequest(body: OllamaGenerateRequest): OllamaChatRequest {
+  const messages: OllamaMessage[] = [];
+  // raw prompts are sent verbatim, without the model's system prompt
+  if (body.system && !body.raw) {
+    messages.push({ role: "system", content: body.system });
+  }
+  if (body.prompt || body.images?.length) {
+    messages.push({ role: "user", content: body.prompt ?? "", images: body.images });
+  }
+  return {
+    model: body.model,
+    messages,
+    format: body.format,
+    options: body.options,
+    stream: body.stream,
+    keep_alive: body.keep_alive,
+  };
+}
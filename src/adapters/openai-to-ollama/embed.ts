@@ -0,0 +1,39 @@
+/**
+ * @file /api/embed implementation for OpenAI → Ollama adapter
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import type { OllamaEmbedRequest, OllamaEmbedResponse } from "./core/ollama-types";
+import { toUpstreamModel } from "./core/request-mapper";
+import { embeddingValues } from "../shared/embedding-values";
+
+const NS_PER_MS = 1_000_000;
+
+/**
+ * Emulate Ollama /api/embed using the OpenAI embeddings API.
+ * `dimensions` is forwarded; `truncate` is left to the upstream's own limits.
+ */
+export async function embed(
+  client: OpenAICompatibleClient,
+  body: OllamaEmbedRequest,
+  options?: { signal?: AbortSignal },
+): Promise<OllamaEmbedResponse> {
+  if (!client.embeddings) {
+    throw new HttpError(501, "Embeddings are not supported by this backend", "not_implemented");
+  }
+  const startedAt = Date.now();
+  const input = typeof body.input === "string" ? [body.input] : body.input;
+  const params = { model: toUpstreamModel(body.model), input, encoding_format: "float" as const };
+  const res = await client.embeddings.create(
+    body.dimensions ? { ...params, dimensions: body.dimensions } : params,
+    options,
+  );
+  const embeddings = [...res.data].sort((a, b) => a.index - b.index).map((d) => embeddingValues(d.embedding));
+  return {
+    model: body.model,
+    embeddings,
+    total_duration: (Date.now() - startedAt) * NS_PER_MS,
+    load_duration: 0,
+    prompt_eval_count: res.usage.prompt_tokens,
+  };
+}
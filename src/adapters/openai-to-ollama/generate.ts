@@ -0,0 +1,42 @@
+/**
+ * @file /api/generate implementation for OpenAI → Ollama adapter
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import type { OllamaChatResponse, OllamaGenerateRequest, OllamaGenerateResponse } from "./core/ollama-types";
+import { generateRequestToChatRequest } from "./core/request-mapper";
+import { chat, loadResponse } from "./chat";
+
+function toGenerateResponse(chunk: OllamaChatResponse): OllamaGenerateResponse {
+  const { message, ...rest } = chunk;
+  return { ...rest, response: message.content };
+}
+
+async function* toGenerateChunks(stream: AsyncIterable<OllamaChatResponse>): AsyncIterable<OllamaGenerateResponse> {
+  for await (const chunk of stream) {
+    // Tool calls cannot be requested through /api/generate; skip their empty-content chunk
+    if (!chunk.done && !chunk.message.content) {
+      continue;
+    }
+    yield toGenerateResponse(chunk);
+  }
+}
+
+/**
+ * Emulate Ollama /api/generate as a single-turn chat (system + prompt + images).
+ * An empty prompt only "loads" the model, as in Ollama. `context` is not returned because
+ * upstream APIs expose no token ids.
+ */
+export async function generate(
+  client: OpenAICompatibleClient,
+  body: OllamaGenerateRequest,
+  options?: { signal?: AbortSignal },
+): Promise<OllamaGenerateResponse | AsyncIterable<OllamaGenerateResponse>> {
+  if (!body.prompt && !body.images?.length) {
+    return toGenerateResponse(loadResponse(body.model));
+  }
+  const result = await chat(client, generateRequestToChatRequest(body), options);
+  if ("done" in result) {
+    return toGenerateResponse(result);
+  }
+  return toGenerateChunks(result);
+}
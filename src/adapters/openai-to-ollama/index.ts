@@ -0,0 +1,73 @@
+/**
+ * @file OpenAI → Ollama adapter (standalone)
+ *
+ * Recreates Ollama's HTTP API (chat, generate, embed, show, tags) on top of an
+ * OpenAI-compatible client, so tools that only speak Ollama can use any backend.
+ */
+export { chat } from "./chat";
+export { generate } from "./generate";
+export { embed } from "./embed";
+export { tags, show } from "./models";
+export type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaMessage,
+  OllamaModel,
+  OllamaShowRequest,
+  OllamaShowResponse,
+  OllamaTagsResponse,
+  OllamaToolCall,
+} from "./core/ollama-types";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaShowRequest,
+  OllamaShowResponse,
+  OllamaTagsResponse,
+} from "./core/ollama-types";
+import { chat } from "./chat";
+import { generate } from "./generate";
+import { embed } from "./embed";
+import { show, tags } from "./models";
+
+type RequestOptions = { signal?: AbortSignal };
+
+export type OllamaAdapter = {
+  chat(
+    body: OllamaChatRequest,
+    options?: RequestOptions,
+  ): Promise<OllamaChatResponse | AsyncIterable<OllamaChatResponse>>;
+  generate(
+    body: OllamaGenerateRequest,
+    options?: RequestOptions,
+  ): Promise<OllamaGenerateResponse | AsyncIterable<OllamaGenerateResponse>>;
+  embed(body: OllamaEmbedRequest, options?: RequestOptions): Promise<OllamaEmbedResponse>;
+  show(body: OllamaShowRequest): Promise<OllamaShowResponse>;
+  tags(): Promise<OllamaTagsResponse>;
+};
+
+/**
+ * Build an Ollama API emulator on top of an OpenAI-compatible client.
+ *
+ * @param opts.client - Backend client
+ * @param opts.family - Model family reported when a model id does not reveal one (e.g. the provider type)
+ */
+export function buildOpenAItoOllamaAdapter(opts: { client: OpenAICompatibleClient; family: string }): OllamaAdapter {
+  const { client, family } = opts;
+  return {
+    chat: (body, options) => chat(client, body, options),
+    generate: (body, options) => generate(client, body, options),
+    embed: (body, options) => embed(client, body, options),
+    show: (body) => show(client, body, family),
+    tags: () => tags(client, family),
+  };
+}
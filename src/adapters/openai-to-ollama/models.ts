@@ -0,0 +1,98 @@
+/**
+ * @file /api/tags and /api/show implementation for OpenAI → Ollama adapter
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import { detectCapabilities, detectFamily } from "../../model/normalizer";
+import { idFromText } from "../../utils/idemaker";
+import type { OllamaModel, OllamaModelDetails, OllamaShowRequest, OllamaShowResponse } from "./core/ollama-types";
+import { toUpstreamModel } from "./core/request-mapper";
+
+type UpstreamModel = { id: string; created: number; owned_by: string };
+
+function toDetails(model: UpstreamModel, fallbackFamily: string): OllamaModelDetails {
+  const detected = detectFamily(model.id);
+  const family = detected === "unknown" ? fallbackFamily : detected;
+  // Hosted models publish neither their size nor their quantization
+  return { parent_model: "", format: "api", family, families: [family], parameter_size: "", quantization_level: "" };
+}
+
+function toModifiedAt(model: UpstreamModel): string {
+  return new Date(model.created > 0 ? model.created * 1000 : 0).toISOString();
+}
+
+function toOllamaModel(model: UpstreamModel, family: string): OllamaModel {
+  return {
+    name: model.id,
+    model: model.id,
+    modified_at: toModifiedAt(model),
+    size: 0,
+    // Stable per backend and model so clients can cache by digest
+    digest: idFromText(`${family}/${model.id}`, "sha256"),
+    details: toDetails(model, family),
+  };
+}
+
+function capabilitiesOf(id: string): string[] {
+  if (/embed/i.test(id)) {
+    return ["embedding"];
+  }
+  const caps = detectCapabilities(id);
+  const flags: Array<[enabled: boolean, name: string]> = [
+    [caps.tools, "tools"],
+    [caps.vision, "vision"],
+    [caps.reasoning, "thinking"],
+  ];
+  return ["completion", ...flags.filter(([enabled]) => enabled).map(([, name]) => name)];
+}
+
+async function findModel(client: OpenAICompatibleClient, name: string): Promise<UpstreamModel | undefined> {
+  const { data } = await client.models.list();
+  const id = toUpstreamModel(name);
+  return data.find((m) => m.id === id || m.id === `models/${id}`);
+}
+
+/**
+ * Emulate Ollama /api/tags from the backend's model list.
+ *
+ * @param client - OpenAI-compatible backend client
+ * @param family - Family reported for models whose id does not reveal one (usually the provider type)
+ */
+export async function tags(client: OpenAICompatibleClient, family: string): Promise<{ models: OllamaModel[] }> {
+  const { data } = await client.models.list();
+  return { models: data.map((m) => toOllamaModel(m, family)) };
+}
+
+/**
+ * Emulate Ollama /api/show for a model of the backend's list.
+ * Hosted models have no Modelfile or template, so those fields are empty; capabilities are
+ * inferred from the model id.
+ *
+ * @param client - OpenAI-compatible backend client
+ * @param body - Show request (`model`, or the legacy `name`)
+ * @param family - Family reported for models whose id does not reveal one
+ */
+export async function show(
+  client: OpenAICompatibleClient,
+  body: OllamaShowRequest,
+  family: string,
+): Promise<OllamaShowResponse> {
+  const name = body.model ?? body.name;
+  if (!name) {
+    throw new HttpError(400, "model is required", "bad_request");
+  }
+  const model = await findModel(client, name);
+  if (!model) {
+    throw new HttpError(404, `model '${name}' not found`, "not_found");
+  }
+  const details = toDetails(model, family);
+  return {
+    modelfile: "",
+    parameters: "",
+    template: "",
+    details,
+    model_info: { "general.architecture": details.family },
+    capabilities: capabilitiesOf(model.id),
+    modified_at: toModifiedAt(model),
+  };
+}
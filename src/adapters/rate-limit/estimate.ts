@@ -0,0 +1,22 @@
+/**
+ * @file Prompt token estimate used to charge a call against a tokens-per-minute limit
+ */
+import { estimateTokens } from "../shared/estimate-tokens";
+import { isObject } from "../../utils/type-guards";
+
+// Request fields that reach the model as prompt text, across Chat, Responses, completions and embeddings
+const PROMPT_KEYS = ["messages", "input", "instructions", "prompt", "tools"];
+
+/**
+ * Estimate the prompt tokens of a request with the o200k tokenizer. Only the prompt fields
+ * (messages, input, instructions, prompt, tools) are counted; output limits are not.
+ *
+ * @param params - Chat Completions, Responses, completions or embeddings request
+ * @returns Estimated prompt token count
+ */
+export function estimatePromptTokens(params: unknown): number {
+  if (!isObject(params)) {
+    return 0;
+  }
+  return PROMPT_KEYS.reduce((sum, key) => sum + estimateTokens(params[key]), 0);
+}
@@ -0,0 +1,8 @@
+/**
+ * @file Public entry for client-side provider rate limits.
+ */
+
+export { withRateLimit } from "./with-rate-limit";
+export { createProviderRateLimiter, createRateLimiter, getRateLimiter, PROVIDER_SCOPE } from "./limiter";
+export type { ProviderRateLimiter, RateLimitCost, RateLimiter, RateLimiterMetrics, RateLimitPermit } from "./limiter";
+export { estimatePromptTokens } from "./estimate";
@@ -0,0 +1,262 @@
+/**
+ * @file Token-bucket rate limiter with a first-come queue and a stream concurrency cap.
+ * State lives per `RateLimitOptions` object, so every client built from one provider
+ * configuration draws from the same buckets.
+ */
+import type { Provider, RateLimit, RateLimitOptions } from "../../config/types";
+
+export type RateLimitCost = {
+  /** Estimated prompt tokens; only evaluated when the scope limits tokens */
+  tokens: () => number;
+  /** Streams also need a concurrency slot, held until the permit is released */
+  stream: boolean;
+};
+
+export type RateLimitPermit = {
+  /** Free the stream slot. Only the first call counts; no-op for non-stream calls. */
+  release(): void;
+};
+
+export type RateLimiterMetrics = {
+  /** Calls waiting for their turn */
+  queueDepth: number;
+  inFlightStreams: number;
+  /** Requests that could start now, when requests are limited */
+  availableRequests?: number;
+  /** Tokens that could be sent now, when tokens are limited */
+  availableTokens?: number;
+};
+
+export type RateLimiter = {
+  /**
+   * Wait until the call may start. Rejects with the signal's reason when cancelled while queued.
+   */
+  acquire(cost: RateLimitCost, signal?: AbortSignal): Promise<RateLimitPermit>;
+  metrics(): RateLimiterMetrics;
+};
+
+type Bucket = {
+  capacity: number;
+  level: number;
+  updatedAt: number;
+};
+
+type Waiter = {
+  stream: boolean;
+  tokens: number;
+  grant: () => void;
+};
+
+const MINUTE_MS = 60_000;
+
+function createBucket(perMinute: number | undefined, at: number): Bucket | undefined {
+  if (perMinute === undefined) {
+    return undefined;
+  }
+  return { capacity: perMinute, level: perMinute, updatedAt: at };
+}
+
+function refill(bucket: Bucket, at: number): void {
+  const elapsed = Math.max(0, at - bucket.updatedAt);
+  bucket.level = Math.min(bucket.capacity, bucket.level + (elapsed * bucket.capacity) / MINUTE_MS);
+  bucket.updatedAt = at;
+}
+
+/** Milliseconds until `bucket` holds `amount`; requests larger than the bucket wait for a full one */
+function waitFor(bucket: Bucket | undefined, amount: number): number {
+  if (!bucket) {
+    return 0;
+  }
+  const needed = Math.min(amount, bucket.capacity);
+  if (bucket.level >= needed) {
+    return 0;
+  }
+  return Math.ceil(((needed - bucket.level) * MINUTE_MS) / bucket.capacity);
+}
+
+/**
+ * Create a limiter for one scope. Calls draw from the buckets strictly in arrival order, so a
+ * large request at the head is not starved by smaller ones behind it. A stream waiting for a
+ * concurrency slot keeps its place among streams but lets other calls pass.
+ *
+ * @param limit - Limits of the scope
+ * @param now - Clock, for tests
+ * @returns Limiter handing out permits
+ */
+export function createRateLimiter(limit: RateLimit, now: () => number = Date.now): RateLimiter {
+  const requests = createBucket(limit.requestsPerMinute, now());
+  const tokens = createBucket(limit.tokensPerMinute, now());
+  const queue: Waiter[] = [];
+  const state: { inFlightStreams: number; timer?: ReturnType<typeof setTimeout> } = { inFlightStreams: 0 };
+
+  function hasStreamSlot(waiter: Waiter): boolean {
+    if (!waiter.stream || limit.maxConcurrentStreams === undefined) {
+      return true;
+    }
+    return state.inFlightStreams < limit.maxConcurrentStreams;
+  }
+
+  function take(bucket: Bucket | undefined, amount: number): void {
+    if (bucket) {
+      bucket.level -= Math.min(amount, bucket.capacity);
+    }
+  }
+
+  function drain(): void {
+    if (state.timer !== undefined) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+    const at = now();
+    for (const bucket of [requests, tokens]) {
+      if (bucket) {
+        refill(bucket, at);
+      }
+    }
+    for (let index = 0; index < queue.length; ) {
+      const waiter = queue[index]!;
+      if (!hasStreamSlot(waiter)) {
+        // Streams waiting for a slot (freed by release()) do not hold up the calls behind them
+        index += 1;
+        continue;
+      }
+      const wait = Math.max(waitFor(requests, 1), waitFor(tokens, waiter.tokens));
+      if (wait > 0) {
+        state.timer = setTimeout(drain, wait);
+        return;
+      }
+      queue.splice(index, 1);
+      take(requests, 1);
+      take(tokens, waiter.tokens);
+      if (waiter.stream) {
+        state.inFlightStreams += 1;
+      }
+      waiter.grant();
+    }
+  }
+
+  function permitFor(stream: boolean): RateLimitPermit {
+    const permit = { released: !stream };
+    return {
+      release() {
+        if (permit.released) {
+          return;
+        }
+        permit.released = true;
+        state.inFlightStreams -= 1;
+        drain();
+      },
+    };
+  }
+
+  return {
+    acquire(cost, signal) {
+      return new Promise<RateLimitPermit>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const onAbort = (): void => {
+          const index = queue.indexOf(waiter);
+          if (index >= 0) {
+            queue.splice(index, 1);
+            reject(signal?.reason);
+            drain();
+          }
+        };
+        const waiter: Waiter = {
+          stream: cost.stream,
+          tokens: tokens ? cost.tokens() : 0,
+          grant: () => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(permitFor(cost.stream));
+          },
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+        queue.push(waiter);
+        drain();
+      });
+    },
+    metrics() {
+      const at = now();
+      const metrics: RateLimiterMetrics = { queueDepth: queue.length, inFlightStreams: state.inFlightStreams };
+      if (requests) {
+        refill(requests, at);
+        metrics.availableRequests = Math.floor(requests.level);
+      }
+      if (tokens) {
+        refill(tokens, at);
+        metrics.availableTokens = Math.floor(tokens.level);
+      }
+      return metrics;
+    },
+  };
+}
+
+/** Scope name of the provider-wide limits in {@link ProviderRateLimiter.metrics} */
+export const PROVIDER_SCOPE = "*";
+
+export type ProviderRateLimiter = {
+  /** Limiter of the longest `byModelPrefix` entry matching `model`, else the provider-wide one */
+  limiterFor(model: string | undefined): RateLimiter;
+  /** Metrics per scope: {@link PROVIDER_SCOPE} and each model prefix */
+  metrics(): Record<string, RateLimiterMetrics>;
+};
+
+function scopeOf(options: RateLimitOptions, model: string | undefined): string {
+  if (model === undefined) {
+    return PROVIDER_SCOPE;
+  }
+  const prefixes = Object.keys(options.byModelPrefix ?? {}).filter((prefix) => model.startsWith(prefix));
+  if (prefixes.length === 0) {
+    return PROVIDER_SCOPE;
+  }
+  return prefixes.reduce((longest, prefix) => (prefix.length > longest.length ? prefix : longest));
+}
+
+/**
+ * Create the limiters of a provider: one for the provider-wide limits and one per model prefix.
+ *
+ * @param options - Provider rate limit configuration
+ * @param now - Clock, for tests
+ * @returns Limiter lookup by model
+ */
+export function createProviderRateLimiter(
+  options: RateLimitOptions,
+  now: () => number = Date.now,
+): ProviderRateLimiter {
+  const { byModelPrefix = {}, ...providerWide } = options;
+  const limiters = new Map<string, RateLimiter>([[PROVIDER_SCOPE, createRateLimiter(providerWide, now)]]);
+  for (const [prefix, limit] of Object.entries(byModelPrefix)) {
+    limiters.set(prefix, createRateLimiter(limit, now));
+  }
+  return {
+    limiterFor(model) {
+      return limiters.get(scopeOf(options, model))!;
+    },
+    metrics() {
+      return Object.fromEntries([...limiters].map(([scope, limiter]) => [scope, limiter.metrics()]));
+    },
+  };
+}
+
+const providerLimiters = new WeakMap<RateLimitOptions, ProviderRateLimiter>();
+
+/**
+ * Shared limiters of a provider, created on first use.
+ *
+ * @param provider - Provider configuration
+ * @returns The limiters for `provider.rateLimit`, or undefined when the provider has none
+ */
+export function getRateLimiter(provider: Provider): ProviderRateLimiter | undefined {
+  if (!provider.rateLimit) {
+    return undefined;
+  }
+  const existing = providerLimiters.get(provider.rateLimit);
+  if (existing) {
+    return existing;
+  }
+  const limiter = createProviderRateLimiter(provider.rateLimit);
+  providerLimiters.set(provider.rateLimit, limiter);
+  return limiter;
+}
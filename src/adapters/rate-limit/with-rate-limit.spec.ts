@@ -0,0 +1,144 @@
+/**
+ * @file Tests for client-side rate limits
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { NON_TEXT_PART_TOKENS } from "../shared/estimate-tokens";
+import { chatCompletion, chatStream, fakeChatClient } from "../../test-utils/fake-chat-client";
+import { estimatePromptTokens } from "./estimate";
+import { createProviderRateLimiter, createRateLimiter } from "./limiter";
+import { withRateLimit } from "./with-rate-limit";
+
+/** Fake client logging when each call starts; streams yield one chunk per content */
+function recording(log: string[]): OpenAICompatibleClient {
+  return fakeChatClient(async (params) => {
+    const label = String(params.messages[0]?.content);
+    log.push(`start ${label}`);
+    if (params.stream) {
+      return chatStream([`${label}-1`, `${label}-2`]);
+    }
+    return chatCompletion();
+  });
+}
+
+const free = { tokens: () => 1, stream: false };
+
+describe("createRateLimiter", () => {
+  it("admits calls in arrival order even when a later one would fit sooner", async () => {
+    // 1 token per ms: the first call empties the bucket, the second waits ~30ms for its tokens
+    const limiter = createRateLimiter({ tokensPerMinute: 60_000 });
+    const order: string[] = [];
+    const started = Date.now();
+    await limiter.acquire({ tokens: () => 60_000, stream: false });
+    const big = limiter.acquire({ tokens: () => 30, stream: false }).then(() => order.push("big"));
+    const small = limiter.acquire({ tokens: () => 1, stream: false }).then(() => order.push("small"));
+    expect(limiter.metrics().queueDepth).toBe(2);
+    await Promise.all([big, small]);
+    expect(order).toEqual(["big", "small"]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+  });
+
+  it("reports queue depth and drops cancelled waiters", async () => {
+    const time = { now: 0 };
+    const limiter = createRateLimiter({ requestsPerMinute: 2 }, () => time.now);
+    await limiter.acquire(free);
+    await limiter.acquire(free);
+    const controller = new AbortController();
+    const waiting = limiter.acquire(free, controller.signal);
+    expect(limiter.metrics()).toEqual({ queueDepth: 1, inFlightStreams: 0, availableRequests: 0 });
+    controller.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.metrics().queueDepth).toBe(0);
+    time.now = 30_000;
+    expect(limiter.metrics().availableRequests).toBe(1);
+  });
+
+  it("only counts prompt tokens when tokens are limited", async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 10 });
+    const tokens = { counted: 0 };
+    await limiter.acquire({ tokens: () => (tokens.counted += 1), stream: false });
+    expect(tokens.counted).toBe(0);
+  });
+});
+
+describe("createProviderRateLimiter", () => {
+  it("uses the longest matching model prefix and keeps scopes apart", async () => {
+    const limiters = createProviderRateLimiter(
+      {
+        requestsPerMinute: 5,
+        byModelPrefix: { "gpt-4": { requestsPerMinute: 3 }, "gpt-4o": { requestsPerMinute: 1 } },
+      },
+      () => 0,
+    );
+    await limiters.limiterFor("gpt-4o-mini").acquire(free);
+    await limiters.limiterFor("gpt-4-turbo").acquire(free);
+    await limiters.limiterFor(undefined).acquire(free);
+    expect(limiters.metrics()).toMatchObject({
+      "*": { availableRequests: 4 },
+      "gpt-4": { availableRequests: 2 },
+      "gpt-4o": { availableRequests: 0 },
+    });
+  });
+});
+
+describe("withRateLimit", () => {
+  it("holds a stream slot until the stream is read to the end", async () => {
+    const log: string[] = [];
+    const limiter = createProviderRateLimiter({ maxConcurrentStreams: 1 });
+    const client = withRateLimit(recording(log), limiter);
+    const request = (label: string) =>
+      client.chat.completions.create({ model: "m", messages: [{ role: "user", content: label }], stream: true });
+
+    const first = await request("a");
+    const second = request("b");
+    await client.chat.completions.create({ model: "m", messages: [{ role: "user", content: "c" }] });
+    expect(log).toEqual(["start a", "start c"]);
+    expect(limiter.metrics()["*"]).toMatchObject({ queueDepth: 1, inFlightStreams: 1 });
+
+    for await (const event of first) {
+      log.push(String(event.choices[0]?.delta.content));
+    }
+    for await (const event of await second) {
+      log.push(String(event.choices[0]?.delta.content));
+    }
+    expect(log).toEqual(["start a", "start c", "a-1", "a-2", "start b", "b-1", "b-2"]);
+    expect(limiter.metrics()["*"]).toMatchObject({ queueDepth: 0, inFlightStreams: 0 });
+  });
+  it("frees the slot of a stream cancelled before it was read", async () => {
+    const log: string[] = [];
+    const limiter = createProviderRateLimiter({ maxConcurrentStreams: 1 });
+    const client = withRateLimit(recording(log), limiter);
+    const request = (label: string) =>
+      client.chat.completions.create({ model: "m", messages: [{ role: "user", content: label }], stream: true });
+
+    const unread = await request("a");
+    const second = request("b");
+    expect(limiter.metrics()["*"]).toMatchObject({ queueDepth: 1, inFlightStreams: 1 });
+    await unread[Symbol.asyncIterator]().return?.();
+    for await (const event of await second) {
+      log.push(String(event.choices[0]?.delta.content));
+    }
+    expect(log).toEqual(["start a", "start b", "b-1", "b-2"]);
+    expect(limiter.metrics()["*"]).toMatchObject({ queueDepth: 0, inFlightStreams: 0 });
+  });
+});
+
+describe("estimatePromptTokens", () => {
+  it("counts prompt text and charges a fixed allowance for images instead of their data", () => {
+    const text = estimatePromptTokens({ model: "m", messages: [{ role: "user", content: "hello world" }] });
+    const withImage = estimatePromptTokens({
+      model: "m",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "hello world" },
+            { type: "image_url", image_url: { url: `data:image/png;base64,${"A".repeat(100_000)}` } },
+          ],
+        },
+      ],
+    });
+    expect(text).toBeGreaterThan(0);
+    expect(text).toBeLessThan(10);
+    expect(withImage - text).toBe(NON_TEXT_PART_TOKENS);
+  });
+});
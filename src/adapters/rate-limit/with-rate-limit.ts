@@ -0,0 +1,101 @@
+/**
+ * @file Throttling OpenAI-compatible client calls with a provider's rate limiter
+ */
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { observeIteration } from "../../utils/observe-iteration";
+import { estimatePromptTokens } from "./estimate";
+import type { ProviderRateLimiter, RateLimitPermit } from "./limiter";
+
+type RequestOptions = { signal?: AbortSignal };
+
+type LimitedParams = { model?: string; stream?: boolean | null };
+
+/** Hold the permit's stream slot until the consumer finishes, fails or stops reading, read or not */
+function releasing<T>(stream: AsyncIterable<T>, permit: RateLimitPermit): AsyncIterable<T> {
+  return observeIteration(stream, { onEnd: () => permit.release() });
+}
+
+/** Run `call` once the limiter admits it; streams keep their slot while they are read */
+async function limited<P extends LimitedParams, R>(
+  limiter: ProviderRateLimiter,
+  params: P,
+  signal: AbortSignal | undefined,
+  call: () => Promise<R>,
+): Promise<R> {
+  const stream = params.stream === true;
+  const cost = { tokens: () => estimatePromptTokens(params), stream };
+  const permit = await limiter.limiterFor(params.model).acquire(cost, signal);
+  try {
+    const result = await call();
+    if (!stream) {
+      return result;
+    }
+    return releasing(result as AsyncIterable<unknown>, permit) as R;
+  } catch (error) {
+    permit.release();
+    throw error;
+  }
+}
+
+/**
+ * Apply client-side rate limits to every call of a client: Chat Completions, Responses, legacy
+ * completions, embeddings and model listing. Calls wait in arrival order for their model's scope;
+ * cancelling the request signal removes a waiting call from the queue.
+ *
+ * @param client - Client whose calls go upstream
+ * @param limiter - Provider limiters; the client is returned unchanged when undefined
+ * @returns Client whose calls are throttled
+ */
+export function withRateLimit(
+  client: OpenAICompatibleClient,
+  limiter: ProviderRateLimiter | undefined,
+): OpenAICompatibleClient {
+  if (!limiter) {
+    return client;
+  }
+  const { chat, responses, completions, embeddings, models } = client;
+
+  const throttled: OpenAICompatibleClient = {
+    ...client,
+    chat: {
+      ...chat,
+      completions: {
+        ...chat.completions,
+        create: defineChatCompletionsCreate((params, options?: RequestOptions) =>
+          limited(limiter, params, options?.signal, () => chat.completions.create(params, options)),
+        ),
+      },
+    },
+    responses: {
+      ...responses,
+      create: defineResponsesCreate((params, options?: RequestOptions) =>
+        limited(limiter, params, options?.signal, () => responses.create(params, options)),
+      ),
+    },
+    models: {
+      ...models,
+      list: () => limited(limiter, {}, undefined, () => models.list()),
+    },
+  };
+  if (responses.stream) {
+    const stream = responses.stream;
+    throttled.responses.stream = (params, options) =>
+      limited(limiter, params, options?.signal, () => stream(params, options));
+  }
+  if (completions) {
+    throttled.completions = {
+      ...completions,
+      create: defineCompletionsCreate((params, options?: RequestOptions) =>
+        limited(limiter, params, options?.signal, () => completions.create(params, options)),
+      ),
+    };
+  }
+  if (embeddings) {
+    throttled.embeddings = {
+      ...embeddings,
+      create: (params, options) => limited(limiter, params, options?.signal, () => embeddings.create(params, options)),
+    };
+  }
+  return throttled;
+}
@@ -0,0 +1,57 @@
+/**
+ * @file Helpers that rebuild the conversation context for a `previous_response_id` chain.
+ */
+import type {
+  ResponseCreateParams,
+  ResponseInputItem,
+  ResponseOutputItem,
+} from "openai/resources/responses/responses";
+import type { StoredResponse } from "./types";
+
+/** Normalize the `input` param into a list of input items. */
+export function toInputItems(input: ResponseCreateParams["input"]): ResponseInputItem[] {
+  if (typeof input === "string") {
+    return [{ type: "message", role: "user", content: input }];
+  }
+  if (Array.isArray(input)) {
+    return [...input];
+  }
+  return [];
+}
+
+/**
+ * Convert output items of a prior response into input items that every backend converter understands.
+ * Assistant messages are flattened to plain text; reasoning and tool calls are replayed as-is; other items are dropped.
+ */
+export function outputToInputItems(output: ResponseOutputItem[]): ResponseInputItem[] {
+  const items: ResponseInputItem[] = [];
+  for (const item of output) {
+    if (item.type === "message") {
+      const text = item.content.map((part) => (part.type === "output_text" ? part.text : "")).join("");
+      items.push({ type: "message", role: "assistant", content: text });
+      continue;
+    }
+    if (item.type === "reasoning") {
+      // Keeps encrypted_content (e.g. Claude thinking signatures) so providers can verify the replay
+      items.push({ type: "reasoning", id: item.id, summary: item.summary, encrypted_content: item.encrypted_content });
+      continue;
+    }
+    if (item.type === "function_call") {
+      items.push({ type: "function_call", call_id: item.call_id, name: item.name, arguments: item.arguments });
+      continue;
+    }
+  }
+  return items;
+}
+
+/** Build the full input for a new turn: prior context, prior output, then the new input. */
+export function buildConversationInput(
+  previous: StoredResponse | undefined,
+  input: ResponseCreateParams["input"],
+): ResponseInputItem[] {
+  const current = toInputItems(input);
+  if (!previous) {
+    return current;
+  }
+  return [...previous.input, ...outputToInputItems(previous.response.output), ...current];
+}
@@ -0,0 +1,40 @@
+/**
+ * @file In-memory ResponseStore used when no external store is injected.
+ */
+import type { ResponseStore, StoredResponse } from "./types";
+
+export type InMemoryResponseStoreOptions = {
+  /** Maximum number of responses kept; the oldest entries are evicted first. */
+  maxEntries?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Create a process-local ResponseStore backed by a Map.
+ * Entries are evicted in insertion order once `maxEntries` is exceeded.
+ */
+export function createInMemoryResponseStore(options: InMemoryResponseStoreOptions = {}): ResponseStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const entries = new Map<string, StoredResponse>();
+
+  return {
+    async get(id) {
+      return entries.get(id);
+    },
+    async put(record) {
+      entries.delete(record.response.id);
+      entries.set(record.response.id, record);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next();
+        if (oldest.done) {
+          break;
+        }
+        entries.delete(oldest.value);
+      }
+    },
+    async delete(id) {
+      return entries.delete(id);
+    },
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * @file Public entry for Responses API conversation state.
+ */
+
+export type { ResponseStore, StoredResponse } from "./types";
+export type { InMemoryResponseStoreOptions } from "./in-memory-store";
+export { createInMemoryResponseStore } from "./in-memory-store";
+export { withResponseStore } from "./with-response-store";
+export type { InputItemsPage, InputItemsQuery, InputItemWithId } from "./input-items";
+export { listInputItems } from "./input-items";
+export { scopeResponseStore } from "./scoped-store";
@@ -0,0 +1,80 @@
+/**
+ * @file Cursor pagination over the stored input items of a response (`/v1/responses/{id}/input_items`).
+ */
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import type { StoredResponse } from "./types";
+
+export type InputItemWithId = ResponseInputItem & { id: string };
+
+export type InputItemsPage = {
+  object: "list";
+  data: InputItemWithId[];
+  first_id: string | null;
+  last_id: string | null;
+  has_more: boolean;
+};
+
+export type InputItemsQuery = {
+  limit?: number;
+  order?: "asc" | "desc";
+  after?: string;
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function existingId(item: ResponseInputItem): string | undefined {
+  const id = (item as { id?: unknown }).id;
+  return typeof id === "string" && id.length > 0 ? id : undefined;
+}
+
+/**
+ * Give every item an id and expand shorthand string messages into content parts,
+ * matching the shape the OpenAI API returns for input items.
+ */
+function toListedItem(item: ResponseInputItem, fallbackId: string): InputItemWithId {
+  const id = existingId(item) ?? fallbackId;
+  if ("role" in item && typeof item.content === "string") {
+    if (item.role === "assistant") {
+      return {
+        id,
+        type: "message",
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text: item.content, annotations: [] }],
+      };
+    }
+    return { id, type: "message", role: item.role, content: [{ type: "input_text", text: item.content }] };
+  }
+  return { ...item, id };
+}
+
+function cursorStart(items: InputItemWithId[], after: string): number {
+  const index = items.findIndex((item) => item.id === after);
+  if (index < 0) {
+    throw new HttpError(400, `No input item found with id '${after}'.`, "bad_request");
+  }
+  return index + 1;
+}
+
+/**
+ * List the input items of a stored response with OpenAI-style cursor pagination.
+ * Items default to descending order, like the upstream API.
+ *
+ * @throws HttpError 400 when `after` names no item of the response
+ */
+export function listInputItems(record: StoredResponse, query: InputItemsQuery = {}): InputItemsPage {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const listed = record.input.map((item, index) => toListedItem(item, `${record.response.id}_item_${index}`));
+  const ordered = query.order === "asc" ? listed : [...listed].reverse();
+  const start = query.after ? cursorStart(ordered, query.after) : 0;
+  const data = ordered.slice(start, start + limit);
+  return {
+    object: "list",
+    data,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: start + limit < ordered.length,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * @file ResponseStore view confined to one tenant of a shared store.
+ */
+import type { ResponseStore } from "./types";
+
+/**
+ * Share one store between tenants without letting them read or delete each other's responses.
+ * Records are kept under `<scope>:<id>` and handed back with their original id.
+ *
+ * @param store - Store shared by every scope
+ * @param scope - Tenant prefix; must not be derivable from another tenant's scope
+ * @returns Store that only sees the records written through the same scope
+ */
+export function scopeResponseStore(store: ResponseStore, scope: string): ResponseStore {
+  const prefix = `${scope}:`;
+  return {
+    async get(id) {
+      const record = await store.get(`${prefix}${id}`);
+      if (!record) {
+        return undefined;
+      }
+      return { ...record, response: { ...record.response, id } };
+    },
+    async put(record) {
+      await store.put({ ...record, response: { ...record.response, id: `${prefix}${record.response.id}` } });
+    },
+    async delete(id) {
+      return store.delete(`${prefix}${id}`);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * @file Types for persisting Responses API turns.
+ *
+ * Why: Non-OpenAI backends have no server-side conversation state, so
+ * `previous_response_id` can only be honored if completed responses are kept locally.
+ */
+import type { Response as OpenAIResponse, ResponseInputItem } from "openai/resources/responses/responses";
+
+/** A completed response together with the full input context it was generated from. */
+export type StoredResponse = {
+  response: OpenAIResponse;
+  /** Input items including any turns rehydrated through `previous_response_id`. */
+  input: ResponseInputItem[];
+};
+
+/**
+ * Storage backend for Responses API turns.
+ * Methods are async so that external stores (Redis, SQL, KV) can be plugged in.
+ */
+export type ResponseStore = {
+  get(id: string): Promise<StoredResponse | undefined>;
+  put(record: StoredResponse): Promise<void>;
+  /** Returns true when a record existed and was removed. */
+  delete(id: string): Promise<boolean>;
+};
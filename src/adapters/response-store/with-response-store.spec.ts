@@ -0,0 +1,141 @@
+/**
+ * @file Tests for Responses API conversation state (previous_response_id / store)
+ */
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParams,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { createInMemoryResponseStore } from "./in-memory-store";
+import { withResponseStore } from "./with-response-store";
+
+function makeResponse(id: string, text: string): OpenAIResponse {
+  return {
+    id,
+    object: "response",
+    created_at: 0,
+    model: "test-model",
+    status: "completed",
+    output_text: text,
+    output: [
+      {
+        type: "message",
+        id: `msg_${id}`,
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text, annotations: [] }],
+      },
+    ],
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    parallel_tool_calls: true,
+    temperature: null,
+    tool_choice: "auto",
+    tools: [],
+    top_p: null,
+  };
+}
+
+async function* streamOf(response: OpenAIResponse): AsyncGenerator<ResponseStreamEvent> {
+  yield { type: "response.created", response: { ...response, status: "in_progress", output: [] }, sequence_number: 0 };
+  yield { type: "response.completed", response, sequence_number: 1 };
+}
+
+/** Fake backend that records forwarded params and answers with numbered responses. */
+function makeBackend() {
+  const calls: ResponseCreateParams[] = [];
+  const client: OpenAICompatibleClient = {
+    chat: {
+      completions: {
+        create: defineChatCompletionsCreate(async () => {
+          throw new Error("not used");
+        }),
+      },
+    },
+    responses: {
+      create: defineResponsesCreate(async (params) => {
+        calls.push(params);
+        const response = makeResponse(`resp_${calls.length}`, `answer ${calls.length}`);
+        return params.stream ? streamOf(response) : response;
+      }),
+    },
+    models: {
+      async list() {
+        return { data: [] };
+      },
+    },
+  };
+  return { client, calls };
+}
+
+describe("withResponseStore", () => {
+  it("rehydrates prior turns when previous_response_id is supplied", async () => {
+    const backend = makeBackend();
+    const client = withResponseStore(backend.client, createInMemoryResponseStore());
+
+    const first = await client.responses.create({ model: "m", input: "hello" });
+    const second = await client.responses.create({ model: "m", input: "again", previous_response_id: first.id });
+
+    expect(second.previous_response_id).toBe(first.id);
+    expect(backend.calls[1]?.previous_response_id).toBeUndefined();
+    expect(backend.calls[1]?.input).toEqual([
+      { type: "message", role: "user", content: "hello" },
+      { type: "message", role: "assistant", content: "answer 1" },
+      { type: "message", role: "user", content: "again" },
+    ]);
+  });
+
+  it("persists streamed responses on response.completed", async () => {
+    const backend = makeBackend();
+    const store = createInMemoryResponseStore();
+    const client = withResponseStore(backend.client, store);
+
+    const events = await client.responses.create({ model: "m", input: "hi", stream: true });
+    const types: string[] = [];
+    for await (const ev of events) {
+      types.push(ev.type);
+    }
+
+    expect(types).toEqual(["response.created", "response.completed"]);
+    const stored = await store.get("resp_1");
+    expect(stored?.input).toEqual([{ type: "message", role: "user", content: "hi" }]);
+  });
+
+  it("does not persist when store is false", async () => {
+    const backend = makeBackend();
+    const store = createInMemoryResponseStore();
+    const client = withResponseStore(backend.client, store);
+
+    await client.responses.create({ model: "m", input: "secret", store: false });
+
+    expect(await store.get("resp_1")).toBeUndefined();
+  });
+
+  it("rejects unknown previous_response_id", async () => {
+    const backend = makeBackend();
+    const client = withResponseStore(backend.client, createInMemoryResponseStore());
+
+    await expect(client.responses.create({ model: "m", input: "x", previous_response_id: "resp_missing" })).rejects.toThrow(
+      "Previous response with id 'resp_missing' not found.",
+    );
+    expect(backend.calls).toHaveLength(0);
+  });
+});
+
+describe("createInMemoryResponseStore", () => {
+  it("evicts the oldest entries beyond maxEntries", async () => {
+    const store = createInMemoryResponseStore({ maxEntries: 2 });
+    await store.put({ response: makeResponse("a", "1"), input: [] });
+    await store.put({ response: makeResponse("b", "2"), input: [] });
+    await store.put({ response: makeResponse("c", "3"), input: [] });
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+    expect(await store.delete("b")).toBe(true);
+    expect(await store.delete("b")).toBe(false);
+  });
+});
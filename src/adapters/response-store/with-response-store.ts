@@ -0,0 +1,102 @@
+/**
+ * @file Wraps an OpenAICompatibleClient so the Responses API honors `previous_response_id` and `store`.
+ *
+ * Prior turns are rehydrated from the ResponseStore into the request input before it reaches
+ * the backend, and completed responses are persisted afterwards (including streamed ones).
+ */
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParams,
+  ResponseCreateParamsStreaming,
+  ResponseInputItem,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+import type { OpenAICompatibleClient, ResponsesStreamFn } from "../openai-client-types";
+import { defineResponsesCreate } from "../openai-client-types";
+import { isResponseEventStream } from "../../providers/openai/responses-guards";
+import { buildConversationInput } from "./conversation";
+import type { ResponseStore } from "./types";
+
+type PreparedTurn = {
+  params: ResponseCreateParams;
+  input: ResponseInputItem[];
+  previousResponseId?: string;
+  shouldStore: boolean;
+};
+
+/**
+ * Resolve `previous_response_id` against the store and build the request forwarded to the backend.
+ * Throws when the referenced response is unknown, mirroring the OpenAI API.
+ */
+async function prepareTurn(store: ResponseStore, params: ResponseCreateParams): Promise<PreparedTurn> {
+  const previousResponseId = params.previous_response_id ?? undefined;
+  const previous = previousResponseId ? await store.get(previousResponseId) : undefined;
+  if (previousResponseId && !previous) {
+    throw new Error(`Previous response with id '${previousResponseId}' not found.`);
+  }
+  const input = buildConversationInput(previous, params.input);
+  const forwarded: ResponseCreateParams = { ...params, input };
+  delete forwarded.previous_response_id;
+  return { params: forwarded, input, previousResponseId, shouldStore: params.store !== false };
+}
+
+function annotate(response: OpenAIResponse, turn: PreparedTurn): OpenAIResponse {
+  if (!turn.previousResponseId) {
+    return response;
+  }
+  return { ...response, previous_response_id: turn.previousResponseId };
+}
+
+async function* persistStream(
+  store: ResponseStore,
+  turn: PreparedTurn,
+  events: AsyncIterable<ResponseStreamEvent>,
+): AsyncGenerator<ResponseStreamEvent, void, unknown> {
+  for await (const event of events) {
+    if (event.type === "response.completed") {
+      const response = annotate(event.response, turn);
+      if (turn.shouldStore) {
+        await store.put({ response, input: turn.input });
+      }
+      yield { ...event, response };
+      continue;
+    }
+    yield event;
+  }
+}
+
+/**
+ * Decorate a client's Responses API with local conversation state.
+ * Chat Completions and model listing are passed through untouched.
+ *
+ * @param client - Backend client that does not keep Responses state itself
+ * @param store - Store used to look up and persist turns
+ * @returns Client whose `responses.create`/`responses.stream` honor `previous_response_id` and `store`
+ */
+export function withResponseStore(client: OpenAICompatibleClient, store: ResponseStore): OpenAICompatibleClient {
+  const create = defineResponsesCreate(async (params, options) => {
+    const turn = await prepareTurn(store, params);
+    const result = await client.responses.create(turn.params, options);
+    if (isResponseEventStream(result)) {
+      return persistStream(store, turn, result);
+    }
+    const response = annotate(result, turn);
+    if (turn.shouldStore) {
+      await store.put({ response, input: turn.input });
+    }
+    return response;
+  });
+
+  const innerStream = client.responses.stream;
+  if (!innerStream) {
+    return { ...client, responses: { create } };
+  }
+
+  const stream: ResponsesStreamFn = async (params: ResponseCreateParamsStreaming, options) => {
+    const turn = await prepareTurn(store, params);
+    const events = await innerStream({ ...turn.params, stream: true }, options);
+    return persistStream(store, turn, events);
+  };
+
+  return { ...client, responses: { create, stream } };
+}
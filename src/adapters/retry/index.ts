@@ -0,0 +1,14 @@
+/**
+ * @file Public entry for provider retry policies.
+ */
+
+export { runWithRetry, withRetry } from "./with-retry";
+export {
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  resolveRetryPolicy,
+  retryAfterMsOf,
+  retryDelayMs,
+  sdkMaxRetries,
+} from "./policy";
+export type { ResolvedRetryPolicy } from "./policy";
@@ -0,0 +1,106 @@
+/**
+ * @file Retry policy defaults and the decisions taken from it: which errors to retry and how long to wait
+ */
+import type { Provider, RetryPolicy } from "../../config/types";
+import { isObject } from "../../utils/type-guards";
+import { retryAfterMsFromHeaders } from "../../utils/retry-after";
+import { classifyFailure } from "../router/failover";
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  backoffMultiplier: 2,
+  maxDelayMs: 30_000,
+  jitter: true,
+  retryOnStatus: [408, 409, 429, 500, 502, 503, 504, 529],
+  retryOnCodes: ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"],
+  respectRetryAfter: true,
+};
+
+/** Fill unset fields of a policy with {@link DEFAULT_RETRY_POLICY} */
+export function resolveRetryPolicy(policy: RetryPolicy): ResolvedRetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * `maxRetries` for the vendor SDK clients of a provider: zero when the provider has its own
+ * retry policy, so SDK and policy retries do not multiply; the SDK default otherwise.
+ */
+export function sdkMaxRetries(provider: Provider): number | undefined {
+  return provider.retry ? 0 : undefined;
+}
+
+function statusOf(error: unknown): number | undefined {
+  if (isObject(error) && typeof error.status === "number") {
+    return error.status;
+  }
+  return undefined;
+}
+
+/** `code` of the error, or of its `cause` (fetch failures keep the errno code there) */
+function codeOf(error: unknown): string | undefined {
+  if (!isObject(error)) {
+    return undefined;
+  }
+  if (typeof error.code === "string") {
+    return error.code;
+  }
+  return codeOf(error.cause);
+}
+
+/**
+ * Whether the policy allows retrying `error`. Cancelled calls are never retried, nor calls
+ * rejected by an open circuit breaker.
+ */
+export function isRetryableError(error: unknown, policy: ResolvedRetryPolicy): boolean {
+  const failure = classifyFailure(error);
+  if (failure === "aborted" || failure === "circuit_open") {
+    return false;
+  }
+  const code = codeOf(error);
+  if (code !== undefined && policy.retryOnCodes.includes(code)) {
+    return true;
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return policy.retryOnStatus.includes(status);
+  }
+  return failure === "network" || failure === "timeout";
+}
+
+/** Upstream `retry-after` in milliseconds: `HttpError.retryAfter`, or SDK error headers */
+export function retryAfterMsOf(error: unknown): number | undefined {
+  if (!isObject(error)) {
+    return undefined;
+  }
+  if (typeof error.retryAfter === "number") {
+    return error.retryAfter * 1000;
+  }
+  const headers = error.headers;
+  if (!(headers instanceof Headers)) {
+    return undefined;
+  }
+  return retryAfterMsFromHeaders(headers);
+}
+
+/**
+ * Delay before retry number `retry` (1-based): the upstream `retry-after` when the policy honors
+ * it, otherwise exponential backoff with optional full jitter.
+ *
+ * @returns Milliseconds to wait, or undefined when `retry-after` exceeds `maxDelayMs` and the call should not be retried
+ */
+export function retryDelayMs(
+  error: unknown,
+  retry: number,
+  policy: ResolvedRetryPolicy,
+  random: () => number = Math.random,
+): number | undefined {
+  const retryAfterMs = policy.respectRetryAfter ? retryAfterMsOf(error) : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs > policy.maxDelayMs ? undefined : retryAfterMs;
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffMultiplier ** (retry - 1));
+  return policy.jitter ? random() * backoff : backoff;
+}
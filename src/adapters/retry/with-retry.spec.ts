@@ -0,0 +1,119 @@
+/**
+ * @file Tests for provider retry policies
+ */
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { chatCompletion, chatStream, fakeChatClient } from "../../test-utils/fake-chat-client";
+import { isRetryableError, resolveRetryPolicy, retryDelayMs } from "./policy";
+import { withRetry } from "./with-retry";
+
+/** Fake client whose n-th call runs the n-th outcome; an outcome is an error or streamed contents */
+function scripted(outcomes: Array<Error | Array<string | Error>>): {
+  client: OpenAICompatibleClient;
+  calls: () => number;
+} {
+  const state = { calls: 0 };
+  const client = fakeChatClient(async (params) => {
+    const outcome = outcomes[state.calls] ?? [];
+    state.calls += 1;
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    if (params.stream) {
+      return chatStream(outcome);
+    }
+    return chatCompletion();
+  });
+  return { client, calls: () => state.calls };
+}
+
+const fast = { initialDelayMs: 1, jitter: false };
+const messages = [{ role: "user" as const, content: "hi" }];
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<string[]> {
+  const contents: string[] = [];
+  for await (const event of stream) {
+    contents.push(event.choices[0]?.delta.content ?? "");
+  }
+  return contents;
+}
+
+describe("withRetry", () => {
+  it("retries retryable statuses until an attempt succeeds", async () => {
+    const { client, calls } = scripted([new HttpError(503, "overloaded"), new HttpError(429, "busy"), []]);
+    const result = await withRetry(client, fast).chat.completions.create({ model: "m", messages });
+    expect(result.choices[0]?.message.content).toBe("ok");
+    expect(calls()).toBe(3);
+  });
+
+  it("throws the last error once attempts are used up, and never retries request errors", async () => {
+    const exhausted = scripted([new HttpError(500, "a"), new HttpError(500, "b"), new HttpError(500, "c")]);
+    await expect(
+      withRetry(exhausted.client, { ...fast, maxAttempts: 2 }).chat.completions.create({ model: "m", messages }),
+    ).rejects.toThrow("b");
+    expect(exhausted.calls()).toBe(2);
+
+    const invalid = scripted([new HttpError(400, "bad"), []]);
+    await expect(withRetry(invalid.client, fast).chat.completions.create({ model: "m", messages })).rejects.toThrow(
+      "bad",
+    );
+    expect(invalid.calls()).toBe(1);
+  });
+
+  it("waits for retry-after and gives up when it exceeds maxDelayMs", async () => {
+    const waited = scripted([new HttpError(429, "busy", undefined, 0.05), []]);
+    const startedAt = Date.now();
+    await withRetry(waited.client, fast).chat.completions.create({ model: "m", messages });
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+
+    const tooLong = scripted([new HttpError(429, "busy", undefined, 60), []]);
+    await expect(withRetry(tooLong.client, fast).chat.completions.create({ model: "m", messages })).rejects.toThrow(
+      "busy",
+    );
+    expect(tooLong.calls()).toBe(1);
+  });
+
+  it("retries a stream before its first event but not after", async () => {
+    const early = scripted([[new HttpError(502, "bad gateway")], ["a", "b"]]);
+    const stream = await withRetry(early.client, fast).chat.completions.create({ model: "m", messages, stream: true });
+    expect(await collect(stream)).toEqual(["a", "b"]);
+    expect(early.calls()).toBe(2);
+
+    const late = scripted([["a", new HttpError(502, "lost")], ["b"]]);
+    const partial = await withRetry(late.client, fast).chat.completions.create({ model: "m", messages, stream: true });
+    await expect(collect(partial)).rejects.toThrow("lost");
+    expect(late.calls()).toBe(1);
+  });
+
+  it("stops waiting when the call is cancelled", async () => {
+    const { client, calls } = scripted([new HttpError(503, "overloaded"), []]);
+    const controller = new AbortController();
+    const pending = withRetry(client, { initialDelayMs: 10_000 }).chat.completions.create(
+      { model: "m", messages },
+      { signal: controller.signal },
+    );
+    setTimeout(() => controller.abort(new Error("cancelled")), 10);
+    await expect(pending).rejects.toThrow("cancelled");
+    expect(calls()).toBe(1);
+  });
+
+  it("computes capped exponential backoff with full jitter", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: false });
+    expect([1, 2, 3].map((retry) => retryDelayMs(new HttpError(503, "x"), retry, policy))).toEqual([100, 200, 350]);
+    const jittered = resolveRetryPolicy({ initialDelayMs: 100 });
+    expect(retryDelayMs(new HttpError(503, "x"), 2, jittered, () => 0.5)).toBe(100);
+    const headers = new Headers({ "retry-after-ms": "250" });
+    expect(retryDelayMs(Object.assign(new Error("x"), { status: 429, headers }), 1, policy)).toBe(250);
+  });
+
+  it("treats connection failures as retryable and cancellations as final", () => {
+    const policy = resolveRetryPolicy({});
+    const reset = Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } });
+    expect(isRetryableError(reset, policy)).toBe(true);
+    const abort = new Error("aborted");
+    abort.name = "AbortError";
+    expect(isRetryableError(abort, policy)).toBe(false);
+    expect(isRetryableError(new HttpError(404, "missing"), policy)).toBe(false);
+  });
+});
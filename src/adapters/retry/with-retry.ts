@@ -0,0 +1,151 @@
+/**
+ * @file Retrying OpenAI-compatible client calls according to a provider's retry policy
+ */
+import type { RetryPolicy } from "../../config/types";
+import { awaitFirstOutput } from "../../utils/await-first-output";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { isRetryableError, resolveRetryPolicy, retryDelayMs } from "./policy";
+import type { ResolvedRetryPolicy } from "./policy";
+
+type RequestOptions = { signal?: AbortSignal };
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Delay before the next attempt, or undefined when the failure is final */
+function nextDelayMs(
+  error: unknown,
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+  signal: AbortSignal | undefined,
+): number | undefined {
+  if (attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+  if (signal?.aborted) {
+    return undefined;
+  }
+  if (!isRetryableError(error, policy)) {
+    return undefined;
+  }
+  return retryDelayMs(error, attempt, policy);
+}
+
+/**
+ * Run `call` until it succeeds, the error is not retryable, or the attempts are used up.
+ * The last error is thrown as-is.
+ *
+ * @param call - Upstream call, invoked once per attempt
+ * @param policy - Resolved retry policy
+ * @param signal - Cancels the waits between attempts
+ * @returns Result of the first successful attempt
+ */
+export async function runWithRetry<T>(
+  call: () => Promise<T>,
+  policy: ResolvedRetryPolicy,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await call();
+    } catch (error) {
+      const delay = nextDelayMs(error, attempt, policy, signal);
+      if (delay === undefined) {
+        throw error;
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/** Retry a stream until it yields its first event; later failures reach the consumer */
+function retryStream<T>(
+  open: () => Promise<AsyncIterable<T>>,
+  policy: ResolvedRetryPolicy,
+  signal: AbortSignal | undefined,
+): Promise<AsyncIterable<T>> {
+  return runWithRetry(async () => awaitFirstOutput(await open(), () => true), policy, signal);
+}
+
+/**
+ * Apply a retry policy to every call of a client: Chat Completions, Responses, legacy completions,
+ * embeddings and model listing. Streams are retried only while they have not produced an event.
+ *
+ * @param client - Client whose calls go upstream
+ * @param retry - Provider retry policy; the client is returned unchanged when undefined
+ * @returns Client retrying failed calls
+ */
+export function withRetry(client: OpenAICompatibleClient, retry: RetryPolicy | undefined): OpenAICompatibleClient {
+  if (!retry) {
+    return client;
+  }
+  const policy = resolveRetryPolicy(retry);
+  const { chat, responses, completions, embeddings, models } = client;
+
+  const retried: OpenAICompatibleClient = {
+    ...client,
+    chat: {
+      ...chat,
+      completions: {
+        ...chat.completions,
+        create: defineChatCompletionsCreate((params, options?: RequestOptions) => {
+          if (params.stream) {
+            return retryStream(() => chat.completions.create(params, options), policy, options?.signal);
+          }
+          return runWithRetry(() => chat.completions.create(params, options), policy, options?.signal);
+        }),
+      },
+    },
+    responses: {
+      ...responses,
+      create: defineResponsesCreate((params, options?: RequestOptions) => {
+        if (params.stream) {
+          return retryStream(() => responses.create(params, options), policy, options?.signal);
+        }
+        return runWithRetry(() => responses.create(params, options), policy, options?.signal);
+      }),
+    },
+    models: {
+      ...models,
+      list: () => runWithRetry(() => models.list(), policy),
+    },
+  };
+  if (responses.stream) {
+    const stream = responses.stream;
+    retried.responses.stream = (params, options) => retryStream(() => stream(params, options), policy, options?.signal);
+  }
+  if (completions) {
+    retried.completions = {
+      ...completions,
+      create: defineCompletionsCreate((params, options?: RequestOptions) => {
+        if (params.stream) {
+          return retryStream(() => completions.create(params, options), policy, options?.signal);
+        }
+        return runWithRetry(() => completions.create(params, options), policy, options?.signal);
+      }),
+    };
+  }
+  if (embeddings) {
+    retried.embeddings = {
+      ...embeddings,
+      create: (params, options) => runWithRetry(() => embeddings.create(params, options), policy, options?.signal),
+    };
+  }
+  return retried;
+}
@@ -0,0 +1,127 @@
+/**
+ * @file Failure classification deciding when the router moves on to the next backend
+ */
+import { isObject } from "../../utils/type-guards";
+
+/**
+ * Coarse cause of a failed call:
+ * - `network`: no HTTP response (connection refused, reset, DNS)
+ * - `timeout`: the call or the upstream timed out (408, SDK timeouts)
+ * - `rate_limit`: 429
+ * - `overloaded`: 503 and Anthropic's 529
+ * - `server`: other 5xx
+ * - `auth`: 401/403
+ * - `not_found`: 404, usually an unknown model on that backend
+ * - `invalid_request`: other 4xx
+ * - `aborted`: the caller cancelled
+ * - `circuit_open`: the provider's circuit breaker rejected the call without contacting it
+ * - `unknown`: thrown without an HTTP status, e.g. by a converter
+ */
+export type FailureClass =
+  | "network"
+  | "timeout"
+  | "rate_limit"
+  | "overloaded"
+  | "server"
+  | "auth"
+  | "not_found"
+  | "invalid_request"
+  | "aborted"
+  | "circuit_open"
+  | "unknown";
+
+/** Failures tied to one backend; invalid requests would fail everywhere and auth errors need fixing, so both surface */
+export const DEFAULT_FAILOVER_CLASSES: readonly FailureClass[] = [
+  "network",
+  "timeout",
+  "rate_limit",
+  "overloaded",
+  "server",
+  "not_found",
+  "circuit_open",
+  "unknown",
+];
+
+const ABORT_ERROR_NAMES = new Set(["AbortError", "APIUserAbortError"]);
+const TIMEOUT_ERROR_NAMES = new Set(["TimeoutError", "APIConnectionTimeoutError"]);
+const NETWORK_ERROR_NAMES = new Set(["APIConnectionError", "FetchError"]);
+
+function statusOf(error: unknown): number | undefined {
+  if (isObject(error) && typeof error.status === "number") {
+    return error.status;
+  }
+  return undefined;
+}
+
+function errnoCodeOf(error: unknown): string | undefined {
+  if (isObject(error) && typeof error.code === "string") {
+    return error.code;
+  }
+  return undefined;
+}
+
+function classifyStatus(status: number): FailureClass {
+  if (status === 408) {
+    return "timeout";
+  }
+  if (status === 429) {
+    return "rate_limit";
+  }
+  if (status === 503 || status === 529) {
+    return "overloaded";
+  }
+  if (status >= 500) {
+    return "server";
+  }
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 404) {
+    return "not_found";
+  }
+  return "invalid_request";
+}
+
+/** Classify a thrown value by HTTP status, falling back to the error's name */
+export function classifyFailure(error: unknown): FailureClass {
+  const name = error instanceof Error ? error.name : "";
+  if (ABORT_ERROR_NAMES.has(name)) {
+    return "aborted";
+  }
+  if (TIMEOUT_ERROR_NAMES.has(name)) {
+    return "timeout";
+  }
+  if (name === "CircuitOpenError") {
+    return "circuit_open";
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return classifyStatus(status);
+  }
+  // fetch() rejects with a TypeError when no response arrives; Node adds an errno-style code
+  if (NETWORK_ERROR_NAMES.has(name) || error instanceof TypeError) {
+    return "network";
+  }
+  if (/^E[A-Z]+$/.test(errnoCodeOf(error) ?? "")) {
+    return "network";
+  }
+  return "unknown";
+}
+
+/**
+ * Build the failover predicate from configured classes or a custom predicate.
+ * Cancelled calls never fail over.
+ */
+export function createFailoverPredicate(
+  failoverOn: readonly FailureClass[] | ((error: Error) => boolean) = DEFAULT_FAILOVER_CLASSES,
+): (error: Error) => boolean {
+  return (error) => {
+    if (classifyFailure(error) === "aborted") {
+      return false;
+    }
+    if (typeof failoverOn === "function") {
+      return failoverOn(error);
+    }
+    return failoverOn.includes(classifyFailure(error));
+  };
+}
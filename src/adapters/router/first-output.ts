@@ -0,0 +1,50 @@
+/**
+ * @file What counts as the first output of each OpenAI stream, for failover before it
+ */
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import type { ResponseStreamEvent } from "openai/resources/responses/responses";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import type { CompletionChunk } from "../openai-client-types";
+
+/** Text, refusal or tool-call deltas, a finish reason, or the trailing usage chunk */
+export function isChatOutput(chunk: ChatCompletionChunk): boolean {
+  if (chunk.usage) {
+    return true;
+  }
+  return chunk.choices.some((choice) => {
+    if (choice.finish_reason) {
+      return true;
+    }
+    if (choice.delta.content || choice.delta.refusal) {
+      return true;
+    }
+    return (choice.delta.tool_calls ?? []).length > 0;
+  });
+}
+
+/** Any text or finish reason */
+export function isCompletionOutput(chunk: CompletionChunk): boolean {
+  if (chunk.usage) {
+    return true;
+  }
+  return chunk.choices.some((choice) => choice.text !== "" || choice.finish_reason !== null);
+}
+
+/** Deltas of any kind, or a finished item or response */
+export function isResponseOutput(event: ResponseStreamEvent): boolean {
+  if (event.type.endsWith(".delta")) {
+    return true;
+  }
+  return event.type === "response.output_item.done" || event.type === "response.completed";
+}
+
+/** `response.failed` and `error` events end a Responses stream without throwing */
+export function responseFailureOf(event: ResponseStreamEvent): Error | undefined {
+  if (event.type === "response.failed") {
+    return new HttpError(502, event.response.error?.message ?? "Upstream response failed", "response_failed");
+  }
+  if (event.type === "error") {
+    return new HttpError(502, event.message, event.code ?? "stream_error");
+  }
+  return undefined;
+}
@@ -0,0 +1,8 @@
+/**
+ * @file Public entry for the multi-provider router client.
+ */
+
+export { buildRouterClient } from "./router";
+export type { RouterFailoverEvent, RouterOptions } from "./router";
+export { classifyFailure, DEFAULT_FAILOVER_CLASSES } from "./failover";
+export type { FailureClass } from "./failover";
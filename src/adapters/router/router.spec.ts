@@ -0,0 +1,130 @@
+/**
+ * @file Tests for the multi-provider router client
+ */
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import type { Provider } from "../../config/types";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { chatCompletion, chatStream, fakeChatClient } from "../../test-utils/fake-chat-client";
+import { classifyFailure } from "./failover";
+import { buildRouterClient } from "./router";
+import type { RouterFailoverEvent } from "./router";
+
+type Behavior = {
+  /** Thrown when the call is made */
+  fail?: Error;
+  /** Streamed contents; an Error entry is thrown at that position */
+  stream?: Array<string | Error>;
+};
+
+/** Fake backend answering with its model name and recording the models it was asked for */
+function fakeClient(behavior: Behavior, seenModels: string[]): OpenAICompatibleClient {
+  return fakeChatClient(
+    async (params) => {
+      seenModels.push(params.model);
+      if (behavior.fail) {
+        throw behavior.fail;
+      }
+      if (params.stream) {
+        return chatStream(behavior.stream ?? []);
+      }
+      return chatCompletion(params.model, { model: params.model });
+    },
+    async () => {
+      if (behavior.fail) {
+        throw behavior.fail;
+      }
+      return { data: [{ id: seenModels.length.toString(), created: 0, object: "model", owned_by: "fake" }] };
+    },
+  );
+}
+
+const primary: Provider = {
+  type: "claude",
+  modelMapping: { aliases: { "gpt-4o": "claude-sonnet-4" } },
+};
+const secondary: Provider = {
+  type: "gemini",
+  modelMapping: { aliases: { "gpt-4o": "gemini-2.5-pro" } },
+};
+
+function router(behaviors: [Behavior, Behavior], failoverOn?: Parameters<typeof buildRouterClient>[0]["failoverOn"]) {
+  const seenModels: string[] = [];
+  const failovers: RouterFailoverEvent[] = [];
+  const client = buildRouterClient({
+    providers: [primary, secondary],
+    failoverOn,
+    buildClient: (provider) => fakeClient(behaviors[provider === primary ? 0 : 1], seenModels),
+    onFailover: (event) => failovers.push(event),
+  });
+  return { client, seenModels, failovers };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<string[]> {
+  const contents: string[] = [];
+  for await (const event of stream) {
+    contents.push(event.choices[0]?.delta.content ?? "");
+  }
+  return contents;
+}
+
+const messages = [{ role: "user" as const, content: "hi" }];
+
+describe("buildRouterClient", () => {
+  it("maps the model onto each provider and fails over on overload", async () => {
+    const { client, seenModels, failovers } = router([{ fail: new HttpError(503, "overloaded") }, {}]);
+    const result = await client.chat.completions.create({ model: "gpt-4o", messages });
+    expect(result.model).toBe("gemini-2.5-pro");
+    expect(seenModels).toEqual(["claude-sonnet-4", "gemini-2.5-pro"]);
+    expect(failovers.map((f) => [f.provider.type, f.next.type, f.failure])).toEqual([
+      ["claude", "gemini", "overloaded"],
+    ]);
+  });
+
+  it("surfaces request errors without trying the next provider", async () => {
+    const { client, seenModels } = router([{ fail: new HttpError(400, "bad request") }, {}]);
+    await expect(client.chat.completions.create({ model: "gpt-4o", messages })).rejects.toThrow("bad request");
+    expect(seenModels).toEqual(["claude-sonnet-4"]);
+  });
+
+  it("honors configured failure classes and reports every error when all fail", async () => {
+    const { client, seenModels } = router(
+      [{ fail: new HttpError(401, "bad key") }, { fail: new HttpError(500, "down") }],
+      ["auth"],
+    );
+    const error = await client.chat.completions.create({ model: "gpt-4o", messages }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors.map((e: Error) => e.message)).toEqual(["bad key", "down"]);
+    expect(seenModels).toHaveLength(2);
+  });
+
+  it("fails over mid-stream before the first token", async () => {
+    const { client, failovers } = router([{ stream: ["", new HttpError(429, "busy")] }, { stream: ["a", "b"] }]);
+    const stream = await client.chat.completions.create({ model: "gpt-4o", messages, stream: true });
+    expect(await collect(stream)).toEqual(["a", "b"]);
+    expect(failovers.map((f) => f.failure)).toEqual(["rate_limit"]);
+  });
+
+  it("keeps a stream that already emitted output on its provider", async () => {
+    const { client, seenModels } = router([{ stream: ["a", new HttpError(500, "lost")] }, { stream: ["b"] }]);
+    const stream = await client.chat.completions.create({ model: "gpt-4o", messages, stream: true });
+    await expect(collect(stream)).rejects.toThrow("lost");
+    expect(seenModels).toEqual(["claude-sonnet-4"]);
+  });
+
+  it("merges model lists from the providers that answer", async () => {
+    const { client } = router([{ fail: new TypeError("fetch failed") }, {}]);
+    const models = await client.models.list();
+    expect(models.data).toHaveLength(1);
+  });
+
+  it("classifies failures by status and error name", () => {
+    const abort = new Error("aborted");
+    abort.name = "AbortError";
+    expect(classifyFailure(abort)).toBe("aborted");
+    expect(classifyFailure(new HttpError(529, "overloaded"))).toBe("overloaded");
+    expect(classifyFailure(new HttpError(404, "no model"))).toBe("not_found");
+    expect(classifyFailure(Object.assign(new Error("refused"), { code: "ECONNREFUSED" }))).toBe("network");
+    expect(classifyFailure(new Error("converter"))).toBe("unknown");
+  });
+});
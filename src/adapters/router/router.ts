@@ -0,0 +1,190 @@
+/**
+ * @file Router client spreading OpenAI-shaped calls over an ordered list of providers
+ */
+import type { Provider } from "../../config/types";
+import { mapModelToProvider, resolveEmbeddingModel } from "../../model/mapper";
+import { awaitFirstOutput } from "../../utils/await-first-output";
+import { normalizeError, runComposedAttempts } from "../../utils/composed-attempts";
+import { buildOpenAICompatibleClient } from "../openai-client";
+import type { OpenAICompatibleClient } from "../openai-client-types";
+import { defineChatCompletionsCreate, defineCompletionsCreate, defineResponsesCreate } from "../openai-client-types";
+import { createInMemoryResponseStore } from "../response-store";
+import type { ResponseStore } from "../response-store";
+import { classifyFailure, createFailoverPredicate } from "./failover";
+import type { FailureClass } from "./failover";
+import { isChatOutput, isCompletionOutput, isResponseOutput, responseFailureOf } from "./first-output";
+
+export type RouterFailoverEvent = {
+  /** Backend that failed */
+  provider: Provider;
+  /** Backend tried next */
+  next: Provider;
+  error: Error;
+  failure: FailureClass;
+};
+
+export type RouterOptions = {
+  /** Backends in order of preference; later ones only serve when earlier ones fail over */
+  providers: Provider[];
+  /** Failure classes (default `DEFAULT_FAILOVER_CLASSES`) or a predicate deciding when to try the next backend */
+  failoverOn?: readonly FailureClass[] | ((error: Error) => boolean);
+  /** Store shared by all backends so `previous_response_id` survives a failover. Defaults to in-memory. */
+  responseStore?: ResponseStore;
+  /** Client factory per backend. Defaults to `buildOpenAICompatibleClient`. */
+  buildClient?: (provider: Provider, options: { responseStore: ResponseStore }) => OpenAICompatibleClient;
+  /** Observe each failover, e.g. for logging */
+  onFailover?: (event: RouterFailoverEvent) => void;
+};
+
+type Backend = {
+  provider: Provider;
+  client: OpenAICompatibleClient;
+};
+
+type RequestOptions = { signal?: AbortSignal };
+
+function modelFor(provider: Provider, requested: string): string {
+  const mapped = mapModelToProvider({ targetProvider: provider, sourceModel: requested });
+  if (mapped) {
+    return mapped;
+  }
+  return requested;
+}
+
+/**
+ * Build one OpenAI-compatible client over several providers.
+ *
+ * Each call goes to the first provider, with the requested model mapped onto it by
+ * `mapModelToProvider`, and moves to the next one on failures matching `failoverOn`. Streams are
+ * held back until their first output event, so a backend failing before its first token is replaced
+ * without the caller noticing; failures after that point end the stream. Cancelled calls never fail over.
+ *
+ * @param options - Backends, failover policy and shared state
+ * @returns Client exposing the union of the backends' APIs
+ */
+export function buildRouterClient(options: RouterOptions): OpenAICompatibleClient {
+  if (options.providers.length === 0) {
+    throw new Error("buildRouterClient requires at least one provider");
+  }
+  const responseStore = options.responseStore ?? createInMemoryResponseStore();
+  const buildClient =
+    options.buildClient ??
+    ((provider: Provider) => buildOpenAICompatibleClient(provider, provider.model, { responseStore }));
+  const backends: Backend[] = options.providers.map((provider) => ({
+    provider,
+    client: buildClient(provider, { responseStore }),
+  }));
+  const shouldFailover = createFailoverPredicate(options.failoverOn);
+
+  function route<T>(
+    candidates: Backend[],
+    requestOptions: RequestOptions | undefined,
+    run: (backend: Backend) => Promise<T>,
+  ): Promise<T> {
+    const accepts = (error: Error): boolean => {
+      if (requestOptions?.signal?.aborted) {
+        return false;
+      }
+      return shouldFailover(error);
+    };
+    const attempts = candidates.map((backend, index) => async () => {
+      try {
+        return await run(backend);
+      } catch (error) {
+        const normalized = normalizeError(error);
+        const next = candidates[index + 1];
+        if (next && accepts(normalized)) {
+          const failure = classifyFailure(error);
+          options.onFailover?.({ provider: backend.provider, next: next.provider, error: normalized, failure });
+        }
+        throw normalized;
+      }
+    });
+    return runComposedAttempts(attempts, { autoFallback: true, shouldFallback: accepts });
+  }
+
+  const completionBackends = backends.filter((backend) => backend.client.completions);
+  const embeddingBackends = backends.filter((backend) => backend.client.embeddings);
+
+  const client: OpenAICompatibleClient = {
+    chat: {
+      completions: {
+        create: defineChatCompletionsCreate((params, requestOptions) =>
+          route(backends, requestOptions, async ({ provider, client: backend }) => {
+            const model = modelFor(provider, params.model);
+            if (params.stream) {
+              const stream = await backend.chat.completions.create({ ...params, model, stream: true }, requestOptions);
+              return awaitFirstOutput(stream, isChatOutput);
+            }
+            return backend.chat.completions.create({ ...params, model, stream: false }, requestOptions);
+          }),
+        ),
+      },
+    },
+    responses: {
+      create: defineResponsesCreate((params, requestOptions) =>
+        route(backends, requestOptions, async ({ provider, client: backend }) => {
+          const model = modelFor(provider, params.model ?? "");
+          if (params.stream) {
+            const stream = await backend.responses.create({ ...params, model, stream: true }, requestOptions);
+            return awaitFirstOutput(stream, isResponseOutput, responseFailureOf);
+          }
+          return backend.responses.create({ ...params, model, stream: false }, requestOptions);
+        }),
+      ),
+    },
+    models: {
+      async list() {
+        const results = await Promise.allSettled(backends.map((backend) => backend.client.models.list()));
+        const data = new Map<string, { id: string; created: number; object: string; owned_by: string }>();
+        for (const result of results) {
+          if (result.status === "fulfilled") {
+            for (const model of result.value.data) {
+              if (!data.has(model.id)) {
+                data.set(model.id, model);
+              }
+            }
+          }
+        }
+        if (results.every((result) => result.status === "rejected")) {
+          const reasons = results.map((result) => (result.status === "rejected" ? result.reason : undefined));
+          throw new AggregateError(reasons, "All providers failed to list models");
+        }
+        return { data: [...data.values()] };
+      },
+    },
+    setToolNameResolver(resolver) {
+      for (const backend of backends) {
+        backend.client.setToolNameResolver?.(resolver);
+      }
+    },
+  };
+
+  if (completionBackends.length > 0) {
+    client.completions = {
+      create: defineCompletionsCreate((params, requestOptions) =>
+        route(completionBackends, requestOptions, async ({ provider, client: backend }) => {
+          const completions = backend.completions!;
+          const model = modelFor(provider, params.model);
+          if (params.stream) {
+            const stream = await completions.create({ ...params, model, stream: true }, requestOptions);
+            return awaitFirstOutput(stream, isCompletionOutput);
+          }
+          return completions.create({ ...params, model, stream: false }, requestOptions);
+        }),
+      ),
+    };
+  }
+  if (embeddingBackends.length > 0) {
+    client.embeddings = {
+      create: (params, requestOptions) =>
+        route(embeddingBackends, requestOptions, ({ provider, client: backend }) =>
+          backend.embeddings!.create(
+            { ...params, model: resolveEmbeddingModel(provider, params.model) },
+            requestOptions,
+          ),
+        ),
+    };
+  }
+  return client;
+}
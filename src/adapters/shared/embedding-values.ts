@@ -0,0 +1,18 @@
+/**
+ * @file Normalize OpenAI embedding payloads to plain number arrays
+ */
+
+/**
+ * Returns the vector of an OpenAI embedding. Backends that ignore `encoding_format: "float"` may
+ * still answer with base64 float32 (little-endian), which is decoded here.
+ *
+ * @param embedding - `embedding` field of an OpenAI embeddings response item
+ * @returns Embedding vector
+ */
+export function embeddingValues(embedding: number[] | string): number[] {
+  if (Array.isArray(embedding)) {
+    return embedding;
+  }
+  const bytes = Uint8Array.from(atob(embedding), (c) => c.charCodeAt(0));
+  return Array.from(new Float32Array(bytes.buffer));
+}
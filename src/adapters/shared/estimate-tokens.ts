@@ -0,0 +1,47 @@
+/**
+ * @file Local o200k token estimate of request fragments (messages, input items, parts)
+ */
+import { countO200kTokens } from "../openai-compatible/responses-emulator/harmony/utils/o200k_tokenizer";
+import { isObject } from "../../utils/type-guards";
+
+/** Allowance per image, audio or file part; Anthropic caps a resized image at ~1600 tokens */
+export const NON_TEXT_PART_TOKENS = 1600;
+
+// Images, audio and files cannot be measured locally; they are charged the allowance instead of their bytes
+const NON_TEXT_PART_TYPES = new Set(["image_url", "input_image", "input_file", "input_audio", "file"]);
+// Identifiers, enum-like fields and opaque reasoning state (thinking signatures) that never reach the model as prose
+const SKIPPED_KEYS = new Set([
+  "type",
+  "id",
+  "call_id",
+  "tool_call_id",
+  "status",
+  "role",
+  "detail",
+  "signature",
+  "encrypted_content",
+]);
+
+/**
+ * Estimate the tokens of a request fragment: every string it holds is counted with the o200k
+ * tokenizer, except identifiers and enum-like fields, and each non-text part costs
+ * {@link NON_TEXT_PART_TOKENS}.
+ *
+ * @param value - Message list, input items, content parts or any JSON value
+ * @returns Estimated token count
+ */
+export function estimateTokens(value: unknown): number {
+  if (typeof value === "string") {
+    return countO200kTokens(value);
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<number>((sum, v) => sum + estimateTokens(v), 0);
+  }
+  if (!isObject(value)) {
+    return 0;
+  }
+  if (typeof value.type === "string" && NON_TEXT_PART_TYPES.has(value.type)) {
+    return NON_TEXT_PART_TOKENS;
+  }
+  return Object.entries(value).reduce((sum, [key, v]) => (SKIPPED_KEYS.has(key) ? sum : sum + estimateTokens(v)), 0);
+}
@@ -0,0 +1,122 @@
+/**
+ * @file Tests for endpoint pools and the pooled fetch
+ */
+import { buildOpenAICompatibleClient } from "../adapters/openai-client";
+import { withFakeUpstream } from "../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../test-utils/fake-upstream";
+import { createEndpointPool } from "./endpoint-pool";
+import { createPooledFetch } from "./pooled-fetch";
+import type { PooledFetch } from "./pooled-fetch";
+
+function clock(start = 1_000) {
+  const state = { now: start };
+  return { now: () => state.now, advance: (ms: number) => (state.now += ms) };
+}
+
+/** Acquire and immediately release with `outcome`, returning the endpoint index */
+function use(pool: ReturnType<typeof createEndpointPool>, status = 200, retryAfterMs?: number): number {
+  const lease = pool.acquire();
+  lease.release(retryAfterMs === undefined ? { status } : { status, retryAfterMs });
+  return lease.index;
+}
+
+const endpoints = [{ apiKey: "key-a" }, { apiKey: "key-b" }, { apiKey: "key-c" }];
+
+describe("createEndpointPool", () => {
+  it("rotates round-robin and rests endpoints after a 429", () => {
+    const time = clock();
+    const pool = createEndpointPool({ endpoints, cooldownMs: 500 }, time.now);
+    expect([use(pool), use(pool), use(pool), use(pool)]).toEqual([0, 1, 2, 0]);
+    expect(use(pool, 429)).toBe(1);
+    expect([use(pool), use(pool), use(pool)]).toEqual([2, 0, 2]);
+    expect(pool.status()[1]).toMatchObject({ coolingDown: true, healthy: true, keyHint: "ey-b" });
+    time.advance(500);
+    expect([use(pool), use(pool)]).toEqual([0, 1]);
+  });
+
+  it("honors retry-after for the cooldown and falls back to the soonest endpoint when all rest", () => {
+    const time = clock();
+    const pool = createEndpointPool({ endpoints: endpoints.slice(0, 2), cooldownMs: 10_000 }, time.now);
+    expect(use(pool, 429, 200)).toBe(0);
+    expect(use(pool, 429)).toBe(1);
+    expect(use(pool)).toBe(0);
+    expect(pool.status()[0]?.coolingDown).toBe(false);
+  });
+
+  it("prefers the endpoint with the fewest open requests", () => {
+    const pool = createEndpointPool({ endpoints, strategy: "least-in-flight" });
+    const first = pool.acquire();
+    const second = pool.acquire();
+    expect([first.index, second.index]).toEqual([0, 1]);
+    first.release({ status: 200 });
+    expect(pool.acquire().index).toBe(2);
+    expect(pool.acquire().index).toBe(0);
+    expect(pool.status().map((s) => s.inFlight)).toEqual([1, 1, 1]);
+  });
+
+  it("marks endpoints unhealthy after repeated failures or a rejected key, then probes them again", () => {
+    const time = clock();
+    const pool = createEndpointPool({ endpoints, unhealthyAfter: 2, unhealthyMs: 1_000 }, time.now);
+    expect(use(pool, 401)).toBe(0);
+    expect(use(pool, 503)).toBe(1);
+    expect(use(pool)).toBe(2);
+    expect(use(pool, 503)).toBe(1);
+    expect(pool.status().map((s) => s.healthy)).toEqual([false, false, true]);
+    expect([use(pool), use(pool)]).toEqual([2, 2]);
+    time.advance(1_000);
+    expect(use(pool)).toBe(0);
+    expect(pool.status()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+  });
+});
+
+describe("createPooledFetch", () => {
+  it("swaps base URL and credentials per request and keeps streams in flight until read", async () => {
+    const seen: Array<{ url: string; auth: string | null; key: string | null }> = [];
+    const baseFetch: PooledFetch = async (input, init) => {
+      const headers = new Headers(init?.headers);
+      seen.push({ url: String(input), auth: headers.get("authorization"), key: headers.get("x-api-key") });
+      return new Response("body", { status: 200 });
+    };
+    const pool = createEndpointPool({
+      endpoints: [{ apiKey: "a" }, { apiKey: "b", baseURL: "https://eu.example.com/v2/" }],
+    });
+    const pooled = createPooledFetch(pool, "https://api.example.com/v1/", baseFetch);
+    const first = await pooled("https://api.example.com/v1/chat/completions", {
+      headers: { authorization: "Bearer x" },
+    });
+    await first.text();
+    const second = await pooled("https://api.example.com/v1/messages", { headers: { "x-api-key": "x" } });
+    expect(pool.status()[1]?.inFlight).toBe(1);
+    await second.text();
+    expect(pool.status()[1]?.inFlight).toBe(0);
+    await (await pooled(new URL("https://api.example.com/v1/models?key=x"))).text();
+    expect(seen).toEqual([
+      { url: "https://api.example.com/v1/chat/completions", auth: "Bearer a", key: null },
+      { url: "https://eu.example.com/v2/messages", auth: null, key: "b" },
+      { url: "https://api.example.com/v1/models?key=a", auth: null, key: null },
+    ]);
+  });
+
+  it("retries on another key and skips the rate-limited one afterwards", async () => {
+    const calls = { count: 0 };
+    const upstream: UpstreamHandler = (request) => {
+      calls.count += 1;
+      if (request.headers.authorization === "Bearer key-a" && calls.count === 1) {
+        return { status: 429, headers: { "retry-after": "60" }, body: { error: { message: "slow down" } } };
+      }
+      return { body: { object: "list", data: [{ id: "m", object: "model", created: 0, owned_by: "x" }] } };
+    };
+    await withFakeUpstream(upstream, async ({ origin, requests }) => {
+      const client = buildOpenAICompatibleClient({
+        type: "local",
+        baseURL: `${origin}/v1`,
+        pool: { endpoints: [{ apiKey: "key-a" }, { apiKey: "key-b" }] },
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+      });
+      // The retry goes to key-b at once instead of waiting out key-a's retry-after
+      await client.models.list();
+      await client.models.list();
+      expect(requests.map((r) => r.headers.authorization)).toEqual(["Bearer key-a", "Bearer key-b", "Bearer key-b"]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @file Endpoint pool: picks one of several keys/base URLs per request and tracks their health.
+ * State lives per `EndpointPoolOptions` object, so every client built from one provider
+ * configuration shares cooldowns and failure counts.
+ */
+import type { EndpointPoolOptions, PoolEndpoint, Provider } from "./types";
+
+/**
+ * How a pooled request ended; decides cooldown and health of its endpoint.
+ * `aborted` (cancelled by the caller) says nothing about the endpoint and is not recorded.
+ */
+export type EndpointOutcome = { status: number; retryAfterMs?: number } | { error: unknown } | { aborted: true };
+
+export type EndpointLease = {
+  index: number;
+  endpoint: PoolEndpoint;
+  /** Report the outcome and free the endpoint's in-flight slot. Only the first call counts. */
+  release(outcome: EndpointOutcome): void;
+};
+
+/** Health snapshot of one endpoint; keys are reduced to their last four characters */
+export type EndpointStatus = {
+  index: number;
+  baseURL?: string;
+  keyHint?: string;
+  inFlight: number;
+  consecutiveFailures: number;
+  healthy: boolean;
+  coolingDown: boolean;
+  /** Epoch ms until which the endpoint is skipped, when cooling down or unhealthy */
+  availableAt?: number;
+};
+
+export type EndpointPool = {
+  acquire(): EndpointLease;
+  status(): EndpointStatus[];
+};
+
+type EndpointState = {
+  inFlight: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  unhealthyUntil: number;
+};
+
+const DEFAULT_COOLDOWN_MS = 30_000;
+const DEFAULT_UNHEALTHY_AFTER = 3;
+const DEFAULT_UNHEALTHY_MS = 60_000;
+
+function availableAt(state: EndpointState): number {
+  return Math.max(state.cooldownUntil, state.unhealthyUntil);
+}
+
+/** Rejected credentials; the key is taken out of rotation without waiting for more failures */
+function isAuthFailure(outcome: EndpointOutcome): boolean {
+  if ("status" in outcome) {
+    return outcome.status === 401 || outcome.status === 403;
+  }
+  return false;
+}
+
+function isHealthFailure(outcome: EndpointOutcome): boolean {
+  if ("error" in outcome) {
+    return true;
+  }
+  if (isAuthFailure(outcome)) {
+    return true;
+  }
+  return "status" in outcome ? outcome.status >= 500 : false;
+}
+
+/**
+ * Create a pool over `options.endpoints`.
+ *
+ * @param options - Endpoints and selection/health settings
+ * @param now - Clock, for tests
+ * @returns Pool handing out endpoint leases
+ */
+export function createEndpointPool(options: EndpointPoolOptions, now: () => number = Date.now): EndpointPool {
+  if (options.endpoints.length === 0) {
+    throw new Error("Endpoint pool requires at least one endpoint");
+  }
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const unhealthyAfter = options.unhealthyAfter ?? DEFAULT_UNHEALTHY_AFTER;
+  const unhealthyMs = options.unhealthyMs ?? DEFAULT_UNHEALTHY_MS;
+  const states: EndpointState[] = options.endpoints.map(() => ({
+    inFlight: 0,
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    unhealthyUntil: 0,
+  }));
+  const cursor = { next: 0 };
+
+  /** Indexes in round-robin order starting at the cursor */
+  function rotation(): number[] {
+    const start = cursor.next % states.length;
+    return states.map((_, offset) => (start + offset) % states.length);
+  }
+
+  function pick(): number {
+    const order = rotation();
+    const ready = order.filter((index) => availableAt(states[index]!) <= now());
+    if (ready.length === 0) {
+      // Everything is resting: use the endpoint that recovers first rather than failing locally
+      return order.reduce((best, index) => (availableAt(states[index]!) < availableAt(states[best]!) ? index : best));
+    }
+    if (options.strategy === "least-in-flight") {
+      return ready.reduce((best, index) => (states[index]!.inFlight < states[best]!.inFlight ? index : best));
+    }
+    return ready[0]!;
+  }
+
+  function record(state: EndpointState, outcome: EndpointOutcome): void {
+    if ("aborted" in outcome) {
+      return;
+    }
+    if ("status" in outcome && outcome.status === 429) {
+      state.cooldownUntil = now() + (outcome.retryAfterMs ?? cooldownMs);
+      return;
+    }
+    if (!isHealthFailure(outcome)) {
+      // A served request shows the endpoint is usable again, whatever it was resting for
+      state.consecutiveFailures = 0;
+      state.cooldownUntil = 0;
+      state.unhealthyUntil = 0;
+      return;
+    }
+    state.consecutiveFailures += 1;
+    if (isAuthFailure(outcome) || state.consecutiveFailures >= unhealthyAfter) {
+      state.unhealthyUntil = now() + unhealthyMs;
+    }
+  }
+
+  return {
+    acquire() {
+      const index = pick();
+      cursor.next = index + 1;
+      const state = states[index]!;
+      state.inFlight += 1;
+      const lease = { released: false };
+      return {
+        index,
+        endpoint: options.endpoints[index]!,
+        release(outcome) {
+          if (lease.released) {
+            return;
+          }
+          lease.released = true;
+          state.inFlight -= 1;
+          record(state, outcome);
+        },
+      };
+    },
+    status() {
+      const at = now();
+      return states.map((state, index) => {
+        const endpoint = options.endpoints[index]!;
+        const status: EndpointStatus = {
+          index,
+          inFlight: state.inFlight,
+          consecutiveFailures: state.consecutiveFailures,
+          healthy: state.unhealthyUntil <= at,
+          coolingDown: state.cooldownUntil > at,
+        };
+        if (endpoint.baseURL) {
+          status.baseURL = endpoint.baseURL;
+        }
+        if (endpoint.apiKey) {
+          status.keyHint = endpoint.apiKey.slice(-4);
+        }
+        if (availableAt(state) > at) {
+          status.availableAt = availableAt(state);
+        }
+        return status;
+      });
+    },
+  };
+}
+
+const pools = new WeakMap<EndpointPoolOptions, EndpointPool>();
+
+/**
+ * Shared pool of a provider, created on first use.
+ *
+ * @param provider - Provider configuration
+ * @returns The pool for `provider.pool`, or undefined when the provider has none
+ */
+export function getEndpointPool(provider: Provider): EndpointPool | undefined {
+  if (!provider.pool) {
+    return undefined;
+  }
+  const existing = pools.get(provider.pool);
+  if (existing) {
+    return existing;
+  }
+  const pool = createEndpointPool(provider.pool);
+  pools.set(provider.pool, pool);
+  return pool;
+}
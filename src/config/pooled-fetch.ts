@@ -0,0 +1,139 @@
+/**
+ * @file `fetch` wrapper that sends each upstream request through a provider's endpoint pool.
+ * SDK clients (OpenAI, Anthropic) and the Gemini fetch client are built once with the
+ * provider's primary key and base URL; this wrapper swaps in the leased endpoint per request.
+ */
+import { getEndpointPool } from "./endpoint-pool";
+import type { EndpointLease, EndpointOutcome, EndpointPool } from "./endpoint-pool";
+import type { PoolEndpoint, Provider } from "./types";
+import { retryAfterMsFromHeaders } from "../utils/retry-after";
+
+export type PooledFetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+const AUTH_HEADERS = ["x-api-key", "x-goog-api-key"];
+
+function withoutTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/** Point `url` at the endpoint's base URL, keeping the path below the client's own base */
+function rewriteURL(url: URL, clientBaseURL: string, endpoint: PoolEndpoint): URL {
+  if (!endpoint.baseURL) {
+    return url;
+  }
+  const from = withoutTrailingSlash(clientBaseURL);
+  if (!url.href.startsWith(from)) {
+    return url;
+  }
+  return new URL(withoutTrailingSlash(endpoint.baseURL) + url.href.slice(from.length));
+}
+
+/** Replace whichever credential the client sent (bearer token, key header or `key` query) */
+function rewriteAuth(url: URL, headers: Headers, apiKey: string | undefined): void {
+  if (apiKey === undefined) {
+    return;
+  }
+  if (headers.has("authorization")) {
+    headers.set("authorization", `Bearer ${apiKey}`);
+  }
+  for (const name of AUTH_HEADERS) {
+    if (headers.has(name)) {
+      headers.set(name, apiKey);
+    }
+  }
+  if (url.searchParams.has("key")) {
+    url.searchParams.set("key", apiKey);
+  }
+}
+
+function outcomeOf(response: Response): EndpointOutcome {
+  if (response.status === 429) {
+    const retryAfterMs = retryAfterMsFromHeaders(response.headers);
+    return retryAfterMs === undefined ? { status: 429 } : { status: 429, retryAfterMs };
+  }
+  return { status: response.status };
+}
+
+/** Keep the lease until the body is read to the end, fails or is cancelled (streams stay in flight) */
+function releaseAfterBody(response: Response, lease: EndpointLease, aborted: () => boolean): Response {
+  const outcome = outcomeOf(response);
+  if (!response.body) {
+    lease.release(outcome);
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await reader.read();
+        if (next.done) {
+          lease.release(outcome);
+          controller.close();
+          return;
+        }
+        controller.enqueue(next.value);
+      } catch (error) {
+        lease.release(aborted() ? { aborted: true } : { error });
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      lease.release(outcome);
+      await reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+function isAborted(init: RequestInit | undefined, original: Request | undefined): boolean {
+  if (init?.signal?.aborted) {
+    return true;
+  }
+  return original?.signal.aborted === true;
+}
+
+/**
+ * Wrap `baseFetch` so every request goes to an endpoint leased from `pool`.
+ *
+ * @param pool - Endpoint pool
+ * @param clientBaseURL - Base URL the wrapped client was built with; replaced by the endpoint's base URL
+ * @param baseFetch - Underlying fetch
+ * @returns Fetch function for an SDK `fetch` option or `GeminiFetchClient.fetchImpl`
+ */
+export function createPooledFetch(
+  pool: EndpointPool,
+  clientBaseURL: string,
+  baseFetch: PooledFetch = fetch,
+): PooledFetch {
+  return async (input, init) => {
+    const lease = pool.acquire();
+    const original = input instanceof Request ? input : undefined;
+    const url = rewriteURL(new URL(original ? original.url : String(input)), clientBaseURL, lease.endpoint);
+    const headers = new Headers(init?.headers ?? original?.headers);
+    rewriteAuth(url, headers, lease.endpoint.apiKey);
+    const aborted = (): boolean => isAborted(init, original);
+    try {
+      const target = original ? new Request(url, original) : url;
+      const response = await baseFetch(target, { ...init, headers });
+      return releaseAfterBody(response, lease, aborted);
+    } catch (error) {
+      lease.release(aborted() ? { aborted: true } : { error });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Pooled fetch for a client of `provider`, or undefined when the provider has no pool.
+ *
+ * @param provider - Provider configuration
+ * @param clientBaseURL - Base URL the client is built with (its default when the provider sets none)
+ * @returns Value for the client's fetch option
+ */
+export function pooledFetchFor(provider: Provider, clientBaseURL: string): PooledFetch | undefined {
+  const pool = getEndpointPool(provider);
+  if (!pool) {
+    return undefined;
+  }
+  return createPooledFetch(pool, clientBaseURL);
+}
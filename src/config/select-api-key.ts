@@ -8,6 +8,8 @@ import type { Provider } from "./types";
 /**
  * Selects the appropriate API key based on provider configuration and model hint.
  * Supports model-specific keys through prefix matching for multi-key scenarios.
+ * With an endpoint pool, the first pooled key is the fallback; clients built with it get a
+ * pooled fetch (see pooled-fetch) that swaps in the leased key per request.
  * @param provider - Provider configuration containing API key(s)
  * @param modelHint - Optional model name to match against prefix rules
  * @returns Selected API key or undefined if none found
@@ -27,5 +29,5 @@ export function selectApiKey(provider: Provider, modelHint?: string): string | u
     }
   }
 
-  return undefined;
+  return provider.pool?.endpoints.find((endpoint) => endpoint.apiKey)?.apiKey;
 }
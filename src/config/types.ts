@@ -30,6 +30,170 @@ export type ModelMapping = {
   aliases?: Record<string, string>;
 };
 
+/**
+ * Which sampling parameters a model accepts. Unsupported parameters are removed
+ * from requests instead of being sent upstream and rejected.
+ */
+export type SamplingSupport = {
+  temperature: boolean;
+  top_p: boolean;
+  top_k: boolean;
+  seed: boolean;
+  stop: boolean;
+  frequency_penalty: boolean;
+  presence_penalty: boolean;
+  /**
+   * Whether `top_p` may be sent together with `temperature`. When false and both are set,
+   * `top_p` is dropped (newer Claude models reject the pair).
+   * @default true
+   */
+  top_p_with_temperature?: boolean;
+};
+
+/**
+ * Retries of failed upstream calls. Applies to non-streaming calls and to streams that fail
+ * before their first event; a stream that has produced output is never replayed.
+ *
+ * Example:
+ * { maxAttempts: 4, initialDelayMs: 250, retryOnStatus: [429, 503] }
+ */
+export type RetryPolicy = {
+  /**
+   * Total attempts, including the first call.
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry; each later retry multiplies it by `backoffMultiplier`.
+   * @default 500
+   */
+  initialDelayMs?: number;
+  /** @default 2 */
+  backoffMultiplier?: number;
+  /**
+   * Upper bound of a single delay. A `retry-after` longer than this is not waited for; the
+   * error is thrown instead so callers (e.g. a router) can move on.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomize each backoff delay between 0 and its computed value ("full jitter").
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * HTTP statuses worth retrying.
+   * @default [408, 409, 429, 500, 502, 503, 504, 529]
+   */
+  retryOnStatus?: number[];
+  /**
+   * Error codes worth retrying regardless of status: network errno codes (`ECONNRESET`) or
+   * upstream API codes. Connection failures without a status are always retried.
+   * @default ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"]
+   */
+  retryOnCodes?: string[];
+  /**
+   * Wait for the upstream `retry-after` (or `retry-after-ms`) instead of the backoff delay.
+   * @default true, or false with an endpoint pool (the retry goes to another endpoint)
+   */
+  respectRetryAfter?: boolean;
+};
+
+/** One key and/or base URL of an endpoint pool; unset fields fall back to the provider's */
+export type PoolEndpoint = {
+  apiKey?: string;
+  baseURL?: string;
+};
+
+/**
+ * Several keys or regional endpoints serving one provider. Each upstream request picks an
+ * endpoint; endpoints answering 429 cool down, and endpoints that keep failing are skipped
+ * for a while.
+ *
+ * Example:
+ * {
+ *   endpoints: [{ apiKey: "k1" }, { apiKey: "k2", baseURL: "https://eu.example.com/v1" }],
+ *   strategy: "least-in-flight"
+ * }
+ */
+export type EndpointPoolOptions = {
+  endpoints: PoolEndpoint[];
+  /**
+   * "round-robin" rotates through healthy endpoints; "least-in-flight" picks the one with the
+   * fewest open requests (streams count until they end).
+   * @default "round-robin"
+   */
+  strategy?: "round-robin" | "least-in-flight";
+  /**
+   * How long an endpoint rests after a 429 without `retry-after`.
+   * @default 30000
+   */
+  cooldownMs?: number;
+  /**
+   * Consecutive failures (5xx, connection errors) after which an endpoint is marked unhealthy.
+   * 401/403 mark it unhealthy at once.
+   * @default 3
+   */
+  unhealthyAfter?: number;
+  /**
+   * How long an unhealthy endpoint is skipped before it is tried again.
+   * @default 60000
+   */
+  unhealthyMs?: number;
+};
+
+/** Client-side limits for one scope (a whole provider or a model prefix) */
+export type RateLimit = {
+  /** Requests started per minute, refilled continuously */
+  requestsPerMinute?: number;
+  /** Estimated prompt tokens sent per minute, refilled continuously */
+  tokensPerMinute?: number;
+  /** Streams open at once; a stream holds its slot until it ends */
+  maxConcurrentStreams?: number;
+};
+
+/**
+ * Throttling of calls to a provider. Calls wait in first-come order until every limit of their
+ * scope allows them.
+ *
+ * Example:
+ * {
+ *   requestsPerMinute: 500,
+ *   tokensPerMinute: 200000,
+ *   byModelPrefix: { "gpt-4o-mini": { requestsPerMinute: 2000 } }
+ * }
+ */
+export type RateLimitOptions = RateLimit & {
+  /**
+   * Separate limits for models matching a prefix (longest prefix wins). Matching models use
+   * only these limits, not the provider-wide ones.
+   */
+  byModelPrefix?: Record<string, RateLimit>;
+};
+
+/**
+ * Circuit breaker around a provider's base URL. Once enough calls in the window fail with
+ * outage-like errors (connection failures, timeouts, 5xx), calls fail at once with
+ * `CircuitOpenError` until `openMs` has passed; then a few probe calls decide whether to close.
+ */
+export type CircuitBreakerOptions = {
+  /** Sliding window over which the failure rate is measured. Default: 60000 */
+  windowMs?: number;
+  /** Calls needed in the window before the breaker may open. Default: 10 */
+  minimumRequests?: number;
+  /** Failure rate (0-1) that opens the breaker. Default: 0.5 */
+  failureRateThreshold?: number;
+  /** How long the breaker stays open before probing. Default: 30000 */
+  openMs?: number;
+  /** Calls let through at once while half-open; a whole number of at least 1. Default: 1 */
+  halfOpenProbes?: number;
+  /**
+   * How long a probe may run before its slot is given to another call, so a hung call or an
+   * unread stream cannot keep the circuit half-open. Default: 60000
+   */
+  probeTimeoutMs?: number;
+};
+
 export type Provider = {
   /**
    * Provider type identifier. Built-ins: "openai", "claude", "gemini".
@@ -47,6 +211,13 @@ export type Provider = {
    */
   modelMapping?: ModelMapping;
 
+  /**
+   * Embedding model ID for requests that cross API surfaces, whose model ids this provider
+   * does not serve (e.g. `text-embedding-3-small` from an OpenAI client against Gemini).
+   * Aliases in `modelMapping` take precedence.
+   */
+  embeddingModel?: string;
+
   /**
    * Base URL for the provider endpoint (e.g. https://api.openai.com/v1).
    * Required for OpenAI-compatible third-party endpoints.
@@ -64,6 +235,29 @@ export type Provider = {
    */
   defaultHeaders?: Record<string, string>;
 
+  /**
+   * Spread requests over several API keys and/or base URLs. Endpoint health is shared by every
+   * client built from the same `pool` object.
+   */
+  pool?: EndpointPoolOptions;
+
+  /**
+   * Client-side rate limits. State is shared by every client built from the same `rateLimit` object.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Circuit breaker per base URL. State is shared by every client built from the same
+   * `circuitBreaker` object and base URL.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Retry policy for calls to this provider. When set, the SDKs' built-in retries are turned
+   * off so attempts are not multiplied.
+   */
+  retry?: RetryPolicy;
+
   /**
    * Low-level API behavior.
    */
@@ -78,6 +272,15 @@ export type Provider = {
      */
     keyByModelPrefix?: Record<string, string>;
   };
+  /**
+   * Override which sampling parameters are forwarded, by model prefix.
+   * The longest matching prefix wins; unlisted parameters keep the built-in
+   * defaults for the model (see model/sampling).
+   *
+   * Example:
+   * { "llama": { top_k: true }, "gpt-4o-audio": { seed: false } }
+   */
+  samplingByModelPrefix?: Record<string, Partial<SamplingSupport>>;
   /**
    * OpenAI compatibility meta options to control adapter behavior.
    * These options affect how the OpenAI-compatible factory routes requests
@@ -116,6 +319,13 @@ export type Provider = {
      * @default false
      */
     autoFallbackToEmulator?: boolean;
+
+    /**
+     * Serve legacy /v1/completions by emulating it on Chat Completions.
+     * Use this when the upstream no longer offers the text completions endpoint.
+     * @default false
+     */
+    emulateCompletionsWithChat?: boolean;
   };
   /** Node-backed coding agent configuration (CLI runners). Not used on web builds. */
   codingAgent?: {
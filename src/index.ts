@@ -7,6 +7,7 @@ export const version = "0.1.0";
 
 // Core client builder and types
 export { buildOpenAICompatibleClient } from "./adapters/openai-client";
+export type { BuildOpenAICompatibleClientOptions } from "./adapters/openai-client";
 export type { OpenAICompatibleClient } from "./adapters/openai-client-types";
 export type {
   ResponseCreateParams,
@@ -18,5 +19,32 @@ export type {
   ChatCompletionCreateParamsStreaming,
 } from "./adapters/openai-client-types";
 
+// Several keys/endpoints per provider (Provider.pool)
+export { getEndpointPool } from "./config/endpoint-pool";
+export type { EndpointPool, EndpointStatus } from "./config/endpoint-pool";
+export type { EndpointPoolOptions, PoolEndpoint } from "./config/types";
+
+// Retries of failed upstream calls (Provider.retry)
+export { withRetry } from "./adapters/retry";
+export type { RetryPolicy } from "./config/types";
+
+// Client-side rate limits and stream concurrency (Provider.rateLimit)
+export { getRateLimiter, PROVIDER_SCOPE, withRateLimit } from "./adapters/rate-limit";
+export type { ProviderRateLimiter, RateLimiterMetrics } from "./adapters/rate-limit";
+export type { RateLimit, RateLimitOptions } from "./config/types";
+
+// Circuit breakers around upstream providers (Provider.circuitBreaker)
+export { CircuitOpenError, getCircuitBreaker, withCircuitBreaker } from "./adapters/circuit-breaker";
+export type { CircuitBreaker, CircuitBreakerStatus, CircuitState } from "./adapters/circuit-breaker";
+export type { CircuitBreakerOptions } from "./config/types";
+
+// Failover across several providers
+export { buildRouterClient, classifyFailure, DEFAULT_FAILOVER_CLASSES } from "./adapters/router";
+export type { FailureClass, RouterFailoverEvent, RouterOptions } from "./adapters/router";
+
 // OpenAI-compatible adapters entry (generic/passthrough)
 export { buildOpenAIGenericAdapter } from "./adapters/openai-compatible";
+
+// Responses API conversation state (previous_response_id / store)
+export { createInMemoryResponseStore, withResponseStore } from "./adapters/response-store";
+export type { ResponseStore, StoredResponse } from "./adapters/response-store";
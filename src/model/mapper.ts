@@ -88,6 +88,23 @@ export function mapModelToProvider(params: {
   return resolveWithDefaults(sourceModel, defaultModel, provider);
 }
 
+/**
+ * Resolves the embedding model for a provider.
+ * Grade mapping is skipped because it picks chat models; order is alias, `provider.embeddingModel`,
+ * then the requested id (with any `models/` prefix removed).
+ */
+export function resolveEmbeddingModel(provider: Provider, requested?: string): string {
+  const model = normalizeModelName(requested);
+  const aliases = getProviderModelMappingFrom(provider)?.aliases;
+  if (model && aliases?.[model]) {
+    return aliases[model];
+  }
+  if (provider.embeddingModel) {
+    return provider.embeddingModel;
+  }
+  return model ? model : "";
+}
+
 /**
  * Async model resolution that uses provider.listModels() to select by grade.
  * Falls back to config and minimal defaults if the list is unavailable.
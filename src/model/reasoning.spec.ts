@@ -0,0 +1,18 @@
+/**
+ * @file Tests for the reasoning model table
+ */
+import { supportsReasoning } from "./reasoning";
+
+describe("supportsReasoning", () => {
+  it("accepts reasoning models of each vendor", () => {
+    for (const model of ["o3", "o4-mini", "gpt-5", "claude-3-7-sonnet-latest", "claude-sonnet-4-5", "gemini-2.5-pro"]) {
+      expect(supportsReasoning(model)).toBe(true);
+    }
+  });
+
+  it("rejects models that would answer reasoning params with a 400", () => {
+    for (const model of ["gpt-4o", "gpt-4.1", "gpt-5-chat-latest", "claude-3-5-sonnet-latest", "gemini-2.0-flash"]) {
+      expect(supportsReasoning(model)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @file Which models accept reasoning controls (OpenAI `reasoning`, Claude `thinking`, Gemini `thinkingConfig`).
+ * Models without them reject the request outright, so converters only forward reasoning where it is known to work.
+ */
+
+const REASONING_MODELS: ReadonlyArray<RegExp> = [
+  // OpenAI o-series and GPT-5 (the chat variants are not reasoning models)
+  /^(openai\/)?(o\d|gpt-5(?!-chat))/,
+  // Claude 3.7 and every 4.x family
+  /claude-(3-7|(opus|sonnet|haiku)-[4-9])/,
+  // Gemini 2.5 and later think by default
+  /gemini-(2\.5|[3-9])/,
+];
+
+/**
+ * Whether a model accepts reasoning controls.
+ *
+ * @param model - Model identifier the request is sent to
+ * @returns True for known reasoning models
+ */
+export function supportsReasoning(model: string): boolean {
+  const id = model.toLowerCase();
+  return REASONING_MODELS.some((pattern) => pattern.test(id));
+}
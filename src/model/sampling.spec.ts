@@ -0,0 +1,58 @@
+/**
+ * @file Tests for the per-model sampling parameter policy
+ */
+import { filterSamplingParams, resolveSamplingSupport } from "./sampling";
+
+describe("resolveSamplingSupport", () => {
+  it("strips sampling controls only for OpenAI reasoning models", () => {
+    expect(resolveSamplingSupport("o3-mini").temperature).toBe(false);
+    expect(resolveSamplingSupport("gpt-5").top_p).toBe(false);
+    expect(resolveSamplingSupport("gpt-5-chat-latest").temperature).toBe(true);
+    expect(resolveSamplingSupport("gpt-4o").temperature).toBe(true);
+  });
+
+  it("reflects provider-specific parameters", () => {
+    expect(resolveSamplingSupport("claude-sonnet-4")).toMatchObject({
+      top_k: true,
+      seed: false,
+      presence_penalty: false,
+    });
+    expect(resolveSamplingSupport("gemini-2.5-flash")).toMatchObject({ top_k: true, seed: true });
+    expect(resolveSamplingSupport("gpt-4o").top_k).toBe(false);
+  });
+
+  it("applies the longest matching provider override", () => {
+    const provider = { samplingByModelPrefix: { llama: { top_k: true }, "llama-3.1": { top_k: false, seed: false } } };
+    expect(resolveSamplingSupport("llama-3.1-8b", provider)).toMatchObject({
+      top_k: false,
+      seed: false,
+      temperature: true,
+    });
+    expect(resolveSamplingSupport("llama-2", provider).top_k).toBe(true);
+  });
+});
+
+describe("filterSamplingParams", () => {
+  it("removes unsupported parameters and keeps everything else", () => {
+    const params = { model: "o3", input: "hi", temperature: 0.3, top_p: 0.9, max_output_tokens: 10 };
+    expect(filterSamplingParams(params, resolveSamplingSupport("o3"))).toEqual({
+      model: "o3",
+      input: "hi",
+      max_output_tokens: 10,
+    });
+    expect(filterSamplingParams(params, resolveSamplingSupport("gpt-4o"))).toEqual(params);
+  });
+
+  it("drops top_p when Claude also gets a temperature", () => {
+    const support = resolveSamplingSupport("claude-sonnet-4-5");
+    expect(filterSamplingParams({ model: "claude-sonnet-4-5", temperature: 0.2, top_p: 0.9 }, support)).toEqual({
+      model: "claude-sonnet-4-5",
+      temperature: 0.2,
+    });
+    expect(filterSamplingParams({ model: "claude-sonnet-4-5", temperature: null, top_p: 0.9 }, support)).toEqual({
+      model: "claude-sonnet-4-5",
+      temperature: null,
+      top_p: 0.9,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @file Sampling parameter policy per model.
+ * A declarative table decides which of temperature/top_p/top_k/seed/stop/penalties each model
+ * accepts, so adapters forward them where supported and strip them only where upstream would
+ * reject them (e.g. OpenAI reasoning models). Providers may override entries by model prefix.
+ */
+import type { Provider, SamplingSupport } from "../config/types";
+
+/** Sampling parameter names, in OpenAI Chat Completions spelling. */
+export const SAMPLING_PARAMS = [
+  "temperature",
+  "top_p",
+  "top_k",
+  "seed",
+  "stop",
+  "frequency_penalty",
+  "presence_penalty",
+] as const satisfies ReadonlyArray<keyof SamplingSupport>;
+
+/** Non-standard sampling fields accepted on OpenAI-shaped requests and mapped where a provider has them. */
+export type SamplingExtensions = {
+  top_k?: number | null;
+};
+
+const NONE: SamplingSupport = {
+  temperature: false,
+  top_p: false,
+  top_k: false,
+  seed: false,
+  stop: false,
+  frequency_penalty: false,
+  presence_penalty: false,
+};
+
+/** First matching rule wins; the last rule is the OpenAI-compatible default. */
+const SAMPLING_RULES: ReadonlyArray<{ pattern: RegExp; support: SamplingSupport }> = [
+  // OpenAI reasoning models reject sampling controls outright
+  { pattern: /^(openai\/)?(o\d|gpt-5(?!-chat))/, support: NONE },
+  // Claude accepts temperature or top_p, and newer models reject both at once
+  {
+    pattern: /claude/,
+    support: { ...NONE, temperature: true, top_p: true, top_k: true, stop: true, top_p_with_temperature: false },
+  },
+  {
+    pattern: /gemini|gemma/,
+    support: {
+      temperature: true,
+      top_p: true,
+      top_k: true,
+      seed: true,
+      stop: true,
+      frequency_penalty: true,
+      presence_penalty: true,
+    },
+  },
+  {
+    pattern: /.*/,
+    support: {
+      temperature: true,
+      top_p: true,
+      top_k: false,
+      seed: true,
+      stop: true,
+      frequency_penalty: true,
+      presence_penalty: true,
+    },
+  },
+];
+
+function builtInSupport(model: string): SamplingSupport {
+  const id = model.toLowerCase();
+  const rule = SAMPLING_RULES.find((r) => r.pattern.test(id));
+  return rule ? rule.support : NONE;
+}
+
+function overrideFor(
+  model: string,
+  provider: Pick<Provider, "samplingByModelPrefix"> | undefined,
+): Partial<SamplingSupport> | undefined {
+  const table = provider?.samplingByModelPrefix;
+  if (!table) {
+    return undefined;
+  }
+  const prefixes = Object.keys(table).sort((a, b) => b.length - a.length);
+  const match = prefixes.find((prefix) => model.startsWith(prefix));
+  return match !== undefined ? table[match] : undefined;
+}
+
+/**
+ * Resolves which sampling parameters a model accepts.
+ * Built-in rules come first; the provider's `samplingByModelPrefix` entry (longest prefix) overrides them.
+ *
+ * @param model - Model identifier the request is sent to
+ * @param provider - Provider configuration carrying optional overrides
+ * @returns Support flags for every sampling parameter
+ */
+export function resolveSamplingSupport(
+  model: string,
+  provider?: Pick<Provider, "samplingByModelPrefix">,
+): SamplingSupport {
+  return { ...builtInSupport(model), ...overrideFor(model, provider) };
+}
+
+function isSet(params: object, key: string): boolean {
+  const value: unknown = Reflect.get(params, key);
+  return value !== undefined && value !== null;
+}
+
+/**
+ * Removes sampling parameters the target model does not accept, and `top_p` when the model
+ * takes only one of `temperature` and `top_p` and both are set.
+ * Other fields pass through untouched, so this works for Chat Completions and Responses params alike.
+ *
+ * @param params - Request parameters
+ * @param support - Support flags from {@link resolveSamplingSupport}
+ * @returns A shallow copy without unsupported sampling parameters
+ */
+export function filterSamplingParams<T extends object>(params: T, support: SamplingSupport): T {
+  const out = { ...params };
+  for (const key of SAMPLING_PARAMS) {
+    if (support[key]) {
+      continue;
+    }
+    Reflect.deleteProperty(out, key);
+  }
+  if (support.top_p_with_temperature === false && ["temperature", "top_p"].every((key) => isSet(out, key))) {
+    Reflect.deleteProperty(out, "top_p");
+  }
+  return out;
+}
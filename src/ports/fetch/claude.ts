@@ -5,8 +5,15 @@ import type { Provider } from "../../config/types";
 import { buildOpenAICompatibleClient } from "../../adapters/openai-client";
 import type { OpenAICompatibleClient } from "../../adapters/openai-client-types";
 import { bodyToText } from "./utils/body";
-import { createFetchHandler, errorResponse, jsonResponse } from "./utils/http";
+import { createFetchHandler, jsonResponse } from "./utils/http";
+import type { FetchHandler } from "./utils/http";
+import { exceptionResponse, renderErrorResponse } from "./utils/errors";
 import { createSSEResponse, isAsyncIterable } from "./utils/sse-builder";
+import { createClaudeTokenCounter } from "./utils/count-tokens";
+import { withInboundAuth } from "./utils/inbound-auth";
+import type { InboundAuthOptions } from "./utils/inbound-auth";
+import { withMiddleware } from "./utils/middleware";
+import type { EndpointMiddleware, RouteContext } from "./utils/middleware";
 
 // Import adapters for conversion
 import type { Response as OpenAIResponse, ResponseStreamEvent } from "openai/resources/responses/responses";
@@ -17,67 +24,91 @@ import { resolveModelForProvider } from "../../model/mapper";
 export type RouteHandler = (pathname: string, init?: RequestInit) => Promise<Response>;
 
 const parseBody = async (init: RequestInit) => {
-  try {
-    const raw = await bodyToText(init.body);
-    return JSON.parse(String(raw));
-  } catch (error) {
-    return errorResponse(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
-  }
+  const raw = await bodyToText(init.body);
+  return JSON.parse(String(raw));
 };
 
+/** Anthropic-shaped error response (`{ type: "error", error: { type, message } }`). */
+const claudeError = (status: number, message: string): Response => renderErrorResponse("claude", { status, message });
+
 /**
  * Emulate Anthropic Claude endpoint surface using OpenAI-compatible backend:
  *  - POST /v1/messages -> Responses API (primary) with Chat Completions fallback
- *  - POST /v1/messages/count_tokens -> optional handler
+ *  - POST /v1/messages/count_tokens -> backend's native counter (Anthropic, Gemini) or a local
+ *    o200k estimate; `handleCountTokens` replaces the built-in implementation
  *  - GET  /v1/models  -> models from backend
+ *
+ * Errors use the Anthropic envelope and keep upstream status, `retry-after` and request id.
+ * `middleware` runs around every route. With `auth`, callers must present one of the configured
+ * keys, which selects the upstream and the allowed models.
  */
-export function emulateClaudeEndpoint(options: { provider: Provider; handleCountTokens?: RouteHandler }) {
+export function emulateClaudeEndpoint(options: {
+  provider: Provider;
+  handleCountTokens?: RouteHandler;
+  middleware?: EndpointMiddleware[];
+  auth?: InboundAuthOptions;
+}): FetchHandler {
+  const { auth, ...rest } = options;
+  if (auth) {
+    return createFetchHandler(
+      withInboundAuth({
+        surface: "claude",
+        auth,
+        provider: rest.provider,
+        build: (provider, policy) =>
+          emulateClaudeEndpoint({ ...rest, provider, middleware: [policy, ...(rest.middleware ?? [])] }),
+      }),
+    );
+  }
   const { provider, handleCountTokens } = options;
   const client: OpenAICompatibleClient = buildOpenAICompatibleClient(provider, provider.model);
+  const countTokens = createClaudeTokenCounter(provider);
 
-  return createFetchHandler(async (url: URL, init?: RequestInit): Promise<Response> => {
+  const route = async (url: URL, init: RequestInit | undefined, context: RouteContext): Promise<Response> => {
     if (url.pathname === "/v1/messages") {
       if (!init?.method || init.method.toUpperCase() !== "POST") {
-        return errorResponse(405, "Only POST is supported for /v1/messages", "method_not_allowed");
+        return claudeError(405, "Only POST is supported for /v1/messages");
       }
       if (!init.body) {
-        return errorResponse(400, "Missing request body");
+        return claudeError(400, "Missing request body");
       }
 
       try {
-        const claudeReq = await parseBody(init);
+        const claudeReq = await context.body("claude.messages", await parseBody(init));
         const model = await resolveModelForProvider({ provider, sourceModel: claudeReq.model });
         // Use Responses API directly without fallback
         const responsesParams = claudeToResponsesLocal(claudeReq, model);
         console.log(responsesParams);
-        const result = await client.responses.create(responsesParams);
+        const result = await client.responses.create(responsesParams, { signal: init.signal ?? undefined });
 
         if (claudeReq.stream || isAsyncIterable(result)) {
           const stream = openAIToClaudeStream(result as AsyncIterable<ResponseStreamEvent>, `msg_${Date.now()}`);
-          return createSSEResponse(stream);
+          return createSSEResponse(context.stream("claude.messages", stream), "claude");
         }
 
         const claudeMessage = openAINonStreamToClaudeMessage(result as OpenAIResponse, `msg_${Date.now()}`, model);
         return jsonResponse(claudeMessage);
       } catch (error) {
-        return errorResponse(
-          500,
-          `Request processing failed: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        return exceptionResponse("claude", error);
       }
     }
 
     if (url.pathname === "/v1/messages/count_tokens") {
-      if (!handleCountTokens) {
-        return errorResponse(404, "count_tokens not implemented", "not_found");
-      }
       if (!init?.method || init.method.toUpperCase() !== "POST") {
-        return errorResponse(405, "Only POST is supported for /v1/messages/count_tokens", "method_not_allowed");
+        return claudeError(405, "Only POST is supported for /v1/messages/count_tokens");
       }
       if (!init.body) {
-        return errorResponse(400, "Missing request body");
+        return claudeError(400, "Missing request body");
+      }
+      try {
+        const countReq = await context.body("claude.count_tokens", await parseBody(init));
+        if (handleCountTokens) {
+          return handleCountTokens(url.pathname, { ...init, body: JSON.stringify(countReq) });
+        }
+        return jsonResponse(await countTokens(countReq, { signal: init.signal ?? undefined }));
+      } catch (error) {
+        return exceptionResponse("claude", error);
       }
-      return handleCountTokens(url.pathname, init);
     }
 
     if (url.pathname === "/v1/models") {
@@ -85,12 +116,12 @@ export function emulateClaudeEndpoint(options: { provider: Provider; handleCount
         const models = await client.models.list();
         return jsonResponse(models);
       } catch (error) {
-        throw new Error(
-          `Failed to fetch models from Claude provider: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        return exceptionResponse("claude", error);
       }
     }
 
-    return errorResponse(404, `Unhandled path: ${url.pathname}`, "not_found");
-  });
+    return claudeError(404, `Unhandled path: ${url.pathname}`);
+  };
+
+  return createFetchHandler(withMiddleware(route, { surface: "claude", middleware: options.middleware }));
 }
@@ -201,7 +201,7 @@ describe("Gemini fetch emulator integration (fixtures)", () => {
       async generateContent() { throw new Error("not used"); },
       async streamGenerateContent() { throw new Error("not used"); },
       async listModels() { return { models: [] }; },
-      async embedContent() { return { embedding: { value: [0.1, 0.2] } }; },
+      async embedContent() { return { embedding: { values: [0.1, 0.2] } }; },
     };
     const res = await handleGeminiRoute(
       makeURL("/v1beta/models/text-embedding-004:embedContent"),
@@ -209,8 +209,8 @@ describe("Gemini fetch emulator integration (fixtures)", () => {
       adapter,
     );
     expect(res.status).toBe(200);
-    const json = JSON.parse(await res.text()) as { embedding?: { value?: number[] } };
-    expect(Array.isArray(json.embedding?.value)).toBe(true);
+    const json = JSON.parse(await res.text()) as { embedding?: { values?: number[] } };
+    expect(Array.isArray(json.embedding?.values)).toBe(true);
   });
 
   it("handles batchEmbedContents endpoint", async () => {
@@ -218,7 +218,7 @@ describe("Gemini fetch emulator integration (fixtures)", () => {
       async generateContent() { throw new Error("not used"); },
       async streamGenerateContent() { throw new Error("not used"); },
       async listModels() { return { models: [] }; },
-      async batchEmbedContents() { return { embeddings: [{ embedding: { value: [0.1] } }, { embedding: { value: [0.2] } }] }; },
+      async batchEmbedContents() { return { embeddings: [{ values: [0.1] }, { values: [0.2] }] }; },
     };
     const res = await handleGeminiRoute(
       makeURL("/v1beta/models/text-embedding-004:batchEmbedContents"),
@@ -226,7 +226,7 @@ describe("Gemini fetch emulator integration (fixtures)", () => {
       adapter,
     );
     expect(res.status).toBe(200);
-    const json = JSON.parse(await res.text()) as { embeddings?: Array<{ embedding?: { value?: number[] } }> };
+    const json = JSON.parse(await res.text()) as { embeddings?: Array<{ values?: number[] }> };
     expect(json.embeddings?.length).toBe(2);
   });
 
@@ -1,7 +1,10 @@
 /**
  * @file Unit tests for pure Gemini route handler
  */
-import { handleGeminiRoute, type GeminiEndpointAdapter } from "./gemini";
+import { emulateGeminiEndpoint, handleGeminiRoute, type GeminiEndpointAdapter } from "./gemini";
+import { HttpError } from "../../providers/gemini/errors/http-error";
+import { withFakeUpstream } from "../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../test-utils/fake-upstream";
 
 function makeURL(path: string): URL {
   return new URL(`https://example.test${path}`);
@@ -80,4 +83,78 @@ describe("Gemini route handler (pure)", () => {
     expect(JSON.parse(lines[0]).a).toBe(1);
     expect(JSON.parse(lines[1]).b).toBe(2);
   });
+
+  it("returns upstream failures in the Google error envelope", async () => {
+    const adapter: GeminiEndpointAdapter = {
+      async generateContent() { throw new HttpError(429, "quota exceeded", "rate_limited", 7); },
+      async streamGenerateContent() { throw new Error("not used"); },
+      async listModels() { throw new Error("not used"); },
+    };
+    const res = await handleGeminiRoute(
+      makeURL("/v1beta/models/gemini-1.5-flash:generateContent"),
+      toInit("POST", { contents: [{ parts: [{ text: "hi" }] }] }),
+      adapter,
+    );
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("7");
+    expect(await res.json()).toEqual({ error: { code: 429, message: "quota exceeded", status: "RESOURCE_EXHAUSTED" } });
+  });
+
+  it("reports malformed JSON bodies as INVALID_ARGUMENT", async () => {
+    const adapter: GeminiEndpointAdapter = {
+      async generateContent() { throw new Error("not used"); },
+      async streamGenerateContent() { throw new Error("not used"); },
+      async listModels() { throw new Error("not used"); },
+    };
+    const res = await handleGeminiRoute(
+      makeURL("/v1beta/models/gemini-1.5-flash:generateContent"),
+      { method: "POST", body: "{not json" },
+      adapter,
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.status).toBe("INVALID_ARGUMENT");
+  });
+});
+
+/** OpenAI-compatible upstream embedding each input as [text length, dimensions]. */
+const embeddingsUpstream: UpstreamHandler = (request) => {
+  const body = request.body as { model: string; input: string[]; dimensions?: number };
+  const data = body.input.map((text, index) => ({
+    object: "embedding",
+    index,
+    embedding: [text.length, body.dimensions ?? 0],
+  }));
+  return { body: { object: "list", data, model: body.model, usage: { prompt_tokens: 1, total_tokens: 1 } } };
+};
+
+describe("Gemini emulator embeddings over an OpenAI-compatible backend", () => {
+  it("serves embedContent and batchEmbedContents from the OpenAI embeddings API", async () => {
+    await withFakeUpstream(embeddingsUpstream, async ({ origin, requests }) => {
+      const fetchHandler = emulateGeminiEndpoint({
+        provider: {
+          type: "openai",
+          apiKey: "test-key",
+          baseURL: `${origin}/v1`,
+          embeddingModel: "text-embedding-3-small",
+        },
+      });
+      const single = await fetchHandler(
+        "http://local/v1beta/models/text-embedding-004:embedContent",
+        toInit("POST", { content: { parts: [{ text: "hello" }] }, outputDimensionality: 3 }),
+      );
+      expect(single.status).toBe(200);
+      expect(await single.json()).toEqual({ embedding: { values: [5, 3] } });
+
+      const batch = await fetchHandler(
+        "http://local/v1beta/models/text-embedding-004:batchEmbedContents",
+        toInit("POST", { requests: [{ content: { parts: [{ text: "a" }] } }, { content: { parts: [{ text: "bb" }] } }] }),
+      );
+      expect(batch.status).toBe(200);
+      expect(await batch.json()).toEqual({ embeddings: [{ values: [1, 0] }, { values: [2, 0] }] });
+      expect(requests.map((r) => r.body)).toMatchObject([
+        { model: "text-embedding-3-small", input: ["hello"], dimensions: 3 },
+        { model: "text-embedding-3-small", input: ["a", "bb"] },
+      ]);
+    });
+  });
 });
@@ -8,14 +8,25 @@ import type { Provider } from "../../config/types";
 import { buildOpenAICompatibleClientForGemini } from "../../adapters/gemini-to-openai/openai-compatible";
 import type { OpenAICompatibleClient } from "../../adapters/openai-client-types";
 import { createSSEResponse } from "./utils/sse-builder";
-import { errorResponse, jsonResponse, createFetchHandler } from "./utils/http";
+import { jsonResponse, createFetchHandler } from "./utils/http";
+import type { FetchHandler } from "./utils/http";
+import { exceptionResponse, renderErrorResponse } from "./utils/errors";
 import { bodyToText } from "./utils/body";
+import { createNDJSONResponse } from "./utils/ndjson";
+import { withInboundAuth } from "./utils/inbound-auth";
+import type { InboundAuthOptions } from "./utils/inbound-auth";
+import { passthroughRouteContext, withMiddleware } from "./utils/middleware";
+import type { EndpointMiddleware, RouteContext } from "./utils/middleware";
 
 // Programmatic adapter that simulates v1beta endpoints
 import { buildOpenAItoGeminiV1BetaAdapter } from "../../adapters/openai-to-gemini-v1beta";
+import type { GeminiBatchEmbedContentsRequest, GeminiEmbedContentRequest } from "../../adapters/openai-to-gemini-v1beta";
+import { buildOpenAICompatibleClient } from "../../adapters/openai-client";
+import { resolveEmbeddingModel } from "../../model/mapper";
 import type { GenerateContentFn, ListModelsFn, StreamGenerateContentFn } from "../../adapters/openai-to-gemini-v1beta/core/adapter-types";
-import { GeminiFetchClient, type BatchEmbedContentsRequest, type BatchEmbedContentsResponse, type CountTokensRequest, type CountTokensResponse, type EmbedContentRequest, type EmbedContentResponse } from "../../providers/gemini/client/fetch-client";
+import { GEMINI_DEFAULT_BASE_URL, GeminiFetchClient, type BatchEmbedContentsRequest, type BatchEmbedContentsResponse, type CountTokensRequest, type CountTokensResponse, type EmbedContentRequest, type EmbedContentResponse } from "../../providers/gemini/client/fetch-client";
 import { selectApiKey } from "../../config/select-api-key";
+import { pooledFetchFor } from "../../config/pooled-fetch";
 
 export type RouteHandler = (pathname: string, init?: RequestInit) => Promise<Response>;
 
@@ -24,47 +35,53 @@ export type GeminiEndpointAdapter = {
   streamGenerateContent: StreamGenerateContentFn;
   listModels: ListModelsFn;
   countTokens?: (model: string, body: CountTokensRequest) => Promise<CountTokensResponse>;
-  embedContent?: (model: string, body: EmbedContentRequest) => Promise<EmbedContentResponse>;
-  batchEmbedContents?: (model: string, body: BatchEmbedContentsRequest) => Promise<BatchEmbedContentsResponse>;
+  embedContent?: (model: string, body: EmbedContentRequest, options?: { signal?: AbortSignal }) => Promise<EmbedContentResponse>;
+  batchEmbedContents?: (model: string, body: BatchEmbedContentsRequest, options?: { signal?: AbortSignal }) => Promise<BatchEmbedContentsResponse>;
   listTunedModels?: () => Promise<{ tunedModels: Array<{ name: string; displayName?: string; description?: string }> }>;
   getTunedModel?: (name: string) => Promise<{ name: string; displayName?: string; description?: string }>;
 };
 
-/** JSONL chunked response builder (non‑SSE streaming) */
-function jsonlResponse(stream: AsyncIterable<unknown>): Response {
-  const rs = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder();
-      try {
-        for await (const chunk of stream) {
-          const line = JSON.stringify(chunk) + "\n";
-          controller.enqueue(encoder.encode(line));
-        }
-        controller.close();
-      } catch (e) {
-        controller.error(e);
-      }
+/** Google-shaped error response (`{ error: { code, message, status } }`). */
+const geminiError = (status: number, message: string): Response => renderErrorResponse("gemini", { status, message });
+
+/** Embedding routes: native Gemini calls, or the OpenAI embeddings API of any other backend */
+function buildEmbeddingRoutes(
+  provider: Provider,
+  fetchClient: GeminiFetchClient,
+): Pick<GeminiEndpointAdapter, "embedContent" | "batchEmbedContents"> {
+  if (provider.type === "gemini") {
+    return {
+      async embedContent(model, body, options) { return fetchClient.embedContent(model, body, options?.signal); },
+      async batchEmbedContents(model, body, options) { return fetchClient.batchEmbedContents(model, body, options?.signal); },
+    };
+  }
+  const converted = buildOpenAItoGeminiV1BetaAdapter({ client: buildOpenAICompatibleClient(provider) });
+  return {
+    async embedContent(model, body, options) {
+      const upstreamModel = resolveEmbeddingModel(provider, model);
+      return converted.embedContent(upstreamModel, body as GeminiEmbedContentRequest, options);
     },
-  });
-  return new Response(rs, {
-    headers: {
-      "content-type": "application/json; charset=utf-8",
-      "transfer-encoding": "chunked",
+    async batchEmbedContents(model, body, options) {
+      const upstreamModel = resolveEmbeddingModel(provider, model);
+      return converted.batchEmbedContents(upstreamModel, body as GeminiBatchEmbedContentsRequest, options);
     },
-  });
+  };
 }
 
-/** Build adapter bound to a Gemini provider */
+/** Build adapter bound to a Gemini provider; embedding routes also work against OpenAI-compatible backends */
 export function buildGeminiEmulatorAdapter(provider: Provider): GeminiEndpointAdapter {
   const client: OpenAICompatibleClient = buildOpenAICompatibleClientForGemini(provider);
   const base = buildOpenAItoGeminiV1BetaAdapter({ client });
   const apiKey = selectApiKey(provider);
-  const fetchClient = new GeminiFetchClient({ apiKey: apiKey!, baseURL: provider.baseURL });
+  const fetchClient = new GeminiFetchClient({
+    apiKey: apiKey!,
+    baseURL: provider.baseURL,
+    fetchImpl: pooledFetchFor(provider, provider.baseURL ?? GEMINI_DEFAULT_BASE_URL),
+  });
   return {
     ...base,
+    ...buildEmbeddingRoutes(provider, fetchClient),
     async countTokens(model, body) { return fetchClient.countTokens(model, body); },
-    async embedContent(model, body) { return fetchClient.embedContent(model, body); },
-    async batchEmbedContents(model, body) { return fetchClient.batchEmbedContents(model, body); },
     async listTunedModels() { return { tunedModels: [] }; },
     async getTunedModel(name: string) { return { name }; },
   };
@@ -72,12 +89,14 @@ export function buildGeminiEmulatorAdapter(provider: Provider): GeminiEndpointAd
 
 /**
  * Pure handler for Gemini-like routes. Useful for simulation/tests.
- * Pass a pre-built adapter (generate/stream/list) to route a request.
+ * Pass a pre-built adapter (generate/stream/list) to route a request; `context` hands request
+ * bodies and streamed chunks to the endpoint middleware.
  */
 export async function handleGeminiRoute(
   url: URL,
   init: RequestInit | undefined,
   adapter: GeminiEndpointAdapter,
+  context: RouteContext = passthroughRouteContext,
 ): Promise<Response> {
   const p = url.pathname;
 
@@ -87,30 +106,34 @@ export async function handleGeminiRoute(
     const isStream = action === "streamGenerateContent";
 
     if (!init?.method || init.method.toUpperCase() !== "POST") {
-      return errorResponse(405, `Only POST is supported for ${action}`, "method_not_allowed");
+      return geminiError(405, `Only POST is supported for ${action}`);
     }
     if (!init.body) {
-      return errorResponse(400, "Missing request body");
+      return geminiError(400, "Missing request body");
     }
 
     try {
       const raw = await bodyToText(init.body);
-      const geminiReq = JSON.parse(String(raw));
+      const geminiReq = await context.body("gemini.generateContent", JSON.parse(String(raw)));
+      const options = { signal: init.signal ?? undefined };
 
       if (isStream) {
-        const stream = await adapter.streamGenerateContent(modelId, geminiReq);
+        const stream = context.stream(
+          "gemini.generateContent",
+          await adapter.streamGenerateContent(modelId, geminiReq, options),
+        );
         const altParam = url.searchParams.get("alt");
         const alt = altParam ? altParam.toLowerCase() : "";
         // alt=sse → SSE, otherwise JSONL chunked transport
         if (alt === "sse") {
           return createSSEResponse(stream, "gemini");
         }
-        return jsonlResponse(stream);
+        return createNDJSONResponse(stream);
       }
-      const obj = await adapter.generateContent(modelId, geminiReq);
+      const obj = await adapter.generateContent(modelId, geminiReq, options);
       return jsonResponse(obj);
     } catch (error) {
-      return errorResponse(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+      return exceptionResponse("gemini", error);
     }
   }
 
@@ -118,21 +141,21 @@ export async function handleGeminiRoute(
   const mCount = p.match(/^\/v1(?:beta)?\/models\/(.+?):countTokens$/);
   if (mCount) {
     if (!init?.method || init.method.toUpperCase() !== "POST") {
-      return errorResponse(405, "Only POST is supported for countTokens", "method_not_allowed");
+      return geminiError(405, "Only POST is supported for countTokens");
     }
     if (!init.body) {
-      return errorResponse(400, "Missing request body");
+      return geminiError(400, "Missing request body");
     }
     try {
       const raw = await bodyToText(init.body);
       const body = JSON.parse(String(raw)) as CountTokensRequest;
       if (!adapter.countTokens) {
-        return errorResponse(501, "countTokens not implemented in adapter", "not_implemented");
+        return geminiError(501, "countTokens not implemented in adapter");
       }
       const json = await adapter.countTokens(mCount[1]!, body);
       return jsonResponse(json);
     } catch (error) {
-      return errorResponse(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+      return exceptionResponse("gemini", error);
     }
   }
 
@@ -140,49 +163,49 @@ export async function handleGeminiRoute(
   const mEmbed = p.match(/^\/v1(?:beta)?\/models\/(.+?):embedContent$/);
   if (mEmbed) {
     if (!init?.method || init.method.toUpperCase() !== "POST") {
-      return errorResponse(405, "Only POST is supported for embedContent", "method_not_allowed");
+      return geminiError(405, "Only POST is supported for embedContent");
     }
     if (!init.body) {
-      return errorResponse(400, "Missing request body");
+      return geminiError(400, "Missing request body");
     }
     try {
       const raw = await bodyToText(init.body);
       const body = JSON.parse(String(raw)) as EmbedContentRequest;
       if (!adapter.embedContent) {
-        return errorResponse(501, "embedContent not implemented in adapter", "not_implemented");
+        return geminiError(501, "embedContent not implemented in adapter");
       }
-      const json = await adapter.embedContent(mEmbed[1]!, body);
+      const json = await adapter.embedContent(mEmbed[1]!, body, { signal: init.signal ?? undefined });
       return jsonResponse(json);
     } catch (error) {
-      return errorResponse(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+      return exceptionResponse("gemini", error);
     }
   }
 
   const mBatch = p.match(/^\/v1(?:beta)?\/models\/(.+?):batchEmbedContents$/);
   if (mBatch) {
     if (!init?.method || init.method.toUpperCase() !== "POST") {
-      return errorResponse(405, "Only POST is supported for batchEmbedContents", "method_not_allowed");
+      return geminiError(405, "Only POST is supported for batchEmbedContents");
     }
     if (!init.body) {
-      return errorResponse(400, "Missing request body");
+      return geminiError(400, "Missing request body");
     }
     try {
       const raw = await bodyToText(init.body);
       const body = JSON.parse(String(raw)) as BatchEmbedContentsRequest;
       if (!adapter.batchEmbedContents) {
-        return errorResponse(501, "batchEmbedContents not implemented in adapter", "not_implemented");
+        return geminiError(501, "batchEmbedContents not implemented in adapter");
       }
-      const json = await adapter.batchEmbedContents(mBatch[1]!, body);
+      const json = await adapter.batchEmbedContents(mBatch[1]!, body, { signal: init.signal ?? undefined });
       return jsonResponse(json);
     } catch (error) {
-      return errorResponse(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+      return exceptionResponse("gemini", error);
     }
   }
 
   // Tuned models list
   if (p === "/v1beta/tunedModels" || p === "/v1/tunedModels") {
     if (!adapter.listTunedModels) {
-      return errorResponse(501, "tunedModels listing not implemented", "not_implemented");
+      return geminiError(501, "tunedModels listing not implemented");
     }
     const json = await adapter.listTunedModels();
     return jsonResponse(json);
@@ -192,12 +215,12 @@ export async function handleGeminiRoute(
   const tuned = p.match(/^\/v1(?:beta)?\/tunedModels\/(.+)$/);
   if (tuned && (!init?.method || init.method.toUpperCase() === "GET")) {
     if (!adapter.getTunedModel) {
-      return errorResponse(501, "get tunedModel not implemented", "not_implemented");
+      return geminiError(501, "get tunedModel not implemented");
     }
     const name = decodeURIComponent(tuned[1]!);
     const obj = await adapter.getTunedModel(name);
     if (!obj) {
-      return errorResponse(404, `Tuned model not found: ${name}`, "not_found");
+      return geminiError(404, `Tuned model not found: ${name}`);
     }
     return jsonResponse(obj);
   }
@@ -207,9 +230,7 @@ export async function handleGeminiRoute(
       const models = await adapter.listModels();
       return jsonResponse(models);
     } catch (error) {
-      throw new Error(
-        `Failed to fetch models from Gemini provider: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      return exceptionResponse("gemini", error);
     }
   }
 
@@ -222,15 +243,15 @@ export async function handleGeminiRoute(
       const full = name.startsWith("models/") ? name : `models/${name}`;
       const m = models.find((x) => x.name === full || x.displayName === name);
       if (!m) {
-        return errorResponse(404, `Model not found: ${name}`, "not_found");
+        return geminiError(404, `Model not found: ${name}`);
       }
       return jsonResponse(m);
     } catch (error) {
-      return errorResponse(500, `Failed to resolve model: ${error instanceof Error ? error.message : String(error)}`);
+      return exceptionResponse("gemini", error);
     }
   }
 
-  return errorResponse(404, `Unhandled path: ${url.pathname}`, "not_found");
+  return geminiError(404, `Unhandled path: ${url.pathname}`);
 }
 
 /**
@@ -239,12 +260,35 @@ export async function handleGeminiRoute(
  *  - POST /v1/models/{model}:streamGenerateContent -> Streaming version
  *  - Same under /v1beta
  *  - GET  /v1/models, /v1beta/models to list
+ *
+ * Errors use the Google envelope and keep upstream status and `retry-after`.
+ * `middleware` runs around every route. With `auth`, callers must present one of the configured
+ * keys (`x-goog-api-key` or `?key=`), which selects the upstream and the allowed models.
  */
-export function emulateGeminiEndpoint(options: { provider: Provider }) {
+export function emulateGeminiEndpoint(options: {
+  provider: Provider;
+  middleware?: EndpointMiddleware[];
+  auth?: InboundAuthOptions;
+}): FetchHandler {
+  const { auth, ...rest } = options;
+  if (auth) {
+    return createFetchHandler(
+      withInboundAuth({
+        surface: "gemini",
+        auth,
+        provider: rest.provider,
+        build: (provider, policy) =>
+          emulateGeminiEndpoint({ ...rest, provider, middleware: [policy, ...(rest.middleware ?? [])] }),
+      }),
+    );
+  }
   const { provider } = options;
   const adapter = buildGeminiEmulatorAdapter(provider);
 
-  return createFetchHandler(async (url: URL, init?: RequestInit): Promise<Response> => {
-    return handleGeminiRoute(url, init, adapter);
-  });
+  return createFetchHandler(
+    withMiddleware((url, init, context) => handleGeminiRoute(url, init, adapter, context), {
+      surface: "gemini",
+      middleware: options.middleware,
+    }),
+  );
 }
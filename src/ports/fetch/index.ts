@@ -5,3 +5,12 @@
 export { emulateOpenAIEndpoint } from "./openai";
 export { emulateGeminiEndpoint } from "./gemini";
 export { emulateClaudeEndpoint } from "./claude";
+export type {
+  EndpointMiddleware,
+  EndpointRequest,
+  RequestBodyHooks,
+  RequestBodyMap,
+  StreamEventHooks,
+  StreamEventMap,
+} from "./utils/middleware";
+export type { InboundAuthOptions, InboundKey } from "./utils/inbound-auth";
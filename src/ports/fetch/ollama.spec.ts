@@ -0,0 +1,153 @@
+/**
+ * @file Tests for the Ollama API served by the OpenAI endpoint emulator
+ */
+import type { Provider } from "../../config/types";
+import { withFakeUpstream } from "../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../test-utils/fake-upstream";
+import { emulateOpenAIEndpoint } from "./openai";
+
+/** OpenAI-compatible upstream with a model list, streaming chat and embeddings. */
+const openAIUpstream: UpstreamHandler = (request, res) => {
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  if (request.url === "/v1/models") {
+    return {
+      body: {
+        object: "list",
+        data: [
+          { id: "gpt-4o-mini", object: "model", created: 1_700_000_000, owned_by: "openai" },
+          { id: "text-embedding-3-small", object: "model", created: 1_700_000_000, owned_by: "openai" },
+        ],
+      },
+    };
+  }
+  if (request.url === "/v1/embeddings") {
+    const input = body.input as string[];
+    const data = input.map((text, index) => ({ object: "embedding", index, embedding: [text.length] }));
+    return { body: { object: "list", data, model: body.model, usage: { prompt_tokens: 3, total_tokens: 3 } } };
+  }
+  if (body.model === "broken") {
+    return { status: 400, body: { error: { message: "context too long", type: "invalid_request_error" } } };
+  }
+  if (!body.stream) {
+    const message = { role: "assistant", content: "Hi there" };
+    return {
+      body: {
+        id: "c1",
+        object: "chat.completion",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message, finish_reason: "stop" }],
+        usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+      },
+    };
+  }
+  const base = { id: "c1", object: "chat.completion.chunk", created: 0, model: body.model };
+  const frames = [
+    { ...base, choices: [{ index: 0, delta: { role: "assistant", content: "Hi" }, finish_reason: null }] },
+    { ...base, choices: [{ index: 0, delta: { content: " there" }, finish_reason: "stop" }] },
+    { ...base, choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } },
+  ];
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  res.end(frames.map((f) => `data: ${JSON.stringify(f)}\n\n`).join("") + "data: [DONE]\n\n");
+  return undefined;
+};
+
+function localProvider(origin: string, model?: string): Provider {
+  return { type: "local", apiKey: "test-key", baseURL: `${origin}/v1`, model };
+}
+
+function post(body: unknown): RequestInit {
+  return { method: "POST", body: JSON.stringify(body) };
+}
+
+describe("emulateOpenAIEndpoint Ollama API", () => {
+  it("lists models with stable digests and upstream timestamps", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: localProvider(origin) });
+      const first = (await (await fetchHandler("http://local/api/tags")).json()) as {
+        models: Array<{ name: string; digest: string; modified_at: string; details: { family: string } }>;
+      };
+      const second = (await (await fetchHandler("http://local/api/tags")).json()) as typeof first;
+      expect(first.models.map((m) => m.name)).toEqual(["gpt-4o-mini", "text-embedding-3-small"]);
+      expect(first.models[0]?.digest).toMatch(/^[0-9a-f]{64}$/);
+      expect(first.models[0]?.digest).not.toBe(first.models[1]?.digest);
+      expect(second.models[0]?.digest).toBe(first.models[0]?.digest);
+      expect(first.models[0]?.modified_at).toBe("2023-11-14T22:13:20.000Z");
+      expect(first.models[0]?.details.family).toBe("openai");
+    });
+  });
+
+  it("shows known models and reports unknown ones as 404", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: localProvider(origin) });
+      const res = await fetchHandler("http://local/api/show", post({ model: "text-embedding-3-small:latest" }));
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ capabilities: ["embedding"], details: { format: "api" } });
+      const missing = await fetchHandler("http://local/api/show", post({ name: "llama3" }));
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ error: "model 'llama3' not found" });
+    });
+  });
+
+  it("streams /api/chat as NDJSON", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider: localProvider(origin, "gpt-4o-mini"),
+      });
+      const res = await fetchHandler(
+        "http://local/api/chat",
+        post({ model: "gpt-4o-mini", messages: [{ role: "user", content: "hi" }] }),
+      );
+      expect(res.headers.get("content-type")).toBe("application/x-ndjson");
+      const lines = (await res.text())
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l) as { message: { content: string }; done: boolean; eval_count?: number });
+      expect(lines.map((l) => l.message.content).join("")).toBe("Hi there");
+      expect(lines.at(-1)).toMatchObject({ done: true, done_reason: "stop", prompt_eval_count: 5, eval_count: 2 });
+    });
+  });
+
+  it("answers /api/generate with stream false as one object", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider: localProvider(origin, "gpt-4o-mini"),
+      });
+      const res = await fetchHandler(
+        "http://local/api/generate",
+        post({ model: "gpt-4o-mini", prompt: "hi", stream: false }),
+      );
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ model: "gpt-4o-mini", response: "Hi there", done: true });
+    });
+  });
+
+  it("embeds through /api/embed", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: localProvider(origin) });
+      const res = await fetchHandler(
+        "http://local/api/embed",
+        post({ model: "text-embedding-3-small", input: ["ab", "c"] }),
+      );
+      expect(await res.json()).toMatchObject({
+        model: "text-embedding-3-small",
+        embeddings: [[2], [1]],
+        prompt_eval_count: 3,
+      });
+    });
+  });
+
+  it("returns upstream failures in Ollama's error body", async () => {
+    await withFakeUpstream(openAIUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider: localProvider(origin, "broken"),
+      });
+      const res = await fetchHandler(
+        "http://local/api/chat",
+        post({ model: "broken", messages: [{ role: "user", content: "hi" }], stream: false }),
+      );
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: "context too long" });
+    });
+  });
+});
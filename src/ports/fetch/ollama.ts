@@ -0,0 +1,105 @@
+/**
+ * @file Ollama API routes (`/api/*`) served by the OpenAI endpoint emulator.
+ *
+ * Exports a pure route handler `handleOllamaRoute` so callers/tests can simulate requests
+ * against any `OllamaAdapter` without wiring a fetch proxy.
+ */
+import type { OllamaAdapter } from "../../adapters/openai-to-ollama";
+import type {
+  OllamaChatRequest,
+  OllamaEmbedRequest,
+  OllamaGenerateRequest,
+  OllamaShowRequest,
+} from "../../adapters/openai-to-ollama";
+import { bodyToText } from "./utils/body";
+import { errorDetailsFromException, exceptionResponse, renderErrorResponse } from "./utils/errors";
+import { jsonResponse } from "./utils/http";
+import { passthroughRouteContext } from "./utils/middleware";
+import type { RouteContext } from "./utils/middleware";
+import { createNDJSONResponse } from "./utils/ndjson";
+import { isAsyncIterable } from "./utils/sse-builder";
+
+const ollamaError = (status: number, message: string): Response => renderErrorResponse("ollama", { status, message });
+
+/** Mid-stream failures end the stream with an `{ error }` line, as Ollama does */
+function ndjsonResponse(stream: AsyncIterable<unknown>): Response {
+  return createNDJSONResponse(stream, {
+    contentType: "application/x-ndjson",
+    errorLine: (error) => ({ error: errorDetailsFromException(error).message }),
+  });
+}
+
+function singleOrStream<T>(result: T | AsyncIterable<T>): Response {
+  if (isAsyncIterable(result)) {
+    return ndjsonResponse(result);
+  }
+  return jsonResponse(result);
+}
+
+async function readJson<T>(body: BodyInit): Promise<T> {
+  return JSON.parse(String(await bodyToText(body))) as T;
+}
+
+/**
+ * Pure handler for Ollama routes:
+ *  - POST /api/chat, /api/generate -> NDJSON stream (default) or one JSON object (`stream: false`)
+ *  - POST /api/embed, /api/show
+ *  - GET  /api/tags
+ *
+ * Errors use Ollama's `{ error }` body and keep the upstream status. `context` hands request
+ * bodies and streamed chunks to the endpoint middleware.
+ *
+ * @returns Response, or undefined when the path is not an Ollama route
+ */
+export async function handleOllamaRoute(
+  url: URL,
+  init: RequestInit | undefined,
+  adapter: OllamaAdapter,
+  context: RouteContext = passthroughRouteContext,
+): Promise<Response | undefined> {
+  const p = url.pathname;
+  const method = (init?.method ?? "GET").toUpperCase();
+
+  if (p === "/api/tags") {
+    if (method !== "GET") {
+      return ollamaError(405, "Only GET is supported for /api/tags");
+    }
+    try {
+      return jsonResponse(await adapter.tags());
+    } catch (error) {
+      return exceptionResponse("ollama", error);
+    }
+  }
+
+  if (p !== "/api/chat" && p !== "/api/generate" && p !== "/api/embed" && p !== "/api/show") {
+    return undefined;
+  }
+  if (method !== "POST") {
+    return ollamaError(405, `Only POST is supported for ${p}`);
+  }
+  if (!init?.body) {
+    return ollamaError(400, "missing request body");
+  }
+
+  try {
+    const options = { signal: init.signal ?? undefined };
+    if (p === "/api/chat") {
+      const body = await context.body("ollama.chat", await readJson<OllamaChatRequest>(init.body));
+      const result = await adapter.chat(body, options);
+      return singleOrStream(isAsyncIterable(result) ? context.stream("ollama.chat", result) : result);
+    }
+    if (p === "/api/generate") {
+      const body = await context.body("ollama.generate", await readJson<OllamaGenerateRequest>(init.body));
+      const result = await adapter.generate(body, options);
+      return singleOrStream(isAsyncIterable(result) ? context.stream("ollama.generate", result) : result);
+    }
+    if (p === "/api/embed") {
+      const body = await context.body("ollama.embed", await readJson<OllamaEmbedRequest>(init.body));
+      return jsonResponse(await adapter.embed(body, options));
+    }
+    const body = await context.body("ollama.show", await readJson<OllamaShowRequest>(init.body));
+    return jsonResponse(await adapter.show(body));
+  } catch (error) {
+    return exceptionResponse("ollama", error);
+  }
+}
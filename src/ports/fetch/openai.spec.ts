@@ -0,0 +1,308 @@
+/**
+ * @file Unit tests for stored-response routes and cancellation of the OpenAI endpoint emulator
+ */
+import type { Provider } from "../../config/types";
+import type { Response as OpenAIResponse } from "openai/resources/responses/responses";
+import { createInMemoryResponseStore } from "../../adapters/response-store";
+import { emulateOpenAIEndpoint } from "./openai";
+import { withFakeUpstream } from "../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../test-utils/fake-upstream";
+
+function makeResponse(id: string): OpenAIResponse {
+  return {
+    id,
+    object: "response",
+    created_at: 0,
+    model: "claude-sonnet-4",
+    status: "completed",
+    output_text: "hi there",
+    output: [],
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    parallel_tool_calls: true,
+    temperature: null,
+    tool_choice: "auto",
+    tools: [],
+    top_p: null,
+  };
+}
+
+async function setup() {
+  const responseStore = createInMemoryResponseStore();
+  await responseStore.put({
+    response: makeResponse("resp_1"),
+    input: [
+      { type: "message", role: "user", content: "first" },
+      { type: "message", role: "assistant", content: "reply" },
+      { type: "message", role: "user", content: "second" },
+    ],
+  });
+  const fetchHandler = emulateOpenAIEndpoint({ provider: { type: "claude", apiKey: "test-key" }, responseStore });
+  return { fetchHandler, responseStore };
+}
+
+describe("emulateOpenAIEndpoint stored responses", () => {
+  it("retrieves a stored response", async () => {
+    const { fetchHandler } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_1");
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as OpenAIResponse;
+    expect(body.id).toBe("resp_1");
+  });
+
+  it("returns 404 for unknown responses", async () => {
+    const { fetchHandler } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_missing");
+    expect(res.status).toBe(404);
+  });
+
+  it("lists input items newest first with pagination", async () => {
+    const { fetchHandler } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_1/input_items?limit=2");
+    const page = (await res.json()) as { data: Array<{ id: string; role: string }>; has_more: boolean; last_id: string };
+    expect(page.data.map((item) => item.role)).toEqual(["user", "assistant"]);
+    expect(page.has_more).toBe(true);
+
+    const next = await fetchHandler(`http://local/v1/responses/resp_1/input_items?limit=2&after=${page.last_id}`);
+    const nextPage = (await next.json()) as { data: Array<{ content: Array<{ text: string }> }>; has_more: boolean };
+    expect(nextPage.data.map((item) => item.content[0]?.text)).toEqual(["first"]);
+    expect(nextPage.has_more).toBe(false);
+  });
+
+  it("deletes a stored response", async () => {
+    const { fetchHandler, responseStore } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_1", { method: "DELETE" });
+    expect(await res.json()).toEqual({ id: "resp_1", object: "response.deleted", deleted: true });
+    expect(await responseStore.get("resp_1")).toBeUndefined();
+  });
+
+  it("rejects an input item cursor that names no item", async () => {
+    const { fetchHandler } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_1/input_items?after=msg_missing");
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a response id that is not valid percent-encoding", async () => {
+    const { fetchHandler } = await setup();
+    const res = await fetchHandler("http://local/v1/responses/resp_%E0%A4%A");
+    expect(res.status).toBe(400);
+  });
+});
+
+/** OpenAI stand-in that keeps `resp_up` and answers every other response id with 404 */
+const storingUpstream: UpstreamHandler = (request) => {
+  if (request.path === "/v1/responses/resp_up/input_items") {
+    const data = [{ id: "msg_1", type: "message", role: "user", content: [{ type: "input_text", text: "hi" }] }];
+    return { body: { object: "list", data, first_id: "msg_1", last_id: "msg_1", has_more: false } };
+  }
+  if (request.path === "/v1/responses/resp_up") {
+    const deleted = { id: "resp_up", object: "response.deleted", deleted: true };
+    return { body: request.method === "DELETE" ? deleted : makeResponse("resp_up") };
+  }
+  return { status: 404, body: { error: { message: "No response found", type: "invalid_request_error", code: null } } };
+};
+
+describe("emulateOpenAIEndpoint stored responses on OpenAI", () => {
+  const provider = (baseURL: string): Provider => ({ type: "openai", apiKey: "test-key", baseURL });
+
+  it("retrieves, lists and deletes responses kept upstream", async () => {
+    await withFakeUpstream(storingUpstream, async ({ origin, requests }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: provider(`${origin}/v1`) });
+      const retrieved = await fetchHandler("http://local/v1/responses/resp_up");
+      expect(((await retrieved.json()) as OpenAIResponse).id).toBe("resp_up");
+
+      const items = await fetchHandler("http://local/v1/responses/resp_up/input_items?limit=5&order=asc");
+      expect(await items.json()).toMatchObject({ object: "list", data: [{ id: "msg_1" }], has_more: false });
+
+      const deleted = await fetchHandler("http://local/v1/responses/resp_up", { method: "DELETE" });
+      expect(await deleted.json()).toEqual({ id: "resp_up", object: "response.deleted", deleted: true });
+      expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        "GET /v1/responses/resp_up",
+        "GET /v1/responses/resp_up/input_items?limit=5&order=asc",
+        "DELETE /v1/responses/resp_up",
+      ]);
+    });
+  });
+
+  it("keeps the upstream status of a missing response", async () => {
+    await withFakeUpstream(storingUpstream, async ({ origin }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: provider(`${origin}/v1`) });
+      const res = await fetchHandler("http://local/v1/responses/resp_other");
+      expect(res.status).toBe(404);
+    });
+  });
+});
+
+describe("emulateOpenAIEndpoint cancellation", () => {
+  /** Send `body` to an emulator whose upstream never answers, abort it, and return the path the upstream saw */
+  async function abortMidRequest(provider: (baseURL: string) => Provider, path: string, body: unknown) {
+    const arrived: { resolve?: () => void } = {};
+    const received = new Promise<void>((resolve) => {
+      arrived.resolve = resolve;
+    });
+    const closed: Array<Promise<void>> = [];
+    const hanging: UpstreamHandler = (_request, res) => {
+      closed.push(new Promise<void>((resolve) => res.on("close", () => resolve())));
+      arrived.resolve?.();
+      return undefined;
+    };
+    const seen: string[] = [];
+    await withFakeUpstream(hanging, async ({ origin, requests }) => {
+      const fetchHandler = emulateOpenAIEndpoint({ provider: provider(`${origin}/v1`) });
+      const controller = new AbortController();
+      const pending = fetchHandler(`http://local${path}`, {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      await received;
+      controller.abort();
+      await pending.catch(() => undefined);
+      await Promise.all(closed);
+      seen.push(...requests.map((r) => r.path));
+    });
+    return seen[0];
+  }
+
+  it("aborts the upstream chat completion when the request signal fires", async () => {
+    const path = await abortMidRequest(
+      (baseURL) => ({ type: "openai", apiKey: "test-key", baseURL }),
+      "/v1/chat/completions",
+      { model: "gpt-4o-mini", messages: [{ role: "user", content: "hi" }] },
+    );
+    expect(path).toBe("/v1/chat/completions");
+  });
+
+  it("aborts the upstream call behind the Responses emulator", async () => {
+    const path = await abortMidRequest(
+      (baseURL) => ({
+        type: "local",
+        apiKey: "test-key",
+        baseURL,
+        openaiCompat: { preferResponsesAPI: false, emulateResponsesWithChat: true },
+      }),
+      "/v1/responses",
+      { model: "local-model", input: "hi" },
+    );
+    expect(path).toBe("/v1/chat/completions");
+  });
+});
+
+/** OpenAI-compatible upstream embedding each input as [text length]. */
+const embeddingsUpstream: UpstreamHandler = (request) => {
+  const body = request.body as { model: string; input: string | string[]; encoding_format?: string };
+  const inputs = Array.isArray(body.input) ? body.input : [body.input];
+  const data = inputs.map((text, index) => {
+    const values = [text.length];
+    const embedding =
+      body.encoding_format === "base64" ? Buffer.from(new Float32Array(values).buffer).toString("base64") : values;
+    return { object: "embedding", index, embedding };
+  });
+  return { body: { object: "list", data, model: body.model, usage: { prompt_tokens: 2, total_tokens: 2 } } };
+};
+
+describe("emulateOpenAIEndpoint embeddings", () => {
+  it("forwards /v1/embeddings to an OpenAI-compatible backend", async () => {
+    await withFakeUpstream(embeddingsUpstream, async ({ origin, requests }) => {
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider: { type: "local", apiKey: "test-key", baseURL: `${origin}/v1` },
+      });
+      const res = await fetchHandler("http://local/v1/embeddings", {
+        method: "POST",
+        body: JSON.stringify({ model: "nomic-embed-text", input: ["hello", "hi"] }),
+      });
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as { data: Array<{ index: number; embedding: number[] }>; model: string };
+      expect(json.model).toBe("nomic-embed-text");
+      expect(json.data.map((d) => d.embedding)).toEqual([[5], [2]]);
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  it("rejects embeddings for backends without an embeddings API", async () => {
+    const fetchHandler = emulateOpenAIEndpoint({ provider: { type: "claude", apiKey: "test-key" } });
+    const res = await fetchHandler("http://local/v1/embeddings", {
+      method: "POST",
+      body: JSON.stringify({ model: "m", input: "hello" }),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { message: "Embeddings are not supported by provider 'claude'" } });
+  });
+});
+
+/** Upstream serving legacy completions natively and chat completions as SSE. */
+const completionsUpstream: UpstreamHandler = (request, res) => {
+  const body = request.body as { model: string; prompt?: string };
+  if (request.url === "/v1/completions") {
+    const choices = [{ index: 0, text: ` after ${body.prompt}`, logprobs: null, finish_reason: "stop" }];
+    return { body: { id: "cmpl-1", object: "text_completion", created: 0, model: body.model, choices } };
+  }
+  const base = { id: "c1", object: "chat.completion.chunk", created: 0, model: body.model };
+  const frames = [
+    { ...base, choices: [{ index: 0, delta: { role: "assistant", content: " world" }, finish_reason: null }] },
+    { ...base, choices: [{ index: 0, delta: {}, finish_reason: "length" }] },
+  ];
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  res.end(frames.map((f) => `data: ${JSON.stringify(f)}\n\n`).join("") + "data: [DONE]\n\n");
+  return undefined;
+};
+
+describe("emulateOpenAIEndpoint legacy completions", () => {
+  it("passes /v1/completions through to vendors that serve it", async () => {
+    await withFakeUpstream(completionsUpstream, async ({ origin, requests }) => {
+      const baseURL = `${origin}/v1`;
+      const fetchHandler = emulateOpenAIEndpoint({ provider: { type: "local", apiKey: "test-key", baseURL } });
+      const res = await fetchHandler("http://local/v1/completions", {
+        method: "POST",
+        body: JSON.stringify({ model: "gpt-3.5-turbo-instruct", prompt: "hello" }),
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ object: "text_completion", choices: [{ text: " after hello" }] });
+      expect(requests.map((r) => r.url)).toEqual(["/v1/completions"]);
+    });
+  });
+
+  it("streams completions emulated on chat when the vendor opts in", async () => {
+    await withFakeUpstream(completionsUpstream, async ({ origin, requests }) => {
+      const baseURL = `${origin}/v1`;
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider: { type: "local", apiKey: "test-key", baseURL, openaiCompat: { emulateCompletionsWithChat: true } },
+      });
+      const res = await fetchHandler("http://local/v1/completions", {
+        method: "POST",
+        body: JSON.stringify({ model: "local-model", prompt: "hello", echo: true, stream: true }),
+      });
+      expect(res.headers.get("content-type")).toContain("text/event-stream");
+      const text = await res.text();
+      const frames = text
+        .split("\n\n")
+        .filter((f) => f.startsWith("data: {"))
+        .map((f) => JSON.parse(f.slice("data: ".length)) as { object: string; choices: Array<{ text: string }> });
+      expect(frames.map((f) => f.choices[0]?.text).join("")).toBe("hello world");
+      expect(frames.every((f) => f.object === "text_completion")).toBe(true);
+      expect(text.trim().endsWith("data: [DONE]")).toBe(true);
+      expect(requests.map((r) => r.url)).toEqual(["/v1/chat/completions"]);
+    });
+  });
+});
+
+describe("emulateOpenAIEndpoint middleware", () => {
+  it("answers a throwing hook in the envelope of the API the route serves", async () => {
+    const fetchHandler = emulateOpenAIEndpoint({
+      provider: { type: "claude", apiKey: "test-key" },
+      middleware: [
+        {
+          beforeRequest() {
+            throw new Error("hook failed");
+          },
+        },
+      ],
+    });
+    const ollama = await fetchHandler("http://local/api/tags");
+    expect(await ollama.json()).toEqual({ error: "hook failed" });
+    const openai = await fetchHandler("http://local/v1/models");
+    expect(await openai.json()).toMatchObject({ error: { message: "hook failed", type: "server_error" } });
+  });
+});
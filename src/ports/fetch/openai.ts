@@ -4,9 +4,20 @@
 import type { Provider } from "../../config/types";
 import { buildOpenAICompatibleClient } from "../../adapters/openai-client";
 import type { OpenAICompatibleClient } from "../../adapters/openai-client-types";
+import { createInMemoryResponseStore, listInputItems, scopeResponseStore } from "../../adapters/response-store";
+import type { InputItemsQuery, ResponseStore } from "../../adapters/response-store";
 import { createSSEResponse, isAsyncIterable } from "./utils/sse-builder";
 import { errorResponse, jsonResponse, createFetchHandler } from "./utils/http";
+import type { FetchHandler } from "./utils/http";
 import { bodyToText } from "./utils/body";
+import { exceptionResponse } from "./utils/errors";
+import type { ErrorSurface } from "./utils/errors";
+import { withInboundAuth } from "./utils/inbound-auth";
+import type { InboundAuthOptions } from "./utils/inbound-auth";
+import { withMiddleware } from "./utils/middleware";
+import type { EndpointMiddleware, RouteContext } from "./utils/middleware";
+import { handleOllamaRoute } from "./ollama";
+import { buildOpenAItoOllamaAdapter } from "../../adapters/openai-to-ollama";
 
 // Import types
 import type {
@@ -19,19 +30,56 @@ import type {
   ChatCompletionChunk,
   ChatCompletionCreateParams,
 } from "openai/resources/chat/completions";
+import type { EmbeddingCreateParams } from "openai/resources/embeddings";
+import type { CompletionCreateParams } from "openai/resources/completions";
 
 /**
  * Emulate OpenAI endpoint surface using OpenAI-compatible backend:
  *  - POST /v1/responses -> primary endpoint
+ *  - GET/DELETE /v1/responses/{id}, GET /v1/responses/{id}/input_items -> stored responses
  *  - POST /v1/chat/completions -> fallback/compatibility endpoint
+ *  - POST /v1/completions -> legacy text completions (native or emulated on chat)
+ *  - POST /v1/embeddings -> embeddings (OpenAI, compatible vendors and Gemini backends)
  *  - GET  /v1/models -> models from backend
- *  - GET  /api/tags   -> Ollama-like tags for debug parity
+ *  - /api/chat, /api/generate, /api/embed, /api/show, /api/tags -> Ollama API on the same backend
+ *
+ * Responses created through this endpoint are kept in `responseStore` (in-memory by default)
+ * so `previous_response_id` works regardless of the backend provider; an `openai` provider keeps
+ * them upstream, where the stored-response routes are forwarded. Upstream failures keep
+ * their status, `retry-after` and request id in the OpenAI error envelope. `middleware` runs
+ * around every route, Ollama routes included. With `auth`, callers must present one of the
+ * configured keys, which selects the upstream and the allowed models.
  */
-export function emulateOpenAIEndpoint(options: { provider: Provider }) {
+export function emulateOpenAIEndpoint(options: {
+  provider: Provider;
+  responseStore?: ResponseStore;
+  middleware?: EndpointMiddleware[];
+  auth?: InboundAuthOptions;
+}): FetchHandler {
+  const { auth, ...rest } = options;
+  if (auth) {
+    return createFetchHandler(
+      withInboundAuth({
+        surface: surfaceOf,
+        auth,
+        provider: rest.provider,
+        build: (provider, policy, scope) =>
+          emulateOpenAIEndpoint({
+            ...rest,
+            provider,
+            // A store passed in is shared, so each key only sees the responses it created
+            responseStore: rest.responseStore ? scopeResponseStore(rest.responseStore, scope) : undefined,
+            middleware: [policy, ...(rest.middleware ?? [])],
+          }),
+      }),
+    );
+  }
   const { provider } = options;
-  const client: OpenAICompatibleClient = buildOpenAICompatibleClient(provider);
+  const responseStore = options.responseStore ?? createInMemoryResponseStore();
+  const client: OpenAICompatibleClient = buildOpenAICompatibleClient(provider, undefined, { responseStore });
+  const ollama = buildOpenAItoOllamaAdapter({ client, family: provider.type });
 
-  return createFetchHandler(async (url: URL, init?: RequestInit): Promise<Response> => {
+  const route = async (url: URL, init: RequestInit | undefined, context: RouteContext): Promise<Response> => {
     // Responses API - Primary endpoint
     if (url.pathname === "/v1/responses") {
       if (!init?.method || init.method.toUpperCase() !== "POST") {
@@ -43,20 +91,31 @@ export function emulateOpenAIEndpoint(options: { provider: Provider }) {
 
       try {
         const raw = await bodyToText(init.body);
-        const responsesReq = JSON.parse(String(raw)) as ResponseCreateParams;
+        const responsesReq = await context.body("openai.responses", JSON.parse(String(raw)) as ResponseCreateParams);
 
-        const result = await client.responses.create(responsesReq);
+        const result = await client.responses.create(responsesReq, { signal: init.signal ?? undefined });
 
         if (responsesReq.stream || isAsyncIterable(result)) {
-          return createSSEResponse(result as AsyncIterable<ResponseStreamEvent>);
+          const stream = context.stream("openai.responses", result as AsyncIterable<ResponseStreamEvent>);
+          return createSSEResponse(stream, "openai-responses");
         }
 
         return jsonResponse(result as OpenAIResponse);
       } catch (error) {
-        return errorResponse(
-          400,
-          `Invalid JSON body or request failed: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        return exceptionResponse("openai", error);
+      }
+    }
+
+    // Stored responses (retrieve / delete / input_items)
+    const stored = matchStoredResponsePath(url.pathname);
+    if (stored) {
+      if (stored.id === undefined) {
+        return errorResponse(400, "Malformed response id in path", "bad_request");
+      }
+      try {
+        return await storedResponseRoute(stored.id, stored.inputItems, url, init);
+      } catch (error) {
+        return exceptionResponse("openai", error);
       }
     }
 
@@ -71,63 +130,166 @@ export function emulateOpenAIEndpoint(options: { provider: Provider }) {
 
       try {
         const raw = await bodyToText(init.body);
-        const chatReq = JSON.parse(String(raw)) as ChatCompletionCreateParams;
+        const chatReq = await context.body(
+          "openai.chat.completions",
+          JSON.parse(String(raw)) as ChatCompletionCreateParams,
+        );
 
-        const result = await client.chat.completions.create(chatReq);
+        const result = await client.chat.completions.create(chatReq, { signal: init.signal ?? undefined });
 
         if (chatReq.stream || isAsyncIterable(result)) {
-          return createSSEResponse(result as AsyncIterable<ChatCompletionChunk>);
+          const stream = context.stream("openai.chat.completions", result as AsyncIterable<ChatCompletionChunk>);
+          return createSSEResponse(stream, "openai-chat");
         }
 
         return jsonResponse(result as ChatCompletion);
       } catch (error) {
-        return errorResponse(
-          400,
-          `Invalid JSON body or request failed: ${error instanceof Error ? error.message : String(error)}`,
+        return exceptionResponse("openai", error);
+      }
+    }
+
+    // Legacy Completions API
+    if (url.pathname === "/v1/completions") {
+      if (!init?.method || init.method.toUpperCase() !== "POST") {
+        return errorResponse(405, "Only POST is supported for /v1/completions", "method_not_allowed");
+      }
+      if (!init?.body) {
+        return errorResponse(400, "Missing request body");
+      }
+      if (!client.completions) {
+        return errorResponse(400, `Completions are not supported by provider '${provider.type}'`);
+      }
+
+      try {
+        const raw = await bodyToText(init.body);
+        const completionReq = await context.body(
+          "openai.completions",
+          JSON.parse(String(raw)) as CompletionCreateParams,
         );
+        const result = await client.completions.create(completionReq, { signal: init.signal ?? undefined });
+        if (isAsyncIterable(result)) {
+          return createSSEResponse(context.stream("openai.completions", result), "openai-chat");
+        }
+        return jsonResponse(result);
+      } catch (error) {
+        return exceptionResponse("openai", error);
       }
     }
 
-    // Models API
-    if (url.pathname === "/v1/models") {
+    // Embeddings API
+    if (url.pathname === "/v1/embeddings") {
+      if (!init?.method || init.method.toUpperCase() !== "POST") {
+        return errorResponse(405, "Only POST is supported for /v1/embeddings", "method_not_allowed");
+      }
+      if (!init?.body) {
+        return errorResponse(400, "Missing request body");
+      }
+      if (!client.embeddings) {
+        return errorResponse(400, `Embeddings are not supported by provider '${provider.type}'`);
+      }
+
       try {
-        const models = await client.models.list();
-        return jsonResponse(models);
+        const raw = await bodyToText(init.body);
+        const embeddingReq = await context.body("openai.embeddings", JSON.parse(String(raw)) as EmbeddingCreateParams);
+        return jsonResponse(await client.embeddings.create(embeddingReq, { signal: init.signal ?? undefined }));
       } catch (error) {
-        // Fallback with basic model
-        throw new Error(
-          `Failed to fetch models from OpenAI-compatible provider: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        return exceptionResponse("openai", error);
       }
     }
 
-    // Ollama-style tags endpoint for debugging
-    if (url.pathname === "/api/tags") {
+    // Models API
+    if (url.pathname === "/v1/models") {
       try {
         const models = await client.models.list();
-        return jsonResponse({
-          models: models.data.map((model: { id: string }) => ({
-            name: model.id,
-            model: model.id,
-            digest: "sha256:debug",
-            modified_at: new Date().toISOString(),
-            size: 0,
-            details: {
-              format: "openai",
-              family: provider.type ?? "openai",
-              families: [provider.type ?? "openai"],
-            },
-          })),
-        });
+        return jsonResponse(models);
       } catch (error) {
-        throw new Error(
-          `Failed to fetch model tags from provider: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        return exceptionResponse("openai", error);
       }
     }
 
+    // Ollama API (/api/chat, /api/generate, /api/embed, /api/show, /api/tags)
+    const ollamaResponse = await handleOllamaRoute(url, init, ollama, context);
+    if (ollamaResponse) {
+      return ollamaResponse;
+    }
+
     return errorResponse(404, `Unhandled path: ${url.pathname}`, "not_found");
-  });
+  };
+
+  /** Serve a stored response from the backend that keeps it: OpenAI itself, or the local store */
+  const storedResponseRoute = async (
+    id: string,
+    inputItems: boolean,
+    url: URL,
+    init: RequestInit | undefined,
+  ): Promise<Response> => {
+    const method = (init?.method ?? "GET").toUpperCase();
+    const signal = init?.signal ?? undefined;
+    if (inputItems && method !== "GET") {
+      return errorResponse(405, "Only GET is supported for /v1/responses/{id}/input_items", "method_not_allowed");
+    }
+    if (!inputItems && method !== "GET" && method !== "DELETE") {
+      return errorResponse(405, "Only GET and DELETE are supported for /v1/responses/{id}", "method_not_allowed");
+    }
+    const upstream = client.responses.stored;
+    if (upstream) {
+      const query = parseInputItemsQuery(url.searchParams);
+      if (inputItems) {
+        return jsonResponse(await upstream.listInputItems(id, query, { signal }));
+      }
+      if (method === "GET") {
+        return jsonResponse(await upstream.retrieve(id, { signal }));
+      }
+      await upstream.delete(id, { signal });
+      return jsonResponse({ id, object: "response.deleted", deleted: true });
+    }
+    const record = await responseStore.get(id);
+    if (!record) {
+      return errorResponse(404, `No response found with id '${id}'.`, "not_found");
+    }
+    if (inputItems) {
+      return jsonResponse(listInputItems(record, parseInputItemsQuery(url.searchParams)));
+    }
+    if (method === "GET") {
+      return jsonResponse(record.response);
+    }
+    await responseStore.delete(id);
+    return jsonResponse({ id, object: "response.deleted", deleted: true });
+  };
+
+  return createFetchHandler(withMiddleware(route, { surface: surfaceOf, middleware: options.middleware }));
+}
+
+/** Ollama routes answer with Ollama's error envelope, everything else with OpenAI's */
+function surfaceOf(url: URL): ErrorSurface {
+  return url.pathname.startsWith("/api/") ? "ollama" : "openai";
+}
+
+/** `id` is undefined when the path segment is not valid percent-encoding */
+function matchStoredResponsePath(pathname: string): { id: string | undefined; inputItems: boolean } | undefined {
+  const m = /^\/v1\/responses\/([^/]+)(\/input_items)?$/.exec(pathname);
+  if (!m) {
+    return undefined;
+  }
+  return { id: decodePathSegment(m[1]!), inputItems: m[2] !== undefined };
+}
+
+function decodePathSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseInputItemsQuery(params: URLSearchParams): InputItemsQuery {
+  const limit = Number(params.get("limit"));
+  const order = params.get("order");
+  return {
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    order: order === "asc" || order === "desc" ? order : undefined,
+    after: params.get("after") ?? undefined,
+  };
 }
 
 // Legacy alias for backward compatibility
@@ -0,0 +1,139 @@
+/**
+ * @file Tests for Claude count_tokens backends
+ */
+import { emulateClaudeEndpoint } from "../claude";
+import { createClaudeTokenCounter, estimateResponsesInputTokens } from "./count-tokens";
+import { withFakeUpstream } from "../../../test-utils/fake-upstream";
+import type { UpstreamHandler } from "../../../test-utils/fake-upstream";
+
+const anthropicCount: UpstreamHandler = () => ({ body: { input_tokens: 21 } });
+const geminiCount: UpstreamHandler = () => ({ body: { totalTokens: 12 } });
+
+const request = {
+  model: "claude-sonnet-4",
+  system: "Be terse.",
+  messages: [{ role: "user" as const, content: "What is the capital of France?" }],
+};
+
+describe("estimateResponsesInputTokens", () => {
+  it("counts instructions, messages and tools", () => {
+    const base = estimateResponsesInputTokens({ model: "m", input: "hello world" });
+    expect(base).toBeGreaterThan(0);
+    const withInstructions = estimateResponsesInputTokens({
+      model: "m",
+      input: "hello world",
+      instructions: "Be terse.",
+    });
+    expect(withInstructions).toBeGreaterThan(base);
+    const withTools = estimateResponsesInputTokens({
+      model: "m",
+      input: "hello world",
+      tools: [{ type: "function", name: "lookup", parameters: { type: "object" }, strict: false }],
+    });
+    expect(withTools).toBeGreaterThan(base);
+  });
+
+  it("adds a fixed allowance for images instead of counting their data", () => {
+    const image = estimateResponsesInputTokens({
+      model: "m",
+      input: [
+        {
+          role: "user",
+          content: [{ type: "input_image", image_url: `data:image/png;base64,${"A".repeat(50_000)}`, detail: "auto" }],
+        },
+      ],
+    });
+    expect(image).toBeGreaterThan(1000);
+    expect(image).toBeLessThan(2000);
+  });
+
+  it("treats special-token text as ordinary input", () => {
+    expect(estimateResponsesInputTokens({ model: "m", input: "<|endoftext|>" })).toBeGreaterThan(0);
+  });
+});
+
+describe("createClaudeTokenCounter", () => {
+  it("forwards to Anthropic messages.countTokens for claude backends", async () => {
+    await withFakeUpstream(anthropicCount, async ({ origin, requests }) => {
+      const provider = { type: "claude", apiKey: "test-key", baseURL: origin, model: "claude-sonnet-4" };
+      expect(await createClaudeTokenCounter(provider)(request)).toEqual({ input_tokens: 21 });
+      expect(requests[0]?.path).toBe("/v1/messages/count_tokens");
+      expect(requests[0]?.body).toEqual({ model: "claude-sonnet-4", messages: request.messages, system: "Be terse." });
+    });
+  });
+
+  it("calls Gemini countTokens with the full converted request", async () => {
+    await withFakeUpstream(geminiCount, async ({ origin, requests }) => {
+      const count = createClaudeTokenCounter({
+        type: "gemini",
+        apiKey: "test-key",
+        baseURL: origin,
+        model: "gemini-2.5-flash",
+      });
+      expect(await count({ ...request, model: "gemini-2.5-flash" })).toEqual({ input_tokens: 12 });
+      expect(requests[0]?.url).toMatch(/^\/v1beta\/models\/gemini-2\.5-flash:countTokens\?key=test-key$/);
+      const body = requests[0]?.body as {
+        generateContentRequest: { model: string; contents: unknown[]; systemInstruction?: unknown };
+      };
+      expect(body.generateContentRequest.model).toBe("models/gemini-2.5-flash");
+      expect(body.generateContentRequest.contents).toHaveLength(1);
+      expect(body.generateContentRequest.systemInstruction).toBeDefined();
+    });
+  });
+
+  it("estimates locally for other backends", async () => {
+    const count = createClaudeTokenCounter({
+      type: "local",
+      apiKey: "test-key",
+      baseURL: "http://127.0.0.1:1/v1",
+      model: "local-model",
+    });
+    const { input_tokens } = await count(request);
+    expect(input_tokens).toBeGreaterThan(5);
+    expect(input_tokens).toBeLessThan(40);
+  });
+
+  it("counts block-form system prompts and skips thinking signatures", async () => {
+    const count = createClaudeTokenCounter({
+      type: "local",
+      apiKey: "k",
+      baseURL: "http://127.0.0.1:1/v1",
+      model: "m",
+    });
+    const system = "You are a meticulous assistant. Answer in one short sentence.";
+    const base = await count({ ...request, system: undefined });
+    const asString = await count({ ...request, system });
+    const asBlocks = await count({ ...request, system: [{ type: "text", text: system }] });
+    expect(asBlocks.input_tokens).toBe(asString.input_tokens);
+    expect(asBlocks.input_tokens).toBeGreaterThan(base.input_tokens + 5);
+
+    const thinking = { type: "thinking" as const, thinking: "2+2", signature: "S".repeat(4_000) };
+    const withThinking = await count({
+      ...request,
+      messages: [...request.messages, { role: "assistant", content: [thinking, { type: "text", text: "4" }] }],
+    });
+    expect(withThinking.input_tokens - base.input_tokens).toBeLessThan(30);
+  });
+});
+
+describe("emulateClaudeEndpoint count_tokens", () => {
+  const fetchHandler = emulateClaudeEndpoint({
+    provider: { type: "local", apiKey: "test-key", baseURL: "http://127.0.0.1:1/v1", model: "local-model" },
+  });
+
+  it("answers with input_tokens", async () => {
+    const res = await fetchHandler("http://local/v1/messages/count_tokens", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { input_tokens: number };
+    expect(body.input_tokens).toBeGreaterThan(0);
+  });
+
+  it("rejects malformed bodies in the Anthropic envelope", async () => {
+    const res = await fetchHandler("http://local/v1/messages/count_tokens", { method: "POST", body: "{" });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ type: "error", error: { type: "invalid_request_error" } });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @file Token counting behind the Claude emulator's `/v1/messages/count_tokens`.
+ * Backends with a native counter answer exactly (Anthropic `messages.countTokens`, Gemini
+ * `countTokens`); every other backend gets a local o200k estimate of the converted request.
+ */
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  MessageCountTokensParams,
+  MessageCreateParams as ClaudeMessageCreateParams,
+  MessageTokensCount,
+} from "@anthropic-ai/sdk/resources/messages";
+import type { ResponseCreateParams } from "openai/resources/responses/responses";
+import type { Provider } from "../../../config/types";
+import { selectApiKey } from "../../../config/select-api-key";
+import { pooledFetchFor } from "../../../config/pooled-fetch";
+import { resolveModelForProvider } from "../../../model/mapper";
+import { claudeToResponsesLocal } from "../../../adapters/claude-to-openai/responses-api/request-to-responses";
+import { responsesToGeminiRequest } from "../../../adapters/openai-to-gemini-v1beta/request-converter";
+import { countO200kTokens } from "../../../adapters/openai-compatible/responses-emulator/harmony/utils/o200k_tokenizer";
+import { GEMINI_DEFAULT_BASE_URL, GeminiFetchClient } from "../../../providers/gemini/client/fetch-client";
+import { estimateTokens } from "../../../adapters/shared/estimate-tokens";
+import { sdkMaxRetries } from "../../../adapters/retry";
+
+/** A `count_tokens` request: a Messages request without `max_tokens`. */
+export type ClaudeCountTokensRequest = Omit<ClaudeMessageCreateParams, "max_tokens"> & { max_tokens?: number };
+
+export type ClaudeTokenCounter = (
+  req: ClaudeCountTokensRequest,
+  options?: { signal?: AbortSignal },
+) => Promise<MessageTokensCount>;
+
+// Per-message framing (role markers, separators) that plain text counting misses
+const ITEM_OVERHEAD_TOKENS = 3;
+
+/**
+ * Estimates the input tokens of a Responses request with the o200k tokenizer.
+ * Counts instructions, input items and tool definitions, plus a fixed allowance per message and
+ * per image or file part.
+ *
+ * @param params - Responses request (typically converted from another API shape)
+ * @returns Estimated input token count
+ */
+export function estimateResponsesInputTokens(params: ResponseCreateParams): number {
+  const items = typeof params.input === "string" ? [params.input] : (params.input ?? []);
+  const instructions = params.instructions ? countO200kTokens(params.instructions) : 0;
+  const tools = (params.tools ?? []).reduce((sum, tool) => sum + countO200kTokens(JSON.stringify(tool)), 0);
+  const framing = (items.length + (params.instructions ? 1 : 0)) * ITEM_OVERHEAD_TOKENS;
+  return instructions + estimateTokens(items) + tools + framing;
+}
+
+function toAnthropicCountParams(req: ClaudeCountTokensRequest, model: string): MessageCountTokensParams {
+  const params: MessageCountTokensParams = { model, messages: req.messages };
+  if (req.system) {
+    params.system = req.system;
+  }
+  if (req.tools) {
+    params.tools = req.tools;
+  }
+  if (req.tool_choice) {
+    params.tool_choice = req.tool_choice;
+  }
+  if (req.thinking) {
+    params.thinking = req.thinking;
+  }
+  return params;
+}
+
+function toResponsesParams(req: ClaudeCountTokensRequest, model: string): ResponseCreateParams {
+  // max_tokens only sets max_output_tokens, which has no bearing on the input count
+  const params = claudeToResponsesLocal(req as ClaudeMessageCreateParams, model);
+  if (Array.isArray(req.system)) {
+    // The converter only carries a string system prompt; block-form prompts count just the same
+    params.instructions = req.system.map((block) => block.text).join("\n");
+  }
+  return params;
+}
+
+/**
+ * Builds the token counter used by `emulateClaudeEndpoint` for `/v1/messages/count_tokens`.
+ * - `claude`: forwards to Anthropic `messages.countTokens`
+ * - `gemini`: converts via the Responses shape and calls Gemini `countTokens`
+ * - others: o200k estimate of the converted request ({@link estimateResponsesInputTokens})
+ *
+ * @param provider - Backend provider of the emulator
+ * @returns Counter returning Anthropic's `{ input_tokens }` shape
+ */
+export function createClaudeTokenCounter(provider: Provider): ClaudeTokenCounter {
+  if (provider.type === "claude") {
+    const anthropic = new Anthropic({
+      apiKey: selectApiKey(provider, provider.model),
+      baseURL: provider.baseURL,
+      maxRetries: sdkMaxRetries(provider),
+      fetch: pooledFetchFor(provider, provider.baseURL ?? "https://api.anthropic.com"),
+    });
+    return async (req, options) => {
+      const model = await resolveModelForProvider({ provider, sourceModel: req.model });
+      return anthropic.messages.countTokens(toAnthropicCountParams(req, model), { signal: options?.signal });
+    };
+  }
+  if (provider.type === "gemini") {
+    const apiKey = selectApiKey(provider);
+    const gemini = new GeminiFetchClient({
+      apiKey: apiKey ? apiKey : "",
+      baseURL: provider.baseURL,
+      fetchImpl: pooledFetchFor(provider, provider.baseURL ?? GEMINI_DEFAULT_BASE_URL),
+    });
+    return async (req, options) => {
+      const model = await resolveModelForProvider({ provider, sourceModel: req.model });
+      const body = responsesToGeminiRequest(toResponsesParams(req, model));
+      const res = await gemini.countTokens(
+        model,
+        { generateContentRequest: { ...body, model: `models/${model}` } },
+        options?.signal,
+      );
+      return { input_tokens: res.totalTokens ?? 0 };
+    };
+  }
+  return async (req) => {
+    const model = await resolveModelForProvider({ provider, sourceModel: req.model });
+    return { input_tokens: estimateResponsesInputTokens(toResponsesParams(req, model)) };
+  };
+}
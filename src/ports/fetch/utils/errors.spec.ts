@@ -0,0 +1,104 @@
+/**
+ * @file Tests for provider-native error responses
+ */
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { errorDetailsFromException, exceptionResponse, renderErrorResponse } from "./errors";
+
+describe("errorDetailsFromException", () => {
+  it("keeps status, code, retry-after and request id from OpenAI SDK errors", () => {
+    const error = OpenAI.APIError.generate(
+      429,
+      { error: { message: "Rate limit reached", type: "requests", code: "rate_limit_exceeded" } },
+      undefined,
+      new Headers({ "retry-after": "12", "x-request-id": "req_oa" }),
+    );
+    expect(errorDetailsFromException(error)).toEqual({
+      status: 429,
+      message: "Rate limit reached",
+      code: "rate_limit_exceeded",
+      retryAfter: 12,
+      requestId: "req_oa",
+    });
+  });
+
+  it("unwraps the Anthropic error body", () => {
+    const error = Anthropic.APIError.generate(
+      401,
+      { type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } },
+      undefined,
+      new Headers({ "request-id": "req_ant" }),
+    );
+    expect(errorDetailsFromException(error)).toEqual({
+      status: 401,
+      message: "invalid x-api-key",
+      requestId: "req_ant",
+    });
+  });
+
+  it("maps HttpError, JSON syntax errors and plain errors", () => {
+    expect(errorDetailsFromException(new HttpError(503, "unavailable", "upstream_error", 5, "req_g"))).toEqual({
+      status: 503,
+      message: "unavailable",
+      code: "upstream_error",
+      retryAfter: 5,
+      requestId: "req_g",
+    });
+    expect(errorDetailsFromException(new SyntaxError("Unexpected token")).status).toBe(400);
+    expect(errorDetailsFromException(new Error("boom"))).toEqual({ status: 500, message: "boom" });
+  });
+
+  it("reports SDK connection failures as upstream failures", () => {
+    expect(errorDetailsFromException(new OpenAI.APIConnectionError({ message: "Connection error." }))).toEqual({
+      status: 502,
+      message: "Connection error.",
+    });
+    expect(errorDetailsFromException(new Anthropic.APIConnectionTimeoutError()).status).toBe(504);
+    expect(errorDetailsFromException(new OpenAI.APIConnectionTimeoutError()).status).toBe(504);
+  });
+
+  it("describes an AggregateError by its last error", () => {
+    const error = new AggregateError([new HttpError(500, "down"), new HttpError(429, "busy", undefined, 2)], "all failed");
+    expect(errorDetailsFromException(error)).toEqual({ status: 429, message: "busy", retryAfter: 2 });
+  });
+});
+
+describe("renderErrorResponse", () => {
+  const details = { status: 429, message: "slow down", retryAfter: 3, requestId: "req_1" };
+
+  it("renders the OpenAI envelope", async () => {
+    const res = renderErrorResponse("openai", details);
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("3");
+    expect(res.headers.get("x-request-id")).toBe("req_1");
+    expect(await res.json()).toEqual({
+      error: { message: "slow down", type: "rate_limit_error", param: null, code: null },
+    });
+  });
+
+  it("renders the Anthropic envelope", async () => {
+    const res = renderErrorResponse("claude", details);
+    expect(res.headers.get("request-id")).toBe("req_1");
+    expect(await res.json()).toEqual({ type: "error", error: { type: "rate_limit_error", message: "slow down" } });
+  });
+
+  it("renders the Google envelope", async () => {
+    const res = renderErrorResponse("gemini", details);
+    expect(res.headers.get("retry-after")).toBe("3");
+    expect(await res.json()).toEqual({ error: { code: 429, message: "slow down", status: "RESOURCE_EXHAUSTED" } });
+  });
+
+  it("lets SDK clients rebuild the matching error class", async () => {
+    const upstream = Anthropic.APIError.generate(
+      401,
+      { type: "error", error: { type: "authentication_error", message: "bad key" } },
+      undefined,
+      new Headers(),
+    );
+    const res = exceptionResponse("openai", upstream);
+    const rebuilt = OpenAI.APIError.generate(res.status, await res.json(), undefined, res.headers);
+    expect(rebuilt).toBeInstanceOf(OpenAI.AuthenticationError);
+    expect(rebuilt.message).toContain("bad key");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * @file Provider-native error responses for the fetch emulators.
+ * Upstream failures keep their status code, `retry-after` and request id, and are rendered in
+ * the envelope each surface's SDK expects, so client-side error classes (RateLimitError,
+ * AuthenticationError, ...) and retry logic behave as they would against the real API.
+ */
+import {
+  APIError as OpenAIAPIError,
+  APIConnectionError as OpenAIConnectionError,
+  APIConnectionTimeoutError as OpenAIConnectionTimeoutError,
+} from "openai";
+import {
+  APIError as AnthropicAPIError,
+  APIConnectionError as AnthropicConnectionError,
+  APIConnectionTimeoutError as AnthropicConnectionTimeoutError,
+} from "@anthropic-ai/sdk";
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { isObject } from "../../../utils/type-guards";
+import { retryAfterMsFromHeaders } from "../../../utils/retry-after";
+
+/** API shape a client speaks; decides the error envelope. */
+export type ErrorSurface = "openai" | "claude" | "gemini" | "ollama";
+
+/** Provider-neutral description of a failed request. */
+export type ErrorDetails = {
+  status: number;
+  message: string;
+  /** Machine-readable code from upstream, when there is one (OpenAI `code`). */
+  code?: string;
+  /** Seconds, from upstream `retry-after`. */
+  retryAfter?: number;
+  requestId?: string;
+};
+
+const CLAUDE_ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  413: "request_too_large",
+  429: "rate_limit_error",
+  529: "overloaded_error",
+};
+
+const OPENAI_ERROR_TYPES: Record<number, string> = {
+  401: "authentication_error",
+  403: "permission_error",
+  429: "rate_limit_error",
+};
+
+const GOOGLE_STATUSES: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  401: "UNAUTHENTICATED",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  409: "ABORTED",
+  429: "RESOURCE_EXHAUSTED",
+  499: "CANCELLED",
+  501: "UNIMPLEMENTED",
+  503: "UNAVAILABLE",
+  504: "DEADLINE_EXCEEDED",
+};
+
+function claudeErrorType(status: number): string {
+  if (CLAUDE_ERROR_TYPES[status]) {
+    return CLAUDE_ERROR_TYPES[status];
+  }
+  return status >= 500 ? "api_error" : "invalid_request_error";
+}
+
+function openAIErrorType(status: number): string {
+  if (OPENAI_ERROR_TYPES[status]) {
+    return OPENAI_ERROR_TYPES[status];
+  }
+  return status >= 500 ? "server_error" : "invalid_request_error";
+}
+
+function googleStatus(status: number): string {
+  if (GOOGLE_STATUSES[status]) {
+    return GOOGLE_STATUSES[status];
+  }
+  if (status >= 500) {
+    return "INTERNAL";
+  }
+  return status === 405 ? "FAILED_PRECONDITION" : "INVALID_ARGUMENT";
+}
+
+/** Pull the human message out of an SDK error body (`{error:{message}}` or `{message}`). */
+function sdkErrorMessage(body: unknown, fallback: string): string {
+  if (!isObject(body)) {
+    return fallback;
+  }
+  if (isObject(body.error) && typeof body.error.message === "string") {
+    return body.error.message;
+  }
+  if (typeof body.message === "string") {
+    return body.message;
+  }
+  return fallback;
+}
+
+/** SDK errors without a status never got an upstream answer: a gateway timeout or a bad gateway */
+function unansweredStatus(error: OpenAIAPIError | AnthropicAPIError, fallbackStatus: number): number {
+  if (error instanceof OpenAIConnectionTimeoutError || error instanceof AnthropicConnectionTimeoutError) {
+    return 504;
+  }
+  if (error instanceof OpenAIConnectionError || error instanceof AnthropicConnectionError) {
+    return 502;
+  }
+  return fallbackStatus;
+}
+
+function fromSdkError(error: OpenAIAPIError | AnthropicAPIError, fallbackStatus: number): ErrorDetails {
+  const details: ErrorDetails = {
+    status: typeof error.status === "number" ? error.status : unansweredStatus(error, fallbackStatus),
+    message: sdkErrorMessage(error.error, error.message),
+  };
+  if (error instanceof OpenAIAPIError && typeof error.code === "string") {
+    details.code = error.code;
+  }
+  const retryAfterMs = error.headers ? retryAfterMsFromHeaders(error.headers) : undefined;
+  if (retryAfterMs !== undefined) {
+    details.retryAfter = Math.ceil(retryAfterMs / 1000);
+  }
+  if (error.requestID) {
+    details.requestId = error.requestID;
+  }
+  return details;
+}
+
+/**
+ * Describes a thrown value as an HTTP failure.
+ * SDK `APIError`s and `HttpError` keep their upstream status, code, retry-after and request id;
+ * SDK connection failures become 502 (504 on timeout); JSON syntax errors become 400; an `AggregateError` is described by its last error; anything else
+ * uses `fallbackStatus`.
+ *
+ * @param error - Value caught from an upstream call or request parsing
+ * @param fallbackStatus - Status for errors that carry none (defaults to 500)
+ * @returns Error details ready for {@link renderErrorResponse}
+ */
+export function errorDetailsFromException(error: unknown, fallbackStatus = 500): ErrorDetails {
+  // Fallback chains that failed everywhere report the last backend's failure
+  if (error instanceof AggregateError && error.errors.length > 0) {
+    return errorDetailsFromException(error.errors.at(-1), fallbackStatus);
+  }
+  if (error instanceof OpenAIAPIError) {
+    return fromSdkError(error, fallbackStatus);
+  }
+  if (error instanceof AnthropicAPIError) {
+    return fromSdkError(error, fallbackStatus);
+  }
+  if (error instanceof HttpError) {
+    const details: ErrorDetails = { status: error.status, message: error.message };
+    if (error.code) {
+      details.code = error.code;
+    }
+    if (error.retryAfter !== undefined) {
+      details.retryAfter = error.retryAfter;
+    }
+    if (error.requestId) {
+      details.requestId = error.requestId;
+    }
+    return details;
+  }
+  if (error instanceof SyntaxError) {
+    return { status: 400, message: `Invalid JSON body: ${error.message}` };
+  }
+  return { status: fallbackStatus, message: error instanceof Error ? error.message : String(error) };
+}
+
+function errorHeaders(details: ErrorDetails, requestIdHeader: string | undefined): Headers {
+  const headers = new Headers({ "content-type": "application/json" });
+  if (details.retryAfter !== undefined) {
+    headers.set("retry-after", String(details.retryAfter));
+  }
+  if (requestIdHeader && details.requestId) {
+    headers.set(requestIdHeader, details.requestId);
+  }
+  return headers;
+}
+
+/**
+ * Builds the native error body of a surface:
+ * OpenAI `{error:{message,type,param,code}}`, Anthropic `{type:"error",error:{type,message}}`,
+ * Google `{error:{code,message,status}}`, Ollama `{error}`.
+ *
+ * @param surface - API shape the client speaks
+ * @param details - Status and message
+ * @returns JSON-serializable error body
+ */
+export function errorEnvelope(surface: ErrorSurface, details: ErrorDetails): Record<string, unknown> {
+  const { status, message } = details;
+  if (surface === "claude") {
+    return { type: "error", error: { type: claudeErrorType(status), message } };
+  }
+  if (surface === "gemini") {
+    return { error: { code: status, message, status: googleStatus(status) } };
+  }
+  if (surface === "ollama") {
+    return { error: message };
+  }
+  return { error: { message, type: openAIErrorType(status), param: null, code: details.code ?? null } };
+}
+
+const REQUEST_ID_HEADERS: Record<ErrorSurface, string | undefined> = {
+  openai: "x-request-id",
+  claude: "request-id",
+  gemini: undefined,
+  ollama: undefined,
+};
+
+/**
+ * Renders an error response in the native envelope of a surface (see {@link errorEnvelope}).
+ *
+ * @param surface - API shape the client speaks
+ * @param details - Status, message and upstream metadata
+ * @returns JSON error response with `retry-after` and request-id headers when known
+ */
+export function renderErrorResponse(surface: ErrorSurface, details: ErrorDetails): Response {
+  return new Response(JSON.stringify(errorEnvelope(surface, details)), {
+    status: details.status,
+    headers: errorHeaders(details, REQUEST_ID_HEADERS[surface]),
+  });
+}
+
+/**
+ * Shorthand for rendering a thrown value on a surface.
+ *
+ * @param surface - API shape the client speaks
+ * @param error - Caught value
+ * @param fallbackStatus - Status for errors that carry none
+ * @returns Native error response
+ */
+export function exceptionResponse(surface: ErrorSurface, error: unknown, fallbackStatus?: number): Response {
+  return renderErrorResponse(surface, errorDetailsFromException(error, fallbackStatus));
+}
@@ -0,0 +1,198 @@
+/**
+ * @file Tests for inbound API-key authentication on the emulators
+ */
+import { emulateClaudeEndpoint } from "../claude";
+import { emulateGeminiEndpoint } from "../gemini";
+import { createInMemoryResponseStore } from "../../../adapters/response-store";
+import { emulateOpenAIEndpoint } from "../openai";
+import { isModelAllowed, readInboundKey } from "./inbound-auth";
+import { withFakeUpstream } from "../../../test-utils/fake-upstream";
+import type { UpstreamHandler, UpstreamRequest } from "../../../test-utils/fake-upstream";
+
+/** Chat upstream answering every call with the same completion */
+const chatUpstream: UpstreamHandler = (request) => {
+  const body = request.body as { model: string };
+  const message = { role: "assistant", content: "ok" };
+  return {
+    body: {
+      id: "c1",
+      object: "chat.completion",
+      created: 0,
+      model: body.model,
+      choices: [{ index: 0, message, finish_reason: "stop" }],
+    },
+  };
+};
+
+/** Authorization header of each upstream call */
+function seenKeys(requests: UpstreamRequest[]): string[] {
+  return requests.map((r) => String(r.headers.authorization));
+}
+
+function chat(model: string, headers: Record<string, string>): RequestInit {
+  return { method: "POST", headers, body: JSON.stringify({ model, messages: [{ role: "user", content: "hi" }] }) };
+}
+
+describe("inbound API-key authentication", () => {
+  it("rejects missing and unknown keys with a native 401", async () => {
+    const fetchHandler = emulateOpenAIEndpoint({
+      provider: { type: "local", apiKey: "upstream", baseURL: "http://127.0.0.1:1/v1" },
+      auth: { keys: [{ key: "team-a" }] },
+    });
+    const missing = await fetchHandler("http://local/v1/chat/completions", chat("m", {}));
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toMatchObject({ error: { type: "authentication_error", code: "missing_api_key" } });
+    const unknown = await fetchHandler("http://local/v1/chat/completions", chat("m", { authorization: "Bearer x" }));
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toMatchObject({ error: { code: "invalid_api_key" } });
+    const ollama = await fetchHandler("http://local/api/tags");
+    expect(await ollama.json()).toEqual({ error: "Missing API key" });
+  });
+
+  it("maps each inbound key to its upstream key", async () => {
+    await withFakeUpstream(chatUpstream, async ({ origin, requests }) => {
+      const baseURL = `${origin}/v1`;
+      const provider = { type: "local", apiKey: "shared", baseURL, model: "m" };
+      const fetchHandler = emulateOpenAIEndpoint({
+        provider,
+        auth: { keys: [{ key: "team-a", apiKey: "upstream-a" }, { key: "team-b" }] },
+      });
+      const a = await fetchHandler("http://local/v1/chat/completions", chat("m", { authorization: "Bearer team-a" }));
+      const b = await fetchHandler("http://local/v1/chat/completions", chat("m", { "x-api-key": "team-b" }));
+      expect([a.status, b.status]).toEqual([200, 200]);
+      expect(seenKeys(requests)).toEqual(["Bearer upstream-a", "Bearer shared"]);
+    });
+  });
+
+  it("answers models outside the allow list with a native 403", async () => {
+    await withFakeUpstream(chatUpstream, async ({ origin, requests }) => {
+      const baseURL = `${origin}/v1`;
+      const auth = { keys: [{ key: "k", models: ["gpt-4o*"] }] };
+      const openai = emulateOpenAIEndpoint({ provider: { type: "local", apiKey: "u", baseURL, model: "m" }, auth });
+      const allowed = await openai(
+        "http://local/v1/chat/completions",
+        chat("gpt-4o-mini", { authorization: "Bearer k" }),
+      );
+      expect(allowed.status).toBe(200);
+      const denied = await openai("http://local/v1/chat/completions", chat("o3", { authorization: "Bearer k" }));
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ error: { type: "permission_error" } });
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  it("uses the Claude and Google envelopes on their emulators", async () => {
+    const auth = { keys: [{ key: "k", models: ["claude-sonnet-4"] }] };
+    const claude = emulateClaudeEndpoint({ provider: { type: "claude", apiKey: "u" }, auth });
+    const res = await claude("http://local/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": "k" },
+      body: JSON.stringify({ model: "claude-opus-4", max_tokens: 10, messages: [{ role: "user", content: "hi" }] }),
+    });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ type: "error", error: { type: "permission_error" } });
+
+    const gemini = emulateGeminiEndpoint({ provider: { type: "gemini", apiKey: "u" }, auth });
+    const unauthenticated = await gemini("http://local/v1beta/models", { method: "GET" });
+    expect(await unauthenticated.json()).toMatchObject({ error: { code: 401, status: "UNAUTHENTICATED" } });
+    const forbidden = await gemini("http://local/v1beta/models/gemini-2.0-flash:generateContent?key=k", {
+      method: "POST",
+      body: JSON.stringify({ contents: [{ parts: [{ text: "hi" }] }] }),
+    });
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toMatchObject({ error: { code: 403, status: "PERMISSION_DENIED" } });
+  });
+
+  it("applies the allow list to count_tokens, Ollama show and Gemini model lookups", async () => {
+    const auth = { keys: [{ key: "k", models: ["claude-sonnet-4"] }] };
+    const claude = emulateClaudeEndpoint({ provider: { type: "claude", apiKey: "u" }, auth });
+    const count = await claude("http://local/v1/messages/count_tokens", {
+      method: "POST",
+      headers: { "x-api-key": "k" },
+      body: JSON.stringify({ model: "claude-opus-4", messages: [{ role: "user", content: "hi" }] }),
+    });
+    expect(count.status).toBe(403);
+
+    const openai = emulateOpenAIEndpoint({
+      provider: { type: "local", apiKey: "u", baseURL: "http://127.0.0.1:1/v1" },
+      auth,
+    });
+    const show = await openai("http://local/api/show", {
+      method: "POST",
+      headers: { authorization: "Bearer k" },
+      body: JSON.stringify({ name: "llama3" }),
+    });
+    expect(show.status).toBe(403);
+    expect(await show.json()).toEqual({ error: "This API key is not allowed to use model 'llama3'" });
+
+    const gemini = emulateGeminiEndpoint({ provider: { type: "gemini", apiKey: "u" }, auth });
+    const model = await gemini("http://local/v1beta/models/gemini-2.0-flash?key=k", { method: "GET" });
+    expect(model.status).toBe(403);
+  });
+
+  it("lists only the models a key may use", async () => {
+    const modelsUpstream: UpstreamHandler = () => ({
+      body: { object: "list", data: ["gpt-4o", "gpt-4o-mini", "o3"].map((id) => ({ id })) },
+    });
+    await withFakeUpstream(modelsUpstream, async ({ origin }) => {
+      const openai = emulateOpenAIEndpoint({
+        provider: { type: "openai", apiKey: "u", baseURL: `${origin}/v1` },
+        auth: { keys: [{ key: "k", models: ["gpt-4o*"] }] },
+      });
+      const res = await openai("http://local/v1/models", { headers: { authorization: "Bearer k" } });
+      expect(((await res.json()) as { data: Array<{ id: string }> }).data.map((m) => m.id)).toEqual([
+        "gpt-4o",
+        "gpt-4o-mini",
+      ]);
+    });
+  });
+
+  it("keeps stored responses of a shared store private to the key that created them", async () => {
+    await withFakeUpstream(chatUpstream, async ({ origin }) => {
+      const baseURL = `${origin}/v1`;
+      const openai = emulateOpenAIEndpoint({
+        provider: { type: "local", apiKey: "u", baseURL, model: "m" },
+        responseStore: createInMemoryResponseStore(),
+        auth: { keys: [{ key: "team-a" }, { key: "team-b" }] },
+      });
+      const a = { authorization: "Bearer team-a" };
+      const b = { authorization: "Bearer team-b" };
+      const created = await openai("http://local/v1/responses", {
+        method: "POST",
+        headers: a,
+        body: JSON.stringify({ model: "m", input: "hi" }),
+      });
+      const { id } = (await created.json()) as { id: string };
+      expect((await openai(`http://local/v1/responses/${id}`, { headers: a })).status).toBe(200);
+      expect((await openai(`http://local/v1/responses/${id}`, { headers: b })).status).toBe(404);
+      expect((await openai(`http://local/v1/responses/${id}`, { method: "DELETE", headers: b })).status).toBe(404);
+      const followUp = await openai("http://local/v1/responses", {
+        method: "POST",
+        headers: b,
+        body: JSON.stringify({ model: "m", input: "again", previous_response_id: id }),
+      });
+      expect(followUp.ok).toBe(false);
+      expect((await openai(`http://local/v1/responses/${id}`, { headers: a })).status).toBe(200);
+    });
+  });
+
+  it("drops the provider's pool when a key overrides the upstream key", async () => {
+    await withFakeUpstream(chatUpstream, async ({ origin, requests }) => {
+      const baseURL = `${origin}/v1`;
+      const provider = { type: "local", baseURL, model: "m", pool: { endpoints: [{ apiKey: "pooled" }] } };
+      const openai = emulateOpenAIEndpoint({ provider, auth: { keys: [{ key: "k", apiKey: "own" }] } });
+      const res = await openai("http://local/v1/chat/completions", chat("m", { authorization: "Bearer k" }));
+      expect(res.status).toBe(200);
+      expect(seenKeys(requests)).toEqual(["Bearer own"]);
+    });
+  });
+
+  it("reads keys from every supported header and matches prefixes", () => {
+    const url = new URL("http://local/v1beta/models?key=q");
+    expect(readInboundKey(url, new Headers({ authorization: "Bearer a" }))).toBe("a");
+    expect(readInboundKey(url, new Headers({ "x-goog-api-key": "g" }))).toBe("g");
+    expect(readInboundKey(url, new Headers())).toBe("q");
+    expect(isModelAllowed({ key: "k", models: ["gemini-*", "gpt-4o"] }, "gemini-2.5-pro")).toBe(true);
+    expect(isModelAllowed({ key: "k", models: ["gemini-*", "gpt-4o"] }, "gpt-4o-mini")).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @file Inbound API-key authentication for emulators exposed as a shared gateway
+ *
+ * Callers present their own key; each configured key decides which upstream provider and key
+ * serve the request and which models it may ask for. Failures use the surface's error envelope.
+ */
+import type { Provider } from "../../../config/types";
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { renderErrorResponse } from "./errors";
+import type { ErrorSurface } from "./errors";
+import type { FetchHandler } from "./http";
+import type { EndpointMiddleware, EndpointRequest } from "./middleware";
+
+export type InboundKey = {
+  /** Key callers send as `Authorization: Bearer`, `x-api-key`, `x-goog-api-key` or `?key=` */
+  key: string;
+  /** Upstream for requests made with this key. Defaults to the emulator's provider. */
+  provider?: Provider;
+  /** Upstream API key replacing the one of the selected provider */
+  apiKey?: string;
+  /** Models this key may request; a trailing `*` matches by prefix. Every model when omitted. */
+  models?: string[];
+};
+
+export type InboundAuthOptions = {
+  keys: InboundKey[];
+};
+
+/**
+ * Builds the emulator serving one inbound key; `policy` must run before other middleware.
+ * `scope` identifies the key without revealing it, for state shared between keys (response stores).
+ */
+export type KeyedEmulatorFactory = (provider: Provider, policy: EndpointMiddleware, scope: string) => FetchHandler;
+
+const GEMINI_MODEL_ACTION =
+  /^\/v1(?:beta)?\/models\/(.+?):(?:generateContent|streamGenerateContent|countTokens|embedContent|batchEmbedContents)$/;
+const GEMINI_MODEL_GET = /^\/v1(?:beta)?\/models\/([^:]+)$/;
+const MODEL_LISTINGS = new Set(["/v1/models", "/v1beta/models", "/api/tags"]);
+
+/** Read the caller's key from the headers every supported SDK uses, then Gemini's `key` query parameter */
+export function readInboundKey(url: URL, headers: Headers): string | undefined {
+  const authorization = headers.get("authorization");
+  if (authorization && /^bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^bearer\s+/i, "").trim();
+  }
+  return headers.get("x-api-key") ?? headers.get("x-goog-api-key") ?? url.searchParams.get("key") ?? undefined;
+}
+
+/** Whether `model` is on the key's allow list */
+export function isModelAllowed(entry: InboundKey, model: string): boolean {
+  if (!entry.models) {
+    return true;
+  }
+  return entry.models.some((pattern) => {
+    if (pattern.endsWith("*")) {
+      return model.startsWith(pattern.slice(0, -1));
+    }
+    return pattern === model;
+  });
+}
+
+function assertModelAllowed(entry: InboundKey, model: string | null | undefined): void {
+  if (!entry.models) {
+    return;
+  }
+  if (!model) {
+    throw new HttpError(403, "This API key must name an allowed model", "model_not_allowed");
+  }
+  if (!isModelAllowed(entry, model)) {
+    throw new HttpError(403, `This API key is not allowed to use model '${model}'`, "model_not_allowed");
+  }
+}
+
+/** Model named in the path of a Gemini model action, or of `GET /v1(beta)/models/{model}` */
+function geminiPathModel(request: EndpointRequest): string | undefined {
+  const action = request.url.pathname.match(GEMINI_MODEL_ACTION);
+  const method = (request.init.method ?? "GET").toUpperCase();
+  const get = method === "GET" ? request.url.pathname.match(GEMINI_MODEL_GET) : null;
+  const encoded = action?.[1] ?? get?.[1];
+  if (!encoded) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(encoded).replace(/^models\//, "");
+  } catch {
+    return encoded;
+  }
+}
+
+type ModelListing = {
+  data?: Array<{ id?: string }>;
+  models?: Array<{ name?: string; model?: string }>;
+};
+
+/** Drop the models a key may not use from OpenAI/Claude (`data[].id`), Gemini and Ollama (`models[]`) listings */
+async function filterModelListing(entry: InboundKey, response: Response): Promise<Response | undefined> {
+  if (!response.ok || !response.headers.get("content-type")?.includes("application/json")) {
+    return undefined;
+  }
+  const listing = (await response.json()) as ModelListing;
+  const allowed = (model: string | undefined): boolean => isModelAllowed(entry, (model ?? "").replace(/^models\//, ""));
+  const filtered: ModelListing = { ...listing };
+  if (Array.isArray(listing.data)) {
+    filtered.data = listing.data.filter((m) => allowed(m.id));
+  }
+  if (Array.isArray(listing.models)) {
+    filtered.models = listing.models.filter((m) => allowed(m.model ?? m.name));
+  }
+  return new Response(JSON.stringify(filtered), { status: response.status, headers: response.headers });
+}
+
+/**
+ * Middleware enforcing a key's model allow list on every route that names a model: request
+ * bodies for OpenAI, Claude (messages and count_tokens) and Ollama routes, the URL path for
+ * Gemini. Model listings only show the allowed models.
+ */
+export function modelPolicyMiddleware(entry: InboundKey): EndpointMiddleware {
+  const check = (body: { model?: string | null }): void => assertModelAllowed(entry, body.model);
+  return {
+    beforeRequest(request) {
+      const model = geminiPathModel(request);
+      if (model !== undefined && !isModelAllowed(entry, model)) {
+        return renderErrorResponse(request.surface, {
+          status: 403,
+          message: `This API key is not allowed to use model '${model}'`,
+        });
+      }
+    },
+    afterResponse(response, request) {
+      if (!entry.models || !MODEL_LISTINGS.has(request.url.pathname)) {
+        return;
+      }
+      return filterModelListing(entry, response);
+    },
+    onRequestBody: {
+      "openai.responses": check,
+      "openai.chat.completions": check,
+      "openai.completions": check,
+      "openai.embeddings": check,
+      "claude.messages": check,
+      "claude.count_tokens": check,
+      "ollama.chat": check,
+      "ollama.generate": check,
+      "ollama.embed": check,
+      "ollama.show": (body) => assertModelAllowed(entry, body.model ?? body.name),
+    },
+  };
+}
+
+function upstreamProvider(base: Provider, entry: InboundKey): Provider {
+  const provider = entry.provider ?? base;
+  if (entry.apiKey === undefined) {
+    return provider;
+  }
+  // The pool's keys would replace the override on every upstream call
+  return { ...provider, apiKey: entry.apiKey, pool: undefined };
+}
+
+/** Stable, non-reversible identifier of a key (hex SHA-256 prefix) */
+async function keyScope(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest).slice(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Put key authentication in front of an emulator. Requests without a key, or with an unknown
+ * one, get 401; each key gets its own emulator, built on first use. A per-key `apiKey` replaces
+ * the provider's `pool`, whose keys would otherwise override it.
+ *
+ * @param options.surface - Error envelope, per request path when the emulator serves several APIs
+ * @param options.auth - Accepted keys and their policies
+ * @param options.provider - Upstream for keys that do not name one
+ * @param options.build - Creates the emulator for a key's upstream and model policy
+ * @returns Handler suitable for `createFetchHandler`
+ */
+export function withInboundAuth(options: {
+  surface: ErrorSurface | ((url: URL) => ErrorSurface);
+  auth: InboundAuthOptions;
+  provider: Provider;
+  build: KeyedEmulatorFactory;
+}): (url: URL, init?: RequestInit) => Promise<Response> {
+  const entries = new Map(options.auth.keys.map((entry) => [entry.key, entry]));
+  const handlers = new Map<string, Promise<FetchHandler>>();
+  const surfaceFor = (url: URL): ErrorSurface =>
+    typeof options.surface === "function" ? options.surface(url) : options.surface;
+
+  return async (url, init) => {
+    const key = readInboundKey(url, new Headers(init?.headers));
+    if (!key) {
+      return renderErrorResponse(surfaceFor(url), { status: 401, message: "Missing API key", code: "missing_api_key" });
+    }
+    const entry = entries.get(key);
+    if (!entry) {
+      return renderErrorResponse(surfaceFor(url), { status: 401, message: "Invalid API key", code: "invalid_api_key" });
+    }
+    const existing = handlers.get(key);
+    if (existing) {
+      return (await existing)(url, init);
+    }
+    const handler = keyScope(key).then((scope) =>
+      options.build(upstreamProvider(options.provider, entry), modelPolicyMiddleware(entry), scope),
+    );
+    handlers.set(key, handler);
+    return (await handler)(url, init);
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * @file Tests for the endpoint middleware pipeline
+ */
+import { handleGeminiRoute, type GeminiEndpointAdapter } from "../gemini";
+import { jsonResponse } from "./http";
+import { withMiddleware } from "./middleware";
+import type { EndpointMiddleware, RouteContext } from "./middleware";
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import { createSSEResponse } from "./sse-builder";
+
+function chunk(content: string): ChatCompletionChunk {
+  return {
+    id: "c1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "m",
+    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+  };
+}
+
+/** Echoes the routed body and headers; streams three chunks through the context */
+async function route(url: URL, init: RequestInit | undefined, context: RouteContext): Promise<Response> {
+  const body = await context.body("openai.chat.completions", JSON.parse(String(init?.body)));
+  if (body.stream) {
+    async function* chunks() {
+      yield chunk("a");
+      yield chunk("b");
+      yield chunk("c");
+    }
+    return createSSEResponse(context.stream("openai.chat.completions", chunks()), "openai-chat");
+  }
+  const headers = new Headers(init?.headers);
+  return jsonResponse({ path: url.pathname, model: body.model, tag: headers.get("x-tag") });
+}
+
+function post(body: unknown, headers?: Record<string, string>): RequestInit {
+  return { method: "POST", body: JSON.stringify(body), headers };
+}
+
+describe("withMiddleware", () => {
+  it("lets hooks rewrite headers and the typed request body", async () => {
+    const middleware: EndpointMiddleware[] = [
+      {
+        beforeRequest(request) {
+          request.headers.set("x-tag", request.headers.get("x-client") ?? "none");
+        },
+        onRequestBody: {
+          "openai.chat.completions": (body) => ({ ...body, model: `${body.model}-rewritten` }),
+        },
+      },
+    ];
+    const handler = withMiddleware(route, { surface: "openai", middleware });
+    const res = await handler(new URL("http://local/v1/chat/completions"), post({ model: "m" }, { "x-client": "cli" }));
+    expect(await res.json()).toEqual({ path: "/v1/chat/completions", model: "m-rewritten", tag: "cli" });
+  });
+
+  it("short-circuits on beforeRequest and unwinds afterResponse in reverse", async () => {
+    const order: string[] = [];
+    const tracer = (name: string): EndpointMiddleware => ({
+      beforeRequest() {
+        order.push(`before:${name}`);
+      },
+      afterResponse(response) {
+        order.push(`after:${name}`);
+        const headers = new Headers(response.headers);
+        headers.append("x-trace", name);
+        return new Response(response.body, { status: response.status, headers });
+      },
+    });
+    const deny: EndpointMiddleware = { beforeRequest: () => jsonResponse({ denied: true }, { status: 403 }) };
+    const never: EndpointMiddleware = {
+      beforeRequest() {
+        order.push("before:never");
+      },
+    };
+    const handler = withMiddleware(route, { surface: "openai", middleware: [tracer("a"), tracer("b"), deny, never] });
+    const res = await handler(new URL("http://local/v1/chat/completions"), post({ model: "m" }));
+    expect(res.status).toBe(403);
+    expect(res.headers.get("x-trace")).toBe("b, a");
+    expect(order).toEqual(["before:a", "before:b", "after:b", "after:a"]);
+  });
+
+  it("rewrites and drops converted stream events before framing", async () => {
+    const middleware: EndpointMiddleware[] = [
+      {
+        onStreamEvent: {
+          "openai.chat.completions": (event) => (event.choices[0]?.delta.content === "b" ? null : undefined),
+        },
+      },
+      {
+        onStreamEvent: {
+          "openai.chat.completions": (event) => ({
+            ...event,
+            choices: event.choices.map((c) => ({ ...c, delta: { content: c.delta.content?.toUpperCase() } })),
+          }),
+        },
+      },
+    ];
+    const handler = withMiddleware(route, { surface: "openai", middleware });
+    const res = await handler(new URL("http://local/v1/chat/completions"), post({ model: "m", stream: true }));
+    const contents = (await res.text())
+      .split("\n\n")
+      .filter((f) => f.startsWith("data: {"))
+      .map((f) => (JSON.parse(f.slice("data: ".length)) as ChatCompletionChunk).choices[0]?.delta.content);
+    expect(contents).toEqual(["A", "C"]);
+  });
+
+  it("answers a throwing hook in the surface's error envelope", async () => {
+    const middleware: EndpointMiddleware[] = [
+      {
+        beforeRequest() {
+          throw new Error("hook failed");
+        },
+      },
+    ];
+    const handler = withMiddleware(route, { surface: "claude", middleware });
+    const res = await handler(new URL("http://local/v1/messages"), post({ model: "m" }));
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ type: "error", error: { message: "hook failed" } });
+  });
+
+  it("hands Gemini requests and chunks to the hooks", async () => {
+    const seen: unknown[] = [];
+    async function* gen() {
+      yield { n: 1 };
+      yield { n: 2 };
+    }
+    const adapter: GeminiEndpointAdapter = {
+      async generateContent() {
+        throw new Error("not used");
+      },
+      async streamGenerateContent(_model, body) {
+        seen.push(body.generationConfig);
+        return gen();
+      },
+      async listModels() {
+        throw new Error("not used");
+      },
+    };
+    const middleware: EndpointMiddleware[] = [
+      {
+        onRequestBody: { "gemini.generateContent": (body) => ({ ...body, generationConfig: { temperature: 0 } }) },
+        onStreamEvent: { "gemini.generateContent": (event) => ({ wrapped: event }) },
+      },
+    ];
+    const handler = withMiddleware((url, init, context) => handleGeminiRoute(url, init, adapter, context), {
+      surface: "gemini",
+      middleware,
+    });
+    const res = await handler(
+      new URL("http://local/v1beta/models/gemini-2.0-flash:streamGenerateContent"),
+      post({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    );
+    const lines = (await res.text()).trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l))).toEqual([{ wrapped: { n: 1 } }, { wrapped: { n: 2 } }]);
+    expect(seen).toEqual([{ temperature: 0 }]);
+  });
+});
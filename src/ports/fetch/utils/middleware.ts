@@ -0,0 +1,224 @@
+/**
+ * @file Middleware pipeline for the emulated endpoints
+ *
+ * A middleware can inspect or answer a request before routing, rewrite the parsed request
+ * body of a route, rewrite or drop each converted stream event, and replace the final response.
+ * Body and stream hooks are keyed by route, so each one receives the route's own types.
+ */
+import type { MessageCreateParams, MessageStreamEvent } from "@anthropic-ai/sdk/resources/messages";
+import type { ChatCompletionChunk, ChatCompletionCreateParams } from "openai/resources/chat/completions";
+import type { CompletionCreateParams } from "openai/resources/completions";
+import type { EmbeddingCreateParams } from "openai/resources/embeddings";
+import type { ResponseCreateParams, ResponseStreamEvent } from "openai/resources/responses/responses";
+import type { CompletionChunk } from "../../../adapters/openai-client-types";
+import type { GeminiRequest } from "../../../adapters/openai-to-gemini-v1beta";
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaShowRequest,
+} from "../../../adapters/openai-to-ollama";
+import type { ClaudeCountTokensRequest } from "./count-tokens";
+import { exceptionResponse } from "./errors";
+import type { ErrorSurface } from "./errors";
+
+/** Parsed request body of each route that accepts one */
+export type RequestBodyMap = {
+  "openai.responses": ResponseCreateParams;
+  "openai.chat.completions": ChatCompletionCreateParams;
+  "openai.completions": CompletionCreateParams;
+  "openai.embeddings": EmbeddingCreateParams;
+  "claude.messages": MessageCreateParams;
+  "claude.count_tokens": ClaudeCountTokensRequest;
+  "gemini.generateContent": GeminiRequest;
+  "ollama.chat": OllamaChatRequest;
+  "ollama.generate": OllamaGenerateRequest;
+  "ollama.embed": OllamaEmbedRequest;
+  "ollama.show": OllamaShowRequest;
+};
+
+/**
+ * Events of each streaming route, after conversion to the emulated API and before framing.
+ * Gemini chunks come from the configured adapter and are not narrowed.
+ */
+export type StreamEventMap = {
+  "openai.responses": ResponseStreamEvent;
+  "openai.chat.completions": ChatCompletionChunk;
+  "openai.completions": CompletionChunk;
+  "claude.messages": MessageStreamEvent;
+  "gemini.generateContent": unknown;
+  "ollama.chat": OllamaChatResponse;
+  "ollama.generate": OllamaGenerateResponse;
+};
+
+export type BodyRoute = keyof RequestBodyMap;
+export type StreamRoute = keyof StreamEventMap;
+
+/** Request as seen by middleware. Changes to `init` and `headers` reach the route. */
+export type EndpointRequest = {
+  readonly surface: ErrorSurface;
+  url: URL;
+  init: RequestInit;
+  headers: Headers;
+  /** Per-request scratch space shared between hooks (timings, authenticated principal, ...) */
+  state: Map<string, unknown>;
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** Return a replacement body, or nothing to keep it */
+export type RequestBodyHooks = {
+  [R in BodyRoute]?: (body: RequestBodyMap[R], request: EndpointRequest) => MaybePromise<RequestBodyMap[R] | void>;
+};
+
+/** Return a replacement event, `null` to drop it, or nothing to keep it */
+export type StreamEventHooks = {
+  [R in StreamRoute]?: (
+    event: StreamEventMap[R],
+    request: EndpointRequest,
+  ) => MaybePromise<StreamEventMap[R] | null | void>;
+};
+
+export type EndpointMiddleware = {
+  /** Runs before routing, in order. Returning a response answers the request without routing it. */
+  beforeRequest?: (request: EndpointRequest) => MaybePromise<Response | void>;
+  onRequestBody?: RequestBodyHooks;
+  onStreamEvent?: StreamEventHooks;
+  /** Runs in reverse order once a response exists; returning a response replaces it. */
+  afterResponse?: (response: Response, request: EndpointRequest) => MaybePromise<Response | void>;
+};
+
+/** Hands parsed bodies and converted streams of a route to the middleware */
+export type RouteContext = {
+  body<R extends BodyRoute>(route: R, body: RequestBodyMap[R]): Promise<RequestBodyMap[R]>;
+  stream<R extends StreamRoute>(route: R, events: AsyncIterable<StreamEventMap[R]>): AsyncIterable<StreamEventMap[R]>;
+};
+
+export type ContextRouteHandler = (url: URL, init: RequestInit | undefined, context: RouteContext) => Promise<Response>;
+
+export type MiddlewareOptions = {
+  /** Error envelope used when a hook throws, per request path when the handler serves several APIs */
+  surface: ErrorSurface | ((url: URL) => ErrorSurface);
+  middleware?: EndpointMiddleware[];
+};
+
+/** Context for routes called without middleware */
+export const passthroughRouteContext: RouteContext = {
+  body: async (_route, body) => body,
+  stream: (_route, events) => events,
+};
+
+function buildRouteContext(middleware: EndpointMiddleware[], request: EndpointRequest): RouteContext {
+  return {
+    async body(route, body) {
+      const state = { body };
+      for (const mw of middleware) {
+        const hook = mw.onRequestBody?.[route];
+        if (!hook) {
+          continue;
+        }
+        const replaced = await hook(state.body, request);
+        if (replaced !== undefined) {
+          state.body = replaced;
+        }
+      }
+      return state.body;
+    },
+    stream(route, events) {
+      const hooks = middleware.flatMap((mw) => {
+        const hook = mw.onStreamEvent?.[route];
+        return hook ? [hook] : [];
+      });
+      if (hooks.length === 0) {
+        return events;
+      }
+      return (async function* observe() {
+        for await (const event of events) {
+          const state: { event: typeof event | null } = { event };
+          for (const hook of hooks) {
+            if (state.event === null) {
+              break;
+            }
+            const replaced = await hook(state.event, request);
+            if (replaced !== undefined) {
+              state.event = replaced;
+            }
+          }
+          if (state.event !== null) {
+            yield state.event;
+          }
+        }
+      })();
+    },
+  };
+}
+
+/** Runs `beforeRequest` hooks, recording which ones ran so only those see the response */
+async function runBeforeRequest(
+  middleware: EndpointMiddleware[],
+  request: EndpointRequest,
+  entered: EndpointMiddleware[],
+): Promise<Response | undefined> {
+  for (const mw of middleware) {
+    entered.push(mw);
+    const early = await mw.beforeRequest?.(request);
+    if (early) {
+      return early;
+    }
+  }
+  return undefined;
+}
+
+async function runAfterResponse(
+  middleware: EndpointMiddleware[],
+  response: Response,
+  request: EndpointRequest,
+): Promise<Response> {
+  const state = { response };
+  for (const mw of middleware) {
+    const replaced = await mw.afterResponse?.(state.response, request);
+    if (replaced) {
+      state.response = replaced;
+    }
+  }
+  return state.response;
+}
+
+/**
+ * Wrap a route handler with a middleware chain. Without middleware the handler runs unchanged.
+ * A throwing hook answers with the surface's error envelope.
+ *
+ * @param handler - Routes the request; receives the context used for body and stream hooks
+ * @param options - Error surface and middleware, applied in order
+ * @returns Handler suitable for `createFetchHandler`
+ */
+export function withMiddleware(
+  handler: ContextRouteHandler,
+  options: MiddlewareOptions,
+): (url: URL, init?: RequestInit) => Promise<Response> {
+  const middleware = options.middleware ?? [];
+  if (middleware.length === 0) {
+    return (url, init) => handler(url, init, passthroughRouteContext);
+  }
+  return async (url, init) => {
+    const surface = typeof options.surface === "function" ? options.surface(url) : options.surface;
+    const request: EndpointRequest = {
+      surface,
+      url,
+      init: { ...init },
+      headers: new Headers(init?.headers),
+      state: new Map(),
+    };
+    const entered: EndpointMiddleware[] = [];
+    try {
+      const early = await runBeforeRequest(middleware, request, entered);
+      const routed = { ...request.init, headers: request.headers };
+      const response = early ?? (await handler(request.url, routed, buildRouteContext(middleware, request)));
+      return await runAfterResponse(entered.reverse(), response, request);
+    } catch (error) {
+      return exceptionResponse(surface, error);
+    }
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * @file Newline-delimited JSON streaming responses (Gemini non-SSE streams, Ollama)
+ */
+
+export type NDJSONResponseOptions = {
+  /** Defaults to `application/json; charset=utf-8` */
+  contentType?: string;
+  /**
+   * Renders a failure as a final line and ends the body normally. Without it a failure
+   * errors the body, dropping the connection.
+   */
+  errorLine?: (error: unknown) => unknown;
+};
+
+/**
+ * Streams each item as one JSON line. The body is pull-based and cancelling it returns the
+ * source iterator, so upstream work stops when the client goes away.
+ *
+ * @param stream - Items to serialize
+ * @param options - Content type and error rendering
+ * @returns Chunked streaming response
+ */
+export function createNDJSONResponse(stream: AsyncIterable<unknown>, options: NDJSONResponseOptions = {}): Response {
+  const encoder = new TextEncoder();
+  const iterator = stream[Symbol.asyncIterator]();
+  const rs = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(JSON.stringify(next.value) + "\n"));
+      } catch (e) {
+        if (!options.errorLine) {
+          controller.error(e);
+          return;
+        }
+        controller.enqueue(encoder.encode(JSON.stringify(options.errorLine(e)) + "\n"));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+  return new Response(rs, {
+    headers: {
+      "content-type": options.contentType ?? "application/json; charset=utf-8",
+      "transfer-encoding": "chunked",
+    },
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * @file Tests for provider-native SSE framing
+ */
+import { HttpError } from "../../../providers/gemini/errors/http-error";
+import { createSSEResponse } from "./sse-builder";
+
+async function* events(items: unknown[], failWith?: unknown, delayMs = 0): AsyncGenerator<unknown> {
+  for (const item of items) {
+    yield item;
+  }
+  if (delayMs > 0) {
+    await new Promise((r) => setTimeout(r, delayMs));
+  }
+  if (failWith !== undefined) {
+    throw failWith;
+  }
+}
+
+function frames(text: string): string[] {
+  return text.split("\n\n").filter((f) => f.length > 0);
+}
+
+describe("createSSEResponse", () => {
+  it("frames chat chunks as data-only and terminates with [DONE]", async () => {
+    const res = createSSEResponse(events([{ id: "c1", object: "chat.completion.chunk" }]), "openai-chat");
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    expect(frames(await res.text())).toEqual(['data: {"id":"c1","object":"chat.completion.chunk"}', "data: [DONE]"]);
+  });
+
+  it("reports chat failures as an OpenAI error body without [DONE]", async () => {
+    const res = createSSEResponse(events([], new HttpError(429, "slow down")), "openai-chat");
+    expect(frames(await res.text())).toEqual([
+      'data: {"error":{"message":"slow down","type":"rate_limit_error","param":null,"code":null}}',
+    ]);
+  });
+
+  it("turns Responses failures into response.failed once the response exists", async () => {
+    const response = { id: "resp_1", object: "response", status: "in_progress", output: [] };
+    const res = createSSEResponse(
+      events([{ type: "response.created", sequence_number: 0, response }], new Error("upstream died")),
+      "openai-responses",
+    );
+    const out = frames(await res.text());
+    expect(out).toHaveLength(2);
+    expect(out[1].split("\n")[0]).toBe("event: response.failed");
+    expect(JSON.parse(out[1].split("\n")[1].slice(6))).toEqual({
+      type: "response.failed",
+      sequence_number: 1,
+      response: { ...response, status: "failed", error: { code: "server_error", message: "upstream died" } },
+    });
+  });
+
+  it("emits a Responses error event when nothing was streamed yet", async () => {
+    const res = createSSEResponse(events([], new Error("boom")), "openai-responses");
+    expect(frames(await res.text())).toEqual([
+      'event: error\ndata: {"type":"error","code":null,"message":"boom","param":null,"sequence_number":0}',
+    ]);
+  });
+
+  it("pings after message_start and while idle, and reports Anthropic errors", async () => {
+    const res = createSSEResponse(
+      events([{ type: "message_start", message: { id: "msg_1" } }], new HttpError(529, "overloaded"), 40),
+      "claude",
+      { keepaliveMs: 10 },
+    );
+    const out = frames(await res.text());
+    expect(out[0]).toBe('event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1"}}');
+    expect(out[1]).toBe('event: ping\ndata: {"type":"ping"}');
+    expect(out.slice(2, -1).length).toBeGreaterThan(0);
+    expect(out.slice(2, -1).every((f) => f === 'event: ping\ndata: {"type":"ping"}')).toBe(true);
+    expect(out.at(-1)).toBe(
+      'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"overloaded"}}',
+    );
+  });
+
+  it("frames Gemini SSE as data-only without a terminator", async () => {
+    const res = createSSEResponse(events([{ candidates: [] }], new HttpError(503, "unavailable")), "gemini");
+    expect(frames(await res.text())).toEqual([
+      'data: {"candidates":[]}',
+      'data: {"error":{"code":503,"message":"unavailable","status":"UNAVAILABLE"}}',
+    ]);
+  });
+});
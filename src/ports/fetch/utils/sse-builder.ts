@@ -1,19 +1,117 @@
 /**
  * @file SSE response builder utilities for different providers
+ * Each format reproduces the wire framing of the real API, including how streams end and how
+ * failures after the first byte are reported, so SDK stream parsers behave as they do upstream.
  */
-import { sseResponseFromAsyncIterable } from "../../../utils/sse/writer";
+import type { Response as OpenAIResponse, ResponseError } from "openai/resources/responses/responses";
+import { serializeSSE, serializeSSEData, sseResponseFromAsyncIterable, toFrame } from "../../../utils/sse/writer";
+import type { SSEFramer } from "../../../utils/sse/writer";
+import { isOpenAIResponse } from "../../../providers/openai/responses-guards";
+import { isObject } from "../../../utils/type-guards";
+import { errorDetailsFromException, errorEnvelope } from "./errors";
 
-export type SSEFormat = "openai" | "claude" | "gemini";
+/**
+ * - `openai-chat`: data-only chunks terminated by `data: [DONE]`
+ * - `openai-responses`: named events; failures become `response.failed` (or `error` before the response exists)
+ * - `claude`: named events with `ping` keepalives and an `error` event on failure
+ * - `gemini`: data-only `alt=sse` frames, failures as a Google error body
+ */
+export type SSEFormat = "openai-chat" | "openai-responses" | "claude" | "gemini";
+
+export type SSEResponseOptions = {
+  /** Idle interval before a Claude `ping` is sent. Defaults to 15s. */
+  keepaliveMs?: number;
+};
+
+const DEFAULT_KEEPALIVE_MS = 15_000;
+const CLAUDE_PING = serializeSSE({ event: "ping", data: { type: "ping" } });
+
+function openAIChatFramer(): SSEFramer {
+  return {
+    frame: serializeSSEData,
+    end: () => serializeSSEData("[DONE]"),
+    error: (err) => serializeSSEData(errorEnvelope("openai", errorDetailsFromException(err))),
+  };
+}
+
+function responseErrorCode(status: number): ResponseError["code"] {
+  return status === 429 ? "rate_limit_exceeded" : "server_error";
+}
+
+function openAIResponsesFramer(): SSEFramer {
+  const state: { response?: OpenAIResponse; sequence: number } = { sequence: 0 };
+  return {
+    frame(event) {
+      if (isObject(event)) {
+        if (typeof event.sequence_number === "number") {
+          state.sequence = event.sequence_number + 1;
+        }
+        if (isOpenAIResponse(event.response)) {
+          state.response = event.response;
+        }
+      }
+      return toFrame(event);
+    },
+    error(err) {
+      const details = errorDetailsFromException(err);
+      const sequence_number = state.sequence;
+      if (state.response) {
+        const response: OpenAIResponse = {
+          ...state.response,
+          status: "failed",
+          error: { code: responseErrorCode(details.status), message: details.message },
+        };
+        return serializeSSE({ event: "response.failed", data: { type: "response.failed", sequence_number, response } });
+      }
+      const code = details.code ?? null;
+      return serializeSSE({
+        event: "error",
+        data: { type: "error", code, message: details.message, param: null, sequence_number },
+      });
+    },
+  };
+}
+
+function claudeFramer(keepaliveMs: number): SSEFramer {
+  return {
+    frame(event) {
+      const frame = toFrame(event);
+      // Anthropic sends a ping right after message_start
+      if (isObject(event) && event.type === "message_start") {
+        return frame + CLAUDE_PING;
+      }
+      return frame;
+    },
+    error: (err) => serializeSSE({ event: "error", data: errorEnvelope("claude", errorDetailsFromException(err)) }),
+    keepalive: { intervalMs: keepaliveMs, frame: CLAUDE_PING },
+  };
+}
+
+function geminiFramer(): SSEFramer {
+  return {
+    frame: serializeSSEData,
+    error: (err) => serializeSSEData(errorEnvelope("gemini", errorDetailsFromException(err))),
+  };
+}
 
 /**
- * Creates an SSE response from an async iterable with provider-specific formatting
+ * Creates an SSE response from an async iterable with provider-specific framing
  */
 export function createSSEResponse(
   stream: AsyncIterable<unknown>,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- parameter reserved for future format implementations
-  _format: SSEFormat = "openai",
+  format: SSEFormat,
+  options: SSEResponseOptions = {},
 ): Response {
-  return sseResponseFromAsyncIterable(stream);
+  switch (format) {
+    case "openai-chat":
+      return sseResponseFromAsyncIterable(stream, openAIChatFramer());
+    case "openai-responses":
+      return sseResponseFromAsyncIterable(stream, openAIResponsesFramer());
+    case "claude":
+      return sseResponseFromAsyncIterable(stream, claudeFramer(options.keepaliveMs ?? DEFAULT_KEEPALIVE_MS));
+    case "gemini":
+      return sseResponseFromAsyncIterable(stream, geminiFramer());
+  }
 }
 
 /**
@@ -0,0 +1,43 @@
+/**
+ * @file Tests for serve command argument parsing.
+ */
+import { parseServeArgs } from "./args";
+
+describe("parseServeArgs", () => {
+  const env = { ANTHROPIC_API_KEY: "sk-ant", OPENAI_API_KEY: "sk-oa", GROQ_API_KEY: "gk", GROQ_BASE_URL: "https://g" };
+
+  it("parses port, host and mounts with default prefixes", () => {
+    const config = parseServeArgs(
+      ["--port", "9000", "--host", "0.0.0.0", "--mount", "openai=claude:claude-sonnet-4-20250514"],
+      env,
+    );
+    expect(config).toEqual({
+      port: 9000,
+      host: "0.0.0.0",
+      mounts: [
+        {
+          surface: "openai",
+          prefix: "/openai",
+          provider: { type: "claude", model: "claude-sonnet-4-20250514", apiKey: "sk-ant" },
+        },
+      ],
+    });
+  });
+
+  it("accepts explicit prefixes and OpenAI-compatible provider types", () => {
+    const config = parseServeArgs(["--mount", "claude@/anthropic=groq", "--mount", "gemini=openai:gpt-4o"], env);
+    expect(config.mounts).toEqual([
+      { surface: "claude", prefix: "/anthropic", provider: { type: "groq", apiKey: "gk", baseURL: "https://g" } },
+      { surface: "gemini", prefix: "/gemini", provider: { type: "openai", model: "gpt-4o", apiKey: "sk-oa" } },
+    ]);
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => parseServeArgs([], env)).toThrow("At least one --mount");
+    expect(() => parseServeArgs(["--mount", "bedrock=claude"], env)).toThrow("surface must be one of");
+    expect(() => parseServeArgs(["--mount", "openai"], env)).toThrow("Invalid --mount");
+    expect(() => parseServeArgs(["--port", "x", "--mount", "openai=claude"], env)).toThrow("Invalid --port");
+    expect(() => parseServeArgs(["--mount"], env)).toThrow("Missing value");
+    expect(() => parseServeArgs(["--verbose", "1", "--mount", "openai=claude"], env)).toThrow("Unknown option");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @file Command-line parsing for the emulator server.
+ * `--mount <surface>[@<prefix>]=<providerType>[:<model>]` picks which API surface is exposed
+ * (openai/claude/gemini), where it is mounted and which provider serves it. API keys and base
+ * URLs come from the environment so they never appear in shell history.
+ */
+import type { Provider } from "../../config/types";
+import type { FetchHandler } from "../fetch/utils/http";
+import { emulateClaudeEndpoint, emulateGeminiEndpoint, emulateOpenAIEndpoint } from "../fetch";
+import type { EmulatorMount } from "./server";
+
+export const EMULATOR_SURFACES = ["openai", "claude", "gemini"] as const;
+export type EmulatorSurface = (typeof EMULATOR_SURFACES)[number];
+
+export type MountSpec = {
+  surface: EmulatorSurface;
+  prefix: string;
+  provider: Provider;
+};
+
+export type ServeConfig = {
+  port?: number;
+  host?: string;
+  healthPath?: string;
+  mounts: MountSpec[];
+};
+
+export const SERVE_USAGE = `Usage: serve [--port <n>] [--host <addr>] [--health <path>] --mount <spec> [--mount <spec> ...]
+
+  <spec> = <surface>[@<prefix>]=<providerType>[:<model>]
+    surface       openai | claude | gemini (the API shape clients speak)
+    prefix        path prefix, defaults to /<surface>
+    providerType  openai | claude | gemini | any OpenAI-compatible type (groq, grok, ...)
+
+  Keys are read from <TYPE>_API_KEY (ANTHROPIC_API_KEY for claude, GEMINI_API_KEY or
+  GOOGLE_AI_STUDIO_API_KEY for gemini); <TYPE>_BASE_URL sets a custom base URL.
+
+Example:
+  serve --port 8787 --mount openai=claude:claude-sonnet-4-20250514 --mount claude@/anthropic=openai:gpt-4o-mini`;
+
+function isSurface(value: string): value is EmulatorSurface {
+  return (EMULATOR_SURFACES as readonly string[]).includes(value);
+}
+
+function envKeyName(providerType: string): string {
+  return providerType.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/**
+ * Builds a provider for a type from environment variables.
+ *
+ * @param providerType - Provider type, e.g. "claude" or "groq"
+ * @param model - Optional default model
+ * @param env - Environment to read keys from
+ * @returns Provider configuration
+ */
+export function providerFromEnv(
+  providerType: string,
+  model: string | undefined,
+  env: Record<string, string | undefined>,
+): Provider {
+  const name = envKeyName(providerType);
+  const keyCandidates: Record<string, string[]> = {
+    claude: ["ANTHROPIC_API_KEY", "CLAUDE_API_KEY"],
+    gemini: ["GEMINI_API_KEY", "GOOGLE_AI_STUDIO_API_KEY"],
+  };
+  const apiKey = (keyCandidates[providerType] ?? [`${name}_API_KEY`]).map((k) => env[k]).find((v) => !!v);
+  const baseURL = env[`${name}_BASE_URL`];
+
+  const provider: Provider = { type: providerType };
+  if (model) {
+    provider.model = model;
+  }
+  if (apiKey) {
+    provider.apiKey = apiKey;
+  }
+  if (baseURL) {
+    provider.baseURL = baseURL;
+  }
+  return provider;
+}
+
+function parseMount(spec: string, env: Record<string, string | undefined>): MountSpec {
+  const eq = spec.indexOf("=");
+  if (eq <= 0) {
+    throw new Error(`Invalid --mount '${spec}': expected <surface>[@<prefix>]=<providerType>[:<model>]`);
+  }
+  const [surface, prefix] = spec.slice(0, eq).split("@", 2);
+  const target = spec.slice(eq + 1);
+  const colon = target.indexOf(":");
+  const providerType = colon === -1 ? target : target.slice(0, colon);
+  const model = colon === -1 ? undefined : target.slice(colon + 1);
+
+  if (!isSurface(surface)) {
+    throw new Error(`Invalid --mount '${spec}': surface must be one of ${EMULATOR_SURFACES.join(", ")}`);
+  }
+  if (!providerType) {
+    throw new Error(`Invalid --mount '${spec}': missing provider type`);
+  }
+  return { surface, prefix: prefix ? prefix : `/${surface}`, provider: providerFromEnv(providerType, model, env) };
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --port '${value}'`);
+  }
+  return port;
+}
+
+/**
+ * Parses serve command arguments.
+ *
+ * @param argv - Arguments after the script name
+ * @param env - Environment used to resolve provider keys
+ * @returns Server configuration
+ */
+export function parseServeArgs(argv: string[], env: Record<string, string | undefined> = {}): ServeConfig {
+  const config: ServeConfig = { mounts: [] };
+  for (let i = 0; i < argv.length; i += 2) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument '${arg}'`);
+    }
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    switch (arg) {
+      case "--port":
+        config.port = parsePort(value);
+        break;
+      case "--host":
+        config.host = value;
+        break;
+      case "--health":
+        config.healthPath = value;
+        break;
+      case "--mount":
+        config.mounts.push(parseMount(value, env));
+        break;
+      default:
+        throw new Error(`Unknown option '${arg}'`);
+    }
+  }
+  if (config.mounts.length === 0) {
+    throw new Error("At least one --mount is required");
+  }
+  return config;
+}
+
+function emulatorFor(spec: MountSpec): FetchHandler {
+  switch (spec.surface) {
+    case "openai":
+      return emulateOpenAIEndpoint({ provider: spec.provider });
+    case "claude":
+      return emulateClaudeEndpoint({ provider: spec.provider });
+    case "gemini":
+      return emulateGeminiEndpoint({ provider: spec.provider });
+  }
+}
+
+/**
+ * Instantiates the fetch emulators for parsed mount specs.
+ *
+ * @param specs - Parsed mounts
+ * @returns Mounts ready for the server
+ */
+export function createEmulatorMounts(specs: MountSpec[]): EmulatorMount[] {
+  return specs.map((spec) => ({ prefix: spec.prefix, handler: emulatorFor(spec) }));
+}
@@ -0,0 +1,41 @@
+/**
+ * @file CLI entry: serve fetch emulators over HTTP.
+ * Built to `dist/ports/http/cli.js`; run with `npm run serve -- --mount openai=claude:claude-sonnet-4-20250514`.
+ */
+import { createEmulatorMounts, parseServeArgs, SERVE_USAGE } from "./args";
+import { startEmulatorServer } from "./server";
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(SERVE_USAGE);
+    return;
+  }
+
+  const config = parseServeArgs(argv, process.env);
+  const running = await startEmulatorServer({
+    port: config.port,
+    host: config.host,
+    healthPath: config.healthPath,
+    mounts: createEmulatorMounts(config.mounts),
+  });
+
+  for (const mount of config.mounts) {
+    const model = mount.provider.model ? `:${mount.provider.model}` : "";
+    console.log(`${mount.surface} API at ${running.url}${mount.prefix} -> ${mount.provider.type}${model}`);
+  }
+  console.log(`health at ${running.url}${config.healthPath ?? "/health"}`);
+
+  const shutdown = () => {
+    running.close().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+// Execute when run directly (bun/tsx/node)
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  console.error(`\n${SERVE_USAGE}`);
+  process.exitCode = 1;
+});
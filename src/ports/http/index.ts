@@ -0,0 +1,8 @@
+/**
+ * @file Public entry for the node:http emulator server (Node-only).
+ */
+
+export { createEmulatorRequestListener, startEmulatorServer } from "./server";
+export type { EmulatorMount, EmulatorServerOptions, RunningEmulatorServer, StartEmulatorServerOptions } from "./server";
+export { createEmulatorMounts, parseServeArgs, providerFromEnv, EMULATOR_SURFACES } from "./args";
+export type { EmulatorSurface, MountSpec, ServeConfig } from "./args";
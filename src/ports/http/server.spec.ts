@@ -0,0 +1,179 @@
+/**
+ * @file Tests for the node:http emulator server.
+ */
+import { request } from "node:http";
+import type { FetchHandler } from "../fetch/utils/http";
+import { startEmulatorServer } from "./server";
+import type { RunningEmulatorServer } from "./server";
+
+const echo =
+  (name: string): FetchHandler =>
+  async (input, init) => {
+    const url = new URL(String(input));
+    const body = typeof init?.body === "string" ? JSON.parse(init.body) : null;
+    return new Response(JSON.stringify({ name, path: url.pathname, search: url.search, method: init?.method, body }), {
+      status: 200,
+      headers: { "content-type": "application/json", "x-emulator": name },
+    });
+  };
+
+const servers: RunningEmulatorServer[] = [];
+
+async function start(handlers: Record<string, FetchHandler>): Promise<RunningEmulatorServer> {
+  const running = await startEmulatorServer({
+    port: 0,
+    mounts: Object.entries(handlers).map(([prefix, handler]) => ({ prefix, handler })),
+  });
+  servers.push(running);
+  return running;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => s.close()));
+});
+
+describe("startEmulatorServer", () => {
+  it("answers the health route with mounted prefixes", async () => {
+    const running = await start({ "/openai": echo("openai"), "/claude": echo("claude") });
+    const res = await fetch(`${running.url}/health`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe("ok");
+    expect(body.mounts.sort()).toEqual(["/claude", "/openai"]);
+  });
+
+  it("routes by prefix, strips it and forwards method, query and body", async () => {
+    const running = await start({ "/openai": echo("openai"), "/openai/v2": echo("v2"), claude: echo("claude") });
+
+    const res = await fetch(`${running.url}/openai/v1/chat/completions?x=1`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ model: "m" }),
+    });
+    expect(res.headers.get("x-emulator")).toBe("openai");
+    expect(await res.json()).toEqual({
+      name: "openai",
+      path: "/v1/chat/completions",
+      search: "?x=1",
+      method: "POST",
+      body: { model: "m" },
+    });
+
+    const longest = await fetch(`${running.url}/openai/v2/models`);
+    expect((await longest.json()).name).toBe("v2");
+
+    const unprefixedSlash = await fetch(`${running.url}/claude/v1/messages`);
+    expect((await unprefixedSlash.json()).path).toBe("/v1/messages");
+  });
+
+  it("returns 404 for paths without a mount and 500 when a handler throws", async () => {
+    const running = await start({
+      "/openai": echo("openai"),
+      "/broken": async () => {
+        throw new Error("boom");
+      },
+    });
+
+    const missing = await fetch(`${running.url}/openaiX/v1/models`);
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe("not_found");
+
+    const broken = await fetch(`${running.url}/broken/v1/models`);
+    expect(broken.status).toBe(500);
+    expect((await broken.json()).error.message).toBe("boom");
+  });
+
+  it("streams response bodies chunk by chunk", async () => {
+    const encoder = new TextEncoder();
+    const running = await start({
+      "/sse": async () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            async start(controller) {
+              for (const n of [1, 2, 3]) {
+                controller.enqueue(encoder.encode(`data: ${n}\n\n`));
+                await new Promise((r) => setTimeout(r, 5));
+              }
+              controller.close();
+            },
+          }),
+          { headers: { "content-type": "text/event-stream" } },
+        ),
+    });
+
+    const res = await fetch(`${running.url}/sse/v1/responses`, { method: "POST", body: "{}" });
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    expect(await res.text()).toBe("data: 1\n\ndata: 2\n\ndata: 3\n\n");
+  });
+
+  it("does not pile up listeners while waiting for drain", async () => {
+    const chunk = new Uint8Array(64 * 1024).fill(97);
+    const running = await start({
+      "/big": async () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              for (let i = 0; i < 256; i += 1) {
+                controller.enqueue(chunk);
+              }
+              controller.close();
+            },
+          }),
+        ),
+    });
+    const warnings: string[] = [];
+    const onWarning = (warning: Error) => warnings.push(warning.name);
+    process.on("warning", onWarning);
+    try {
+      const res = await fetch(`${running.url}/big/v1/responses`);
+      const reader = res.body!.getReader();
+      const received = { bytes: 0 };
+      for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        received.bytes += next.value.length;
+        // A slow reader keeps the socket backed up so the server waits for drain many times
+        await new Promise((r) => setTimeout(r, 1));
+      }
+      expect(received.bytes).toBe(256 * chunk.length);
+    } finally {
+      process.off("warning", onWarning);
+    }
+    expect(warnings).not.toContain("MaxListenersExceededWarning");
+  });
+
+  it("aborts the handler signal and cancels the body when the client disconnects", async () => {
+    const state: { aborted: boolean; cancelled: boolean } = { aborted: false, cancelled: false };
+    const signals: { firstChunk?: () => void; cancelled?: () => void } = {};
+    const firstChunk = new Promise<void>((resolve) => (signals.firstChunk = resolve));
+    const cancelled = new Promise<void>((resolve) => (signals.cancelled = resolve));
+
+    const running = await start({
+      "/slow": async (_input, init) => {
+        init?.signal?.addEventListener("abort", () => {
+          state.aborted = true;
+        });
+        return new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode("data: first\n\n"));
+            },
+            cancel() {
+              state.cancelled = true;
+              signals.cancelled?.();
+            },
+          }),
+          { headers: { "content-type": "text/event-stream" } },
+        );
+      },
+    });
+
+    const req = request(`${running.url}/slow/v1/responses`, { method: "POST" }, (res) => {
+      res.once("data", () => signals.firstChunk?.());
+    });
+    req.end("{}");
+    await firstChunk;
+    req.destroy();
+    await cancelled;
+
+    expect(state).toEqual({ aborted: true, cancelled: true });
+  });
+});
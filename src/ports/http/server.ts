@@ -0,0 +1,232 @@
+/**
+ * @file node:http server that mounts fetch-based emulators under path prefixes.
+ * Bridges IncomingMessage/ServerResponse to the fetch-style handlers returned by
+ * `emulateOpenAIEndpoint`, `emulateClaudeEndpoint` and `emulateGeminiEndpoint`, so tools that
+ * need a real URL (curl, IDE plugins, non-JS SDKs) can talk to them. Node-only; not part of the
+ * browser-safe bundle.
+ */
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import type { FetchHandler } from "../fetch/utils/http";
+
+/** A fetch-style emulator served under a path prefix (e.g. "/openai"). */
+export type EmulatorMount = {
+  prefix: string;
+  handler: FetchHandler;
+};
+
+export type EmulatorServerOptions = {
+  mounts: EmulatorMount[];
+  /** Path answering `GET` with `{ status: "ok" }`. Defaults to "/health". */
+  healthPath?: string;
+};
+
+export type StartEmulatorServerOptions = EmulatorServerOptions & {
+  /** Defaults to 8787; 0 picks a free port. */
+  port?: number;
+  /** Defaults to "127.0.0.1". */
+  host?: string;
+};
+
+export type RunningEmulatorServer = {
+  server: Server;
+  /** Base URL including the bound port, e.g. "http://127.0.0.1:8787". */
+  url: string;
+  close: () => Promise<void>;
+};
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_HOST = "127.0.0.1";
+
+function normalizePrefix(prefix: string): string {
+  const trimmed = prefix.replace(/\/+$/, "");
+  if (trimmed === "") {
+    return "";
+  }
+  return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+}
+
+function matchMount(mounts: EmulatorMount[], pathname: string): { mount: EmulatorMount; path: string } | undefined {
+  for (const mount of mounts) {
+    if (mount.prefix === "") {
+      return { mount, path: pathname };
+    }
+    if (pathname === mount.prefix) {
+      return { mount, path: "/" };
+    }
+    if (pathname.startsWith(`${mount.prefix}/`)) {
+      return { mount, path: pathname.slice(mount.prefix.length) };
+    }
+  }
+  return undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string, code: string): void {
+  sendJson(res, status, { error: { message, type: "invalid_request_error", code } });
+}
+
+function toHeaders(req: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(name, v));
+      continue;
+    }
+    if (typeof value === "string") {
+      headers.set(name, value);
+    }
+  }
+  return headers;
+}
+
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  if (req.method === "GET" || req.method === "HEAD") {
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString("utf8") : undefined;
+}
+
+/** Wait for `res` to drain or close, removing both listeners afterwards so they do not pile up */
+async function drainOrClose(res: ServerResponse): Promise<void> {
+  const settled = new AbortController();
+  try {
+    await Promise.race([
+      once(res, "drain", { signal: settled.signal }),
+      once(res, "close", { signal: settled.signal }),
+    ]);
+  } finally {
+    settled.abort();
+  }
+}
+
+/** Copy a fetch Response onto the node response, honouring backpressure and client disconnects. */
+async function pipeResponse(response: Response, res: ServerResponse, signal: AbortSignal): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  res.writeHead(response.status, headers);
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const cancel = () => {
+    // Cancelling the reader returns the underlying async iterator, which closes the upstream stream
+    void reader.cancel().catch(() => undefined);
+  };
+  signal.addEventListener("abort", cancel, { once: true });
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      if (signal.aborted) {
+        return;
+      }
+      if (!res.write(value)) {
+        await drainOrClose(res);
+      }
+    }
+    res.end();
+  } finally {
+    signal.removeEventListener("abort", cancel);
+  }
+}
+
+/**
+ * Creates a node:http request listener that dispatches to fetch-style emulators by path prefix.
+ * The prefix is stripped before the emulator sees the URL, so an OpenAI emulator mounted at
+ * "/openai" answers "/openai/v1/responses". The longest matching prefix wins.
+ *
+ * @param options - Mounted emulators and health route
+ * @returns Listener suitable for `http.createServer`
+ */
+export function createEmulatorRequestListener(
+  options: EmulatorServerOptions,
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const healthPath = options.healthPath ?? "/health";
+  const mounts = options.mounts
+    .map((m) => ({ ...m, prefix: normalizePrefix(m.prefix) }))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const host = req.headers.host ?? DEFAULT_HOST;
+    const incoming = new URL(req.url ?? "/", `http://${host}`);
+
+    if (incoming.pathname === healthPath) {
+      sendJson(res, 200, { status: "ok", mounts: mounts.map((m) => (m.prefix === "" ? "/" : m.prefix)) });
+      return;
+    }
+
+    const match = matchMount(mounts, incoming.pathname);
+    if (!match) {
+      sendError(res, 404, `No emulator mounted for '${incoming.pathname}'.`, "not_found");
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
+    const body = await readBody(req);
+    const target = new URL(`${match.path}${incoming.search}`, incoming.origin);
+    const response = await match.mount.handler(target, {
+      method: req.method,
+      headers: toHeaders(req),
+      body,
+      signal: controller.signal,
+    });
+    await pipeResponse(response, res, controller.signal);
+  }
+
+  return (req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      sendError(res, 500, error instanceof Error ? error.message : String(error), "internal_error");
+    });
+  };
+}
+
+/**
+ * Starts an HTTP server for the given emulators and resolves once it is listening.
+ *
+ * @param options - Mounts, health route, port and host
+ * @returns The running server, its base URL and a close function
+ */
+export async function startEmulatorServer(options: StartEmulatorServerOptions): Promise<RunningEmulatorServer> {
+  const server = createServer(createEmulatorRequestListener(options));
+  server.listen(options.port ?? DEFAULT_PORT, options.host ?? DEFAULT_HOST);
+  await once(server, "listening");
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    server,
+    url: `http://${host}:${address.port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -17,6 +17,10 @@ import type {
   ToolResultBlockParam,
   TextBlock,
   ToolUseBlock,
+  ThinkingBlock,
+  RedactedThinkingBlock,
+  ThinkingDelta,
+  SignatureDelta,
   Usage,
   MessageDeltaUsage,
   Base64ImageSource,
@@ -61,6 +65,32 @@ export function isClaudeToolUseBlock(block: ContentBlock | unknown): block is To
   return obj.type === "tool_use" && typeof obj.id === "string" && typeof obj.name === "string";
 }
 
+/**
+ * Type guard to check if a block is a Claude extended thinking block.
+ * @param block - The content block to check
+ * @returns True if the block is a thinking block with thinking text
+ */
+export function isClaudeThinkingBlock(block: ContentBlock | unknown): block is ThinkingBlock {
+  if (typeof block !== "object" || block === null) {
+    return false;
+  }
+  const obj = block as { type?: unknown; thinking?: unknown };
+  return obj.type === "thinking" && typeof obj.thinking === "string";
+}
+
+/**
+ * Type guard to check if a block is a Claude redacted thinking block.
+ * @param block - The content block to check
+ * @returns True if the block is a redacted_thinking block with opaque data
+ */
+export function isClaudeRedactedThinkingBlock(block: ContentBlock | unknown): block is RedactedThinkingBlock {
+  if (typeof block !== "object" || block === null) {
+    return false;
+  }
+  const obj = block as { type?: unknown; data?: unknown };
+  return obj.type === "redacted_thinking" && typeof obj.data === "string";
+}
+
 // Stream event guards
 /**
  * Identifies events that signal the start of content block generation within Claude responses.
@@ -164,6 +194,32 @@ export function isClaudeInputJsonDelta(
   return obj.type === "input_json_delta" && typeof obj.partial_json === "string";
 }
 
+/**
+ * Type guard to check if a content block delta contains thinking text.
+ * @param ev - The delta event content to check
+ * @returns True if the delta is a thinking_delta
+ */
+export function isClaudeThinkingDelta(ev: ContentBlockDeltaEvent["delta"]): ev is ThinkingDelta {
+  if (typeof ev !== "object" || ev === null) {
+    return false;
+  }
+  const obj = ev as { type?: unknown; thinking?: unknown };
+  return obj.type === "thinking_delta" && typeof obj.thinking === "string";
+}
+
+/**
+ * Type guard to check if a content block delta carries a thinking signature.
+ * @param ev - The delta event content to check
+ * @returns True if the delta is a signature_delta
+ */
+export function isClaudeSignatureDelta(ev: ContentBlockDeltaEvent["delta"]): ev is SignatureDelta {
+  if (typeof ev !== "object" || ev === null) {
+    return false;
+  }
+  const obj = ev as { type?: unknown; signature?: unknown };
+  return obj.type === "signature_delta" && typeof obj.signature === "string";
+}
+
 /**
  * Type guard to check if a value is a ResponseOutputMessage item.
  * @param v - The value to check
@@ -394,7 +450,7 @@ export const eventValidators = {
     if (!event.content_block.type) {
       return false;
     }
-    if (!["text", "tool_use"].includes(event.content_block.type)) {
+    if (!["text", "tool_use", "thinking", "redacted_thinking"].includes(event.content_block.type)) {
       return false;
     }
 
@@ -421,7 +477,7 @@ export const eventValidators = {
     if (!event.delta.type) {
       return false;
     }
-    if (!["text_delta", "input_json_delta"].includes(event.delta.type)) {
+    if (!["text_delta", "input_json_delta", "thinking_delta", "signature_delta"].includes(event.delta.type)) {
       return false;
     }
     return true;
@@ -21,6 +21,8 @@ const createResponseLike = (res: globalThis.Response, text: string): Response =>
   } as Response;
 };
 
+export const GEMINI_DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com";
+
 export type GeminiClientOptions = {
   apiKey: string;
   baseURL?: string; // default https://generativelanguage.googleapis.com
@@ -38,8 +40,50 @@ export type GeminiContent = {
   role?: "user" | "model" | "function";
   parts: GeminiPart[];
 };
+/** OpenAPI 3.0 schema subset accepted by Gemini for `responseSchema` */
+export type GeminiSchema = {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  format?: string;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
+  propertyOrdering?: string[];
+  items?: GeminiSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: GeminiSchema[];
+};
+
+export type GeminiThinkingConfig = {
+  thinkingBudget?: number;
+  includeThoughts?: boolean;
+};
+
+export type GeminiFunctionDeclaration = {
+  name: string;
+  description?: string;
+  parameters?: GeminiSchema;
+};
+
+export type GeminiTool = {
+  functionDeclarations?: GeminiFunctionDeclaration[];
+};
+
+export type GeminiToolConfig = {
+  functionCallingConfig?: {
+    mode?: "AUTO" | "ANY" | "NONE";
+    allowedFunctionNames?: string[];
+  };
+};
+
 export type GenerateContentRequest = {
   contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
   tools?: unknown[];
   toolConfig?: unknown;
   safetySettings?: unknown[];
@@ -47,13 +91,21 @@ export type GenerateContentRequest = {
     temperature?: number;
     topP?: number;
     topK?: number;
+    seed?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
     maxOutputTokens?: number;
+    stopSequences?: string[];
+    candidateCount?: number;
     responseMimeType?: string;
+    responseSchema?: GeminiSchema;
+    thinkingConfig?: GeminiThinkingConfig;
   };
 };
 
 export type GenerateContentResponse = {
   candidates?: Array<{
+    index?: number;
     content?: GeminiContent;
     finishReason?: string;
   }>;
@@ -92,9 +144,10 @@ export type GeminiModel = {
 export type ListModelsResponse = { models: GeminiModel[] };
 
 // Count tokens
-export type CountTokensRequest = {
-  contents: GeminiContent[];
-};
+// Either bare contents, or a full request so system instruction and tools are counted too
+export type CountTokensRequest =
+  | { contents: GeminiContent[] }
+  | { generateContentRequest: GenerateContentRequest & { model: string } };
 export type CountTokensResponse = {
   totalTokens?: number; // alias
   totalTokenCount?: number;
@@ -102,16 +155,21 @@ export type CountTokensResponse = {
 
 // Embeddings
 export type EmbedContentRequest = {
+  /** Required inside batchEmbedContents requests, e.g. `models/text-embedding-004`. */
+  model?: string;
   content: GeminiContent;
   taskType?: string;
+  title?: string;
+  outputDimensionality?: number;
 };
-export type EmbedContentResponse = { embedding?: { value?: number[] } };
+export type ContentEmbedding = { values?: number[] };
+export type EmbedContentResponse = { embedding?: ContentEmbedding };
 
 export type BatchEmbedContentsRequest = {
   requests: EmbedContentRequest[];
 };
 export type BatchEmbedContentsResponse = {
-  embeddings?: Array<{ embedding?: { value?: number[] } }>;
+  embeddings?: ContentEmbedding[];
 };
 
 /**
@@ -125,7 +183,7 @@ export class GeminiFetchClient {
 
   constructor(opts: GeminiClientOptions) {
     this.apiKey = opts.apiKey;
-    this.baseURL = (opts.baseURL ? opts.baseURL : "https://generativelanguage.googleapis.com").replace(/\/$/, "");
+    this.baseURL = (opts.baseURL ? opts.baseURL : GEMINI_DEFAULT_BASE_URL).replace(/\/$/, "");
     this.f = opts.fetchImpl ? opts.fetchImpl : fetch;
   }
 
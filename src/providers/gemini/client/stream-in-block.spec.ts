@@ -0,0 +1,41 @@
+/**
+ * @file Tests for Gemini stream text decoding
+ */
+import { streamText } from "./stream-in-block";
+
+function byteStream(chunks: string[], onCancel: () => void): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const queue = [...chunks];
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = queue.shift();
+      if (next === undefined) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(next));
+    },
+    cancel: onCancel,
+  });
+}
+
+describe("streamText", () => {
+  it("decodes every chunk until the stream ends", async () => {
+    const cancelled = { value: false };
+    const out: string[] = [];
+    for await (const text of streamText(byteStream(["a", "b"], () => (cancelled.value = true)))) {
+      out.push(text);
+    }
+    expect(out).toEqual(["a", "b"]);
+    expect(cancelled.value).toBe(false);
+  });
+
+  it("cancels the body when the consumer stops early", async () => {
+    const cancelled = { value: false };
+    for await (const text of streamText(byteStream(["a", "b", "c"], () => (cancelled.value = true)))) {
+      expect(text).toBe("a");
+      break;
+    }
+    expect(cancelled.value).toBe(true);
+  });
+});
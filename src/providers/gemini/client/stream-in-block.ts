@@ -11,19 +11,30 @@
  * ensuring proper text decoding and streaming continuation. Essential for processing
  * Gemini API response streams in streaming scenarios.
  *
+ * Stopping iteration early cancels the underlying stream so the HTTP connection is released.
+ *
  * @param reader - ReadableStream of raw bytes from Gemini API response
  * @yields Decoded text chunks as they become available from the stream
  */
 export async function* streamText(reader: ReadableStream<Uint8Array>): AsyncGenerator<string> {
   const dec = new TextDecoder();
   const r = reader.getReader();
-  while (true) {
-    const { value, done } = await r.read();
-    if (done) {
-      break;
+  const state = { done: false };
+  try {
+    while (true) {
+      const { value, done } = await r.read();
+      if (done) {
+        state.done = true;
+        break;
+      }
+      if (value) {
+        yield dec.decode(value, { stream: true });
+      }
     }
-    if (value) {
-      yield dec.decode(value, { stream: true });
+  } finally {
+    if (!state.done) {
+      // Consumer stopped early (or read failed): release the upstream connection
+      await r.cancel().catch(() => undefined);
     }
   }
 }
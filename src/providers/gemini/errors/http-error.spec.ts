@@ -155,6 +155,21 @@ describe("HTTP Error Utilities", () => {
       });
     });
 
+    describe("Request id header", () => {
+      it("should keep the upstream request id", () => {
+        const response = mockResponse({ status: 500, headers: { "x-request-id": "req_123" } });
+        const error = httpErrorFromResponse(response);
+
+        expect(error.requestId).toBe("req_123");
+      });
+
+      it("should leave request id undefined when absent", () => {
+        const error = httpErrorFromResponse(mockResponse({ status: 500 }));
+
+        expect(error.requestId).toBeUndefined();
+      });
+    });
+
     describe("Message formatting", () => {
       it("should format message with status and statusText", () => {
         const response = mockResponse({ status: 404, statusText: "Not Found" });
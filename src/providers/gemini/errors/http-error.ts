@@ -12,8 +12,9 @@ export class HttpError extends Error {
   status: number;
   code?: string;
   retryAfter?: number;
+  requestId?: string;
 
-  constructor(status: number, message: string, code?: string, retryAfter?: number) {
+  constructor(status: number, message: string, code?: string, retryAfter?: number, requestId?: string) {
     super(message);
     this.name = "HttpError";
     this.status = status;
@@ -23,6 +24,9 @@ export class HttpError extends Error {
     if (typeof retryAfter === "number" && !Number.isNaN(retryAfter)) {
       this.retryAfter = retryAfter;
     }
+    if (requestId) {
+      this.requestId = requestId;
+    }
   }
 }
 
@@ -56,7 +60,7 @@ function normalizeErrorCode(status: number, fallback?: string): string | undefin
 
 /**
  * Creates an HttpError instance from an HTTP response object.
- * Extracts error details including status code, message, and retry-after headers.
+ * Extracts error details including status code, message, retry-after and request-id headers.
  * @param res - The HTTP response object
  * @param bodyText - Optional response body text to include in error message
  * @param fallbackCode - Optional fallback error code if status doesn't map to a standard code
@@ -65,6 +69,7 @@ function normalizeErrorCode(status: number, fallback?: string): string | undefin
 export function httpErrorFromResponse(res: Response, bodyText?: string, fallbackCode?: string): HttpError {
   const retryAfterHeader = res.headers?.get?.("retry-after");
   const retryAfterNum = retryAfterHeader ? parseInt(retryAfterHeader, 10) : undefined;
+  const requestIdHeader = res.headers?.get?.("x-request-id") ?? res.headers?.get?.("request-id");
   const status = res.status ? res.status : 500;
   const statusText = res.statusText ? res.statusText : "";
   const hasBodyText = bodyText ? String(bodyText).trim().length > 0 : false;
@@ -72,5 +77,5 @@ export function httpErrorFromResponse(res: Response, bodyText?: string, fallback
   const code = normalizeErrorCode(status, fallbackCode);
   const validRetryAfter =
     retryAfterNum !== undefined ? (!Number.isNaN(retryAfterNum) ? retryAfterNum : undefined) : undefined;
-  return new HttpError(status, message, code, validRetryAfter);
+  return new HttpError(status, message, code, validRetryAfter, requestIdHeader ?? undefined);
 }
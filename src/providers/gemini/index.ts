@@ -22,6 +22,11 @@ export type {
   GeminiClientOptions,
   GeminiPart,
   GeminiContent,
+  GeminiSchema,
+  GeminiThinkingConfig,
+  GeminiFunctionDeclaration,
+  GeminiTool,
+  GeminiToolConfig,
   GenerateContentRequest,
   GenerateContentResponse,
   StreamedPart,
@@ -33,5 +38,6 @@ export type {
   EmbedContentResponse,
   BatchEmbedContentsRequest,
   BatchEmbedContentsResponse,
+  ContentEmbedding,
 } from "./client/fetch-client";
 export { GeminiFetchClient } from "./client/fetch-client";
@@ -47,6 +47,13 @@ export function isChatInputAudioPart(part: ChatCompletionContentPart): part is C
   return part.type === "input_audio";
 }
 
+/**
+ * Check if a content part is a file part
+ */
+export function isChatFilePart(part: ChatCompletionContentPart): part is ChatCompletionContentPart.File {
+  return part.type === "file";
+}
+
 /**
  * Check if a content part is a refusal part
  */
@@ -49,6 +49,7 @@ export {
   isOpenAIChatTextPart,
   isChatImagePart,
   isChatInputAudioPart,
+  isChatFilePart,
   isChatRefusalPart,
   isChatCompletionContentPart,
   isStringContent,
@@ -11,6 +11,7 @@ export {
   isFunctionCallItem,
   isFunctionToolCall,
   isFunctionToolCallOutput,
+  isToolChoiceAllowed,
   isToolChoiceFunction,
   isToolChoiceOptions,
   isWebSearchCallItem,
@@ -55,6 +56,7 @@ export {
   responseHasFunctionCall,
   isResponseFunctionToolCall,
   isResponseOutputMessage,
+  isResponseReasoningItem,
   isResponseOutputText,
   isMessageOutput,
   isFunctionCallOutput,
@@ -67,6 +69,7 @@ export {
   isEasyInputMessage,
   isInputText,
   isInputImage,
+  isInputFile,
 } from "./input";
 
 // Re-export ResponseItem guards
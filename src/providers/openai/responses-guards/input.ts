@@ -9,6 +9,7 @@ import type {
   EasyInputMessage,
   ResponseInputText,
   ResponseInputImage,
+  ResponseInputFile,
 } from "openai/resources/responses/responses";
 
 /**
@@ -69,4 +70,18 @@ export const isInputImage = (item: unknown): item is ResponseInputImage => {
     return false;
   }
   return "image_url" in item;
-};
\ No newline at end of file
+};
+/**
+ * Checks if an item is a ResponseInputFile.
+ * @param item - The item to validate
+ * @returns True if item is ResponseInputFile
+ */
+export const isInputFile = (item: unknown): item is ResponseInputFile => {
+  if (!item) {
+    return false;
+  }
+  if (typeof item !== "object") {
+    return false;
+  }
+  return (item as unknown as { type: string }).type === "input_file";
+};
@@ -12,6 +12,7 @@ import type {
   ResponseOutputText,
   ResponseFunctionToolCall,
   ResponseItem,
+  ResponseReasoningItem,
 } from "openai/resources/responses/responses";
 import { isObject } from "../../../utils/type-guards";
 
@@ -52,6 +53,15 @@ export function isResponseOutputMessage(item: ResponseOutputItem): item is Respo
   return item.type === "message";
 }
 
+/**
+ * Checks if a ResponseOutputItem is a reasoning item.
+ * @param item - The ResponseOutputItem to validate
+ * @returns True if item is ResponseReasoningItem
+ */
+export function isResponseReasoningItem(item: ResponseOutputItem): item is ResponseReasoningItem {
+  return item.type === "reasoning";
+}
+
 /**
  * Checks if a ResponseOutputItem is a message output (alternative name).
  * @param output - The ResponseOutputItem to validate
@@ -10,6 +10,7 @@ import type {
   FunctionTool as ResponsesFunctionTool,
   ResponseFunctionToolCall,
   ResponseFunctionToolCallOutputItem,
+  ToolChoiceAllowed,
   ToolChoiceFunction,
   ToolChoiceOptions,
 } from "openai/resources/responses/responses";
@@ -93,6 +94,18 @@ export const isToolChoiceFunction = (choice: unknown): choice is ToolChoiceFunct
   return "name" in choice;
 };
 
+/**
+ * Checks if a tool choice is a ToolChoiceAllowed (`allowed_tools`) constraint.
+ * @param choice - The tool choice to validate
+ * @returns True if choice is ToolChoiceAllowed
+ */
+export const isToolChoiceAllowed = (choice: unknown): choice is ToolChoiceAllowed => {
+  if (!isObject(choice) || choice.type !== "allowed_tools") {
+    return false;
+  }
+  return Array.isArray(choice.tools);
+};
+
 /**
  * Checks if a tool choice is ToolChoiceOptions.
  * @param choice - The tool choice to validate
@@ -187,4 +200,4 @@ export const hasToolCalls = <T extends { tool_calls?: unknown }>(
     return false;
   }
   return Array.isArray(message.tool_calls);
-};
\ No newline at end of file
+};
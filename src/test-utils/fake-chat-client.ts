@@ -0,0 +1,91 @@
+/**
+ * @file Chat Completions fixtures and a fake client for tests of client wrappers
+ * (retries, rate limits, circuit breakers, routing, emulated completions)
+ */
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+} from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
+import type { OpenAICompatibleClient } from "../adapters/openai-client-types";
+import { defineChatCompletionsCreate, defineResponsesCreate } from "../adapters/openai-client-types";
+
+/**
+ * A finished chat completion with one assistant choice.
+ *
+ * @param content - Assistant text
+ * @param overrides - Model, fields of the choice and usage to set
+ */
+export function chatCompletion(
+  content = "ok",
+  overrides: { model?: string; choice?: Partial<ChatCompletion.Choice>; usage?: CompletionUsage } = {},
+): ChatCompletion {
+  const completion: ChatCompletion = {
+    id: "c1",
+    object: "chat.completion",
+    created: 0,
+    model: overrides.model ?? "m",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content, refusal: null },
+        finish_reason: "stop",
+        logprobs: null,
+        ...overrides.choice,
+      },
+    ],
+  };
+  if (overrides.usage) {
+    completion.usage = overrides.usage;
+  }
+  return completion;
+}
+
+/**
+ * A streamed chat chunk with one choice.
+ *
+ * @param delta - Delta of the choice; a string is shorthand for `{ content }`
+ * @param finishReason - Finish reason of the choice
+ */
+export function chatChunk(
+  delta: string | ChatCompletionChunk.Choice["delta"],
+  finishReason: ChatCompletionChunk.Choice["finish_reason"] = null,
+): ChatCompletionChunk {
+  return {
+    id: "c1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "m",
+    choices: [{ index: 0, delta: typeof delta === "string" ? { content: delta } : delta, finish_reason: finishReason }],
+  };
+}
+
+/** Stream one chunk per content; an Error entry is thrown at that position */
+export async function* chatStream(items: Array<string | Error>): AsyncGenerator<ChatCompletionChunk> {
+  for (const item of items) {
+    if (item instanceof Error) {
+      throw item;
+    }
+    yield chatChunk(item);
+  }
+}
+
+/**
+ * Client whose Chat Completions calls run `create`. Responses calls throw; model listing runs
+ * `listModels`, or returns an empty list.
+ */
+export function fakeChatClient(
+  create: (params: ChatCompletionCreateParams) => Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>>,
+  listModels: OpenAICompatibleClient["models"]["list"] = async () => ({ data: [] }),
+): OpenAICompatibleClient {
+  return {
+    chat: { completions: { create: defineChatCompletionsCreate((params) => create(params)) } },
+    responses: {
+      create: defineResponsesCreate(async () => {
+        throw new Error("not used");
+      }),
+    },
+    models: { list: listModels },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * @file Local HTTP stand-in for upstream APIs, for tests that drive the real SDK clients
+ * (OpenAI, Anthropic, Gemini fetch client) end to end
+ */
+import { createServer } from "node:http";
+import type { IncomingHttpHeaders, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type UpstreamRequest = {
+  method: string;
+  /** Path with query string */
+  url: string;
+  /** Path without query string */
+  path: string;
+  headers: IncomingHttpHeaders;
+  /** JSON body; undefined when the request had none */
+  body: unknown;
+};
+
+/** Canned answer; `body` is sent as JSON unless it is a string */
+export type UpstreamReply = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+/**
+ * Answers one request. Returning undefined leaves `res` to the handler, which can stream
+ * into it or never answer at all.
+ */
+export type UpstreamHandler = (request: UpstreamRequest, res: ServerResponse) => UpstreamReply | undefined;
+
+export type FakeUpstream = {
+  /** `http://127.0.0.1:<port>`; append the API's base path (`/v1`) as the client expects */
+  origin: string;
+  /** Requests received so far, in arrival order */
+  requests: UpstreamRequest[];
+};
+
+function send(res: ServerResponse, reply: UpstreamReply): void {
+  const text = typeof reply.body === "string" ? reply.body : JSON.stringify(reply.body ?? {});
+  res.writeHead(reply.status ?? 200, { "content-type": "application/json", ...reply.headers });
+  res.end(text);
+}
+
+/**
+ * Serve `handler` on a free local port for the duration of `run`. Open connections, including
+ * requests the handler never answered, are closed afterwards.
+ *
+ * @param handler - Answers each request once its body has arrived
+ * @param run - Test body; receives the server origin and the recorded requests
+ */
+export async function withFakeUpstream(
+  handler: UpstreamHandler,
+  run: (upstream: FakeUpstream) => Promise<void>,
+): Promise<void> {
+  const requests: UpstreamRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      const url = req.url ?? "/";
+      const request: UpstreamRequest = {
+        method: req.method ?? "GET",
+        url,
+        path: url.split("?")[0] ?? url,
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined,
+      };
+      requests.push(request);
+      const reply = handler(request, res);
+      if (reply) {
+        send(res, reply);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run({ origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests });
+  } finally {
+    await new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Holding back an async stream until its first output, so failures before it can be handled
+ * (retried, failed over) while nothing has reached the consumer yet.
+ */
+
+async function* replay<T>(buffered: T[], iterator: AsyncIterator<T>, exhausted: boolean): AsyncGenerator<T> {
+  const state = { finished: exhausted };
+  try {
+    yield* buffered;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+    state.finished = true;
+  } finally {
+    if (!state.finished) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Read a stream up to and including its first output event. Errors thrown before then, and events
+ * `failureOf` recognizes as failures, reject the returned promise; nothing has reached the caller yet.
+ *
+ * @param stream - Upstream events
+ * @param isOutput - Whether an event commits the stream (text, tool calls, finish)
+ * @param failureOf - Error for in-band failure events, if the protocol has them
+ * @returns Stream replaying the events read so far, then the rest
+ */
+export async function awaitFirstOutput<T>(
+  stream: AsyncIterable<T>,
+  isOutput: (event: T) => boolean,
+  failureOf?: (event: T) => Error | undefined,
+): Promise<AsyncIterable<T>> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const buffered: T[] = [];
+  for (;;) {
+    const next = await iterator.next();
+    if (next.done) {
+      return replay(buffered, iterator, true);
+    }
+    const failure = failureOf?.(next.value);
+    if (failure) {
+      await iterator.return?.();
+      throw failure;
+    }
+    buffered.push(next.value);
+    if (isOutput(next.value)) {
+      return replay(buffered, iterator, false);
+    }
+  }
+}
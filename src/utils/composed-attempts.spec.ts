@@ -55,3 +55,14 @@ describe("composed attempts utility", () => {
     expect(n2).toBe(orig);
   });
 });
+
+describe("composed attempts shouldFallback", () => {
+  it("only falls back on errors the predicate accepts", async () => {
+    const retryable = new Error("overloaded");
+    const fatal = new Error("bad request");
+    const next = async () => 7;
+    const fallbackOnRetryable = { autoFallback: true, shouldFallback: (e: Error) => e === retryable };
+    await expect(runComposedAttempts([async () => { throw retryable; }, next], fallbackOnRetryable)).resolves.toBe(7);
+    await expect(runComposedAttempts([async () => { throw fatal; }, next], fallbackOnRetryable)).rejects.toBe(fatal);
+  });
+});
@@ -11,12 +11,13 @@ export const normalizeError = (e: unknown): Error => (e instanceof Error ? e : n
  * Run a composed set of attempts in order. If an attempt fails:
  * - when autoFallback is false, immediately throw the original error (no masking)
  * - when autoFallback is true, continue to the next attempt; if all fail, throw AggregateError of all errors
+ * - `shouldFallback` narrows autoFallback to the errors it accepts; others stop the run like autoFallback=false
  */
 export async function runComposedAttempts<T>(
   attempts: Array<() => Promise<T>>,
-  options: { autoFallback: boolean },
+  options: { autoFallback: boolean; shouldFallback?: (error: Error) => boolean },
 ): Promise<T> {
-  const { autoFallback } = options;
+  const { autoFallback, shouldFallback } = options;
   const errors: Error[] = [];
   for (let i = 0; i < attempts.length; i += 1) {
     try {
@@ -25,7 +26,8 @@ export async function runComposedAttempts<T>(
       const normalized = normalizeError(err);
       errors.push(normalized);
       const isLast = i === attempts.length - 1;
-      if (!autoFallback || isLast) {
+      const fallback = autoFallback ? (shouldFallback?.(normalized) ?? true) : false;
+      if (!fallback || isLast) {
         if (errors.length > 1) {
           throw new AggregateError(errors, "All composed attempts failed");
         }
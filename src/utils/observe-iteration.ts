@@ -0,0 +1,71 @@
+/**
+ * @file Watching how the consumer of an async stream finishes with it, including streams that
+ * are cancelled before they are first read (an async generator skips its `finally` then).
+ */
+
+export type IterationEnd =
+  | { reason: "done" }
+  | { reason: "error"; error: unknown }
+  /** The consumer called `return()`, read or not */
+  | { reason: "cancelled" };
+
+export type IterationObserver<T> = {
+  /** Called for each event before it reaches the consumer */
+  onEvent?: (event: T) => void;
+  /** Called once, when the stream ends, fails or is cancelled */
+  onEnd: (end: IterationEnd) => void;
+};
+
+/**
+ * Pass a stream through unchanged while reporting its events and how it ended.
+ *
+ * @param stream - Source events
+ * @param observer - Callbacks; `onEnd` runs at most once
+ * @returns Iterator over the same events
+ */
+export function observeIteration<T>(
+  stream: AsyncIterable<T>,
+  observer: IterationObserver<T>,
+): AsyncIterableIterator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const state = { ended: false };
+  const end = (how: IterationEnd): void => {
+    if (state.ended) {
+      return;
+    }
+    state.ended = true;
+    observer.onEnd(how);
+  };
+
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+    async next() {
+      try {
+        const result = await iterator.next();
+        if (result.done) {
+          end({ reason: "done" });
+          return result;
+        }
+        observer.onEvent?.(result.value);
+        return result;
+      } catch (error) {
+        end({ reason: "error", error });
+        throw error;
+      }
+    },
+    async return(value?: unknown) {
+      end({ reason: "cancelled" });
+      await iterator.return?.(value);
+      return { done: true, value: undefined };
+    },
+    async throw(error?: unknown) {
+      end({ reason: "error", error });
+      if (iterator.throw) {
+        return iterator.throw(error);
+      }
+      throw error;
+    },
+  };
+}
@@ -1,12 +1,13 @@
 /**
  * @file Promise-based execFile helpers with optional stdin and error augmentation
  */
-import { execFile, type ExecFileOptions } from "node:child_process";
+import { execFile, type ChildProcess, type ExecFileOptions } from "node:child_process";
 
 export type ExecStringOptions = Omit<ExecFileOptions, "encoding"> & { encoding?: BufferEncoding };
 
 /**
  * Execute a file and return stdout as string. Attaches stdout/stderr to the thrown Error on failure.
+ * Aborting `opts.signal` kills the child and rejects with an AbortError once it has exited.
  */
 export function execFileString(
   file: string,
@@ -23,21 +24,21 @@ export function execFileString(
         timeout: opts.timeout,
         maxBuffer: opts.maxBuffer,
         env: opts.env,
+        signal: opts.signal,
         encoding: opts.encoding ?? ("utf8" as BufferEncoding),
       },
       (error, stdout, stderr) => {
-        if (error) {
-          const base = error instanceof Error ? error : new Error(String(error));
-          if (typeof stdout !== "undefined") {
-            Object.defineProperty(base, "stdout", { value: String(stdout), writable: true, configurable: true });
-          }
-          if (typeof stderr !== "undefined") {
-            Object.defineProperty(base, "stderr", { value: String(stderr), writable: true, configurable: true });
-          }
-          reject(base);
+        if (!error) {
+          resolve(stdout as string);
           return;
         }
-        resolve(stdout as string);
+        const err = withOutput(error, stdout, stderr);
+        if (opts.signal?.aborted && isRunning(child)) {
+          // execFile reports the abort as soon as it sends the kill; wait until the child is gone
+          child.once("exit", () => reject(err));
+          return;
+        }
+        reject(err);
       },
     );
     if (input != null && child.stdin) {
@@ -47,3 +48,20 @@ export function execFileString(
   });
 }
 
+function isRunning(child: ChildProcess): boolean {
+  if (child.exitCode !== null) {
+    return false;
+  }
+  return child.signalCode === null;
+}
+
+function withOutput(error: unknown, stdout: unknown, stderr: unknown): Error {
+  const base = error instanceof Error ? error : new Error(String(error));
+  if (typeof stdout !== "undefined") {
+    Object.defineProperty(base, "stdout", { value: String(stdout), writable: true, configurable: true });
+  }
+  if (typeof stderr !== "undefined") {
+    Object.defineProperty(base, "stderr", { value: String(stderr), writable: true, configurable: true });
+  }
+  return base;
+}
@@ -15,16 +15,18 @@ export type SpawnStreamOptions = {
   writable: Writable;
   // Called after process close, before resolution/rejection. Throw to reject.
   onValidateClose?: (stderrText: string) => void | Promise<void>;
+  // Kills the child when aborted; rejects after it has exited.
+  signal?: AbortSignal;
 };
 
 /**
  * Spawn a child process and stream stdout to the provided writable.
  * - mode=text: pipes raw stdout
  * - mode=jsonl: parses JSON Lines and writes only the `result` string field of each object
- * Ensures writable is closed and child is terminated on error conditions.
+ * Ensures writable is closed and child is terminated on error conditions or when `signal` aborts.
  */
 export function spawnStream(opts: SpawnStreamOptions): Promise<void> {
-  const { cmd, args = [], cwd, mode, writable, onValidateClose } = opts;
+  const { cmd, args = [], cwd, mode, writable, onValidateClose, signal: abortSignal } = opts;
 
   const killIfAlive = (child: ReturnType<typeof spawn>, signal: NodeJS.Signals) => {
     try {
@@ -49,6 +51,10 @@ export function spawnStream(opts: SpawnStreamOptions): Promise<void> {
   };
 
   return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortError(abortSignal));
+      return;
+    }
     const child = spawn(cmd, args, { cwd });
     const errChunks: string[] = [];
 
@@ -88,8 +94,24 @@ export function spawnStream(opts: SpawnStreamOptions): Promise<void> {
       })();
     })();
 
+    const onAbort = () => {
+      try {
+        writable.end();
+      } catch {
+        // ignore
+      }
+      safeKill(child);
+    };
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+
     child.on("error", (err) => handleError(err));
     child.on("close", (code: number) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      if (abortSignal?.aborted) {
+        // Reject only once the killed child is gone, so callers can rely on it having exited
+        reject(abortError(abortSignal));
+        return;
+      }
       const finalize = async () => {
         const stderrText = errChunks.join("");
         if (onValidateClose) {
@@ -115,3 +137,13 @@ export function spawnStream(opts: SpawnStreamOptions): Promise<void> {
     });
   });
 }
+
+function abortError(signal: AbortSignal | undefined): Error {
+  const reason: unknown = signal?.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+  const err = new Error("The operation was aborted");
+  err.name = "AbortError";
+  return err;
+}
@@ -0,0 +1,22 @@
+/**
+ * @file Tests for retry-after parsing
+ */
+import { parseRetryAfterMs, retryAfterMsFromHeaders } from "./retry-after";
+
+describe("parseRetryAfterMs", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfterMs("2")).toBe(2000);
+    expect(parseRetryAfterMs("250", 1)).toBe(250);
+    expect(parseRetryAfterMs(new Date(Date.now() - 5_000).toUTCString())).toBe(0);
+    expect(parseRetryAfterMs("soon")).toBeUndefined();
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+  });
+});
+
+describe("retryAfterMsFromHeaders", () => {
+  it("prefers retry-after-ms over retry-after", () => {
+    expect(retryAfterMsFromHeaders(new Headers({ "retry-after-ms": "1500", "retry-after": "2" }))).toBe(1500);
+    expect(retryAfterMsFromHeaders(new Headers({ "retry-after": "3" }))).toBe(3000);
+    expect(retryAfterMsFromHeaders(new Headers())).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * @file Reading the delay an upstream asks for before the next call (`retry-after`, `retry-after-ms`)
+ */
+
+/**
+ * Parse a `retry-after` style value: a number of `unitMs` units, or an HTTP date.
+ *
+ * @param value - Header value
+ * @param unitMs - Milliseconds per unit of a numeric value (1000 for `retry-after`)
+ * @returns Delay in milliseconds, or undefined when absent or unreadable
+ */
+export function parseRetryAfterMs(value: string | null | undefined, unitMs = 1000): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const amount = Number(value);
+  if (Number.isFinite(amount)) {
+    return amount * unitMs;
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay requested by response headers: OpenAI's `retry-after-ms`, else the standard `retry-after`.
+ *
+ * @param headers - Response headers
+ * @returns Delay in milliseconds, or undefined when none is given
+ */
+export function retryAfterMsFromHeaders(headers: Headers): number | undefined {
+  return parseRetryAfterMs(headers.get("retry-after-ms"), 1) ?? parseRetryAfterMs(headers.get("retry-after"));
+}
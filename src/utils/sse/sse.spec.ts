@@ -163,12 +163,30 @@ describe("SSE writer + reader roundtrip", () => {
       yield { event: "nullish", data: null };
     }
 
-    const stream = createSSEStream(gen(), { includeEndEvent: false });
+    const stream = createSSEStream(gen());
     const items = await collect(parseSSEStream(stream));
     // null payload is skipped by reader
     expect(items).toEqual([{ foo: 1 }, { type: "custom.type", value: 42 }]);
   });
 
+  it("does not append an end event and returns the source when cancelled", async () => {
+    const state = { finished: false };
+    async function* gen() {
+      try {
+        yield { type: "first" };
+        yield { type: "second" };
+      } finally {
+        state.finished = true;
+      }
+    }
+
+    const reader = createSSEStream(gen()).getReader();
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toBe('event: first\ndata: {"type":"first"}\n\n');
+    await reader.cancel();
+    expect(state.finished).toBe(true);
+  });
+
   it("parses raw SSE text with multiple frames", async () => {
     const raw = [
       "event: message\n" + 'data: {"a":1}\n\n',
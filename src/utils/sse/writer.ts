@@ -22,41 +22,101 @@ export function serializeSSE(event: SSEEventLike): string {
   return `event: ${name}\n` + `data: ${JSON.stringify(payload)}\n\n`;
 }
 
+/**
+ * Serializes a data-only SSE frame. Strings are written verbatim (e.g. `[DONE]`),
+ * anything else as JSON.
+ */
+export function serializeSSEData(data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  return `data: ${payload}\n\n`;
+}
+
+/**
+ * Turns source events into text/event-stream frames.
+ * Each hook returns the text to write; an empty string writes nothing.
+ */
+export type SSEFramer = {
+  frame: (event: unknown) => string;
+  /** Written after the source completes. */
+  end?: () => string;
+  /** Written when the source throws; the stream then closes. */
+  error?: (err: unknown) => string;
+  /** Written whenever the source stays idle for `intervalMs`. */
+  keepalive?: { intervalMs: number; frame: string };
+};
+
+const defaultFramer: SSEFramer = {
+  frame: toFrame,
+  error: (err) => serializeSSE({ event: "error", data: { message: err instanceof Error ? err.message : String(err) } }),
+};
+
+async function nextWithKeepalive(
+  iterator: AsyncIterator<unknown>,
+  keepalive: SSEFramer["keepalive"],
+  emit: (frame: string) => void,
+): Promise<IteratorResult<unknown>> {
+  const pending = iterator.next();
+  if (!keepalive) {
+    return pending;
+  }
+  for (;;) {
+    const timer: { id?: ReturnType<typeof setTimeout> } = {};
+    const tick = new Promise<"tick">((resolve) => {
+      timer.id = setTimeout(() => resolve("tick"), keepalive.intervalMs);
+    });
+    const result = await Promise.race([pending, tick]);
+    clearTimeout(timer.id);
+    if (result !== "tick") {
+      return result;
+    }
+    emit(keepalive.frame);
+  }
+}
+
 /**
  * Creates a ReadableStream<Uint8Array> from an async iterable of events.
- * If the iterable yields plain objects with a `type` field, it will be used
- * as the SSE `event` name and the object itself becomes the `data`.
+ * Events are pulled on demand, so a slow reader applies backpressure to the source, and
+ * cancelling the stream returns the source iterator.
+ * By default, plain objects with a `type` field use it as the SSE `event` name and the object
+ * itself becomes the `data`; pass a framer for provider-specific framing.
  */
 export function createSSEStream(
   events: AsyncIterable<unknown>,
-  options?: { includeEndEvent?: boolean },
+  framer: SSEFramer = defaultFramer,
 ): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
-  const includeEndEvent = options?.includeEndEvent ?? true;
+  const iterator = events[Symbol.asyncIterator]();
   return new ReadableStream<Uint8Array>({
-    async start(controller) {
-      try {
-        for await (const anyEvent of events) {
-          controller.enqueue(encoder.encode(toFrame(anyEvent)));
+    async pull(controller) {
+      const enqueue = (text: string) => {
+        if (text) {
+          controller.enqueue(encoder.encode(text));
         }
-        if (includeEndEvent) {
-          controller.enqueue(encoder.encode(serializeSSE({ event: "stream_end", data: {} })));
+      };
+      try {
+        const next = await nextWithKeepalive(iterator, framer.keepalive, enqueue);
+        if (next.done) {
+          enqueue(framer.end ? framer.end() : "");
+          controller.close();
+          return;
         }
+        enqueue(framer.frame(next.value));
       } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        controller.enqueue(encoder.encode(serializeSSE({ event: "error", data: { message: msg } })));
-      } finally {
+        enqueue(framer.error ? framer.error(err) : "");
         controller.close();
       }
     },
+    async cancel() {
+      await iterator.return?.();
+    },
   });
 }
 
 /**
  * Builds a Response object with proper SSE headers from an async iterable.
  */
-export function sseResponseFromAsyncIterable(events: AsyncIterable<unknown>): Response {
-  const body = createSSEStream(events);
+export function sseResponseFromAsyncIterable(events: AsyncIterable<unknown>, framer?: SSEFramer): Response {
+  const body = createSSEStream(events, framer);
   return new Response(body, {
     status: 200,
     headers: {
@@ -92,7 +152,11 @@ function isTypedObject(v: unknown): v is { type: string } & Record<string, unkno
   return typeof obj.type === "string";
 }
 
-function toFrame(anyEvent: unknown): string {
+/**
+ * Frames an event as `event: <name>` + JSON `data`, taking the name from an SSE-like
+ * `{event, data}` object or a `type` field.
+ */
+export function toFrame(anyEvent: unknown): string {
   if (isSSEEventLike(anyEvent)) {
     return serializeSSE(anyEvent);
   }
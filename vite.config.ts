@@ -45,6 +45,9 @@ export default defineConfig({
         "fetch/openai": "src/ports/fetch/openai.ts",
         "fetch/gemini": "src/ports/fetch/gemini.ts",
         "fetch/claude": "src/ports/fetch/claude.ts",
+        // node:http server and its CLI (Node-only; never imported by the entries above)
+        "ports/http": "src/ports/http/index.ts",
+        "ports/http/cli": "src/ports/http/cli.ts",
         // Adapters (major conversions)
         "adapters/openai-compatible": "src/adapters/openai-compatible/index.ts",
         "adapters/openai-to-claude": "src/adapters/openai-to-claude/index.ts",